@@ -4,19 +4,13 @@ import TouchLayer from "../shared/TouchLayer";
 import { RoomSocketProvider } from "../../contexts/RoomSocketContext";
 import { getPersistentUserId } from "../../utils/userId";
 import { CURSOR_THROTTLE_MS, SMOOTH_CURSOR_CONFIG } from "../../utils/cursor";
+import { computeThrottleMs } from "../../utils/cursorThrottle";
+import { CURSOR_FORMAT_PARAM } from "../../utils/cursorWire";
 
 const SLIDER_STYLE: React.CSSProperties = { width: 80 };
 const LABEL_STYLE: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, color: 'rgba(255,255,255,0.7)' };
 const DIVIDER_STYLE: React.CSSProperties = { borderTop: '1px solid rgba(255,255,255,0.1)', margin: '2px 0' };
 
-// Quadratic ease-in scaling: cheap at low counts, progressively more throttling near capacity.
-function computeThrottleMs(count: number, base: number, scaleStart: number, scaleEnd: number, max: number): number {
-  if (count <= scaleStart) return base;
-  if (count >= scaleEnd) return max;
-  const t = (count - scaleStart) / (scaleEnd - scaleStart);
-  return Math.round(base + (max - base) * t * t);
-}
-
 
 /**
  * Minimal canvas app wired to the stripped-down perf party server.
@@ -24,7 +18,7 @@ function computeThrottleMs(count: number, base: number, scaleStart: number, scal
  * Use this with the load test scripts to assess peak performance.
  *
  * URL: /#perf
- * URL params: ?room=<name>
+ * URL params: ?room=<name>, ?cursorFormat=binary
  */
 export default function PerfCanvasApp({ room }: { room: string }) {
   const [userId] = useState(() => getPersistentUserId());
@@ -45,14 +39,18 @@ export default function PerfCanvasApp({ room }: { room: string }) {
   const [throttleScaleStart, setThrottleScaleStart] = useState(300);
   const [throttleScaleEnd, setThrottleScaleEnd] = useState(400);
   const [throttleMax, setThrottleMax] = useState(250);
+  const [binaryCursors, setBinaryCursors] = useState(
+    () => new URLSearchParams(window.location.search).get(CURSOR_FORMAT_PARAM) === 'binary',
+  );
 
+  // Off: TouchLayer follows the server's recommended pacing.
   const throttleMs = throttleEnabled
     ? computeThrottleMs(presenceCount, throttleBase, throttleScaleStart, throttleScaleEnd, throttleMax)
-    : CURSOR_THROTTLE_MS;
+    : undefined;
 
   return (
     <div style={{ position: "relative", width: "100%", height: "100dvh", background: "#111", overflow: "hidden" }}>
-      <RoomSocketProvider room={room} userId={userId} party="perf">
+      <RoomSocketProvider room={room} userId={userId} party="perf" cursorFormat={binaryCursors ? 'binary' : 'json'}>
       <Canvas
         userId={userId}
         onPresenceCount={setPresenceCount}
@@ -117,9 +115,14 @@ export default function PerfCanvasApp({ room }: { room: string }) {
           </>
         )}
         <div style={DIVIDER_STYLE} />
+        <label style={LABEL_STYLE}>
+          <input type="checkbox" checked={binaryCursors} onChange={e => setBinaryCursors(e.target.checked)} />
+          binary cursors
+        </label>
+        <div style={DIVIDER_STYLE} />
         <label style={LABEL_STYLE}>
           <input type="checkbox" checked={throttleEnabled} onChange={e => setThrottleEnabled(e.target.checked)} />
-          adaptive throttle
+          manual throttle curve
           {throttleEnabled && <span style={{ color: 'rgba(255,255,255,0.4)' }}>· {throttleMs}ms</span>}
         </label>
         {throttleEnabled && (
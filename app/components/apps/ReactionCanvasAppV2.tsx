@@ -51,6 +51,7 @@ export default function ReactionCanvasAppV2({ videoId: videoIdProp }: { videoId?
   const [presenceCount, setPresenceCount] = useState<number>(0);
   const [activeCursorCount, setActiveCursorCount] = useState<number>(0);
   const [isViewer, setIsViewer] = useState(false);
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
   const [userCap, setUserCap] = useState<number | null>(null);
   const [viewerCount, setViewerCount] = useState(0);
   const [serverLabels, setServerLabels] = useState<ReactionLabelSet | null | undefined>(undefined);
@@ -190,8 +191,10 @@ export default function ReactionCanvasAppV2({ videoId: videoIdProp }: { videoId?
         {isViewer && (
           <div className="viewer-mode-banner">
             This room is full — you are watching in view-only mode.
-            {roomHasSpace && (
-              <button className="viewer-join-btn" onClick={handleJoinRequest}>Join</button>
+            {queuePosition !== null ? (
+              <span className="viewer-queue-position">You're #{queuePosition} in line</span>
+            ) : (
+              <button className="viewer-join-btn" onClick={handleJoinRequest}>{roomHasSpace ? 'Join' : 'Join waiting list'}</button>
             )}
           </div>
         )}
@@ -220,7 +223,9 @@ export default function ReactionCanvasAppV2({ videoId: videoIdProp }: { videoId?
           onViewerCount={setViewerCount}
           onConnectedAsViewer={(viewer, cap) => { setIsViewer(viewer); setUserCap(cap); }}
           onUserCapChanged={setUserCap}
-          onJoinApproved={() => setIsViewer(false)}
+          onJoinApproved={() => { setIsViewer(false); setQueuePosition(null); }}
+          onQueuePosition={setQueuePosition}
+          onReservationExpired={() => setIsViewer(true)}
           onSocketReady={(send) => { socketSendRef.current = send; }}
           onRoomLabelsChange={setServerLabels}
           onRoomAnchorsChange={setServerAnchors}
@@ -2,7 +2,7 @@ import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import ReactionCanvasParticipant from "../shared/ReactionCanvasParticipant";
 import AdminPanelNoDB from "../panels/AdminPanelNoDB";
 import InterfaceChipBar from "../shared/InterfaceChipBar";
-import type { SocialConfig, ValenceInputMode } from "../../types";
+import type { AgendaState, SocialConfig, ValenceInputMode } from "../../types";
 import { PANEL_REGISTRY } from "../../panelRegistry";
 import type { PanelDefinition } from "../../panelRegistry";
 import { SCREENS, isScreen } from "../../screens";
@@ -33,6 +33,7 @@ import { useHapticPriming } from "../../hooks/useHapticPriming";
 import { useLocalStorageState } from "../../hooks/useLocalStorageState";
 import WakeLockIndicatorButton from "../shared/WakeLockIndicatorButton";
 import { useWakeLock } from "../../utils/useWakeLock";
+import { useAdminToken } from "../../hooks/useAdminToken";
 import { PLUGIN_MAP } from "../../../plugins/index";
 
 const PANEL_COMPONENTS: Partial<Record<string, PanelDefinition['component']>> = {
@@ -131,8 +132,12 @@ function MobileOnlyGate() {
 
 export default function ReactionCanvasAppV4({ room }: { room: string }) {
   const [userId] = useState(() => getPersistentUserId());
+  // The emcee's participant socket carries the admin token too, so emcee-only panels
+  // (e.g. Map Maker) can send privileged messages over the shared connection.
+  const [isEmcee] = useState(() => getUnlockedInterfaces().includes('emcee'));
+  const { adminToken } = useAdminToken(room, isEmcee);
   return (
-    <RoomSocketProvider room={room} userId={userId}>
+    <RoomSocketProvider room={room} userId={userId} adminToken={isEmcee ? adminToken : null}>
       <ReactionCanvasAppV4Inner room={room} userId={userId} />
     </RoomSocketProvider>
   );
@@ -169,6 +174,7 @@ function ReactionCanvasAppV4Inner({ room, userId }: { room: string; userId: stri
   const [canvasBackgroundReactionState, setCanvasBackgroundReactionState] = useState<ReactionState>(null);
   const [presenceCount, setPresenceCount] = useState<number>(0);
   const [isViewer, setIsViewer] = useState(false);
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
   const [userCap, setUserCap] = useState<number | null>(null);
   const socketSendRef = useRef<((msg: string) => void) | null>(null);
   const [touchPos, setTouchPos] = useState<{ x: number; y: number } | null>(null);
@@ -178,6 +184,7 @@ function ReactionCanvasAppV4Inner({ room, userId }: { room: string; userId: stri
   const [serverSocialConfig, setServerSocialConfig] = useState<SocialConfig | null>(null);
   const [serverGreeterConfig, setServerGreeterConfig] = useState<GreeterConfig | null>(null);
   const [screenPanels, setScreenPanels] = useState<Record<string, string>>({ personal: 'canvas', commons: 'canvas' });
+  const [agendaHeader, setAgendaHeader] = useState<{ statement: string; position: number; total: number } | null>(null);
   const [valenceInputMode, setValenceInputMode] = useState<ValenceInputMode>('touch');
   const [orientationPermission, setOrientationPermission] = useState<'unknown' | 'granted' | 'denied' | 'not-required'>('unknown');
   const [connectedUserIds, setConnectedUserIds] = useState<string[]>([]);
@@ -231,6 +238,11 @@ function ReactionCanvasAppV4Inner({ room, userId }: { room: string; userId: stri
         if (hasConnectedRef.current && !isEmcee && unlockedInterfaces.includes(screenName)) triggerBuzzForUpdate();
         setScreenPanels(prev => ({ ...prev, [screenName]: (data.screenPanel as string) ?? 'canvas' }));
       }
+      if (data.type === 'agendaChanged' || (data.type === 'connected' && data.agenda)) {
+        const agenda = data.agenda as AgendaState;
+        const item = agenda.currentIndex === null ? null : agenda.items[agenda.currentIndex];
+        setAgendaHeader(item ? { statement: item.statement, position: agenda.currentIndex! + 1, total: agenda.items.length } : null);
+      }
       if (data.type === 'connected') {
         if ('currentScreenPanels' in data && data.currentScreenPanels && typeof data.currentScreenPanels === 'object') {
           setScreenPanels(prev => ({ ...prev, ...(data.currentScreenPanels as Record<string, string>) }));
@@ -458,14 +470,26 @@ function ReactionCanvasAppV4Inner({ room, userId }: { room: string; userId: stri
               hideTouchLayer={isViewer || activeScreenPanel === 'social-sharing' || activeScreenPanel === 'greeter' || activeScreenPanel === 'signature'}
               touchImageUrl={PLUGIN_MAP[activeScreenPanel]?.canvasOverlay?.background ? (serverImageUrl || undefined) : undefined}
               backgroundOverlay={(() => { const Bg = PLUGIN_MAP[activeScreenPanel]?.canvasOverlay?.background; return Bg ? <Bg /> : null; })()}
-            bannerSlot={isViewer ? (
-              <div className="viewer-mode-banner">
-                This room is full — you are watching in view-only mode.
-                {roomHasSpace && (
-                  <button className="viewer-join-btn" onClick={handleJoinRequest}>Join</button>
-                )}
-              </div>
-            ) : null}
+              // The agenda header already shows the statement, which is also the "Now" label.
+              showNowLabel={agendaHeader === null}
+            bannerSlot={<>
+              {agendaHeader && (
+                <div className={`agenda-statement-banner${isViewer ? ' agenda-statement-banner--below' : ''}`}>
+                  <span className="agenda-statement-count">{agendaHeader.position}/{agendaHeader.total}</span>
+                  {agendaHeader.statement}
+                </div>
+              )}
+              {isViewer && (
+                <div className="viewer-mode-banner">
+                  This room is full — you are watching in view-only mode.
+                  {queuePosition !== null ? (
+                    <span className="viewer-queue-position">You're #{queuePosition} in line</span>
+                  ) : (
+                    <button className="viewer-join-btn" onClick={handleJoinRequest}>{roomHasSpace ? 'Join' : 'Join waiting list'}</button>
+                  )}
+                </div>
+              )}
+            </>}
             topRightSlot={
               <>
                 <div onPointerDown={hapticOnPointerDown}>
@@ -525,7 +549,9 @@ function ReactionCanvasAppV4Inner({ room, userId }: { room: string; userId: stri
             onPresenceCount={setPresenceCount}
             onConnectedAsViewer={handleConnectedAsViewer}
             onUserCapChanged={setUserCap}
-            onJoinApproved={() => setIsViewer(false)}
+            onJoinApproved={() => { setIsViewer(false); setQueuePosition(null); }}
+            onQueuePosition={setQueuePosition}
+            onReservationExpired={() => setIsViewer(true)}
             onSocketReady={(send) => { socketSendRef.current = send; }}
             onActivityTriggered={(activityName) => {
               if (activityName === 'githubUsername') setShowGithubModal(true);
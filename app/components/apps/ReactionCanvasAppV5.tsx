@@ -8,8 +8,11 @@ import { getReactionLabelSet } from "../../voteLabels";
 import type { ReactionLabelSet } from "../../voteLabels";
 import { DEFAULT_ANCHORS, reactionLabelStyle } from "../../utils/voteRegion";
 import type { ReactionAnchors } from "../../utils/voteRegion";
-import { insertEvent, fetchEvents, isSupabaseConfigured, testConnection } from "../../lib/supabase";
-import type { ReactionEvent } from "../../lib/supabase";
+import { testConnection } from "../../lib/supabase";
+import { getReactionStore, resolveReactionStoreKind } from "../../lib/reactionStore";
+import { useReactionWindows } from "../../hooks/useReactionWindows";
+import type { ReactionStorageConfig } from "../../types";
+import type { NewReactionEvent } from "../../lib/reactionStore";
 import { getPersistentUserId } from "../../utils/userId";
 import ShareQRButton from "../shared/ShareQRButton";
 import QRWithCopy from "../shared/QRWithCopy";
@@ -43,6 +46,10 @@ interface YTPlayer {
 const YT_PLAYING = 1;
 const YOUTUBE_HEIGHT_FRACTION = 0.45;
 const THROTTLE_MS = 150;
+// Reactions are posted in batches this often rather than one request per row.
+const REACTION_FLUSH_MS = 2000;
+// Rows kept for a retry while posting fails; the oldest go first past this.
+const MAX_PENDING_REACTIONS = 500;
 
 type ReactionState = 'positive' | 'negative' | 'neutral' | null;
 
@@ -91,12 +98,15 @@ export default function ReactionCanvasAppV5({ room: roomProp, testConnectionFn =
   const [serverAnchors, setServerAnchors] = useState<ReactionAnchors | null>(null);
   const [touchPos, setTouchPos] = useState<{ x: number; y: number } | null>(null);
   const [debug, setDebug] = useState(() => new URLSearchParams(window.location.search).get('debug') === '1');
-  const [recordedEvents, setRecordedEvents] = useState<ReactionEvent[]>([]);
   const [currentTimecode, setCurrentTimecode] = useState(0);
   const [dbConnected, setDbConnected] = useState<boolean | null>(null);
+  // Unknown until the room socket connects; nothing is recorded or replayed before then.
+  const [reactionStorage, setReactionStorage] = useState<ReactionStorageConfig | null>(null);
   const currentTimecodeRef = useRef(0);
   const playerRef = useRef<YTPlayer | null>(null);
   const lastInsertRef = useRef(0);
+  const pendingReactionsRef = useRef<NewReactionEvent[]>([]);
+  const reactionPostFailedRef = useRef(false);
   const reactionStateRef = useRef<ReactionState>(null);
 
   const room = roomProp || 'default';
@@ -184,21 +194,58 @@ export default function ReactionCanvasAppV5({ room: roomProp, testConnectionFn =
     }
   }, [touchPos]);
 
-  // Test Supabase connection on mount
-  useEffect(() => { testConnectionFn().then(setDbConnected); }, []);
+  const storeKind = reactionStorage ? resolveReactionStoreKind(reactionStorage.store) : null;
 
-  // Fetch recorded events on mount
+  // Test the Supabase connection once the room says it records there; room storage is the
+  // room's own server, so a live socket means it is reachable.
   useEffect(() => {
-    fetchEvents(room).then(setRecordedEvents);
-  }, [room]);
+    if (storeKind === null) return;
+    if (storeKind === 'partykit') { setDbConnected(true); return; }
+    setDbConnected(null);
+    testConnectionFn().then(setDbConnected);
+  }, [storeKind]);
+
+  // Recorded events around the playhead, fetched a window at a time once the room's store is known
+  const recordedEvents = useReactionWindows(storeKind, room, currentTimecode);
+
+  // Post queued reactions every REACTION_FLUSH_MS, and whatever is left when the store
+  // changes or the page unmounts. A failed post keeps its rows for the next flush and shows
+  // the "not being recorded" warning until a post goes through.
+  useEffect(() => {
+    if (storeKind === null) return;
+    const store = getReactionStore(storeKind);
+    const flush = () => {
+      const batch = pendingReactionsRef.current;
+      if (batch.length === 0) return;
+      pendingReactionsRef.current = [];
+      store.insertEvents(batch)
+        .then(() => {
+          if (!reactionPostFailedRef.current) return;
+          reactionPostFailedRef.current = false;
+          setDbConnected(true);
+        })
+        .catch(err => {
+          console.error('[V5] Failed to record reactions:', err);
+          pendingReactionsRef.current = [...batch, ...pendingReactionsRef.current].slice(-MAX_PENDING_REACTIONS);
+          reactionPostFailedRef.current = true;
+          setDbConnected(false);
+        });
+    };
+    const interval = setInterval(flush, REACTION_FLUSH_MS);
+    return () => {
+      clearInterval(interval);
+      flush();
+    };
+  }, [storeKind]);
 
   const handleCursorEvent = (type: 'move' | 'touch' | 'remove', pos: { x: number; y: number }) => {
     const now = Date.now();
     if (now - lastInsertRef.current < THROTTLE_MS) return;
     lastInsertRef.current = now;
 
+    if (storeKind === null) return;
     const eventType = type === 'remove' ? 'lift' : type;
-    insertEvent({
+    pendingReactionsRef.current.push({
       room,
       session_id: sessionId,
       type: eventType,
@@ -251,7 +298,7 @@ export default function ReactionCanvasAppV5({ room: roomProp, testConnectionFn =
         {labels && <div className="reaction-label reaction-label-positive" style={reactionLabelStyle(anchors.positive)}>{labels.positive}</div>}
         {labels && <div className="reaction-label reaction-label-negative" style={reactionLabelStyle(anchors.negative)}>{labels.negative}</div>}
         {labels && <div className="reaction-label reaction-label-neutral" style={reactionLabelStyle(anchors.neutral)}>{labels.neutral}</div>}
-        <div className={`v3-rec-badge v3-rec-badge--left${!isSupabaseConfigured || dbConnected !== true ? ' v3-rec-badge--off' : ''}`}>● REC</div>
+        <div className={`v3-rec-badge v3-rec-badge--left${dbConnected !== true ? ' v3-rec-badge--off' : ''}`}>● REC</div>
         <div className="debug-hint">{debug ? 'd: debug on' : 'd: debug'}</div>
         <ShareQRButton />
         {touchPos && (
@@ -274,6 +321,7 @@ export default function ReactionCanvasAppV5({ room: roomProp, testConnectionFn =
           heightOffset={youtubeHeight}
           onRoomLabelsChange={setServerLabels}
           onRoomAnchorsChange={setServerAnchors}
+          onReactionStorageChange={setReactionStorage}
           debug={debug}
         />
         <TouchLayer
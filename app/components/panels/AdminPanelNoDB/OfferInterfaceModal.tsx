@@ -22,7 +22,9 @@ export default function OfferInterfaceModal({
         ? { targetUserId: pushTarget.userId }
         : pushTarget.kind === 'users'
           ? { targetUserIds: pushTarget.userIds }
-          : { targetRegion: pushTarget.region }),
+          : pushTarget.kind === 'group'
+            ? { targetGroup: pushTarget.group }
+            : { targetRegion: pushTarget.region }),
       interfaceName: pendingInterfaceName,
     });
     onClose();
@@ -43,7 +45,9 @@ export default function OfferInterfaceModal({
             ? <span style={{ color: '#ccc', fontFamily: 'monospace' }}>{pushTarget.userId}</span>
             : pushTarget.kind === 'users'
               ? <span style={{ color: '#ccc' }}>{pushTarget.label} ({pushTarget.userIds.length})</span>
-              : <span style={{ color: '#ccc' }}>{pushTarget.region === null ? 'Lurking' : activeLabels[pushTarget.region]} group</span>
+              : pushTarget.kind === 'group'
+                ? <span style={{ color: '#ccc' }}>{pushTarget.label}</span>
+                : <span style={{ color: '#ccc' }}>{pushTarget.region === null ? 'Lurking' : activeLabels[pushTarget.region]} group</span>
           }
         </div>
         <select
@@ -6,6 +6,8 @@ interface ParticipantRowProps {
   region: ReactionRegion | null;
   labels: ReactionLabelSet;
   online: boolean;
+  /** Connected but silent past the idle timeout. */
+  idle?: boolean;
   isSelf?: boolean;
   isMenuOpen: boolean;
   onMenuToggle: () => void;
@@ -14,13 +16,17 @@ interface ParticipantRowProps {
   onSendPopup: () => void;
 }
 
-export default function ParticipantRow({ userId, region, labels, online, isSelf, isMenuOpen, onMenuToggle, onOfferInterface, onSendHaptic, onSendPopup }: ParticipantRowProps) {
+export default function ParticipantRow({ userId, region, labels, online, idle = false, isSelf, isMenuOpen, onMenuToggle, onOfferInterface, onSendHaptic, onSendPopup }: ParticipantRowProps) {
   const regionColor = region === 'positive' ? '#4a4' : region === 'negative' ? '#a44' : region === 'neutral' ? '#aa4' : '#555';
   return (
-    <div style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '6px 10px', background: '#1a1a1a', borderRadius: 4, opacity: online ? 1 : 0.4 }}>
-      <span style={{ width: 8, height: 8, borderRadius: '50%', background: online ? regionColor : '#333', flexShrink: 0 }} />
+    <div style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '6px 10px', background: '#1a1a1a', borderRadius: 4, opacity: !online ? 0.4 : idle ? 0.7 : 1 }}>
+      <span
+        title={!online ? 'disconnected' : idle ? 'idle' : 'active'}
+        style={{ width: 8, height: 8, boxSizing: 'border-box', borderRadius: '50%', background: online && !idle ? regionColor : '#333', border: idle && online ? '1px solid #888' : 'none', flexShrink: 0 }}
+      />
       <span style={{ fontFamily: 'monospace', fontSize: 12, color: '#ccc', flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
         {userId}{isSelf && <span style={{ color: '#888', marginLeft: 4 }}>(you)</span>}
+        {online && idle && <span style={{ color: '#888', marginLeft: 4 }}>(idle)</span>}
       </span>
       <div style={{ position: 'relative' }}>
         <button onClick={onMenuToggle} disabled={!online} style={{ fontSize: 11, padding: '2px 8px', background: '#333', border: '1px solid #555', color: '#aaa', borderRadius: 3, cursor: online ? 'pointer' : 'not-allowed', opacity: online ? 1 : 0 }}>
@@ -22,7 +22,9 @@ export default function SendPopupModal({ pushTarget, activeLabels, onSend, onClo
       ? <span style={{ color: '#ccc', fontFamily: 'monospace' }}>{pushTarget.userId}</span>
       : pushTarget.kind === 'users'
         ? <span style={{ color: '#ccc' }}>{pushTarget.label} ({pushTarget.userIds.length})</span>
-        : <span style={{ color: '#ccc' }}>{pushTarget.region === null ? 'Lurking' : activeLabels[pushTarget.region]} group</span>;
+        : pushTarget.kind === 'group'
+          ? <span style={{ color: '#ccc' }}>{pushTarget.label}</span>
+          : <span style={{ color: '#ccc' }}>{pushTarget.region === null ? 'Lurking' : activeLabels[pushTarget.region]} group</span>;
 
   return (
     <div
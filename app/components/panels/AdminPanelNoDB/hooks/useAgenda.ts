@@ -0,0 +1,58 @@
+import { useState } from "react";
+import type { AgendaItem, AgendaState } from "../types";
+import type PartySocket from "partysocket";
+
+const EMPTY_AGENDA: AgendaState = { items: [], currentIndex: null, ended: false, itemEndsAt: null, autoAdvance: false };
+
+// The server owns the agenda (see party/lib/agenda.ts); edits send the whole item list
+// and every admin re-renders from the `agendaChanged` broadcast.
+export function useAgenda(socket: PartySocket) {
+  const [agenda, setAgenda] = useState<AgendaState>(EMPTY_AGENDA);
+
+  const applyServerAgenda = (next: AgendaState | null) => setAgenda(next ?? EMPTY_AGENDA);
+
+  const handleSocketEvent = (data: Record<string, unknown>) => {
+    if (data.type === 'agendaChanged') applyServerAgenda(data.agenda as AgendaState);
+  };
+
+  const sendItems = (items: AgendaItem[]) => {
+    socket.send(JSON.stringify({ type: 'setAgenda', items }));
+  };
+
+  const addItem = (item: Omit<AgendaItem, 'id'>) => {
+    sendItems([...agenda.items, { ...item, id: crypto.randomUUID() }]);
+  };
+
+  const removeItem = (id: string) => {
+    sendItems(agenda.items.filter(it => it.id !== id));
+  };
+
+  const moveItem = (id: string, delta: -1 | 1) => {
+    const i = agenda.items.findIndex(it => it.id === id);
+    const j = i + delta;
+    if (i === -1 || j < 0 || j >= agenda.items.length) return;
+    const items = [...agenda.items];
+    [items[i], items[j]] = [items[j], items[i]];
+    sendItems(items);
+  };
+
+  const advance = (direction: 'next' | 'previous') => {
+    socket.send(JSON.stringify({ type: 'advanceAgenda', direction }));
+  };
+
+  const setAutoAdvance = (autoAdvance: boolean) => {
+    socket.send(JSON.stringify({ type: 'setAgendaAutoAdvance', autoAdvance }));
+  };
+
+  return {
+    agenda,
+    applyServerAgenda,
+    handleSocketEvent,
+    addItem,
+    removeItem,
+    moveItem,
+    nextItem: () => advance('next'),
+    previousItem: () => advance('previous'),
+    setAutoAdvance,
+  };
+}
@@ -1,15 +1,23 @@
 import { useState, useRef, useEffect } from "react";
-import { generateUUID } from "../../../../utils/userId";
-import { computeReactionRegion } from "../../../../utils/voteRegion";
-import { parsePolisComments, parsePolisVotes, assemblePolisImport } from "../../../../utils/polisImport";
-import { idbGet, idbSet } from "../../../../utils/idbStorage";
+import {
+  parsePolisComments, parsePolisVotes, parsePolisParticipantsVotes, parsePolisSummary, assemblePolisImport,
+} from "../../../../utils/polisImport";
+import type { PolisFileKind, PolisImportReport } from "../../../../utils/polisImport";
+import { exportPolisCSVs, polisVoterUserIds } from "../../../../utils/polisExport";
+import { partitionMapCoords } from "../../../../../plugins/map/mapGroups";
+import { importRoomMoments, migrateLocalMoments } from "../../../../utils/roomMoments";
+import { useRoomMoments } from "../../../../hooks/useRoomMoments";
 import { buildFlashTimerStart } from "../../../../utils/flashTimer";
-import type { ReactionAnchors } from "../../../../utils/voteRegion";
-import type { MomentSnapshot, PushTarget } from "../types";
+import type { PushTarget } from "../types";
+import type { MapProjection, WaitingQueueState } from "../../../../types";
 import type PartySocket from "partysocket";
 
-export function useParticipants(socket: PartySocket, room: string, activeAnchors: ReactionAnchors) {
+export function useParticipants(socket: PartySocket, room: string, adminToken: string | null) {
   const [connectedUsers, setConnectedUsers]   = useState<Set<string>>(new Set());
+  // Connected but silent past the server's idle timeout; their cursors have been dropped.
+  const [idleUsers, setIdleUsers]             = useState<Set<string>>(new Set());
+  // Viewers waiting for a slot in a capped room, in the order the server will promote them.
+  const [waitingQueue, setWaitingQueue]       = useState<WaitingQueueState>({ queue: [], reservationSec: null });
   const [seenUsers, setSeenUsers]             = useState<Set<string>>(() => {
     try {
       const stored = JSON.parse(localStorage.getItem(`v4-seen-users-${room}`) ?? '[]');
@@ -17,14 +25,16 @@ export function useParticipants(socket: PartySocket, room: string, activeAnchors
     } catch { return new Set(); }
   });
   const [liveCursors, setLiveCursors]         = useState<Map<string, { x: number; y: number }>>(new Map());
-  const [participantGrouping, setParticipantGrouping] = useState<'none' | 'valence' | 'feedbackStars'>('valence');
-  const [moments, setMoments]                 = useState<MomentSnapshot[]>([]);
+  const [participantGrouping, setParticipantGrouping] = useState<'none' | 'valence' | 'feedbackStars' | 'polisGroup' | 'mapGroup'>('valence');
+  const { moments, refresh: refreshMoments } = useRoomMoments(room, adminToken);
   const [momentLabelInput, setMomentLabelInput]   = useState(() =>
     localStorage.getItem(`v4-moment-label-${room}`) ?? ''
   );
   const [expandedMoments, setExpandedMoments]     = useState<Set<string>>(new Set());
   const [editingMomentId, setEditingMomentId]     = useState<string | null>(null);
   const [editingMomentLabel, setEditingMomentLabel] = useState('');
+  // Server-confirmed end of the running flash timer; null when none is pending.
+  const [flashEndTimestamp, setFlashEndTimestamp] = useState<number | null>(null);
   const [selectedMomentId, setSelectedMomentId]   = useState<string | null>(null);
   const [collapsedGroups, setCollapsedGroups]     = useState<Set<string>>(new Set());
   const [pushTarget, setPushTarget]               = useState<PushTarget | null>(null);
@@ -37,29 +47,24 @@ export function useParticipants(socket: PartySocket, room: string, activeAnchors
       return JSON.parse(localStorage.getItem(`v4-feedback-stars-${room}`) ?? '{}');
     } catch { return {}; }
   });
+  // userId → group-id from the last Polis participants-votes.csv import.
+  const [polisGroups, setPolisGroups]             = useState<Record<string, number>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(`v4-polis-groups-${room}`) ?? '{}');
+    } catch { return {}; }
+  });
 
-  const momentsLoadedRef  = useRef(false);
+  // userId → spatial group on the current map projection, as the Map Viewer colours them.
+  const [mapGroups, setMapGroups]                 = useState<Record<string, number>>({});
   const staleTimersRef    = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
-  const activeAnchorsRef  = useRef<ReactionAnchors>(activeAnchors);
-  activeAnchorsRef.current = activeAnchors;
-  // Mirrors of state so a delayed (flash-timer) snap reads values as of T=0, not schedule time.
-  const seenUsersRef        = useRef(seenUsers);        seenUsersRef.current = seenUsers;
-  const liveCursorsRef      = useRef(liveCursors);      liveCursorsRef.current = liveCursors;
-  const momentsRef          = useRef(moments);          momentsRef.current = moments;
-  const momentLabelInputRef = useRef(momentLabelInput); momentLabelInputRef.current = momentLabelInput;
-
-  useEffect(() => {
-    momentsLoadedRef.current = false;
-    idbGet<MomentSnapshot[]>(`v4-moments-${room}`).then(stored => {
-      if (stored) setMoments(stored);
-      momentsLoadedRef.current = true;
-    });
-  }, [room]);
 
+  // Moments used to live in this browser's IndexedDB; hand any leftovers to the server.
   useEffect(() => {
-    if (!momentsLoadedRef.current) return;
-    idbSet(`v4-moments-${room}`, moments);
-  }, [moments, room]);
+    if (!adminToken) return;
+    migrateLocalMoments(room, adminToken)
+      .then(refreshMoments)
+      .catch(err => console.warn('[moments] local migration failed', err));
+  }, [room, adminToken, refreshMoments]);
 
   useEffect(() => {
     if (!openMenuUserId && !openMenuGroupKey) return;
@@ -77,11 +82,24 @@ export function useParticipants(socket: PartySocket, room: string, activeAnchors
     });
   };
 
-  const importPolisCSV = async (commentsFile: File, votesFile: File) => {
-    const [commentsText, votesText] = await Promise.all([commentsFile.text(), votesFile.text()]);
-    const comments = parsePolisComments(commentsText);
-    const votes = parsePolisVotes(votesText);
-    const { moments: newMoments, syntheticUserIds } = assemblePolisImport(comments, votes, [...seenUsers]);
+  // Files are keyed by `detectPolisFile`. Votes come from votes.csv when present, otherwise
+  // from the participants-votes.csv matrix, which also carries the Polis group ids.
+  const importPolisCSV = async (files: Partial<Record<PolisFileKind, File>>, seed?: string): Promise<PolisImportReport> => {
+    if (!files.comments) throw new Error('Missing comments.csv');
+    const matrixFile = files['participants-votes'];
+    if (!files.votes && !matrixFile) throw new Error('Missing votes.csv or participants-votes.csv');
+    const [commentsText, votesText, matrixText, summaryText] = await Promise.all(
+      [files.comments, files.votes, matrixFile, files.summary].map(f => f?.text()),
+    );
+    const comments = parsePolisComments(commentsText!);
+    const matrix = matrixText !== undefined ? parsePolisParticipantsVotes(matrixText) : null;
+    const votes = votesText !== undefined ? parsePolisVotes(votesText) : matrix!.votes;
+    const summary = summaryText !== undefined ? parsePolisSummary(summaryText) : {};
+    const { moments: newMoments, syntheticUserIds, participantGroups } = assemblePolisImport(comments, votes, [...seenUsers], {
+      knownVoters: polisVoterUserIds(seenUsers),
+      seed,
+      voterGroups: matrix?.groups,
+    });
     if (syntheticUserIds.length > 0) {
       setSeenUsers(prev => {
         const next = new Set([...prev, ...syntheticUserIds]);
@@ -89,41 +107,62 @@ export function useParticipants(socket: PartySocket, room: string, activeAnchors
         return next;
       });
     }
-    setMoments(prev => {
-      const importedLabels = new Set(newMoments.map(m => m.label));
-      const kept = prev.filter(m => !importedLabels.has(m.label));
-      return [...newMoments, ...kept];
-    });
+    if (!adminToken) throw new Error('Importing moments requires the room admin token');
+    await importRoomMoments(room, adminToken, newMoments);
+    if (matrix) {
+      setPolisGroups(participantGroups);
+      localStorage.setItem(`v4-polis-groups-${room}`, JSON.stringify(participantGroups));
+    }
+    refreshMoments();
+    return {
+      topic: summary.topic ?? '',
+      comments: newMoments.length,
+      voters: new Set(votes.map(v => v.voterId)).size,
+      groups: new Set(Object.values(participantGroups)).size,
+    };
   };
 
-  // Captures each participant's region right now. Reads refs so it stays correct when
-  // invoked from a delayed flash-timer (snapshot at T=0, not when the timer was scheduled).
-  const snapMoment = () => {
-    const regions: Record<string, 'positive' | 'negative' | 'neutral' | null> = {};
-    for (const userId of seenUsersRef.current) {
-      const cursor = liveCursorsRef.current.get(userId);
-      regions[userId] = cursor ? computeReactionRegion(cursor.x, cursor.y, activeAnchorsRef.current) : null;
+  // One download per file, named like a Polis export so the report tooling picks them up.
+  const exportPolisCSV = () => {
+    const files = exportPolisCSVs(moments, room);
+    const stamp = new Date().toISOString().slice(0, 10);
+    for (const [name, text] of [
+      ['comments', files.comments], ['votes', files.votes],
+      ['participants-votes', files.participantsVotes], ['summary', files.summary],
+    ] as const) {
+      const url = URL.createObjectURL(new Blob([text], { type: 'text/csv' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${room}-${stamp}-${name}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
     }
-    const newMoment: MomentSnapshot = {
-      id: generateUUID(),
-      label: momentLabelInputRef.current.trim() || `Moment ${momentsRef.current.length + 1}`,
-      timestamp: Date.now(),
-      regions,
-    };
-    setMoments(prev => [newMoment, ...prev]);
+  };
+
+  const resetMomentLabel = () => {
     setMomentLabelInput('');
     localStorage.removeItem(`v4-moment-label-${room}`);
     setEditingMomentId(null);
   };
 
-  // Flash timer: broadcast a countdown to all canvases, then snap at zero (fire-and-forget).
+  // The server captures each participant's region from its own cursor state and clock.
+  const snapMoment = () => {
+    const label = momentLabelInput.trim();
+    socket.send(JSON.stringify({ type: 'snapMoment', ...(label ? { label } : {}) }));
+    resetMomentLabel();
+  };
+
+  // Flash timer: the server broadcasts the countdown and snaps at zero from its own alarm,
+  // so the label is handed over now rather than read when the timer fires.
   const startFlashTimer = (durationSec: number) => {
-    const msg = buildFlashTimerStart(durationSec, momentLabelInputRef.current, Date.now());
-    socket.send(JSON.stringify(msg));
-    setTimeout(snapMoment, msg.endTimestamp - Date.now());
+    socket.send(JSON.stringify(buildFlashTimerStart(durationSec, momentLabelInput, Date.now())));
+    resetMomentLabel();
   };
 
   const applyConnected = (data: Record<string, unknown>) => {
+    setFlashEndTimestamp((data.flashTimer as { endTimestamp: number } | null)?.endTimestamp ?? null);
+    if (Array.isArray(data.idleUserIds)) setIdleUsers(new Set(data.idleUserIds as string[]));
+    if (data.waitingQueue) setWaitingQueue(data.waitingQueue as WaitingQueueState);
     if (Array.isArray(data.connectedUserIds) && (data.connectedUserIds as string[]).length > 0) {
       const ids = data.connectedUserIds as string[];
       setConnectedUsers(prev => new Set([...prev, ...ids]));
@@ -136,6 +175,27 @@ export function useParticipants(socket: PartySocket, room: string, activeAnchors
   };
 
   const handleSocketEvent = (data: Record<string, unknown>) => {
+    if (data.type === 'momentsChanged') {
+      refreshMoments();
+      return;
+    }
+
+    if (data.type === 'mapProjectionChanged') {
+      const projection = data.projection as MapProjection | null;
+      setMapGroups(projection ? Object.fromEntries(partitionMapCoords(projection.coords)) : {});
+      return;
+    }
+
+    if (data.type === 'flashTimerStarted') {
+      setFlashEndTimestamp(data.endTimestamp as number);
+      return;
+    }
+
+    if (data.type === 'flashTimerFired' || data.type === 'flashTimerCancelled') {
+      setFlashEndTimestamp(null);
+      return;
+    }
+
     if (data.type === 'feedbackStarsSubmitted') {
       const userId = data.userId as string;
       const stars = data.stars as number;
@@ -152,12 +212,30 @@ export function useParticipants(socket: PartySocket, room: string, activeAnchors
       return;
     }
 
+    if (data.type === 'waitingQueueChanged') {
+      setWaitingQueue({ queue: data.queue as WaitingQueueState['queue'], reservationSec: data.reservationSec as number | null });
+      return;
+    }
+
+    if (data.type === 'idleChanged') {
+      const ids = data.userIds as string[];
+      setIdleUsers(prev => {
+        const next = new Set(prev);
+        for (const id of ids) {
+          if (data.idle) next.add(id); else next.delete(id);
+        }
+        return next;
+      });
+      return;
+    }
+
     if (data.type === 'userJoined' || data.type === 'userLeft') {
       if (data.type === 'userJoined') {
         setConnectedUsers(prev => new Set([...prev, data.userId as string]));
         addSeenUser(data.userId as string);
       } else {
         setConnectedUsers(prev => { const s = new Set(prev); s.delete(data.userId as string); return s; });
+        setIdleUsers(prev => { const s = new Set(prev); s.delete(data.userId as string); return s; });
         setLiveCursors(prev => { const m = new Map(prev); m.delete(data.userId as string); return m; });
         clearTimeout(staleTimersRef.current.get(data.userId as string));
         staleTimersRef.current.delete(data.userId as string);
@@ -186,10 +264,19 @@ export function useParticipants(socket: PartySocket, room: string, activeAnchors
 
   return {
     connectedUsers,
+    idleUsers,
+    waitingQueue,
+    moveQueuedViewer: (userId: string, index: number) => socket.send(JSON.stringify({ type: 'moveQueuedViewer', userId, index })),
+    promoteQueuedViewer: (userId: string) => socket.send(JSON.stringify({ type: 'promoteQueuedViewer', userId })),
+    evictQueuedViewer: (userId: string) => socket.send(JSON.stringify({ type: 'evictQueuedViewer', userId })),
+    setQueueReservation: (seconds: number | null) => socket.send(JSON.stringify({ type: 'setQueueReservation', seconds })),
     seenUsers, setSeenUsers,
     liveCursors,
     participantGrouping, setParticipantGrouping,
-    moments, setMoments,
+    moments,
+    renameMoment: (id: string, label: string) => socket.send(JSON.stringify({ type: 'renameMoment', id, label })),
+    deleteMoment: (id: string) => socket.send(JSON.stringify({ type: 'deleteMoment', id })),
+    clearMoments: () => socket.send(JSON.stringify({ type: 'clearMoments' })),
     momentLabelInput,
     setMomentLabelInput: (val: string) => {
       setMomentLabelInput(val);
@@ -207,9 +294,19 @@ export function useParticipants(socket: PartySocket, room: string, activeAnchors
     openMenuUserId, setOpenMenuUserId,
     openMenuGroupKey, setOpenMenuGroupKey,
     feedbackStars, setFeedbackStars,
+    polisGroups,
+    mapGroups,
+    clearPolisGroups: () => {
+      localStorage.removeItem(`v4-polis-groups-${room}`);
+      setPolisGroups({});
+    },
     snapMoment,
     startFlashTimer,
+    flashEndTimestamp,
+    cancelFlashTimer: () => socket.send(JSON.stringify({ type: 'cancelFlashTimer' })),
+    extendFlashTimer: (seconds: number) => socket.send(JSON.stringify({ type: 'extendFlashTimer', seconds })),
     importPolisCSV,
+    exportPolisCSV,
     applyConnected,
     handleSocketEvent,
   };
@@ -1,235 +1,90 @@
-import { useState, useRef } from "react";
-import type { ReactionAnchors } from "../../../../utils/voteRegion";
-import type { PlaybackFile, RecordingMode } from "../types";
+import { useState, useEffect } from "react";
+import { importRecording, uploadRecording } from "../../../../utils/roomRecordings";
+import { compactRecordingBlob } from "../../../../utils/compactRecording";
+import { reactionEventsToPlaybackFile } from "../../../../utils/reactionEventAdapters";
+import { fetchReactionStorageConfig, getReactionStore } from "../../../../lib/reactionStore";
+import type { PlaybackState } from "../types";
 import type PartySocket from "partysocket";
 
-function anchorForRegion(region: string, userId: string, anchors: ReactionAnchors): { x: number; y: number } {
-  const pts: Record<string, { x: number; y: number }> = {
-    positive: anchors.positive,
-    negative: anchors.negative,
-    neutral:  anchors.neutral,
+// The server drives playback (see party/lib/playback.ts); this hook only sends control
+// messages and mirrors the server's `playbackStateChanged` snapshots.
+export function usePlayback(socket: PartySocket, room: string, adminToken: string | null) {
+  const [playbackState, setPlaybackState] = useState<PlaybackState | null>(null);
+  const [receivedAt, setReceivedAt]       = useState(0);
+  const [now, setNow]                     = useState(() => Date.now());
+
+  // The server reports position about twice a second; extrapolate between reports so
+  // the scrubber moves smoothly.
+  const isPlaying = playbackState?.status === 'playing';
+  useEffect(() => {
+    if (!isPlaying) return;
+    const id = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(id);
+  }, [isPlaying]);
+
+  const playbackElapsed = playbackState
+    ? Math.min(
+        playbackState.durationMs,
+        playbackState.positionMs + (isPlaying ? Math.max(0, now - receivedAt) * playbackState.speed : 0),
+      )
+    : 0;
+
+  const applyServerPlayback = (state: PlaybackState | null) => {
+    setPlaybackState(state);
+    setReceivedAt(Date.now());
+    setNow(Date.now());
   };
-  const base = pts[region] ?? { x: 50, y: 50 };
-  // Deterministic jitter ±4 units seeded by userId so users don't pile up on the same pixel
-  const h = userId.split('').reduce((a, c) => (a * 31 + c.charCodeAt(0)) | 0, 0);
-  return {
-    x: base.x + ((Math.abs(h) % 9) - 4),
-    y: base.y + ((Math.abs(h >> 4) % 9) - 4),
-  };
-}
 
-export function usePlayback(socket: PartySocket, activeAnchors: ReactionAnchors) {
-  const [playbackData, setPlaybackData]     = useState<PlaybackFile | null>(null);
-  const [isPlaying, setIsPlaying]           = useState(false);
-  const [isPaused, setIsPaused]             = useState(false);
-  const [playbackElapsed, setPlaybackElapsed] = useState(0);
-
-  const playbackIntervalRef    = useRef<ReturnType<typeof setInterval> | null>(null);
-  const pauseHeartbeatRef      = useRef<ReturnType<typeof setInterval> | null>(null);
-  const activePlaybackUserIds  = useRef<Set<string>>(new Set());
-  const lastPlaybackPositions  = useRef<Map<string, { x: number; y: number }>>(new Map());
-  const sortedEventsRef        = useRef<Record<string, unknown>[]>([]);
-  const originTsRef            = useRef<number>(0);
-  const wallStartRef           = useRef<number>(0);
-  const idxRef                 = useRef<number>(0);
-  const playbackModeRef        = useRef<RecordingMode>('positions');
-  const activeAnchorsRef       = useRef<ReactionAnchors>(activeAnchors);
-  activeAnchorsRef.current     = activeAnchors;
-
-  const sendPlaybackEvent = (evt: Record<string, unknown>, mode: RecordingMode) => {
-    const fakeUserId = `replay_${evt.connectionId}`;
-    if (mode === 'positions') {
-      if (evt.type === 'remove') {
-        socket.send(JSON.stringify({
-          type: 'playbackCursorBroadcast',
-          cursorType: 'remove',
-          position: { x: 0, y: 0, userId: fakeUserId, timestamp: Date.now() },
-        }));
-        activePlaybackUserIds.current.delete(fakeUserId);
-      } else {
-        socket.send(JSON.stringify({
-          type: 'playbackCursorBroadcast',
-          cursorType: evt.type,
-          position: { x: evt.x, y: evt.y, userId: fakeUserId, timestamp: Date.now() },
-        }));
-        activePlaybackUserIds.current.add(fakeUserId);
-        lastPlaybackPositions.current.set(fakeUserId, { x: evt.x as number, y: evt.y as number });
-      }
-    } else {
-      if (evt.to === null || evt.to === undefined) {
-        socket.send(JSON.stringify({
-          type: 'playbackCursorBroadcast',
-          cursorType: 'remove',
-          position: { x: 0, y: 0, userId: fakeUserId, timestamp: Date.now() },
-        }));
-        activePlaybackUserIds.current.delete(fakeUserId);
-        lastPlaybackPositions.current.delete(fakeUserId);
-      } else {
-        const { x, y } = anchorForRegion(String(evt.to), fakeUserId, activeAnchorsRef.current);
-        socket.send(JSON.stringify({
-          type: 'playbackCursorBroadcast',
-          cursorType: 'move',
-          position: { x, y, userId: fakeUserId, timestamp: Date.now() },
-        }));
-        activePlaybackUserIds.current.add(fakeUserId);
-        lastPlaybackPositions.current.set(fakeUserId, { x, y });
-      }
-    }
+  const handleSocketEvent = (data: Record<string, unknown>) => {
+    if (data.type === 'playbackStateChanged') applyServerPlayback((data.state as PlaybackState | null) ?? null);
   };
 
-  const clearActiveCursors = () => {
-    activePlaybackUserIds.current.forEach(uid => {
-      socket.send(JSON.stringify({
-        type: 'playbackCursorBroadcast',
-        cursorType: 'remove',
-        position: { x: 0, y: 0, userId: uid, timestamp: Date.now() },
-      }));
-    });
-    activePlaybackUserIds.current.clear();
-    lastPlaybackPositions.current.clear();
+  const control = (msg: Record<string, unknown>) => {
+    socket.send(JSON.stringify({ type: 'playbackControl', ...msg }));
   };
 
-  const startPauseHeartbeat = () => {
-    if (pauseHeartbeatRef.current) clearInterval(pauseHeartbeatRef.current);
-    pauseHeartbeatRef.current = setInterval(() => {
-      lastPlaybackPositions.current.forEach(({ x, y }, uid) => {
-        socket.send(JSON.stringify({
-          type: 'playbackCursorBroadcast',
-          cursorType: 'move',
-          position: { x, y, userId: uid, timestamp: Date.now() },
-        }));
-      });
-    }, 2000);
-  };
-
-  const stopPauseHeartbeat = () => {
-    if (pauseHeartbeatRef.current) clearInterval(pauseHeartbeatRef.current);
-    pauseHeartbeatRef.current = null;
-  };
-
-  const runInterval = () => {
-    if (playbackIntervalRef.current) clearInterval(playbackIntervalRef.current);
-    playbackIntervalRef.current = setInterval(() => {
-      const elapsed = Date.now() - wallStartRef.current;
-      const sorted = sortedEventsRef.current;
-      const mode = playbackModeRef.current;
-      while (idxRef.current < sorted.length) {
-        const evt = sorted[idxRef.current];
-        if ((evt.timestamp as number) - originTsRef.current > elapsed) break;
-        sendPlaybackEvent(evt, mode);
-        idxRef.current++;
-      }
-      setPlaybackElapsed(elapsed);
-      if (idxRef.current >= sorted.length) {
-        if (playbackIntervalRef.current) clearInterval(playbackIntervalRef.current);
-        playbackIntervalRef.current = null;
-        stopPauseHeartbeat();
-        setIsPlaying(false);
-        setIsPaused(false);
-        clearActiveCursors();
-      }
-    }, 50);
+  const loadRecording = async (recordingId: string) => {
+    socket.send(JSON.stringify({ type: 'loadPlayback', recordingId }));
   };
 
   const handlePlaybackFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    file.text().then(text => {
-      try {
-        const data = JSON.parse(text) as PlaybackFile;
-        const sorted = [...data.events].sort(
-          (a, b) => (a as Record<string, number>).timestamp - (b as Record<string, number>).timestamp
-        ) as Record<string, unknown>[];
-        sortedEventsRef.current = sorted;
-        originTsRef.current = sorted.length > 0 ? (sorted[0].timestamp as number) : 0;
-        playbackModeRef.current = data.mode;
-        idxRef.current = 0;
-        setPlaybackElapsed(0);
-        setIsPlaying(false);
-        setIsPaused(false);
-        clearActiveCursors();
-        setPlaybackData(data);
-      } catch {
-        alert('Failed to parse JSON file.');
-      }
-    });
-  };
-
-  const playPlayback = () => {
-    if (!playbackData || sortedEventsRef.current.length === 0) return;
-    if (isPaused) {
-      wallStartRef.current = Date.now() - playbackElapsed;
-    } else {
-      idxRef.current = 0;
-      activePlaybackUserIds.current = new Set();
-      setPlaybackElapsed(0);
-      wallStartRef.current = Date.now();
+    if (!adminToken) {
+      alert('Uploading recordings requires the room admin token.');
+      return;
     }
-    setIsPlaying(true);
-    setIsPaused(false);
-    stopPauseHeartbeat();
-    runInterval();
-  };
-
-  const pausePlayback = () => {
-    if (playbackIntervalRef.current) clearInterval(playbackIntervalRef.current);
-    playbackIntervalRef.current = null;
-    setIsPlaying(false);
-    setIsPaused(true);
-    startPauseHeartbeat();
+    compactRecordingBlob(file)
+      .then(compact => uploadRecording(room, adminToken, compact))
+      .then(meta => loadRecording(meta.id))
+      .catch(() => alert('Failed to upload recording file.'));
   };
 
-  const stopPlayback = () => {
-    if (playbackIntervalRef.current) clearInterval(playbackIntervalRef.current);
-    playbackIntervalRef.current = null;
-    stopPauseHeartbeat();
-    setIsPlaying(false);
-    setIsPaused(false);
-    setPlaybackElapsed(0);
-    idxRef.current = 0;
-    clearActiveCursors();
-  };
-
-  const seekPlayback = (targetElapsed: number) => {
-    if (!playbackData) return;
-    const mode = playbackModeRef.current;
-    const sorted = sortedEventsRef.current;
-    if (!sorted.length) return;
-
-    clearActiveCursors();
-
-    const newIdx = sorted.findIndex(
-      e => (e.timestamp as number) - originTsRef.current > targetElapsed
-    );
-    idxRef.current = newIdx === -1 ? sorted.length : newIdx;
-
-    const lastState = new Map<string, Record<string, unknown>>();
-    for (const evt of sorted.slice(0, idxRef.current)) {
-      const uid = String(evt.connectionId);
-      if (mode === 'positions') {
-        lastState.set(uid, evt);
-      } else {
-        if (evt.to !== undefined) lastState.set(uid, evt);
-      }
-    }
-    lastState.forEach(evt => sendPlaybackEvent(evt, mode));
-
-    wallStartRef.current = Date.now() - targetElapsed;
-    setPlaybackElapsed(targetElapsed);
-
-    if (isPlaying) runInterval();
+  // A V5 room's Supabase reactions become an ordinary stored recording, replayed like any other.
+  const importV5Session = async (v5Room: string) => {
+    if (!adminToken) throw new Error('Importing recordings requires the room admin token');
+    const { store } = await fetchReactionStorageConfig(v5Room);
+    const events = await getReactionStore(store).fetchEvents(v5Room);
+    if (events.length === 0) throw new Error(`No V5 reactions recorded for room ${v5Room}`);
+    const meta = await importRecording(room, adminToken, reactionEventsToPlaybackFile(events, v5Room));
+    await loadRecording(meta.id);
   };
 
   return {
-    playbackData,
+    playbackState,
     isPlaying,
-    isPaused,
+    isPaused: playbackState?.status === 'paused',
     playbackElapsed,
-    sortedEventsRef,
+    applyServerPlayback,
+    handleSocketEvent,
+    loadRecording,
     handlePlaybackFile,
-    playPlayback,
-    pausePlayback,
-    stopPlayback,
-    seekPlayback,
+    importV5Session,
+    playPlayback:  () => control({ action: 'play' }),
+    pausePlayback: () => control({ action: 'pause' }),
+    stopPlayback:  () => control({ action: 'stop' }),
+    seekPlayback:  (positionMs: number) => control({ action: 'seek', positionMs }),
+    setPlaybackSpeed: (speed: number) => control({ action: 'setSpeed', speed }),
+    setPlaybackLoop:  (loop: boolean) => control({ action: 'setLoop', loop }),
   };
 }
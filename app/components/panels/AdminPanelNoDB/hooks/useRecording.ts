@@ -1,59 +1,77 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { computeReactionRegion } from "../../../../utils/voteRegion";
 import type { ReactionRegion } from "../../../../utils/voteRegion";
-import type { RecordingMode } from "../types";
+import { fetchRecordings, fetchRecording, deleteRecording as deleteRoomRecording } from "../../../../utils/roomRecordings";
+import { playbackJsonStream } from "../../../../utils/compactRecording";
+import type { RecordingMode, RecordingMeta } from "../types";
 import type PartySocket from "partysocket";
 
 const MAX_TABLE_ROWS = 200;
 
-export function useRecording(socket: PartySocket, room: string) {
-  const [isRecording, setIsRecording]     = useState(false);
+// The server records the full stream (see party/lib/recordings.ts); this hook only keeps
+// a capped live preview of what this admin receives, plus the server's recording list.
+export function useRecording(socket: PartySocket, room: string, adminToken: string | null) {
   const [serverRecording, setServerRecording] = useState(false);
   const [mode, setMode]                   = useState<RecordingMode>('positions');
   const [eventCount, setEventCount]       = useState(0);
   const [displayEvents, setDisplayEvents] = useState<object[]>([]);
+  const [recordings, setRecordings]       = useState<RecordingMeta[]>([]);
 
-  const eventsRef         = useRef<object[]>([]);
-  const recordingStartRef = useRef<number | null>(null);
   const prevRegionsRef    = useRef<Map<string, ReactionRegion | null>>(new Map());
   const isRecordingRef    = useRef(false);
   const modeRef           = useRef<RecordingMode>('positions');
+  isRecordingRef.current = serverRecording;
+
+  const refreshRecordings = useCallback(() => {
+    if (!adminToken) return;
+    fetchRecordings(room, adminToken)
+      .then(setRecordings)
+      .catch(err => console.warn('[recordings] fetch failed', err));
+  }, [room, adminToken]);
+
+  useEffect(() => { refreshRecordings(); }, [refreshRecordings]);
 
   const startRecording = () => {
-    if (recordingStartRef.current === null) recordingStartRef.current = Date.now();
     prevRegionsRef.current = new Map();
-    setIsRecording(true);
-    isRecordingRef.current = true;
-    socket.send(JSON.stringify({ type: 'setRecordingState', recording: true }));
+    socket.send(JSON.stringify({ type: 'setRecordingState', recording: true, mode: modeRef.current }));
   };
 
   const stopRecording = () => {
-    setIsRecording(false);
-    isRecordingRef.current = false;
     socket.send(JSON.stringify({ type: 'setRecordingState', recording: false }));
   };
 
-  const downloadEvents = () => {
-    const payload = {
-      recordingStart: recordingStartRef.current,
-      recordingEnd: Date.now(),
-      room,
-      mode,
-      events: eventsRef.current,
-    };
-    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+  // 'compact' is the gzipped delta-encoded form (see utils/compactRecording.ts), a small
+  // fraction of the JSON's size; playback loads either. The server streams the compact
+  // form, which is gzipped or rewritten as JSON on the way into the blob.
+  const downloadRecording = async (id: string, format: 'json' | 'compact' = 'json') => {
+    if (!adminToken) throw new Error('Downloading recordings requires the room admin token');
+    const compact = await fetchRecording(room, adminToken, id);
+    const blob = await new Response(format === 'compact'
+      ? compact.pipeThrough(new CompressionStream('gzip'))
+      : playbackJsonStream(compact)).blob();
+    const recordingStart = recordings.find(r => r.id === id)?.recordingStart ?? Date.now();
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `reactions-${room}-${new Date(recordingStartRef.current!).toISOString().replace(/[:.]/g, '-')}.json`;
+    a.download = `reactions-${room}-${new Date(recordingStart).toISOString().replace(/[:.]/g, '-')}${format === 'compact' ? '.ndjson.gz' : '.json'}`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const downloadEvents = () => {
+    if (recordings[0]) {
+      downloadRecording(recordings[0].id).catch(err => console.warn('[recordings] download failed', err));
+    }
+  };
+
+  const deleteRecording = async (id: string) => {
+    if (!adminToken) throw new Error('Deleting recordings requires the room admin token');
+    await deleteRoomRecording(room, adminToken, id);
+    refreshRecordings();
+  };
+
   const clearEvents = () => {
-    eventsRef.current = [];
     prevRegionsRef.current = new Map();
-    recordingStartRef.current = null;
     setDisplayEvents([]);
     setEventCount(0);
   };
@@ -64,14 +82,19 @@ export function useRecording(socket: PartySocket, room: string) {
   };
 
   const pushEvent = (evt: object) => {
-    eventsRef.current.push(evt);
     setDisplayEvents(prev => [...prev, evt].slice(-MAX_TABLE_ROWS));
     setEventCount(c => c + 1);
   };
 
+  const applyServerRecording = (recording: boolean, serverMode: RecordingMode | null) => {
+    setServerRecording(recording);
+    if (serverMode) handleModeChange(serverMode);
+  };
+
   const handleSocketEvent = (data: Record<string, unknown>) => {
     if (data.type === 'recordingStateChanged') {
-      setServerRecording(data.recording as boolean);
+      applyServerRecording(data.recording as boolean, (data.mode as RecordingMode | null) ?? null);
+      refreshRecordings();
       return;
     }
 
@@ -117,15 +140,18 @@ export function useRecording(socket: PartySocket, room: string) {
   };
 
   return {
-    isRecording,
-    serverRecording, setServerRecording,
+    isRecording: serverRecording,
+    serverRecording, applyServerRecording,
     mode,
     eventCount,
     displayEvents,
     MAX_TABLE_ROWS,
+    recordings,
     startRecording,
     stopRecording,
     downloadEvents,
+    downloadRecording,
+    deleteRecording,
     clearEvents,
     handleModeChange,
     handleSocketEvent,
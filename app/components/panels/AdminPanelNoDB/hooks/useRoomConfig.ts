@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useLocalStorageState } from "../../../../hooks/useLocalStorageState";
-import type { ValenceInputMode } from "../../../../types";
+import type { CursorMode, CursorModeConfig, ValenceInputMode } from "../../../../types";
 import type PartySocket from "partysocket";
 
 export function useRoomConfig(socket: PartySocket) {
@@ -9,6 +9,7 @@ export function useRoomConfig(socket: PartySocket) {
   const [defaultCursorColor, setDefaultCursorColor] = useState<string>('#d4d4d4');
   const [ownValenceDisplay, setOwnValenceDisplay] = useState<'background' | 'labels' | 'none'>('labels');
   const [valenceInputMode, setValenceInputMode] = useState<ValenceInputMode>('touch');
+  const [cursorMode, setCursorMode]           = useState<CursorModeConfig>({ mode: 'individual', threshold: 300, active: false });
   const [screenPanels, setScreenPanels]              = useState<Record<string, string>>({ personal: 'canvas', commons: 'canvas' });
   const [canvasSettingsOpen, setCanvasSettingsOpen] = useState(false);
   const [showNowLabelOnCanvas, setShowNowLabelOnCanvas] = useLocalStorageState('v4-showNowLabelOnCanvas', false);
@@ -40,6 +41,11 @@ export function useRoomConfig(socket: PartySocket) {
     socket.send(JSON.stringify({ type: 'setValenceInputMode', mode }));
   };
 
+  const sendCursorMode = (mode: CursorMode, threshold: number) => {
+    setCursorMode(prev => ({ ...prev, mode, threshold }));
+    socket.send(JSON.stringify({ type: 'setCursorMode', mode, threshold }));
+  };
+
   const sendScreenPanel = (screenName: string, act: string) => {
     setScreenPanels(prev => ({ ...prev, [screenName]: act }));
     socket.send(JSON.stringify({ type: 'setScreenPanel', screenName, screenPanel: act }));
@@ -57,6 +63,7 @@ export function useRoomConfig(socket: PartySocket) {
     if ('defaultCursorColor' in data && data.defaultCursorColor) setDefaultCursorColor(data.defaultCursorColor as string);
     if ('ownValenceDisplay' in data && data.ownValenceDisplay) setOwnValenceDisplay(data.ownValenceDisplay as 'background' | 'labels' | 'none');
     if ('valenceInputMode' in data && data.valenceInputMode) setValenceInputMode(data.valenceInputMode as ValenceInputMode);
+    if ('cursorMode' in data && data.cursorMode) setCursorMode(data.cursorMode as CursorModeConfig);
     if ('currentScreenPanels' in data && data.currentScreenPanels && typeof data.currentScreenPanels === 'object') {
       setScreenPanels(prev => ({ ...prev, ...(data.currentScreenPanels as Record<string, string>) }));
     } else if ('currentScreenPanel' in data) {
@@ -85,6 +92,8 @@ export function useRoomConfig(socket: PartySocket) {
       setOwnValenceDisplay(data.ownValenceDisplay as 'background' | 'labels' | 'none');
     } else if (data.type === 'valenceInputModeChanged') {
       setValenceInputMode(data.valenceInputMode as ValenceInputMode);
+    } else if (data.type === 'cursorModeChanged') {
+      setCursorMode(data.config as CursorModeConfig);
     }
   };
 
@@ -94,6 +103,8 @@ export function useRoomConfig(socket: PartySocket) {
     sendColorCursorsByVote,
     defaultCursorColor, setDefaultCursorColor,
     sendDefaultCursorColor,
+    cursorMode,
+    sendCursorMode,
     screenPanels, setScreenPanels,
     userCap, setUserCap,
     capInput, setCapInput,
@@ -7,7 +7,10 @@ import { useRoomConfig } from "./hooks/useRoomConfig";
 import { useRecording } from "./hooks/useRecording";
 import { usePlayback } from "./hooks/usePlayback";
 import { useParticipants } from "./hooks/useParticipants";
+import { useAgenda } from "./hooks/useAgenda";
 import { useLocalStorageState } from "../../../hooks/useLocalStorageState";
+import { useAdminToken } from "../../../hooks/useAdminToken";
+import { buildEmceeLink } from "../../../utils/adminToken";
 import OfferInterfaceModal from "./OfferInterfaceModal";
 import HapticConfirmModal from "./HapticConfirmModal";
 import SendPopupModal from "./SendPopupModal";
@@ -22,11 +25,12 @@ import InterfacesTab from "./tabs/InterfacesTab";
 import EventsTab from "./tabs/EventsTab";
 import ParticipantsTab from "./tabs/ParticipantsTab";
 import MomentsTab from "./tabs/MomentsTab";
-import type { AdminTab, GithubSubmission, PushTarget } from "./types";
+import AgendaTab from "./tabs/AgendaTab";
+import type { AdminTab, GithubSubmission, PushTarget, PlaybackState, RecordingMode, AgendaState } from "./types";
 import type { ReactionAnchors } from "../../../utils/voteRegion";
 import type { ReactionLabelSet } from "../../../voteLabels";
 
-const ALL_TABS: AdminTab[] = ['record', 'labels', 'anchors', 'avatars', 'interfaces', 'events', 'participants', 'moments'];
+const ALL_TABS: AdminTab[] = ['record', 'labels', 'anchors', 'avatars', 'interfaces', 'events', 'participants', 'moments', 'agenda'];
 
 interface AdminPanelNoDBProps {
   room: string;
@@ -41,6 +45,9 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
   const [pendingHapticTarget, setPendingHapticTarget] = useState<PushTarget | null>(null);
   const [pendingPopupTarget, setPendingPopupTarget]   = useState<PushTarget | null>(null);
   const [activeConfigPluginId, setActiveConfigPluginId] = useState<string | null>(null);
+  const [isAuthorized, setIsAuthorized] = useState<boolean | null>(null);
+  const [emceeLinkCopied, setEmceeLinkCopied] = useState(false);
+  const { adminToken, claimFailed, rejectToken } = useAdminToken(room);
 
   // Mic state for Moments tab voice annotation
   type MicState = 'idle' | 'requesting' | 'ready' | 'recording' | 'error';
@@ -95,7 +102,7 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
   const socket = usePartySocket({
     ...getPartySocketConfig(),
     room,
-    query: { isAdmin: 'true' },
+    query: { isAdmin: 'true', ...(adminToken ? { adminToken } : {}) },
     onMessage(evt) {
       try {
         const data = JSON.parse(evt.data);
@@ -118,9 +125,10 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
   const anchors      = useAnchors(socket);
   const labels       = useLabels(socket);
   const roomConfig   = useRoomConfig(socket);
-  const recording    = useRecording(socket, room);
-  const playback     = usePlayback(socket, anchors.activeAnchors);
-  const participants = useParticipants(socket, room, anchors.activeAnchors);
+  const recording    = useRecording(socket, room, adminToken);
+  const playback     = usePlayback(socket, room, adminToken);
+  const participants = useParticipants(socket, room, adminToken);
+  const agenda       = useAgenda(socket);
 
   // Broadcast the "Now" label to participants whenever the setting or label text changes
   useEffect(() => {
@@ -130,14 +138,23 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
 
   // Keep dispatch ref fresh on every render so handlers always see the latest state
   dispatchRef.current = (data) => {
+    if (data.type === 'error') {
+      console.warn(`[admin] server rejected ${data.eventType ?? 'message'}: ${data.message}`);
+      return;
+    }
     if (data.type === 'presenceCount') {
       setPresenceCount(data.count as number);
       return;
     }
     if (data.type === 'connected') {
-      if (data.recordingState !== undefined) recording.setServerRecording(data.recordingState as boolean);
+      setIsAuthorized(data.isAdmin === true);
+      // Server refused our stored token (e.g. the room was reset) — drop it so we can re-claim
+      if (data.isAdmin === false && adminToken) rejectToken();
+      if (data.recordingState !== undefined) recording.applyServerRecording(data.recordingState as boolean, (data.recordingMode as RecordingMode | null) ?? null);
       if ('roomLabels' in data) labels.applyServerLabels(data.roomLabels as ReactionLabelSet | null);
       if ('roomAnchors' in data) anchors.applyServerAnchors(data.roomAnchors as ReactionAnchors | null);
+      if ('playback' in data) playback.applyServerPlayback(data.playback as PlaybackState | null);
+      if ('agenda' in data) agenda.applyServerAgenda(data.agenda as AgendaState | null);
       roomConfig.applyConnected(data);
       participants.applyConnected(data);
       return;
@@ -155,7 +172,9 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
     anchors.handleSocketEvent(data);
     roomConfig.handleSocketEvent(data);
     recording.handleSocketEvent(data);
+    playback.handleSocketEvent(data);
     participants.handleSocketEvent(data);
+    agenda.handleSocketEvent(data);
   };
 
   const tabLabel = (tab: AdminTab): string => {
@@ -167,6 +186,15 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
     return tab.charAt(0).toUpperCase() + tab.slice(1);
   };
 
+  const copyEmceeLink = async () => {
+    if (!adminToken) return;
+    try {
+      await navigator.clipboard.writeText(buildEmceeLink(room, adminToken));
+      setEmceeLinkCopied(true);
+      setTimeout(() => setEmceeLinkCopied(false), 2000);
+    } catch { /* clipboard unavailable */ }
+  };
+
   const downloadGithubSubmissions = () => {
     const blob = new Blob([JSON.stringify(githubSubmissions, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -199,8 +227,24 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
             {participants.connectedUsers.size > 0 && (
               <span style={{ fontSize: 12, color: '#666' }}>{participants.connectedUsers.size} online</span>
             )}
+            {isAuthorized && adminToken && (
+              <button
+                onClick={copyEmceeLink}
+                title="Copy a link that opens this admin panel, already authorized, on another device"
+                style={{ padding: '2px 8px', fontSize: 11, background: 'transparent', color: '#888', border: '1px solid #444', borderRadius: 4, cursor: 'pointer' }}
+              >
+                {emceeLinkCopied ? 'Copied!' : '🔑 Emcee link'}
+              </button>
+            )}
           </div>
         </div>
+        {isAuthorized === false && (
+          <div style={{ padding: '6px 16px', background: '#3a1a1a', color: '#faa', fontSize: 12 }}>
+            {claimFailed
+              ? 'Read-only: this device has no admin token for this room. Open its emcee link to get admin controls.'
+              : 'Authorizing…'}
+          </div>
+        )}
 
         <div className="admin-v4-tab-bar" style={{ display: 'flex', overflowX: 'auto' }}>
           {ALL_TABS.map(tab => (
@@ -246,18 +290,24 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
             startRecording={recording.startRecording}
             stopRecording={recording.stopRecording}
             downloadEvents={recording.downloadEvents}
+            recordings={recording.recordings}
+            loadRecording={playback.loadRecording}
+            downloadRecording={recording.downloadRecording}
+            deleteRecording={recording.deleteRecording}
             clearEvents={recording.clearEvents}
             handleModeChange={recording.handleModeChange}
-            playbackData={playback.playbackData}
+            playbackState={playback.playbackState}
             isPlaying={playback.isPlaying}
             isPaused={playback.isPaused}
             playbackElapsed={playback.playbackElapsed}
-            sortedEventsRef={playback.sortedEventsRef}
             handlePlaybackFile={playback.handlePlaybackFile}
+            importV5Session={playback.importV5Session}
             playPlayback={playback.playPlayback}
             pausePlayback={playback.pausePlayback}
             stopPlayback={playback.stopPlayback}
             seekPlayback={playback.seekPlayback}
+            setPlaybackSpeed={playback.setPlaybackSpeed}
+            setPlaybackLoop={playback.setPlaybackLoop}
           />
         )}
         {activeTab === 'labels' && (
@@ -296,6 +346,8 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
             sendColorCursorsByVote={roomConfig.sendColorCursorsByVote}
             defaultCursorColor={roomConfig.defaultCursorColor}
             sendDefaultCursorColor={roomConfig.sendDefaultCursorColor}
+            cursorMode={roomConfig.cursorMode}
+            sendCursorMode={roomConfig.sendCursorMode}
           />
         )}
         {activeTab === 'interfaces' && (
@@ -319,6 +371,12 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
         {activeTab === 'participants' && (
           <ParticipantsTab
             connectedUsers={participants.connectedUsers}
+            idleUsers={participants.idleUsers}
+            waitingQueue={participants.waitingQueue}
+            onMoveQueuedViewer={participants.moveQueuedViewer}
+            onPromoteQueuedViewer={participants.promoteQueuedViewer}
+            onEvictQueuedViewer={participants.evictQueuedViewer}
+            onSetQueueReservation={participants.setQueueReservation}
             seenUsers={participants.seenUsers}
             setSeenUsers={participants.setSeenUsers}
             liveCursors={participants.liveCursors}
@@ -339,6 +397,9 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
             onSendPopup={setPendingPopupTarget}
             feedbackStars={participants.feedbackStars}
             setFeedbackStars={participants.setFeedbackStars}
+            polisGroups={participants.polisGroups}
+            clearPolisGroups={participants.clearPolisGroups}
+            mapGroups={participants.mapGroups}
             interfaceAcceptances={participants.interfaceAcceptances}
             activeLabels={labels.activeLabels}
             activeAnchors={anchors.activeAnchors}
@@ -349,7 +410,9 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
         {activeTab === 'moments' && (
           <MomentsTab
             moments={participants.moments}
-            setMoments={participants.setMoments}
+            renameMoment={participants.renameMoment}
+            deleteMoment={participants.deleteMoment}
+            clearMoments={participants.clearMoments}
             seenUsers={participants.seenUsers}
             connectedUsers={participants.connectedUsers}
             liveCursors={participants.liveCursors}
@@ -363,12 +426,28 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
             setEditingMomentLabel={participants.setEditingMomentLabel}
             snapMoment={participants.snapMoment}
             startFlashTimer={participants.startFlashTimer}
+            flashEndTimestamp={participants.flashEndTimestamp}
+            cancelFlashTimer={participants.cancelFlashTimer}
+            extendFlashTimer={participants.extendFlashTimer}
             importPolisCSV={participants.importPolisCSV}
+            exportPolisCSV={participants.exportPolisCSV}
             activeLabels={labels.activeLabels}
             activeAnchors={anchors.activeAnchors}
             room={room}
           />
         )}
+        {activeTab === 'agenda' && (
+          <AgendaTab
+            agenda={agenda.agenda}
+            addItem={agenda.addItem}
+            removeItem={agenda.removeItem}
+            moveItem={agenda.moveItem}
+            nextItem={agenda.nextItem}
+            previousItem={agenda.previousItem}
+            setAutoAdvance={agenda.setAutoAdvance}
+            activeAnchors={anchors.activeAnchors}
+          />
+        )}
       </div>
 
       {/* === MOMENTS MIC BUTTON === */}
@@ -416,6 +495,7 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
             const msg: Record<string, unknown> = { type: 'pushHaptic' };
             if (pendingHapticTarget.kind === 'user') msg.targetUserId = pendingHapticTarget.userId;
             else if (pendingHapticTarget.kind === 'users') msg.targetUserIds = pendingHapticTarget.userIds;
+            else if (pendingHapticTarget.kind === 'group') msg.targetGroup = pendingHapticTarget.group;
             else if (pendingHapticTarget.kind === 'region') msg.targetRegion = pendingHapticTarget.region;
             socket.send(JSON.stringify(msg));
             setPendingHapticTarget(null);
@@ -441,6 +521,7 @@ export default function AdminPanelNoDB({ room, userId, selfChain }: AdminPanelNo
             const msg: Record<string, unknown> = { type: 'triggerActivity', activityName };
             if (pendingPopupTarget.kind === 'user') msg.targetUserId = pendingPopupTarget.userId;
             else if (pendingPopupTarget.kind === 'users') msg.targetUserIds = pendingPopupTarget.userIds;
+            else if (pendingPopupTarget.kind === 'group') msg.targetGroup = pendingPopupTarget.group;
             else if (pendingPopupTarget.kind === 'region') msg.targetRegion = pendingPopupTarget.region;
             socket.send(JSON.stringify(msg));
             setPendingPopupTarget(null);
@@ -0,0 +1,137 @@
+import { useState, useEffect } from "react";
+import { REACTION_LABEL_PRESETS } from "../../../../voteLabels";
+import type { ReactionAnchors } from "../../../../utils/voteRegion";
+import { flashSecondsRemaining } from "../../../../utils/flashTimer";
+import type { AgendaItem, AgendaState } from "../types";
+
+const inputStyle: React.CSSProperties = {
+  background: '#333',
+  border: '1px solid #555',
+  color: '#eee',
+  padding: '4px 8px',
+  borderRadius: 4,
+};
+
+interface AgendaTabProps {
+  agenda: AgendaState;
+  addItem: (item: Omit<AgendaItem, 'id'>) => void;
+  removeItem: (id: string) => void;
+  moveItem: (id: string, delta: -1 | 1) => void;
+  nextItem: () => void;
+  previousItem: () => void;
+  setAutoAdvance: (autoAdvance: boolean) => void;
+  /** Captured into a new item when "Pin current anchors" is ticked. */
+  activeAnchors: ReactionAnchors;
+}
+
+const fmtTime = (sec: number) => `${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, '0')}`;
+
+export default function AgendaTab({
+  agenda, addItem, removeItem, moveItem, nextItem, previousItem, setAutoAdvance, activeAnchors,
+}: AgendaTabProps) {
+  const [statement, setStatement] = useState('');
+  const [labelPreset, setLabelPreset] = useState('');
+  const [pinAnchors, setPinAnchors] = useState(false);
+  const [duration, setDuration] = useState('');
+  const [, setTick] = useState(0);
+
+  // Re-render while the current item counts down; the remaining time is read from Date.now().
+  useEffect(() => {
+    if (agenda.itemEndsAt === null) return;
+    const id = setInterval(() => setTick(t => t + 1), 500);
+    return () => clearInterval(id);
+  }, [agenda.itemEndsAt]);
+
+  const handleAdd = () => {
+    const text = statement.trim();
+    if (!text) return;
+    const preset = labelPreset ? REACTION_LABEL_PRESETS[labelPreset] : undefined;
+    const seconds = Math.floor(Number(duration));
+    addItem({
+      statement: text,
+      ...(preset ? { labels: { positive: preset.positive, negative: preset.negative, neutral: preset.neutral } } : {}),
+      ...(pinAnchors ? { anchors: activeAnchors } : {}),
+      durationSec: seconds > 0 ? seconds : null,
+    });
+    setStatement('');
+  };
+
+  const current = agenda.currentIndex;
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+        <button className="v3-admin-btn" onClick={previousItem} disabled={agenda.items.length === 0}>◀ Previous</button>
+        <button className="v3-admin-btn v3-admin-btn-record" onClick={nextItem} disabled={agenda.items.length === 0 || agenda.ended}>
+          {agenda.ended ? '■ Finished' : current === null ? '▶ Start' : current === agenda.items.length - 1 ? '■ Finish' : 'Next ▶'}
+        </button>
+        <span style={{ flex: 1, color: '#aaa', fontSize: 13 }}>
+          {agenda.ended ? 'Finished' : current === null ? 'Not started' : `Item ${current + 1} of ${agenda.items.length}`}
+          {agenda.itemEndsAt !== null && ` · ${fmtTime(flashSecondsRemaining(agenda.itemEndsAt, Date.now()))} left`}
+        </span>
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 20, fontSize: 13, color: '#aaa' }}>
+        <input type="checkbox" checked={agenda.autoAdvance} onChange={e => setAutoAdvance(e.target.checked)} />
+        Auto-advance — snap a moment and move on when a timed item ends
+      </label>
+
+      {agenda.items.length === 0 && <p style={{ color: '#666', fontSize: 13 }}>No statements yet</p>}
+      {agenda.items.map((item, i) => (
+        <div
+          key={item.id}
+          style={{
+            display: 'flex', alignItems: 'center', gap: 8, padding: '6px 8px', marginBottom: 4, borderRadius: 4, fontSize: 13,
+            background: i === current ? '#162b1e' : '#1a1a1a',
+            border: i === current ? '1px solid #1a7a3c' : '1px solid #2a2a2a',
+          }}
+        >
+          <span style={{ color: '#555', width: 20, textAlign: 'right', flexShrink: 0 }}>{i + 1}</span>
+          <span style={{ flex: 1, color: i === current ? '#cec' : '#ccc' }}>{item.statement}</span>
+          <span style={{ color: '#777', fontSize: 11, flexShrink: 0 }}>
+            {[
+              item.labels && `${item.labels.positive}/${item.labels.negative}/${item.labels.neutral}`,
+              item.anchors && 'anchors',
+              item.durationSec && fmtTime(item.durationSec),
+            ].filter(Boolean).join(' · ')}
+          </span>
+          <button className="v3-admin-btn" disabled={i === 0} onClick={() => moveItem(item.id, -1)}>↑</button>
+          <button className="v3-admin-btn" disabled={i === agenda.items.length - 1} onClick={() => moveItem(item.id, 1)}>↓</button>
+          <button className="v3-admin-btn v3-admin-btn--destructive" onClick={() => removeItem(item.id)}>✕</button>
+        </div>
+      ))}
+
+      <div style={{ marginTop: 20, border: '1px solid #333', borderRadius: 6, padding: '10px 12px' }}>
+        <div style={{ fontWeight: 600, fontSize: 11, color: '#666', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 10 }}>Add statement</div>
+        <textarea
+          value={statement}
+          onChange={e => setStatement(e.target.value)}
+          placeholder="Statement participants react to…"
+          rows={2}
+          style={{ ...inputStyle, width: '100%', boxSizing: 'border-box', resize: 'vertical', marginBottom: 8 }}
+        />
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13, color: '#aaa' }}>
+          <select value={labelPreset} onChange={e => setLabelPreset(e.target.value)} style={inputStyle}>
+            <option value="">Keep room labels</option>
+            {Object.entries(REACTION_LABEL_PRESETS).map(([key, set]) => (
+              <option key={key} value={key}>{set.positive} / {set.negative} / {set.neutral}</option>
+            ))}
+          </select>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            <input type="checkbox" checked={pinAnchors} onChange={e => setPinAnchors(e.target.checked)} />
+            Pin current anchors
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={duration}
+            placeholder="Manual"
+            onChange={e => setDuration(e.target.value)}
+            style={{ ...inputStyle, width: 72 }}
+          />
+          sec
+          <button className="v3-admin-btn" onClick={handleAdd} disabled={!statement.trim()}>+ Add</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import type { CursorMode, CursorModeConfig } from "../../../../types";
 
 const AVATAR_STYLES = [
   { id: 'adventurer', label: 'Adventurer' },
@@ -13,6 +14,12 @@ const AVATAR_STYLES = [
   { id: 'thumbs', label: 'Thumbs' },
 ];
 
+const CURSOR_MODES: { id: CursorMode; label: string }[] = [
+  { id: 'individual', label: 'Individual cursors' },
+  { id: 'density', label: 'Density heatmap' },
+  { id: 'auto', label: 'Heatmap above threshold' },
+];
+
 const VALENCE_COLORS = ['rgba(0,255,0,0.8)', 'rgba(255,0,0,0.8)', 'rgba(255,255,0,0.8)'];
 
 // avatarStyle encoding:
@@ -40,9 +47,11 @@ interface AvatarsTabProps {
   sendColorCursorsByVote: (enabled: boolean) => void;
   defaultCursorColor: string;
   sendDefaultCursorColor: (color: string) => void;
+  cursorMode: CursorModeConfig;
+  sendCursorMode: (mode: CursorMode, threshold: number) => void;
 }
 
-export default function AvatarsTab({ avatarStyle, sendAvatarStyle, colorCursorsByVote, sendColorCursorsByVote, defaultCursorColor, sendDefaultCursorColor }: AvatarsTabProps) {
+export default function AvatarsTab({ avatarStyle, sendAvatarStyle, colorCursorsByVote, sendColorCursorsByVote, defaultCursorColor, sendDefaultCursorColor, cursorMode, sendCursorMode }: AvatarsTabProps) {
   const { isCustom, baseStyle } = parseAvatarStyle(avatarStyle);
 
   const [valenceIdx, setValenceIdx] = useState(0);
@@ -53,6 +62,14 @@ export default function AvatarsTab({ avatarStyle, sendAvatarStyle, colorCursorsB
   }, [colorCursorsByVote]);
   const valencePreviewColor = colorCursorsByVote ? VALENCE_COLORS[valenceIdx] : defaultCursorColor;
 
+  const [thresholdInput, setThresholdInput] = useState(String(cursorMode.threshold));
+  useEffect(() => setThresholdInput(String(cursorMode.threshold)), [cursorMode.threshold]);
+  const commitThreshold = () => {
+    const parsed = parseInt(thresholdInput, 10);
+    if (parsed > 0 && parsed !== cursorMode.threshold) sendCursorMode(cursorMode.mode, parsed);
+    else setThresholdInput(String(cursorMode.threshold));
+  };
+
   const handleCustomToggle = (checked: boolean) => {
     sendAvatarStyle(buildAvatarStyle(checked, baseStyle));
   };
@@ -102,6 +119,32 @@ export default function AvatarsTab({ avatarStyle, sendAvatarStyle, colorCursorsB
         <span style={{ fontSize: 12, color: '#555', fontFamily: 'monospace' }}>{defaultCursorColor}</span>
       </div>
 
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 16, flexWrap: 'wrap' }}>
+        <label style={{ fontSize: 13, color: '#aaa', flexShrink: 0 }}>Cursors</label>
+        <select
+          value={cursorMode.mode}
+          onChange={e => sendCursorMode(e.target.value as CursorMode, cursorMode.threshold)}
+          style={{ background: '#1a1a1a', color: '#ddd', border: '1px solid #444', borderRadius: 4, padding: '4px 6px', fontSize: 13 }}
+        >
+          {CURSOR_MODES.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+        </select>
+        {cursorMode.mode === 'auto' && (
+          <input
+            type="number"
+            min={1}
+            value={thresholdInput}
+            onChange={e => setThresholdInput(e.target.value)}
+            onBlur={commitThreshold}
+            onKeyDown={e => { if (e.key === 'Enter') commitThreshold(); }}
+            title="Participants at which the room switches to the heatmap"
+            style={{ width: 70, background: '#1a1a1a', color: '#ddd', border: '1px solid #444', borderRadius: 4, padding: '4px 6px', fontSize: 13 }}
+          />
+        )}
+        <span style={{ fontSize: 12, color: cursorMode.active ? '#fa3' : '#555' }}>
+          {cursorMode.active ? 'heatmap active' : 'showing individual cursors'}
+        </span>
+      </div>
+
       <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
         <label style={{ display: 'flex', alignItems: 'center', gap: 12, cursor: 'pointer' }}>
           <input
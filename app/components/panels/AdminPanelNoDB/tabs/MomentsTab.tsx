@@ -2,13 +2,17 @@ import { memo, useState, useEffect } from "react";
 import { computeReactionRegion } from "../../../../utils/voteRegion";
 import type { ReactionAnchors, ReactionRegion } from "../../../../utils/voteRegion";
 import type { ReactionLabelSet } from "../../../../voteLabels";
-import { FLASH_TIMER_DEFAULT_SEC, normalizeFlashDuration, flashSecondsRemaining } from "../../../../utils/flashTimer";
+import { FLASH_TIMER_DEFAULT_SEC, FLASH_TIMER_EXTEND_SEC, normalizeFlashDuration, flashSecondsRemaining } from "../../../../utils/flashTimer";
 import { useLocalStorageState } from "../../../../hooks/useLocalStorageState";
+import { detectPolisFile } from "../../../../utils/polisImport";
+import type { PolisFileKind, PolisImportReport } from "../../../../utils/polisImport";
 import type { MomentSnapshot } from "../types";
 
 interface MomentsTabProps {
   moments: MomentSnapshot[];
-  setMoments: (v: MomentSnapshot[]) => void;
+  renameMoment: (id: string, label: string) => void;
+  deleteMoment: (id: string) => void;
+  clearMoments: () => void;
   seenUsers: Set<string>;
   connectedUsers: Set<string>;
   liveCursors: Map<string, { x: number; y: number }>;
@@ -22,31 +26,44 @@ interface MomentsTabProps {
   setEditingMomentLabel: (v: string) => void;
   snapMoment: () => void;
   startFlashTimer: (durationSec: number) => void;
-  importPolisCSV: (commentsFile: File, votesFile: File) => Promise<void>;
+  /** End of the server's running flash timer, or null once it fires or is cancelled. */
+  flashEndTimestamp: number | null;
+  cancelFlashTimer: () => void;
+  extendFlashTimer: (seconds: number) => void;
+  importPolisCSV: (files: Partial<Record<PolisFileKind, File>>, seed?: string) => Promise<PolisImportReport>;
+  exportPolisCSV: () => void;
   activeLabels: ReactionLabelSet;
   activeAnchors: ReactionAnchors;
   room: string;
 }
 
 function MomentsTabInner({
-  moments, setMoments,
+  moments, renameMoment, deleteMoment, clearMoments,
   seenUsers, connectedUsers, liveCursors,
   momentLabelInput, setMomentLabelInput,
   expandedMoments, setExpandedMoments,
   editingMomentId, setEditingMomentId,
   editingMomentLabel, setEditingMomentLabel,
-  snapMoment, startFlashTimer, importPolisCSV, activeLabels, activeAnchors, room,
+  snapMoment, startFlashTimer, flashEndTimestamp, cancelFlashTimer, extendFlashTimer, importPolisCSV, exportPolisCSV, activeLabels, activeAnchors, room,
 }: MomentsTabProps) {
   const [flashEnabled, setFlashEnabled] = useLocalStorageState('v4-flash-enabled', false);
   const [flashDuration, setFlashDuration] = useLocalStorageState('v4-flash-duration', FLASH_TIMER_DEFAULT_SEC);
-  const [commentsFile, setCommentsFile] = useState<File | null>(null);
-  const [votesFile, setVotesFile] = useState<File | null>(null);
+  // Picked files keyed by their detected kind; names are not trusted.
+  const [polisFiles, setPolisFiles] = useState<Partial<Record<PolisFileKind, File>>>({});
+  const [mappingSeed, setMappingSeed] = useLocalStorageState('v4-polis-mapping-seed', '', { room });
   const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<PolisImportReport | null>(null);
   const [multiFileMode, setMultiFileMode] = useState(true);
   // While a flash timer is counting down, disable the snap button and show the countdown.
+  // Set optimistically on click, then follows the server's start/extend/fire/cancel broadcasts.
   const [flashEndTs, setFlashEndTs] = useState<number | null>(null);
   const [, setFlashTick] = useState(0); // forces a re-render each tick; remaining is read from Date.now()
 
+  useEffect(() => {
+    setFlashEndTs(flashEndTimestamp);
+  }, [flashEndTimestamp]);
+
   useEffect(() => {
     if (flashEndTs == null) return;
     const id = setInterval(() => {
@@ -68,13 +85,31 @@ function MomentsTabInner({
 
   const flashCounting = flashEndTs != null;
 
+  const commentsFile = polisFiles.comments ?? null;
+  const votesFile = polisFiles.votes ?? polisFiles['participants-votes'] ?? null;
+
+  const addPolisFiles = async (files: File[]) => {
+    setImportError(null);
+    setImportReport(null);
+    const detected = await Promise.all(files.map(async f => [detectPolisFile(await f.text()), f] as const));
+    const unknown = detected.filter(([kind]) => kind === null).map(([, f]) => f.name);
+    if (unknown.length > 0) setImportError(`Not a Polis export: ${unknown.join(', ')}`);
+    setPolisFiles(prev => {
+      const next = { ...prev };
+      for (const [kind, f] of detected) if (kind) next[kind] = f;
+      return next;
+    });
+  };
+
   const handleImport = async () => {
     if (!commentsFile || !votesFile || importing) return;
     setImporting(true);
+    setImportError(null);
     try {
-      await importPolisCSV(commentsFile, votesFile);
-      setCommentsFile(null);
-      setVotesFile(null);
+      setImportReport(await importPolisCSV(polisFiles, mappingSeed.trim() || undefined));
+      setPolisFiles({});
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
     } finally {
       setImporting(false);
     }
@@ -191,23 +226,29 @@ function MomentsTabInner({
               ? `Snap in ${flashDuration}s`
               : 'Snap Moment'}
         </button>
+        {flashCounting && (
+          <div style={{ display: 'flex', gap: 6, padding: '6px 12px' }}>
+            <button className="v3-admin-btn" style={{ flex: 1, fontSize: 12 }} onClick={() => extendFlashTimer(FLASH_TIMER_EXTEND_SEC)}>
+              +{FLASH_TIMER_EXTEND_SEC}s
+            </button>
+            <button className="v3-admin-btn" style={{ flex: 1, fontSize: 12 }} onClick={cancelFlashTimer}>
+              Cancel
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Polis CSV import */}
       <div style={{ marginBottom: 20, border: '1px solid #333', borderRadius: 6, padding: '10px 12px' }}>
-        <div style={{ fontWeight: 600, fontSize: 11, color: '#666', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 10 }}>Import from Polis CSV</div>
+        <div style={{ fontWeight: 600, fontSize: 11, color: '#666', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 10 }}>Polis CSV</div>
         <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 10 }}>
           {multiFileMode ? (
             <label style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer' }}>
               <span className="v3-admin-btn" style={{ display: 'inline-block', fontSize: 12, flexShrink: 0 }}>↑ Select files</span>
-              <span style={{ fontSize: 12, color: (commentsFile || votesFile) ? '#cec' : '#555', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                {commentsFile && votesFile
-                  ? `${commentsFile.name}, ${votesFile.name}`
-                  : commentsFile
-                    ? commentsFile.name
-                    : votesFile
-                      ? votesFile.name
-                      : 'select *comments.csv + *votes.csv'}
+              <span style={{ fontSize: 12, color: Object.keys(polisFiles).length > 0 ? '#cec' : '#555', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {Object.keys(polisFiles).length > 0
+                  ? Object.values(polisFiles).map(f => f.name).join(', ')
+                  : 'select comments + votes or participants-votes (+ summary)'}
               </span>
               <input
                 type="file"
@@ -215,9 +256,8 @@ function MomentsTabInner({
                 multiple
                 style={{ display: 'none' }}
                 onChange={e => {
-                  const files = Array.from(e.target.files ?? []);
-                  setCommentsFile(files.find(f => f.name.endsWith('comments.csv')) ?? null);
-                  setVotesFile(files.find(f => f.name.endsWith('votes.csv')) ?? null);
+                  setPolisFiles({});
+                  addPolisFiles(Array.from(e.target.files ?? []));
                   e.target.value = '';
                 }}
               />
@@ -233,11 +273,11 @@ function MomentsTabInner({
                   type="file"
                   accept=".csv"
                   style={{ display: 'none' }}
-                  onChange={e => { setCommentsFile(e.target.files?.[0] ?? null); e.target.value = ''; }}
+                  onChange={e => { addPolisFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
                 />
               </label>
               <label style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer' }}>
-                <span className="v3-admin-btn" style={{ display: 'inline-block', fontSize: 12, flexShrink: 0 }}>↑ votes.csv</span>
+                <span className="v3-admin-btn" style={{ display: 'inline-block', fontSize: 12, flexShrink: 0 }}>↑ votes / participants-votes</span>
                 <span style={{ fontSize: 12, color: votesFile ? '#cec' : '#555', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
                   {votesFile ? votesFile.name : 'no file selected'}
                 </span>
@@ -245,13 +285,30 @@ function MomentsTabInner({
                   type="file"
                   accept=".csv"
                   style={{ display: 'none' }}
-                  onChange={e => { setVotesFile(e.target.files?.[0] ?? null); e.target.value = ''; }}
+                  onChange={e => { addPolisFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
                 />
               </label>
             </>
           )}
-          {commentsFile && !votesFile && <span style={{ fontSize: 11, color: '#a74' }}>Missing *votes.csv</span>}
-          {votesFile && !commentsFile && <span style={{ fontSize: 11, color: '#a74' }}>Missing *comments.csv</span>}
+          {commentsFile && !votesFile && <span style={{ fontSize: 11, color: '#a74' }}>Missing votes.csv or participants-votes.csv</span>}
+          {votesFile && !commentsFile && <span style={{ fontSize: 11, color: '#a74' }}>Missing comments.csv</span>}
+          {importError && <span style={{ fontSize: 11, color: '#a74' }}>Import failed: {importError}</span>}
+          {importReport && (
+            <span style={{ fontSize: 11, color: '#8a8' }}>
+              Imported {importReport.topic ? `"${importReport.topic}": ` : ''}{importReport.comments} comments, {importReport.voters} voters
+              {importReport.groups > 0 ? `, ${importReport.groups} groups` : ''}
+            </span>
+          )}
+          <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, color: '#888' }}>
+            Mapping seed
+            <input
+              value={mappingSeed}
+              onChange={e => setMappingSeed(e.target.value)}
+              placeholder="random"
+              title="The same seed maps the same Polis voters onto the same participants"
+              style={{ flex: 1, background: '#2a2a2a', color: '#eee', border: '1px solid #555', padding: '2px 6px', borderRadius: 3, fontSize: 12 }}
+            />
+          </label>
           {multiFileMode && (
             <button
               onClick={() => setMultiFileMode(false)}
@@ -270,12 +327,21 @@ function MomentsTabInner({
           >
             {importing ? 'Importing…' : 'Import moments'}
           </button>
+          <button
+            className="v3-admin-btn"
+            disabled={moments.length === 0}
+            onClick={exportPolisCSV}
+            title="Download comments, votes, participants-votes and summary CSVs"
+            style={{ opacity: moments.length === 0 ? 0.4 : 1 }}
+          >
+            ↓ Export CSV
+          </button>
           <button
             className="v3-admin-btn"
             disabled={moments.length === 0}
             onClick={() => {
               if (window.confirm('Clear all moments?')) {
-                setMoments([]);
+                clearMoments();
               }
             }}
             style={{ opacity: moments.length === 0 ? 0.4 : 1 }}
@@ -313,8 +379,7 @@ function MomentsTabInner({
                       onChange={e => setEditingMomentLabel(e.target.value)}
                       onKeyDown={e => {
                         if (e.key === 'Enter') {
-                          const updated = moments.map(m => m.id === moment.id ? { ...m, label: editingMomentLabel.trim() || m.label } : m);
-                          setMoments(updated);
+                          if (editingMomentLabel.trim()) renameMoment(moment.id, editingMomentLabel.trim());
                           setEditingMomentId(null);
                         } else if (e.key === 'Escape') {
                           setEditingMomentId(null);
@@ -346,8 +411,7 @@ function MomentsTabInner({
                     onClick={e => {
                       e.stopPropagation();
                       if (window.confirm(`Delete "${moment.label}"?`)) {
-                        const updated = moments.filter(m => m.id !== moment.id);
-                        setMoments(updated);
+                        deleteMoment(moment.id);
                       }
                     }}
                     style={{ background: 'none', border: 'none', color: '#633', cursor: 'pointer', fontSize: 11, padding: '0 4px', flexShrink: 0 }}
@@ -3,16 +3,23 @@ import type { Dispatch, SetStateAction } from "react";
 import { computeReactionRegion } from "../../../../utils/voteRegion";
 import type { ReactionAnchors, ReactionRegion } from "../../../../utils/voteRegion";
 import type { ReactionLabelSet } from "../../../../voteLabels";
+import type { WaitingQueueState } from "../../../../types";
 import type { MomentSnapshot, PushTarget } from "../types";
 import ParticipantRow from "../ParticipantRow";
 
 interface ParticipantsTabProps {
   connectedUsers: Set<string>;
+  idleUsers: Set<string>;
+  waitingQueue: WaitingQueueState;
+  onMoveQueuedViewer: (userId: string, index: number) => void;
+  onPromoteQueuedViewer: (userId: string) => void;
+  onEvictQueuedViewer: (userId: string) => void;
+  onSetQueueReservation: (seconds: number | null) => void;
   seenUsers: Set<string>;
   setSeenUsers: (v: Set<string>) => void;
   liveCursors: Map<string, { x: number; y: number }>;
-  participantGrouping: 'none' | 'valence' | 'feedbackStars';
-  setParticipantGrouping: (v: 'none' | 'valence' | 'feedbackStars') => void;
+  participantGrouping: 'none' | 'valence' | 'feedbackStars' | 'polisGroup' | 'mapGroup';
+  setParticipantGrouping: (v: 'none' | 'valence' | 'feedbackStars' | 'polisGroup' | 'mapGroup') => void;
   moments: MomentSnapshot[];
   selectedMomentId: string | null;
   setSelectedMomentId: (v: string | null) => void;
@@ -28,6 +35,11 @@ interface ParticipantsTabProps {
   onSendPopup: (target: PushTarget) => void;
   feedbackStars: Record<string, number>;
   setFeedbackStars: (v: Record<string, number>) => void;
+  /** userId → Polis group-id from the last participants-votes.csv import. */
+  polisGroups: Record<string, number>;
+  clearPolisGroups: () => void;
+  /** userId → spatial group on the current map projection. */
+  mapGroups: Record<string, number>;
   interfaceAcceptances: { userId: string; interfaceName: string }[];
   activeLabels: ReactionLabelSet;
   activeAnchors: ReactionAnchors;
@@ -35,15 +47,59 @@ interface ParticipantsTabProps {
   userId?: string;
 }
 
+const RESERVATION_OPTIONS: [number | null, string][] = [[null, 'Off'], [15, '15 s'], [30, '30 s'], [60, '1 min'], [120, '2 min']];
+const queueButtonStyle = { fontSize: 11, padding: '2px 8px', background: '#333', border: '1px solid #555', color: '#aaa', borderRadius: 3, cursor: 'pointer' };
+
+// Viewers who asked to join the full room. The server promotes from the top as slots free up.
+function WaitingQueueSection({ waitingQueue: { queue, reservationSec }, onMove, onPromote, onEvict, onSetReservation }: {
+  waitingQueue: WaitingQueueState;
+  onMove: (userId: string, index: number) => void;
+  onPromote: (userId: string) => void;
+  onEvict: (userId: string) => void;
+  onSetReservation: (seconds: number | null) => void;
+}) {
+  return (
+    <div style={{ marginBottom: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 6 }}>
+        <span style={{ fontSize: 12, fontWeight: 600, color: '#888', letterSpacing: '0.08em', flex: 1 }}>
+          Waiting list ({queue.length})
+        </span>
+        <label style={{ color: '#aaa', fontSize: 12 }}>Hold promoted slot:</label>
+        <select
+          value={reservationSec ?? ''}
+          onChange={e => onSetReservation(e.target.value ? Number(e.target.value) : null)}
+          title="How long a promoted viewer has to start reacting before the slot passes to the next in line"
+          style={{ background: '#222', color: '#eee', border: '1px solid #555', padding: '2px 6px', borderRadius: 4, fontSize: 12 }}
+        >
+          {RESERVATION_OPTIONS.map(([sec, label]) => <option key={label} value={sec ?? ''}>{label}</option>)}
+        </select>
+      </div>
+      {queue.map(({ userId, since }, i) => (
+        <div key={userId} style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '4px 10px' }}>
+          <span style={{ color: '#666', fontSize: 12, width: 20 }}>{i + 1}.</span>
+          <span style={{ color: '#ddd', fontSize: 13, flex: 1, fontFamily: 'monospace' }}>{userId}</span>
+          <span style={{ color: '#666', fontSize: 11 }}>since {new Date(since).toLocaleTimeString()}</span>
+          <button disabled={i === 0} onClick={() => onMove(userId, i - 1)} style={queueButtonStyle}>↑</button>
+          <button disabled={i === queue.length - 1} onClick={() => onMove(userId, i + 1)} style={queueButtonStyle}>↓</button>
+          <button onClick={() => onPromote(userId)} style={queueButtonStyle}>Promote</button>
+          <button onClick={() => onEvict(userId)} style={queueButtonStyle}>Evict</button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function ParticipantsTabInner({
-  connectedUsers, seenUsers, setSeenUsers, liveCursors,
+  connectedUsers, idleUsers, waitingQueue,
+  onMoveQueuedViewer, onPromoteQueuedViewer, onEvictQueuedViewer, onSetQueueReservation,
+  seenUsers, setSeenUsers, liveCursors,
   participantGrouping, setParticipantGrouping,
   moments, selectedMomentId, setSelectedMomentId,
   collapsedGroups, setCollapsedGroups,
   openMenuUserId, setOpenMenuUserId,
   openMenuGroupKey, setOpenMenuGroupKey,
   setPushTarget, setPendingInterfaceName, onSendHaptic, onSendPopup,
-  feedbackStars, setFeedbackStars,
+  feedbackStars, setFeedbackStars, polisGroups, clearPolisGroups, mapGroups,
   interfaceAcceptances, activeLabels, activeAnchors, room, userId: selfUserId,
 }: ParticipantsTabProps) {
   const offerInterface = (target: PushTarget) => {
@@ -65,13 +121,22 @@ function ParticipantsTabInner({
         <label style={{ color: '#aaa', fontSize: 13 }}>Group by:</label>
         <select
           value={participantGrouping}
-          onChange={e => setParticipantGrouping(e.target.value as 'none' | 'valence' | 'feedbackStars')}
+          onChange={e => setParticipantGrouping(e.target.value as 'none' | 'valence' | 'feedbackStars' | 'polisGroup' | 'mapGroup')}
           style={{ background: '#222', color: '#eee', border: '1px solid #555', padding: '4px 8px', borderRadius: 4 }}
         >
           <option value="valence">Valence</option>
           <option value="feedbackStars">Feedback Stars</option>
+          <option value="polisGroup">Polis Group</option>
+          <option value="mapGroup">Map Group</option>
           <option value="none">None</option>
         </select>
+        {connectedUsers.size > 0 && (
+          <span style={{ color: '#666', fontSize: 12 }}>
+            {[...connectedUsers].filter(u => !idleUsers.has(u)).length} active
+            {' · '}{[...connectedUsers].filter(u => idleUsers.has(u)).length} idle
+            {' · '}{[...seenUsers].filter(u => !connectedUsers.has(u)).length} offline
+          </span>
+        )}
         {participantGrouping === 'valence' && moments.length > 0 && (
           <select
             value={selectedMomentId ?? ''}
@@ -86,6 +151,14 @@ function ParticipantsTabInner({
         )}
       </div>
 
+      <WaitingQueueSection
+        waitingQueue={waitingQueue}
+        onMove={onMoveQueuedViewer}
+        onPromote={onPromoteQueuedViewer}
+        onEvict={onEvictQueuedViewer}
+        onSetReservation={onSetQueueReservation}
+      />
+
       {seenUsers.size === 0 ? (
         <p style={{ color: '#666', fontSize: 13 }}>No participants seen yet.</p>
       ) : participantGrouping === 'none' ? (
@@ -101,6 +174,7 @@ function ParticipantsTabInner({
                 region={region}
                 labels={activeLabels}
                 online={online}
+                idle={idleUsers.has(userId)}
                 isSelf={userId === selfUserId}
                 isMenuOpen={openMenuUserId === userId}
                 onMenuToggle={() => setOpenMenuUserId(prev => prev === userId ? null : userId)}
@@ -181,6 +255,184 @@ function ParticipantsTabInner({
                           region={region}
                           labels={activeLabels}
                           online={online}
+                          idle={idleUsers.has(userId)}
+                          isSelf={userId === selfUserId}
+                          isMenuOpen={openMenuUserId === userId}
+                          onMenuToggle={() => setOpenMenuUserId(prev => prev === userId ? null : userId)}
+                          onOfferInterface={() => { setOpenMenuUserId(null); offerInterface({ kind: 'user', userId }); }}
+                          onSendHaptic={() => { setOpenMenuUserId(null); onSendHaptic({ kind: 'user', userId }); }}
+                          onSendPopup={() => { setOpenMenuUserId(null); onSendPopup({ kind: 'user', userId }); }}
+                        />
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : participantGrouping === 'polisGroup' ? (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          {[...[...new Set(Object.values(polisGroups))].sort((a, b) => a - b), -1].map(group => {
+            const groupKey = `polis-${group}`;
+            // Polis numbers groups from 0; reports letter them A, B, C…
+            const groupLabel = group === -1 ? 'No group' : `Group ${String.fromCharCode(65 + group)}`;
+            const members = [...seenUsers].filter(userId =>
+              group === -1 ? polisGroups[userId] === undefined : polisGroups[userId] === group
+            );
+            const collapsed = collapsedGroups.has(groupKey);
+            return (
+              <div key={groupKey}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: collapsed ? 0 : 6, paddingRight: 10 }}>
+                  <button onClick={() => toggleGroupCollapse(groupKey)} style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: 0, fontSize: 10, width: 12, textAlign: 'center', flexShrink: 0 }}>
+                    {collapsed ? '▶' : '▼'}
+                  </button>
+                  <span style={{ fontSize: 12, fontWeight: 600, color: '#888', letterSpacing: '0.08em', flex: 1, cursor: 'pointer' }} onClick={() => toggleGroupCollapse(groupKey)}>
+                    {groupLabel} ({members.length})
+                  </span>
+                  <div style={{ position: 'relative' }}>
+                    <button
+                      onClick={() => setOpenMenuGroupKey(prev => prev === groupKey ? null : groupKey)}
+                      style={{ fontSize: 11, padding: '2px 8px', background: '#333', border: '1px solid #555', color: '#aaa', borderRadius: 3, cursor: 'pointer' }}
+                    >
+                      ···
+                    </button>
+                    {openMenuGroupKey === groupKey && (
+                      <div style={{ position: 'absolute', right: 0, top: '100%', marginTop: 2, background: '#252525', border: '1px solid #444', borderRadius: 6, boxShadow: '0 4px 12px rgba(0,0,0,0.5)', zIndex: 100, minWidth: 160 }}>
+                        <button
+                          onPointerDown={e => e.stopPropagation()}
+                          onClick={() => { setOpenMenuGroupKey(null); offerInterface({ kind: 'users', userIds: members, label: groupLabel }); }}
+                          style={{ display: 'block', width: '100%', textAlign: 'left', padding: '8px 12px', background: 'none', border: 'none', color: '#ddd', fontSize: 13, cursor: 'pointer' }}
+                        >
+                          Offer interface…
+                        </button>
+                        <button
+                          onPointerDown={e => e.stopPropagation()}
+                          onClick={() => { setOpenMenuGroupKey(null); onSendHaptic({ kind: 'users', userIds: members, label: groupLabel }); }}
+                          style={{ display: 'block', width: '100%', textAlign: 'left', padding: '8px 12px', background: 'none', border: 'none', color: '#ddd', fontSize: 13, cursor: 'pointer' }}
+                        >
+                          Send buzz…
+                        </button>
+                        <button
+                          onPointerDown={e => e.stopPropagation()}
+                          onClick={() => { setOpenMenuGroupKey(null); onSendPopup({ kind: 'users', userIds: members, label: groupLabel }); }}
+                          style={{ display: 'block', width: '100%', textAlign: 'left', padding: '8px 12px', background: 'none', border: 'none', color: '#ddd', fontSize: 13, cursor: 'pointer' }}
+                        >
+                          Send popup…
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                {!collapsed && (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                    {members.length === 0 ? (
+                      <div style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '6px 10px' }}>
+                        <span style={{ width: 8, height: 8, flexShrink: 0 }} />
+                        <span style={{ fontFamily: 'monospace', fontSize: 12, color: '#444', fontStyle: 'italic', flex: 1 }}>empty</span>
+                      </div>
+                    ) : members.map(userId => {
+                      const online = connectedUsers.has(userId);
+                      const cursor = liveCursors.get(userId);
+                      const region = cursor ? computeReactionRegion(cursor.x, cursor.y, activeAnchors) : null;
+                      return (
+                        <ParticipantRow
+                          key={userId}
+                          userId={userId}
+                          region={region}
+                          labels={activeLabels}
+                          online={online}
+                          idle={idleUsers.has(userId)}
+                          isSelf={userId === selfUserId}
+                          isMenuOpen={openMenuUserId === userId}
+                          onMenuToggle={() => setOpenMenuUserId(prev => prev === userId ? null : userId)}
+                          onOfferInterface={() => { setOpenMenuUserId(null); offerInterface({ kind: 'user', userId }); }}
+                          onSendHaptic={() => { setOpenMenuUserId(null); onSendHaptic({ kind: 'user', userId }); }}
+                          onSendPopup={() => { setOpenMenuUserId(null); onSendPopup({ kind: 'user', userId }); }}
+                        />
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : participantGrouping === 'mapGroup' ? (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          {[...[...new Set(Object.values(mapGroups))].sort((a, b) => a - b), -1].map(group => {
+            const groupKey = `map-${group}`;
+            const groupLabel = group === -1 ? 'Not on the map' : `Map group ${String.fromCharCode(65 + group)}`;
+            const members = [...seenUsers].filter(userId =>
+              group === -1 ? mapGroups[userId] === undefined : mapGroups[userId] === group
+            );
+            // Map groups are resolved by the server when sending, so pushes follow a recomputed map.
+            const target: PushTarget = group === -1
+              ? { kind: 'users', userIds: members, label: groupLabel }
+              : { kind: 'group', group, label: groupLabel };
+            const collapsed = collapsedGroups.has(groupKey);
+            return (
+              <div key={groupKey}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: collapsed ? 0 : 6, paddingRight: 10 }}>
+                  <button onClick={() => toggleGroupCollapse(groupKey)} style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: 0, fontSize: 10, width: 12, textAlign: 'center', flexShrink: 0 }}>
+                    {collapsed ? '▶' : '▼'}
+                  </button>
+                  <span style={{ fontSize: 12, fontWeight: 600, color: '#888', letterSpacing: '0.08em', flex: 1, cursor: 'pointer' }} onClick={() => toggleGroupCollapse(groupKey)}>
+                    {groupLabel} ({members.length})
+                  </span>
+                  <div style={{ position: 'relative' }}>
+                    <button
+                      onClick={() => setOpenMenuGroupKey(prev => prev === groupKey ? null : groupKey)}
+                      style={{ fontSize: 11, padding: '2px 8px', background: '#333', border: '1px solid #555', color: '#aaa', borderRadius: 3, cursor: 'pointer' }}
+                    >
+                      ···
+                    </button>
+                    {openMenuGroupKey === groupKey && (
+                      <div style={{ position: 'absolute', right: 0, top: '100%', marginTop: 2, background: '#252525', border: '1px solid #444', borderRadius: 6, boxShadow: '0 4px 12px rgba(0,0,0,0.5)', zIndex: 100, minWidth: 160 }}>
+                        <button
+                          onPointerDown={e => e.stopPropagation()}
+                          onClick={() => { setOpenMenuGroupKey(null); offerInterface(target); }}
+                          style={{ display: 'block', width: '100%', textAlign: 'left', padding: '8px 12px', background: 'none', border: 'none', color: '#ddd', fontSize: 13, cursor: 'pointer' }}
+                        >
+                          Offer interface…
+                        </button>
+                        <button
+                          onPointerDown={e => e.stopPropagation()}
+                          onClick={() => { setOpenMenuGroupKey(null); onSendHaptic(target); }}
+                          style={{ display: 'block', width: '100%', textAlign: 'left', padding: '8px 12px', background: 'none', border: 'none', color: '#ddd', fontSize: 13, cursor: 'pointer' }}
+                        >
+                          Send buzz…
+                        </button>
+                        <button
+                          onPointerDown={e => e.stopPropagation()}
+                          onClick={() => { setOpenMenuGroupKey(null); onSendPopup(target); }}
+                          style={{ display: 'block', width: '100%', textAlign: 'left', padding: '8px 12px', background: 'none', border: 'none', color: '#ddd', fontSize: 13, cursor: 'pointer' }}
+                        >
+                          Send popup…
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                {!collapsed && (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                    {members.length === 0 ? (
+                      <div style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '6px 10px' }}>
+                        <span style={{ width: 8, height: 8, flexShrink: 0 }} />
+                        <span style={{ fontFamily: 'monospace', fontSize: 12, color: '#444', fontStyle: 'italic', flex: 1 }}>empty</span>
+                      </div>
+                    ) : members.map(userId => {
+                      const online = connectedUsers.has(userId);
+                      const cursor = liveCursors.get(userId);
+                      const region = cursor ? computeReactionRegion(cursor.x, cursor.y, activeAnchors) : null;
+                      return (
+                        <ParticipantRow
+                          key={userId}
+                          userId={userId}
+                          region={region}
+                          labels={activeLabels}
+                          online={online}
+                          idle={idleUsers.has(userId)}
                           isSelf={userId === selfUserId}
                           isMenuOpen={openMenuUserId === userId}
                           onMenuToggle={() => setOpenMenuUserId(prev => prev === userId ? null : userId)}
@@ -266,6 +518,7 @@ function ParticipantsTabInner({
                               region={region}
                               labels={activeLabels}
                               online={online}
+                              idle={idleUsers.has(userId)}
                               isSelf={userId === selfUserId}
                               isMenuOpen={openMenuUserId === userId}
                               onMenuToggle={() => setOpenMenuUserId(prev => prev === userId ? null : userId)}
@@ -354,6 +607,7 @@ function ParticipantsTabInner({
                         region={region}
                         labels={activeLabels}
                         online={true}
+                        idle={idleUsers.has(userId)}
                         isSelf={userId === selfUserId}
                         isMenuOpen={openMenuUserId === userId}
                         onMenuToggle={() => setOpenMenuUserId(prev => prev === userId ? null : userId)}
@@ -375,6 +629,14 @@ function ParticipantsTabInner({
 
       {seenUsers.size > 0 && (
         <div style={{ marginTop: 16, display: 'flex', justifyContent: 'flex-end', gap: 12 }}>
+          {Object.keys(polisGroups).length > 0 && (
+            <button
+              onClick={clearPolisGroups}
+              style={{ fontSize: 11, color: '#555', background: 'none', border: 'none', cursor: 'pointer', padding: '2px 0' }}
+            >
+              Clear Polis groups
+            </button>
+          )}
           {Object.keys(feedbackStars).length > 0 && (
             <button
               onClick={() => {
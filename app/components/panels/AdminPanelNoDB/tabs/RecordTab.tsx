@@ -1,4 +1,5 @@
-import type { RecordingMode, PlaybackFile } from "../types";
+import { useState } from "react";
+import type { RecordingMode, PlaybackState, RecordingMeta } from "../types";
 
 const inputStyle: React.CSSProperties = {
   background: '#333',
@@ -27,28 +28,45 @@ interface RecordTabProps {
   startRecording: () => void;
   stopRecording: () => void;
   downloadEvents: () => void;
+  recordings: RecordingMeta[];
+  loadRecording: (id: string) => Promise<void>;
+  downloadRecording: (id: string, format?: 'json' | 'compact') => Promise<void>;
+  deleteRecording: (id: string) => Promise<void>;
   clearEvents: () => void;
   handleModeChange: (mode: RecordingMode) => void;
-  // Playback
-  playbackData: PlaybackFile | null;
+  // Playback (driven by the server)
+  playbackState: PlaybackState | null;
   isPlaying: boolean;
   isPaused: boolean;
   playbackElapsed: number;
-  sortedEventsRef: React.MutableRefObject<Record<string, unknown>[]>;
   handlePlaybackFile: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  importV5Session: (v5Room: string) => Promise<void>;
   playPlayback: () => void;
   pausePlayback: () => void;
   stopPlayback: () => void;
   seekPlayback: (ms: number) => void;
+  setPlaybackSpeed: (speed: number) => void;
+  setPlaybackLoop: (loop: boolean) => void;
 }
 
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
 export default function RecordTab({
   userCap, capInput, setCapInput, presenceCount, sendUserCap, onRemoveCap,
   isRecording, serverRecording, mode, eventCount, displayEvents, MAX_TABLE_ROWS,
   startRecording, stopRecording, downloadEvents, clearEvents, handleModeChange,
-  playbackData, isPlaying, isPaused, playbackElapsed, sortedEventsRef,
-  handlePlaybackFile, playPlayback, pausePlayback, stopPlayback, seekPlayback,
+  recordings, loadRecording, downloadRecording, deleteRecording,
+  playbackState, isPlaying, isPaused, playbackElapsed,
+  handlePlaybackFile, importV5Session, playPlayback, pausePlayback, stopPlayback, seekPlayback,
+  setPlaybackSpeed, setPlaybackLoop,
 }: RecordTabProps) {
+  const [recordingsError, setRecordingsError] = useState<string | null>(null);
+  const [v5Room, setV5Room] = useState('');
+  const withErrors = (action: Promise<void>) => {
+    setRecordingsError(null);
+    action.catch(err => setRecordingsError(err instanceof Error ? err.message : String(err)));
+  };
+
   return (
     <div>
       <div style={{ marginBottom: 24 }}>
@@ -114,15 +132,11 @@ export default function RecordTab({
             ■ Stop Recording
           </button>
         )}
-        <button className="v3-admin-btn" onClick={downloadEvents} disabled={eventCount === 0}>
+        <button className="v3-admin-btn" onClick={downloadEvents} disabled={recordings.length === 0}>
           ↓ Download JSON
         </button>
-        <button
-          className="v3-admin-btn v3-admin-btn--destructive"
-          onClick={() => { if (confirm(`Clear all ${eventCount} recorded events?`)) clearEvents(); }}
-          disabled={eventCount === 0}
-        >
-          ✕ Clear
+        <button className="v3-admin-btn" onClick={clearEvents} disabled={eventCount === 0}>
+          ✕ Clear table
         </button>
       </div>
 
@@ -143,17 +157,41 @@ export default function RecordTab({
         }
       </div>
 
+      {/* Recordings kept by the server */}
+      <div style={{ marginTop: 24 }}>
+        <p style={{ marginBottom: 8, fontWeight: 600 }}>Saved recordings</p>
+        {recordings.length === 0 && <p style={{ color: '#666', fontSize: 13 }}>None yet</p>}
+        {recordings.map(r => (
+          <div key={r.id} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6, fontSize: 13 }}>
+            <span style={{ flex: 1, color: r.active ? '#f55' : '#ccc' }}>
+              {new Date(r.recordingStart).toLocaleString()} · {r.mode} · {r.eventCount} events{r.active ? ' · recording' : ''}
+            </span>
+            <button className="v3-admin-btn" onClick={() => withErrors(loadRecording(r.id))}>▶ Load</button>
+            <button className="v3-admin-btn" title="Download JSON" onClick={() => withErrors(downloadRecording(r.id))}>↓</button>
+            <button className="v3-admin-btn" title="Download compact (.ndjson.gz)" onClick={() => withErrors(downloadRecording(r.id, 'compact'))}>↓gz</button>
+            <button
+              className="v3-admin-btn v3-admin-btn--destructive"
+              disabled={r.active}
+              onClick={() => { if (confirm(`Delete the recording with ${r.eventCount} events?`)) withErrors(deleteRecording(r.id)); }}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        {recordingsError && <p style={{ color: '#a74', fontSize: 12 }}>{recordingsError}</p>}
+      </div>
+
       {/* Playback section */}
       <div style={{ marginTop: 32, borderTop: '1px solid #444', paddingTop: 24 }}>
         <p style={{ marginBottom: 12, fontWeight: 600 }}>Playback</p>
         <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
           <label style={{ display: 'inline-block', cursor: 'pointer' }}>
             <span className="v3-admin-btn" style={{ display: 'inline-block' }}>
-              ↑ Load JSON file
+              ↑ Load recording file
             </span>
             <input
               type="file"
-              accept="application/json,.json"
+              accept="application/json,.json,.ndjson,.gz"
               onChange={handlePlaybackFile}
               style={{ display: 'none' }}
             />
@@ -167,31 +205,36 @@ export default function RecordTab({
             Valence traces ↗
           </a>
         </div>
-        {playbackData && (() => {
-          const events = playbackData.events as Record<string, unknown>[];
-          const uniqueUsers = new Set(events.map(e => e.connectionId)).size;
-          return (
-            <div style={{ marginTop: 12, color: '#aaa', fontSize: 13 }}>
-              <div style={{ color: '#eee', marginBottom: 2 }}>
-                {events.length} events · {uniqueUsers} users
-              </div>
-              <div style={{ color: '#888' }}>Mode: {playbackData.mode} · Room: {playbackData.room}</div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 12 }}>
+          <input
+            type="text"
+            value={v5Room}
+            placeholder="V5 room (video id)"
+            onChange={e => setV5Room(e.target.value.trim())}
+            style={{ ...inputStyle, width: 160 }}
+          />
+          <button className="v3-admin-btn" disabled={!v5Room} onClick={() => withErrors(importV5Session(v5Room))}>
+            ↑ Replay V5 session
+          </button>
+        </div>
+        {playbackState && (
+          <div style={{ marginTop: 12, color: '#aaa', fontSize: 13 }}>
+            <div style={{ color: '#eee', marginBottom: 2 }}>
+              {playbackState.eventCount} events · {playbackState.userCount} users
             </div>
-          );
-        })()}
+            <div style={{ color: '#888' }}>Mode: {playbackState.mode}</div>
+          </div>
+        )}
 
         {(() => {
-          const sorted = sortedEventsRef.current;
-          const durationMs = sorted.length > 1
-            ? (sorted[sorted.length - 1].timestamp as number) - (sorted[0].timestamp as number)
-            : 0;
+          const durationMs = playbackState?.durationMs ?? 0;
           const clampedElapsed = Math.min(playbackElapsed, durationMs || 1);
           const fmtTime = (ms: number) => {
             const m = Math.floor(ms / 60000);
             const s = Math.floor((ms % 60000) / 1000);
             return `${m}:${String(s).padStart(2, '0')}`;
           };
-          const hasData = !!playbackData && durationMs > 0;
+          const hasData = !!playbackState && durationMs > 0;
           return (
             <div style={{ marginTop: 16, opacity: hasData ? 1 : 0.35 }}>
               <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 12, color: '#888', marginBottom: 4 }}>
@@ -220,7 +263,7 @@ export default function RecordTab({
             <button
               className="v3-admin-btn v3-admin-btn-record"
               onClick={playPlayback}
-              disabled={!playbackData}
+              disabled={!playbackState}
             >
               ▶ {isPaused ? 'Resume' : 'Play'}
             </button>
@@ -232,6 +275,23 @@ export default function RecordTab({
           >
             ■ Stop
           </button>
+          <select
+            value={playbackState?.speed ?? 1}
+            disabled={!playbackState}
+            onChange={e => setPlaybackSpeed(Number(e.target.value))}
+            style={{ ...inputStyle, width: 'auto' }}
+          >
+            {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+          </select>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 13, color: '#aaa' }}>
+            <input
+              type="checkbox"
+              checked={playbackState?.loop ?? false}
+              disabled={!playbackState}
+              onChange={e => setPlaybackLoop(e.target.checked)}
+            />
+            Loop
+          </label>
         </div>
         {isPlaying && (
           <div style={{ marginTop: 8, color: '#f55', fontSize: 13, fontWeight: 600 }}>
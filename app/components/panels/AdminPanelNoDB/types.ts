@@ -1,29 +1,18 @@
 import type { ReactionRegion, ReactionAnchors } from "../../../utils/voteRegion";
 import { DEFAULT_ANCHORS } from "../../../utils/voteRegion";
 
-export type RecordingMode = 'transitions' | 'positions';
+export type { RecordingMode, PlaybackFile, PlaybackState, RecordingMeta, AgendaItem, AgendaState } from "../../../types";
 
-export type AdminTab = 'record' | 'labels' | 'anchors' | 'avatars' | 'interfaces' | 'events' | 'participants' | 'moments';
+export type AdminTab = 'record' | 'labels' | 'anchors' | 'avatars' | 'interfaces' | 'events' | 'participants' | 'moments' | 'agenda';
 
 export type PushTarget =
   | { kind: 'user'; userId: string }
   | { kind: 'region'; region: ReactionRegion | null }
-  | { kind: 'users'; userIds: string[]; label: string };
+  | { kind: 'users'; userIds: string[]; label: string }
+  /** A spatial group on the Map Viewer; the server resolves its members when sending. */
+  | { kind: 'group'; group: number; label: string };
 
-export interface PlaybackFile {
-  recordingStart: number;
-  recordingEnd: number;
-  room: string;
-  mode: RecordingMode;
-  events: object[];
-}
-
-export interface MomentSnapshot {
-  id: string;
-  label: string;
-  timestamp: number;
-  regions: Record<string, 'positive' | 'negative' | 'neutral' | null>;
-}
+export type { MomentSnapshot } from "../../../types";
 
 export interface GithubSubmission {
   username: string;
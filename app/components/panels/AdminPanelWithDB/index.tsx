@@ -2,15 +2,16 @@ import { useState, useRef, useEffect } from "react";
 import usePartySocket from "partysocket/react";
 import { getPartySocketConfig } from "../../../utils/partyHost";
 import { RoomSocketProvider } from "../../../contexts/RoomSocketContext";
+import { useAdminToken } from "../../../hooks/useAdminToken";
 import { DEFAULT_ANCHORS } from "../../../utils/voteRegion";
 import type { ReactionAnchors } from "../../../utils/voteRegion";
 import { REACTION_LABEL_PRESETS } from "../../../voteLabels";
 import type { ReactionLabelSet } from "../../../voteLabels";
 import Canvas from "../../shared/CursorField";
-import { countEvents, clearEvents } from "../../../lib/supabase";
-
-// Rooms whose recordings are protected from deletion via the admin UI.
-const PROTECTED_ROOMS = ['irc6creOFGs'];
+import { getReactionStore, resolveReactionStoreKind } from "../../../lib/reactionStore";
+import type { ReactionStorageConfig, ReactionStoreKind } from "../../../types";
+import { readRecordingFile } from "../../../utils/compactRecording";
+import { reactionEventsToPlaybackFile, playbackFileToReactionEvents } from "../../../utils/reactionEventAdapters";
 
 interface AdminPanelWithDBProps {
   room: string;
@@ -29,6 +30,7 @@ function anchorToLocal(anchors: ReactionAnchors) {
 
 export default function AdminPanelWithDB({ room }: AdminPanelWithDBProps) {
   const [mainTab, setMainTab] = useState<'admin' | 'peek'>('admin');
+  const { adminToken } = useAdminToken(room);
   const tabBarRef = useRef<HTMLDivElement>(null);
   const [tabBarHeight, setTabBarHeight] = useState(46);
 
@@ -47,6 +49,8 @@ export default function AdminPanelWithDB({ room }: AdminPanelWithDBProps) {
   const [presenceCount, setPresenceCount] = useState<number>(0);
   const [eventCount, setEventCount] = useState<number | null>(null);
   const [clearingEvents, setClearingEvents] = useState(false);
+  const [importingEvents, setImportingEvents] = useState(false);
+  const [reactionStorage, setReactionStorage] = useState<ReactionStorageConfig | null>(null);
 
   // Labels config state
   const [labelSelected, setLabelSelected] = useState<string>('default');
@@ -92,25 +96,62 @@ export default function AdminPanelWithDB({ room }: AdminPanelWithDBProps) {
     setNeutralY(local.neutralY);
   };
 
+  const storeKind = reactionStorage ? resolveReactionStoreKind(reactionStorage.store) : null;
+  const isProtected = reactionStorage?.protected ?? true;
+  const store = () => getReactionStore(storeKind);
+
   const refreshEventCount = () => {
-    countEvents(room).then(setEventCount);
+    if (storeKind === null) return;
+    setEventCount(null);
+    store().countEvents(room).then(setEventCount).catch(() => setEventCount(0));
   };
 
   useEffect(() => {
     refreshEventCount();
-  }, [room]);
+  }, [room, storeKind]);
 
   const handleClearEvents = async () => {
     setClearingEvents(true);
-    await clearEvents(room);
-    await refreshEventCount();
+    try {
+      await store().clearEvents(room, adminToken);
+    } catch (err) {
+      alert(`Failed to clear recordings: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    refreshEventCount();
     setClearingEvents(false);
   };
 
+  // Recordings share the V4 `PlaybackFile` model, so the Record tab can replay a download
+  // and a V4 recording can be imported here for the replay overlay.
+  const handleDownloadEvents = async () => {
+    const file = reactionEventsToPlaybackFile(await store().fetchEvents(room), room);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `reactions-${room}-v5.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportEvents = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportingEvents(true);
+    try {
+      await store().insertEvents(playbackFileToReactionEvents(await readRecordingFile(file), room), adminToken);
+      refreshEventCount();
+    } catch (err) {
+      alert(`Failed to import recording: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setImportingEvents(false);
+    }
+  };
+
   const socket = usePartySocket({
     ...getPartySocketConfig(),
     room,
-    query: { isAdmin: 'true' },
+    query: { isAdmin: 'true', ...(adminToken ? { adminToken } : {}) },
     onMessage(evt) {
       try {
         const data = JSON.parse(evt.data);
@@ -127,6 +168,12 @@ export default function AdminPanelWithDB({ room }: AdminPanelWithDBProps) {
             setUserCap(data.userCap);
             setCapInput(data.userCap !== null ? String(data.userCap) : '');
           }
+          if (data.reactionStorage) setReactionStorage(data.reactionStorage);
+          return;
+        }
+
+        if (data.type === 'reactionStorageChanged') {
+          setReactionStorage(data.config);
           return;
         }
 
@@ -151,6 +198,10 @@ export default function AdminPanelWithDB({ room }: AdminPanelWithDBProps) {
     },
   });
 
+  const sendReactionStorage = (config: ReactionStorageConfig) => {
+    socket.send(JSON.stringify({ type: 'setReactionStorage', ...config }));
+  };
+
   const sendUserCap = () => {
     const parsed = parseInt(capInput, 10);
     const cap = capInput === '' || parsed <= 0 ? null : parsed;
@@ -235,7 +286,7 @@ export default function AdminPanelWithDB({ room }: AdminPanelWithDBProps) {
 
       {mainTab === 'peek' && (
         <div style={{ flex: 1, overflow: 'hidden' }}>
-          <RoomSocketProvider room={room} userId="admin-peek" readOnly>
+          <RoomSocketProvider room={room} userId="admin-peek" readOnly adminToken={adminToken}>
             <Canvas
               userId="admin-peek"
               colorCursorsByVote={true}
@@ -288,11 +339,35 @@ export default function AdminPanelWithDB({ room }: AdminPanelWithDBProps) {
 
             {/* Recordings section */}
             <div style={{ borderTop: '1px solid #333', paddingTop: 20 }}>
-              <p style={{ marginBottom: 12, fontWeight: 600 }}>Supabase Recordings:</p>
+              <p style={{ marginBottom: 12, fontWeight: 600 }}>Recordings:</p>
+              {reactionStorage && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 12, fontSize: 13 }}>
+                  <label style={{ color: '#aaa' }}>
+                    Store{' '}
+                    <select
+                      value={reactionStorage.store ?? ''}
+                      onChange={e => sendReactionStorage({ ...reactionStorage, store: (e.target.value || null) as ReactionStoreKind | null })}
+                      style={inputStyle}
+                    >
+                      <option value="">Auto ({resolveReactionStoreKind(null) === 'supabase' ? 'Supabase' : 'room storage'})</option>
+                      <option value="supabase">Supabase</option>
+                      <option value="partykit">Room storage</option>
+                    </select>
+                  </label>
+                  <label style={{ color: '#aaa', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={reactionStorage.protected}
+                      onChange={e => sendReactionStorage({ ...reactionStorage, protected: e.target.checked })}
+                    />{' '}
+                    Protect from clearing and imports
+                  </label>
+                </div>
+              )}
               <p style={{ color: '#aaa', fontSize: 14, marginBottom: 16 }}>
                 {eventCount === null
                   ? 'Loading…'
-                  : <><span style={{ color: '#eee', fontWeight: 600 }}>{eventCount}</span> events recorded for room <code style={{ color: '#9cf', fontSize: 12 }}>{room}</code>{PROTECTED_ROOMS.includes(room) && <span style={{ marginLeft: 8, color: '#f90', fontSize: 12 }}>🔒 protected</span>}</>
+                  : <><span style={{ color: '#eee', fontWeight: 600 }}>{eventCount}</span> events recorded for room <code style={{ color: '#9cf', fontSize: 12 }}>{room}</code>{isProtected && <span style={{ marginLeft: 8, color: '#f90', fontSize: 12 }}>🔒 protected</span>}</>
                 }
               </p>
               <div style={{ display: 'flex', gap: 8 }}>
@@ -307,10 +382,30 @@ export default function AdminPanelWithDB({ room }: AdminPanelWithDBProps) {
                   className="v3-admin-btn v3-admin-btn--destructive"
                   style={{ padding: '6px 14px', fontSize: 13 }}
                   onClick={handleClearEvents}
-                  disabled={clearingEvents || (eventCount ?? 0) === 0 || PROTECTED_ROOMS.includes(room)}
+                  disabled={clearingEvents || (eventCount ?? 0) === 0 || isProtected}
                 >
                   {clearingEvents ? 'Clearing…' : '✕ Clear all recordings'}
                 </button>
+                <button
+                  className="v3-admin-btn"
+                  style={{ padding: '6px 14px', fontSize: 13 }}
+                  onClick={handleDownloadEvents}
+                  disabled={(eventCount ?? 0) === 0}
+                >
+                  ↓ Download as recording
+                </button>
+                <label style={{ display: 'inline-block', cursor: isProtected ? 'not-allowed' : 'pointer' }}>
+                  <span className="v3-admin-btn" style={{ display: 'inline-block', padding: '6px 14px', fontSize: 13, opacity: isProtected ? 0.4 : 1 }}>
+                    {importingEvents ? 'Importing…' : '↑ Import recording'}
+                  </span>
+                  <input
+                    type="file"
+                    accept="application/json,.json,.ndjson,.gz"
+                    onChange={handleImportEvents}
+                    disabled={importingEvents || isProtected}
+                    style={{ display: 'none' }}
+                  />
+                </label>
               </div>
             </div>
           </div>
@@ -7,6 +7,7 @@ import { flashSecondsRemaining } from "../../utils/flashTimer";
 import { useRoomSocket, useMessageSubscription } from "../../contexts/RoomSocketContext";
 import type { ReactionAnchors } from "../../utils/voteRegion";
 import type { GreeterConfig } from "../../../plugins/greeter/types";
+import type { CursorDensity, CursorModeConfig, ReactionStorageConfig } from "../../types";
 
 interface CursorPosition {
   x: number; // Normalized coordinates (0-100)
@@ -41,6 +42,10 @@ interface CanvasProps {
   onConnectedAsViewer?: (isViewer: boolean, userCap: number | null) => void;
   onUserCapChanged?: (cap: number | null) => void;
   onJoinApproved?: () => void;
+  /** Place in the server's waiting queue after `requestJoin` into a full room; null when not queued. */
+  onQueuePosition?: (position: number | null) => void;
+  /** A slot promoted from the waiting queue went unused and the user is a viewer again. */
+  onReservationExpired?: () => void;
   onSocketReady?: (send: (msg: string) => void) => void;
   debug?: boolean;
   disableCursorValence?: boolean;
@@ -55,6 +60,8 @@ interface CanvasProps {
   onNowLabelChange?: (label: string) => void;
   onInviteEdges?: (edges: Record<string, string>) => void;
   onOwnValenceDisplayChange?: (mode: 'background' | 'labels' | 'none') => void;
+  onReactionStorageChange?: (config: ReactionStorageConfig) => void;
+  onCursorModeChange?: (config: CursorModeConfig) => void;
   onValenceInputModeChange?: (mode: 'touch' | 'orientation-horizontal' | 'orientation-vertical') => void;
   onStrokeSegment?: (userId: string, strokeId: string, points: Array<{ x: number; y: number }>, isFinal: boolean) => void;
   onSignatureCleared?: (userId: string) => void;
@@ -92,10 +99,11 @@ function clipLineToRect(
   return [px + tMin * dx, py + tMin * dy, px + tMax * dx, py + tMax * dy];
 }
 
-export default function CursorField({ userId, screenName = 'personal', colorCursorsByVote: colorCursorsByVoteProp = false, disableCursorValence = false, disableBackgroundValence = false, hideActualCursors = false, currentReactionState, heightOffset, autoSize = false, onPresenceCount, onActiveCursorCountChange, onSimulatedCursorCountChange, onTimecodeUpdate, onRecordingStateChange, onRoomLabelsChange, onRoomAnchorsChange, onRoomAvatarStyleChange, onViewerCount, onConnectedAsViewer, onUserCapChanged, onJoinApproved, onSocketReady, onActivityTriggered, onRoomImageUrlChange, onSocialConfigChange, onGreeterConfigChange, onConnected, onNowLabelChange, onInviteEdges, onOwnValenceDisplayChange, onValenceInputModeChange, onStrokeSegment, onSignatureCleared, onConnectedUsers, onUserJoined, onUserLeft, debug = false, cursorSmoothingConfig }: CanvasProps) {
+export default function CursorField({ userId, screenName = 'personal', colorCursorsByVote: colorCursorsByVoteProp = false, disableCursorValence = false, disableBackgroundValence = false, hideActualCursors = false, currentReactionState, heightOffset, autoSize = false, onPresenceCount, onActiveCursorCountChange, onSimulatedCursorCountChange, onTimecodeUpdate, onRecordingStateChange, onRoomLabelsChange, onRoomAnchorsChange, onRoomAvatarStyleChange, onViewerCount, onConnectedAsViewer, onUserCapChanged, onJoinApproved, onQueuePosition, onReservationExpired, onSocketReady, onActivityTriggered, onRoomImageUrlChange, onSocialConfigChange, onGreeterConfigChange, onConnected, onNowLabelChange, onInviteEdges, onOwnValenceDisplayChange, onValenceInputModeChange, onReactionStorageChange, onCursorModeChange, onStrokeSegment, onSignatureCleared, onConnectedUsers, onUserJoined, onUserLeft, debug = false, cursorSmoothingConfig }: CanvasProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const smoothCursorLayerRef = useRef<SVGSVGElement>(null);
   const [cursors, setCursors] = useState<Map<string, CursorPosition>>(new Map());
+  const [density, setDensity] = useState<CursorDensity | null>(null); // set while the room is in density mode
   const [anchors, setAnchors] = useState<ReactionAnchors>(DEFAULT_ANCHORS);
   const [avatarStyle, setAvatarStyle] = useState<string | null>(null);
   const [customAvatars, setCustomAvatars] = useState<Record<string, string>>({}); // userId → photoUrl
@@ -319,6 +327,14 @@ export default function CursorField({ userId, screenName = 'personal', colorCurs
   // The socket is shared and stays alive, so the server won't re-send `connected` automatically.
   useEffect(() => { send(JSON.stringify({ type: 'getState' })); }, []);
 
+  // Entering density mode drops the remote cursors; the heatmap appears with the first tick.
+  // Our own cursor is drawn locally and never came from the server, so it stays.
+  const applyCursorMode = (config: CursorModeConfig, initial: CursorDensity | null) => {
+    if (config.active) setCursors(new Map());
+    setDensity(config.active ? initial : null);
+    onCursorModeChange?.(config);
+  };
+
   useMessageSubscription((evt) => {
     try {
         const data = JSON.parse(evt.data);
@@ -345,6 +361,7 @@ export default function CursorField({ userId, screenName = 'personal', colorCurs
           if ('customAvatars' in data && data.customAvatars) {
             setCustomAvatars(Object.fromEntries(Object.entries(data.customAvatars).map(([uid, v]: [string, any]) => [uid, v.photoUrl ?? v])));
           }
+          if ('flashTimer' in data) setFlashEnd(data.flashTimer?.endTimestamp ?? null);
           if ('colorCursorsByVote' in data) setColorCursorsByVote(data.colorCursorsByVote as boolean ?? colorCursorsByVoteProp);
           if ('defaultCursorColor' in data && data.defaultCursorColor) setDefaultCursorColor(data.defaultCursorColor as string);
           if ('ownValenceDisplay' in data && data.ownValenceDisplay) {
@@ -355,6 +372,12 @@ export default function CursorField({ userId, screenName = 'personal', colorCurs
           if ('valenceInputMode' in data && data.valenceInputMode) {
             onValenceInputModeChange?.(data.valenceInputMode as 'touch' | 'orientation-horizontal' | 'orientation-vertical');
           }
+          if ('reactionStorage' in data && data.reactionStorage) {
+            onReactionStorageChange?.(data.reactionStorage as ReactionStorageConfig);
+          }
+          if ('cursorMode' in data && data.cursorMode) {
+            applyCursorMode(data.cursorMode as CursorModeConfig, (data.cursorDensity as CursorDensity | undefined) ?? null);
+          }
           {
             const panels = (data.currentScreenPanels && typeof data.currentScreenPanels === 'object')
               ? data.currentScreenPanels as Record<string, string>
@@ -380,6 +403,7 @@ export default function CursorField({ userId, screenName = 'personal', colorCurs
           if ('roomSocialConfig' in data) onSocialConfigChange?.(data.roomSocialConfig ?? null);
           if ('connectedUserIds' in data) onConnectedUsers?.(data.connectedUserIds ?? []);
           onConnectedAsViewer?.(data.isViewer ?? false, data.userCap ?? null);
+          onQueuePosition?.(data.queuePosition ?? null);
           onViewerCount?.(data.viewerCount ?? 0);
           onConnected?.(data.inviteEdges ?? undefined, 'currentScreenPanel' in data ? (data.currentScreenPanel ?? 'canvas') : undefined);
           return;
@@ -406,6 +430,16 @@ export default function CursorField({ userId, screenName = 'personal', colorCurs
           return;
         }
 
+        if (data.type === 'queuePosition') {
+          onQueuePosition?.(data.position);
+          return;
+        }
+
+        if (data.type === 'reservationExpired') {
+          onReservationExpired?.();
+          return;
+        }
+
         if (data.type === 'timecodeUpdate') {
           onTimecodeUpdate?.(data.timecode);
           return;
@@ -461,6 +495,21 @@ export default function CursorField({ userId, screenName = 'personal', colorCurs
           return;
         }
 
+        if (data.type === 'reactionStorageChanged') {
+          onReactionStorageChange?.(data.config as ReactionStorageConfig);
+          return;
+        }
+
+        if (data.type === 'cursorModeChanged') {
+          applyCursorMode(data.config as CursorModeConfig, null);
+          return;
+        }
+
+        if (data.type === 'cursorDensity') {
+          setDensity(data.density as CursorDensity);
+          return;
+        }
+
         if (data.type === 'imageUrlChanged') {
           const url = data.url ?? '';
           setImageUrl(url);
@@ -473,6 +522,11 @@ export default function CursorField({ userId, screenName = 'personal', colorCurs
           return;
         }
 
+        if (data.type === 'flashTimerCancelled') {
+          setFlashEnd(null);
+          return;
+        }
+
         if (data.type === 'nowLabelChanged') {
           const lbl = (data.label as string) ?? '';
           setNowLabel(lbl);
@@ -773,15 +827,36 @@ export default function CursorField({ userId, screenName = 'personal', colorCurs
       }
     }
 
-    // Add cursor positions as colored dots - convert normalized coordinates to pixels
-    if (hideActualCursors) return;
-
     // When an image is active, map image-relative 0-100 coords to screen pixels
     const imgSize = (screenPanel === 'image-canvas' && imageUrl) ? imageNaturalSize : null;
     const toScreenCoords = makeImageCoordTransform(dimensions, imgSize);
     const toScreenX = (n: number) => toScreenCoords(n, 0).x;
     const toScreenY = (n: number) => toScreenCoords(0, n).y;
 
+    // Density mode: a heatmap of the room's cursors stands in for the individual ones
+    if (density) {
+      const max = Math.max(1, ...density.cells);
+      const cellData = density.cells.flatMap((count, i) => {
+        if (count === 0) return [];
+        const col = i % density.cols, row = Math.floor(i / density.cols);
+        const x = toScreenX(col * 100 / density.cols), y = toScreenY(row * 100 / density.rows);
+        return [{ x, y, w: toScreenX((col + 1) * 100 / density.cols) - x, h: toScreenY((row + 1) * 100 / density.rows) - y, count }];
+      });
+      svg.selectAll('.density-cell')
+        .data(cellData)
+        .enter()
+        .append('rect')
+        .attr('class', 'density-cell')
+        .attr('x', d => d.x).attr('y', d => d.y)
+        .attr('width', d => d.w).attr('height', d => d.h)
+        .attr('fill', 'rgb(255, 120, 0)')
+        .attr('fill-opacity', d => 0.15 + 0.6 * d.count / max);
+      return;
+    }
+
+    // Add cursor positions as colored dots - convert normalized coordinates to pixels
+    if (hideActualCursors) return;
+
     const cursorData = Array.from(cursors.entries()).map(([cursorUserId, cursor]) => ({
       cursorUserId,
       x: toScreenX(cursor.x),
@@ -924,7 +999,7 @@ export default function CursorField({ userId, screenName = 'personal', colorCurs
         .text((d: any) => d.cursorUserId.substring(0, 6));
     }
 
-  }, [cursors, dimensions, anchors, debug, hideActualCursors, avatarStyle, customAvatars, colorCursorsByVote, defaultCursorColor, ownValenceDisplay, screenPanel, ballPos, soccerScore, imageUrl, imageNaturalSize]);
+  }, [cursors, density, dimensions, anchors, debug, hideActualCursors, avatarStyle, customAvatars, colorCursorsByVote, defaultCursorColor, ownValenceDisplay, screenPanel, ballPos, soccerScore, imageUrl, imageNaturalSize]);
 
   // Handle resize. In autoSize mode, track the parent element's box (for embedding in
   // constrained containers like the demo phone frames); otherwise track the window.
@@ -80,6 +80,8 @@ export interface ReactionCanvasParticipantProps {
   onConnectedAsViewer?: (isViewer: boolean, userCap: number | null) => void;
   onUserCapChanged?: (cap: number | null) => void;
   onJoinApproved?: () => void;
+  onQueuePosition?: (position: number | null) => void;
+  onReservationExpired?: () => void;
   onActivityTriggered?: (activityName: string) => void;
 
   onBackgroundColorChange?: (reactionState: ReactionState) => void;
@@ -152,6 +154,8 @@ export default function ReactionCanvasParticipant({
   onConnectedAsViewer,
   onUserCapChanged,
   onJoinApproved,
+  onQueuePosition,
+  onReservationExpired,
   onActivityTriggered,
   onBackgroundColorChange,
   onTouchPosition,
@@ -264,6 +268,8 @@ export default function ReactionCanvasParticipant({
         onConnectedAsViewer={handleConnectedAsViewer}
         onUserCapChanged={handleUserCap}
         onJoinApproved={onJoinApproved}
+        onQueuePosition={onQueuePosition}
+        onReservationExpired={onReservationExpired}
         onSocketReady={onSocketReady}
         onActivityTriggered={onActivityTriggered}
         onRoomImageUrlChange={onRoomImageUrlChange}
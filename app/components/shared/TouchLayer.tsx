@@ -1,7 +1,7 @@
 import { useRef, useEffect, useState } from "react";
 import { computeReactionRegion, DEFAULT_ANCHORS } from "../../utils/voteRegion";
 import { CURSOR_THROTTLE_MS } from "../../utils/cursor";
-import { useRoomSocket } from "../../contexts/RoomSocketContext";
+import { useRoomSocket, useMessageSubscription } from "../../contexts/RoomSocketContext";
 import type { ReactionAnchors } from "../../utils/voteRegion";
 
 interface CursorPosition {
@@ -31,7 +31,7 @@ interface TouchLayerProps {
   imageUrl?: string; // When set, normalize coordinates relative to displayed image bounds
   disabled?: boolean; // When true, ignores all pointer events
   autoSize?: boolean; // When true, normalize against this layer's own size (ResizeObserver) instead of the window. For embedding in constrained containers (e.g. demo phone frames). Ignores heightOffset.
-  throttleMs?: number; // Min ms between cursor sends (0 = no throttle)
+  throttleMs?: number; // Min ms between cursor sends (0 = no throttle); default: the server's recommendation
 }
 
 export default function TouchLayer({
@@ -47,11 +47,12 @@ export default function TouchLayer({
   imageUrl,
   disabled = false,
   autoSize = false,
-  throttleMs = CURSOR_THROTTLE_MS,
+  throttleMs,
 }: TouchLayerProps) {
   const layerRef = useRef<HTMLDivElement>(null);
   const throttleMsRef = useRef(throttleMs);
   throttleMsRef.current = throttleMs;
+  const serverThrottleMsRef = useRef(CURSOR_THROTTLE_MS);
   const lastSentRef = useRef(0);
   const [userReactionState, setUserReactionState] = useState<ReactionState>(null);
   const [dimensions, setDimensions] = useState({
@@ -75,10 +76,25 @@ export default function TouchLayer({
 
   const { send } = useRoomSocket();
 
+  // The server slows everyone down as the room fills (see app/utils/cursorThrottle.ts).
+  // Cursor traffic passes through here too, so only the two pacing messages get parsed.
+  useMessageSubscription((evt) => {
+    if (typeof evt.data !== 'string') return;
+    if (!evt.data.startsWith('{"type":"cursorPacingChanged"') && !evt.data.startsWith('{"type":"connected"')) return;
+    try {
+      const data = JSON.parse(evt.data);
+      const pacing = data.type === 'connected' ? data.cursorPacing : data.pacing;
+      if (typeof pacing?.throttleMs === 'number') serverThrottleMsRef.current = pacing.throttleMs;
+    } catch {
+      // CursorField reports unparseable messages
+    }
+  });
+
   const sendCursorEvent = (type: CursorEvent['type'], position: CursorPosition) => {
-    if (type !== 'remove' && throttleMsRef.current > 0) {
+    const limit = throttleMsRef.current ?? serverThrottleMsRef.current;
+    if (type !== 'remove' && limit > 0) {
       const now = Date.now();
-      if (now - lastSentRef.current < throttleMsRef.current) return;
+      if (now - lastSentRef.current < limit) return;
       lastSentRef.current = now;
     }
     const event: CursorEvent = { type, position };
@@ -154,9 +170,10 @@ export default function TouchLayer({
       normalizedY = (pixelY / dimensions.height) * 100;
     }
 
+    // The server rejects coordinates outside 0–100 (e.g. touches in the image letterbox)
     return {
-      x: normalizedX,
-      y: normalizedY,
+      x: Math.max(0, Math.min(100, normalizedX)),
+      y: Math.max(0, Math.min(100, normalizedY)),
       timestamp: Date.now(),
       userId
     };
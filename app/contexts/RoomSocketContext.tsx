@@ -1,6 +1,10 @@
 import { createContext, useCallback, useContext, useEffect, useMemo, useRef } from "react";
 import usePartySocket from "partysocket/react";
 import { getPartySocketConfig } from "../utils/partyHost";
+import { expandCursorEvents } from "../utils/cursor";
+import { CursorIdDirectory, CURSOR_FORMAT_PARAM } from "../utils/cursorWire";
+import type { CursorWireFormat } from "../utils/cursorWire";
+import { MessageSequence, sequenceOf } from "../utils/messageSequence";
 
 interface RoomSocketContextValue {
   send: (msg: string) => void;
@@ -15,11 +19,21 @@ interface RoomSocketProviderProps {
   userId: string;
   party?: string;
   readOnly?: boolean;
+  /** Room admin secret; grants emcee privileges on this socket without changing how it counts toward presence. */
+  adminToken?: string | null;
+  /** "binary" asks the server for compact cursor frames (defaults to `?cursorFormat=`, else JSON). */
+  cursorFormat?: CursorWireFormat;
   children: React.ReactNode;
 }
 
-export function RoomSocketProvider({ room, userId, party = "main", readOnly = false, children }: RoomSocketProviderProps) {
+function cursorFormatFromUrl(): CursorWireFormat {
+  return new URLSearchParams(window.location.search).get(CURSOR_FORMAT_PARAM) === 'binary' ? 'binary' : 'json';
+}
+
+export function RoomSocketProvider({ room, userId, party = "main", readOnly = false, adminToken = null, cursorFormat = cursorFormatFromUrl(), children }: RoomSocketProviderProps) {
   const subscribersRef = useRef(new Set<(evt: MessageEvent) => void>());
+  const cursorIdsRef = useRef(new CursorIdDirectory());
+  const sequenceRef = useRef(new MessageSequence());
 
   const subscribe = useCallback((cb: (evt: MessageEvent) => void) => {
     subscribersRef.current.add(cb);
@@ -33,12 +47,39 @@ export function RoomSocketProvider({ room, userId, party = "main", readOnly = fa
     ...getPartySocketConfig(),
     party,
     room,
-    query: readOnly ? { isAdmin: "true" } : { userId },
+    query: {
+      ...(readOnly ? { isAdmin: "true" } : { userId }),
+      ...(adminToken ? { adminToken } : {}),
+      ...(cursorFormat === 'binary' ? { [CURSOR_FORMAT_PARAM]: 'binary' } : {}),
+    },
+    onOpen() {
+      // After a reconnect, ask for what went out while the socket was down.
+      const resume = sequenceRef.current.resumeRequest();
+      if (resume) socket.send(JSON.stringify(resume));
+    },
     onMessage(evt) {
+      // Binary cursor frames are handed on as the JSON `cursorBatch` they stand for, so
+      // subscribers never see the wire format.
+      if (evt.data instanceof ArrayBuffer) {
+        const cursors = expandCursorEvents(evt.data, cursorIdsRef.current);
+        if (cursors.length === 0) return;
+        evt = new MessageEvent('message', { data: JSON.stringify({ type: 'cursorBatch', cursors }) });
+      } else if (typeof evt.data === 'string') {
+        if (!trackSequence(evt.data, sequenceRef.current)) return;
+        if (cursorFormat === 'binary') trackCursorIds(evt.data, cursorIdsRef.current);
+      } else {
+        // A binary frame that beat the effect below setting `binaryType` arrives as a Blob.
+        // Cursor batches are superseded within a tick, so dropping it loses nothing.
+        return;
+      }
       subscribersRef.current.forEach(cb => cb(evt));
     },
   });
 
+  useEffect(() => {
+    if (cursorFormat === 'binary') socket.binaryType = 'arraybuffer';
+  }, [socket, cursorFormat]);
+
   const send = useCallback((msg: string) => socket.send(msg), [socket]);
 
   const value = useMemo(() => ({ send, subscribe, unsubscribe }), [send, subscribe, unsubscribe]);
@@ -50,6 +91,27 @@ export function RoomSocketProvider({ room, userId, party = "main", readOnly = fa
   );
 }
 
+// Only the two messages that carry cursor ids are parsed here; everything else passes by.
+function trackCursorIds(data: string, directory: CursorIdDirectory): void {
+  if (data.startsWith('{"type":"cursorIds"')) {
+    directory.apply(JSON.parse(data).ids);
+  } else if (data.startsWith('{"type":"connected"')) {
+    directory.apply(JSON.parse(data).cursorIds ?? {}, true);
+  }
+}
+
+// False for a sequenced message this client already handled (a replay that overlaps
+// what arrived live).
+function trackSequence(data: string, sequence: MessageSequence): boolean {
+  if (data.startsWith('{"type":"connected"')) {
+    const info = JSON.parse(data).sequence;
+    if (info) sequence.sync(info);
+    return true;
+  }
+  const seq = sequenceOf(data);
+  return seq === null || sequence.accept(seq);
+}
+
 export function useRoomSocket(): RoomSocketContextValue {
   const ctx = useContext(RoomSocketContext);
   if (!ctx) throw new Error("useRoomSocket must be used inside RoomSocketProvider");
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from "react";
+import { getStoredAdminToken, consumeAdminTokenParam, consumeClaimKeyParam, claimAdminToken, clearAdminToken } from "../utils/adminToken";
+
+// Resolves this device's admin token for `room`: ?adminToken= link, then localStorage,
+// then a claim against the server using the deployment's claim key (?claimKey=). Stays
+// null without the key or when the room belongs to another emcee. `rejectToken` drops a
+// token the server refused so it can re-claim.
+export function useAdminToken(room: string, enabled = true) {
+  const [adminToken, setAdminToken] = useState<string | null>(() => {
+    consumeAdminTokenParam(room);
+    consumeClaimKeyParam();
+    return getStoredAdminToken(room);
+  });
+  const [claimFailed, setClaimFailed] = useState(false);
+
+  useEffect(() => {
+    setAdminToken(getStoredAdminToken(room));
+    setClaimFailed(false);
+  }, [room]);
+
+  useEffect(() => {
+    if (!enabled || adminToken || claimFailed) return;
+    let cancelled = false;
+    claimAdminToken(room).then(token => {
+      if (cancelled) return;
+      if (token) setAdminToken(token);
+      else setClaimFailed(true);
+    });
+    return () => { cancelled = true; };
+  }, [room, enabled, adminToken, claimFailed]);
+
+  const rejectToken = useCallback(() => {
+    clearAdminToken(room);
+    setAdminToken(null);
+  }, [room]);
+
+  return { adminToken, claimFailed, rejectToken };
+}
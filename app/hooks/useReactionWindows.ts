@@ -0,0 +1,45 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { getReactionStore } from "../lib/reactionStore";
+import type { ReactionEvent, ReactionStoreKind } from "../types";
+
+/** Seconds of video fetched at a time; within the room's own per-request window. */
+export const REACTION_WINDOW_SEC = 30;
+
+// Recorded V5 reactions around `timecode`: the window it falls in and the ones either side,
+// fetched as playback reaches them and dropped once it moves on, so a long video's
+// reactions are never loaded whole. Replay only draws rows within half a second of now.
+export function useReactionWindows(kind: ReactionStoreKind | null, room: string, timecode: number): ReactionEvent[] {
+  const [windows, setWindows] = useState<Map<number, ReactionEvent[]>>(() => new Map());
+  const requestedRef = useRef(new Set<number>());
+  const sourceRef = useRef('');
+  const current = Math.floor(timecode / REACTION_WINDOW_SEC);
+
+  useEffect(() => {
+    if (kind === null) return;
+    const source = `${kind}:${room}`;
+    const switched = sourceRef.current !== source;
+    if (switched) {
+      sourceRef.current = source;
+      requestedRef.current = new Set();
+    }
+    const wanted = new Set([current - 1, current, current + 1].filter(w => w >= 0));
+    for (const w of requestedRef.current) if (!wanted.has(w)) requestedRef.current.delete(w);
+    setWindows(prev => switched ? new Map() : new Map([...prev].filter(([w]) => wanted.has(w))));
+
+    for (const w of wanted) {
+      if (requestedRef.current.has(w)) continue;
+      requestedRef.current.add(w);
+      getReactionStore(kind).fetchEvents(room, { from: w * REACTION_WINDOW_SEC, to: (w + 1) * REACTION_WINDOW_SEC })
+        .catch(err => {
+          console.warn('[V5] reactions fetch failed', err);
+          return [];
+        })
+        .then(events => {
+          if (sourceRef.current !== source || !requestedRef.current.has(w)) return;
+          setWindows(prev => new Map(prev).set(w, events));
+        });
+    }
+  }, [kind, room, current]);
+
+  return useMemo(() => [...windows.values()].flat(), [windows]);
+}
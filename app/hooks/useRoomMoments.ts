@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from "react";
+import { fetchRoomMoments } from "../utils/roomMoments";
+import { getStoredAdminToken } from "../utils/adminToken";
+import type { MomentSnapshot } from "../types";
+
+// Server-held moments for `room`. Callers wire `refresh` to the `momentsChanged`
+// socket message, since each surface listens on a different socket. Reading them takes
+// the admin token: `adminToken`, else the one this device stored for the room; without
+// either the list stays empty.
+export function useRoomMoments(room: string, adminToken: string | null = null) {
+  const [moments, setMoments] = useState<MomentSnapshot[]>([]);
+
+  const refresh = useCallback(() => {
+    const token = adminToken ?? getStoredAdminToken(room);
+    if (!token) {
+      setMoments([]);
+      return;
+    }
+    fetchRoomMoments(room, token)
+      .then(setMoments)
+      .catch(err => console.warn('[moments] fetch failed', err));
+  }, [room, adminToken]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  return { moments, refresh };
+}
@@ -0,0 +1,100 @@
+import {
+  isSupabaseConfigured,
+  insertEvents as insertSupabaseEvents,
+  fetchEvents as fetchSupabaseEvents,
+  countEvents as countSupabaseEvents,
+  clearEvents as clearSupabaseEvents,
+} from './supabase';
+import { getRoomHttpUrl } from '../utils/partyHost';
+import type { ReactionEvent, ReactionEventPage, ReactionStorageConfig, ReactionStoreKind } from '../types';
+
+// V5 keeps reactions either in the hosted Supabase table or in the PartyKit room's own
+// storage (party/lib/reactionEvents.ts), chosen per room by the emcee. Rooms that haven't
+// chosen use Supabase when it is configured, so local dev works without a hosted database.
+
+export type NewReactionEvent = Omit<ReactionEvent, 'id' | 'recorded_at'>;
+
+/** A stretch of video timecode in seconds, `to` exclusive. */
+export interface ReactionTimecodeRange {
+  from: number;
+  to: number;
+}
+
+export interface ReactionStore {
+  kind: ReactionStoreKind;
+  /** Room storage throttles posts unless they carry the admin token, as bulk imports do. */
+  insertEvents(events: NewReactionEvent[], adminToken?: string | null): Promise<void>;
+  /** Rows with `from <= timecode < to` when `range` is given, else every row in the room. */
+  fetchEvents(room: string, range?: ReactionTimecodeRange): Promise<ReactionEvent[]>;
+  countEvents(room: string): Promise<number>;
+  /** Room storage needs the admin token and refuses protected rooms; Supabase needs neither. */
+  clearEvents(room: string, adminToken: string | null): Promise<void>;
+}
+
+const supabaseStore: ReactionStore = {
+  kind: 'supabase',
+  insertEvents: events => insertSupabaseEvents(events),
+  fetchEvents: fetchSupabaseEvents,
+  countEvents: countSupabaseEvents,
+  clearEvents: async room => { await clearSupabaseEvents(room); },
+};
+
+/** Rows per `POST /reactions`; the server refuses more. */
+const PARTYKIT_BATCH_SIZE = 500;
+
+const partykitStore: ReactionStore = {
+  kind: 'partykit',
+  async insertEvents(events, adminToken) {
+    for (let i = 0; i < events.length; i += PARTYKIT_BATCH_SIZE) {
+      const batch = events.slice(i, i + PARTYKIT_BATCH_SIZE);
+      const res = await fetch(getRoomHttpUrl(batch[0].room, 'reactions'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(adminToken ? { Authorization: `Bearer ${adminToken}` } : {}) },
+        body: JSON.stringify({ events: batch }),
+      });
+      if (!res.ok) throw new Error(`POST /reactions failed: ${res.status}`);
+    }
+  },
+  // The room answers a window of the range at a time and says where to continue.
+  async fetchEvents(room, range) {
+    const events: ReactionEvent[] = [];
+    let from: number | null = range?.from ?? 0;
+    while (from !== null) {
+      const params = new URLSearchParams({ from: String(from), ...(range ? { to: String(range.to) } : {}) });
+      const res = await fetch(getRoomHttpUrl(room, `reactions?${params}`));
+      if (!res.ok) throw new Error(`GET /reactions failed: ${res.status}`);
+      const page = await res.json() as ReactionEventPage;
+      events.push(...page.events);
+      from = page.next;
+    }
+    return events;
+  },
+  async countEvents(room) {
+    const res = await fetch(getRoomHttpUrl(room, 'reactions/count'));
+    if (!res.ok) throw new Error(`GET /reactions/count failed: ${res.status}`);
+    return ((await res.json()) as { count: number }).count;
+  },
+  async clearEvents(room, adminToken) {
+    if (!adminToken) throw new Error('Clearing reactions requires the room admin token');
+    const res = await fetch(getRoomHttpUrl(room, 'reactions'), {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+    if (!res.ok) throw new Error(`DELETE /reactions failed: ${res.status}`);
+  },
+};
+
+export function resolveReactionStoreKind(kind: ReactionStoreKind | null): ReactionStoreKind {
+  return kind ?? (isSupabaseConfigured ? 'supabase' : 'partykit');
+}
+
+export function getReactionStore(kind: ReactionStoreKind | null): ReactionStore {
+  return resolveReactionStoreKind(kind) === 'supabase' ? supabaseStore : partykitStore;
+}
+
+/** A room's storage settings, for callers without a socket to it (e.g. the V4 Record tab). */
+export async function fetchReactionStorageConfig(room: string): Promise<ReactionStorageConfig> {
+  const res = await fetch(getRoomHttpUrl(room, 'reactions/config'));
+  if (!res.ok) throw new Error(`GET /reactions/config failed: ${res.status}`);
+  return res.json() as Promise<ReactionStorageConfig>;
+}
@@ -1,5 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ReactionEvent } from '../types';
+
+export type { ReactionEvent };
 
 // process.env.* is replaced at build time by partykit.json define.
 // When secrets are not configured (local dev), the substituted identifier
@@ -37,28 +40,29 @@ export async function testConnection(): Promise<boolean> {
   return true;
 }
 
-export interface ReactionEvent {
-  id?: number;
-  room: string;
-  session_id: string;
-  type: 'touch' | 'move' | 'lift';
-  x: number | null;
-  y: number | null;
-  timecode: number;
-  recorded_at?: string;
-}
-
 export async function insertEvent(event: Omit<ReactionEvent, 'id' | 'recorded_at'>) {
   if (!supabase) return;
   return supabase.from('reaction_events').insert(event);
 }
 
-export async function fetchEvents(room: string): Promise<ReactionEvent[]> {
+/** Bulk insert, in batches so a long recording doesn't exceed the request size limit. */
+export async function insertEvents(events: Omit<ReactionEvent, 'id' | 'recorded_at'>[], batchSize = 500) {
+  if (!supabase) return;
+  for (let i = 0; i < events.length; i += batchSize) {
+    const { error } = await supabase.from('reaction_events').insert(events.slice(i, i + batchSize));
+    if (error) throw new Error(`insertEvents failed: ${error.message}`);
+  }
+}
+
+/** Every row for `room`, or only those with `from <= timecode < to` when a range is given. */
+export async function fetchEvents(room: string, range?: { from: number; to: number }): Promise<ReactionEvent[]> {
   if (!supabase) return [];
-  const { data, error } = await supabase
+  let query = supabase
     .from('reaction_events')
     .select('*')
     .eq('room', room);
+  if (range) query = query.gte('timecode', range.from).lt('timecode', range.to);
+  const { data, error } = await query;
   if (error) {
     console.error('fetchEvents error:', error);
     return [];
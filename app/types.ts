@@ -9,12 +9,170 @@ export interface MapProjection {
   coords: [string, [number, number]][];
   algorithm: string;
   computedAt: string;
+  /** Opinion groups found in the same matrix the coords were projected from. */
+  clusters?: MapClusters;
+}
+
+/** k-means groups over the participant × moment matrix; see plugins/map/clustering.ts. */
+export interface MapClusters {
+  k: number;
+  /** Mean silhouette of the chosen k, in [-1, 1]. */
+  silhouette: number;
+  /** userId → group index; group 0 is the largest. */
+  assignments: [string, number][];
+}
+
+/** Every seen participant's reaction region at one instant; null = no cursor on the canvas. */
+export interface MomentSnapshot {
+  id: string;
+  label: string;
+  timestamp: number;
+  regions: Record<string, 'positive' | 'negative' | 'neutral' | null>;
+}
+
+export type RecordingMode = 'transitions' | 'positions';
+
+/** One row of a recording: a raw cursor event, a presence change, or a region transition. */
+export type RecordedEvent =
+  | { connectionId: string; type: 'move' | 'touch' | 'remove'; x: number; y: number; timestamp: number }
+  | { connectionId: string; type: 'arrival' | 'departure'; timestamp: number }
+  | { connectionId: string; from: MomentSnapshot['regions'][string]; to: MomentSnapshot['regions'][string]; timestamp: number };
+
+/** The JSON a recording downloads as, and what the Record tab's playback loads. */
+export interface PlaybackFile {
+  recordingStart: number;
+  recordingEnd: number;
+  room: string;
+  mode: RecordingMode;
+  events: object[];
+}
+
+/** One V5 reaction: a cursor event stamped with the video timecode it happened at. */
+export interface ReactionEvent {
+  id?: number;
+  room: string;
+  session_id: string;
+  type: 'touch' | 'move' | 'lift';
+  x: number | null;
+  y: number | null;
+  /** Video timecode in seconds. */
+  timecode: number;
+  recorded_at?: string;
+}
+
+/** One `GET /reactions` response: rows for a window of the range asked for, and where to continue. */
+export interface ReactionEventPage {
+  events: ReactionEvent[];
+  /** Timecode to request `from` next, or null once the range is covered. */
+  next: number | null;
+}
+
+/** Where a room's V5 reactions are kept: the hosted Supabase table or the room's own storage. */
+export type ReactionStoreKind = 'supabase' | 'partykit';
+
+/** A room's V5 reaction storage settings, as sent in `reactionStorageChanged`. */
+export interface ReactionStorageConfig {
+  /** Null picks Supabase when it is configured, else room storage. */
+  store: ReactionStoreKind | null;
+  /** Protected rooms refuse clearing and importing reactions. */
+  protected: boolean;
+}
+
+/**
+ * How the server relays participants' cursors: each one, only their density, or density
+ * once the room reaches `densityThreshold` participants.
+ */
+export type CursorMode = 'individual' | 'density' | 'auto';
+
+/** A room's cursor mode settings, as sent in `cursorModeChanged`. */
+export interface CursorModeConfig {
+  mode: CursorMode;
+  threshold: number;
+  /** Whether the room is getting `cursorDensity` instead of individual cursors right now. */
+  active: boolean;
+}
+
+/** Where the room's cursors are, as broadcast in `cursorDensity` while density mode is active. */
+export interface CursorDensity {
+  cols: number;
+  rows: number;
+  /** Cursor count per cell, row by row from the top-left. */
+  cells: number[];
+  regions: { positive: number; negative: number; neutral: number };
+  total: number;
+}
+
+/** A viewer waiting for a participant slot, as listed in `waitingQueueChanged`. */
+export interface QueuedViewer {
+  userId: string;
+  /** When they asked to join. */
+  since: number;
+}
+
+/** The waiting list as the emcee sees it. */
+export interface WaitingQueueState {
+  queue: QueuedViewer[];
+  /** Seconds a promoted viewer has to start reacting before the slot passes on; null holds it indefinitely. */
+  reservationSec: number | null;
+}
+
+/** Index entry for a recording the server keeps in room storage. */
+export interface RecordingMeta {
+  id: string;
+  room: string;
+  mode: RecordingMode;
+  recordingStart: number;
+  /** Time of the last flushed or recorded event; the stop time once finished. */
+  recordingEnd: number;
+  eventCount: number;
+  chunkCount: number;
+  /** True while the server is still appending to it. */
+  active: boolean;
+}
+
+/** Server-driven replay of a stored recording, as reported in `playbackStateChanged`. */
+export interface PlaybackState {
+  recordingId: string;
+  mode: RecordingMode;
+  status: 'playing' | 'paused' | 'stopped';
+  /** Position in recording time, ms from the first event. */
+  positionMs: number;
+  durationMs: number;
+  /** Recording ms replayed per wall-clock ms. */
+  speed: number;
+  loop: boolean;
+  eventCount: number;
+  userCount: number;
+}
+
+/** One prepared statement in the emcee's V4 agenda. */
+export interface AgendaItem {
+  id: string;
+  statement: string;
+  /** Applied as the room labels while the item is current; omitted keeps the room's labels. */
+  labels?: { positive: string; negative: string; neutral: string } | null;
+  anchors?: { positive: { x: number; y: number }; negative: { x: number; y: number }; neutral: { x: number; y: number } } | null;
+  /** How long the item runs; omitted items wait for the emcee. */
+  durationSec?: number | null;
+}
+
+export interface AgendaState {
+  items: AgendaItem[];
+  /** null before the first item and after the last. */
+  currentIndex: number | null;
+  /** Set once the agenda steps past its last item; `next` does nothing until it is stepped back. */
+  ended: boolean;
+  /** When the current item's duration runs out, if it has one. */
+  itemEndsAt: number | null;
+  /** Snap a moment and move on when `itemEndsAt` passes. */
+  autoAdvance: boolean;
 }
 
 export type ValenceInputMode = 'touch' | 'orientation-horizontal' | 'orientation-vertical' | 'orientation-rotation';
 
 export interface MapViewerConfig {
-  colorMode: 'none' | 'moment' | 'now';
+  /** 'group' colours dots by spatial group on the map (plugins/map/mapGroups.ts) and outlines each group. */
+  colorMode: 'none' | 'moment' | 'now' | 'group';
   momentId: string | null;
 }
 
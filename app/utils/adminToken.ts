@@ -0,0 +1,106 @@
+import { getRoomHttpUrl } from "./partyHost";
+
+// The server mints one admin secret per room and hands it to the first POST /admin-token
+// that presents the deployment's claim key. The emcee keeps it in localStorage and shares
+// it to other devices via ?adminToken=.
+
+const CLAIM_KEY_STORAGE = 'admin-claim-key';
+
+export function getStoredAdminToken(room: string): string | null {
+  try {
+    return localStorage.getItem(`admin-token-${room}`);
+  } catch {
+    return null;
+  }
+}
+
+export function storeAdminToken(room: string, token: string): void {
+  try {
+    localStorage.setItem(`admin-token-${room}`, token);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export function clearAdminToken(room: string): void {
+  try {
+    localStorage.removeItem(`admin-token-${room}`);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export function getStoredClaimKey(): string | null {
+  try {
+    return localStorage.getItem(CLAIM_KEY_STORAGE);
+  } catch {
+    return null;
+  }
+}
+
+export function storeClaimKey(key: string): void {
+  try {
+    localStorage.setItem(CLAIM_KEY_STORAGE, key);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+/** Removes `name` from the address bar, returning its value. */
+function takeUrlParam(name: string): string | null {
+  const p = new URLSearchParams(window.location.search);
+  const value = p.get(name);
+  if (!value) return null;
+  p.delete(name);
+  const qs = p.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${qs ? `?${qs}` : ''}${window.location.hash}`);
+  return value;
+}
+
+/** Persists a ?adminToken= URL param for the room and strips it from the address bar. */
+export function consumeAdminTokenParam(room: string): void {
+  const token = takeUrlParam('adminToken');
+  if (token) storeAdminToken(room, token);
+}
+
+/** Persists a ?claimKey= URL param for every room and strips it from the address bar. */
+export function consumeClaimKeyParam(): void {
+  const key = takeUrlParam('claimKey');
+  if (key) storeClaimKey(key);
+}
+
+// Several admin surfaces can mount at once (V4 shell + emcee panel); share one request
+// per room so they don't race each other and have the loser get a 403.
+const inflightClaims = new Map<string, Promise<string | null>>();
+
+/**
+ * Claims the room's admin secret. Resolves null without a stored claim key, or if the
+ * server refused the key or another emcee already claimed the room.
+ */
+export function claimAdminToken(room: string): Promise<string | null> {
+  const existing = inflightClaims.get(room);
+  if (existing) return existing;
+  const stored = getStoredAdminToken(room);
+  if (stored) return Promise.resolve(stored);
+  const claimKey = getStoredClaimKey();
+  if (!claimKey) return Promise.resolve(null);
+  const claim = fetch(getRoomHttpUrl(room, 'admin-token'), {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${claimKey}` },
+  })
+    .then(async res => {
+      if (!res.ok) return null;
+      const { token } = await res.json() as { token: string };
+      storeAdminToken(room, token);
+      return token;
+    })
+    .catch(() => null)
+    .finally(() => inflightClaims.delete(room));
+  inflightClaims.set(room, claim);
+  return claim;
+}
+
+export function buildEmceeLink(room: string, token: string): string {
+  const p = new URLSearchParams({ interface: 'emcee', adminToken: token });
+  return `${window.location.origin}/${encodeURIComponent(room)}?${p}`;
+}
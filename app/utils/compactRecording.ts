@@ -0,0 +1,303 @@
+import type { MomentSnapshot, PlaybackFile, RecordedEvent, RecordingMode } from "../types";
+
+// Compact recording format: newline-delimited JSON, one header object then one short array
+// per line, so a recording can be written and read a line at a time instead of building or
+// parsing one huge document. Optionally gzipped (`.ndjson.gz`).
+//
+//   {"format":"reactions-compact","version":1,"room":…,"mode":…,"recordingStart":…,"recordingEnd":…,"coordScale":100}
+//   ["u","alice"]            dictionary: the next userId index (0, 1, …) is "alice"
+//   [dt,u,0,x,y]             move     (dt = ms since the previous event, or since recordingStart)
+//   [dt,u,1,x,y]             touch    (x, y = coordinate × coordScale, rounded)
+//   [dt,u,2]                 remove
+//   [dt,u,3] / [dt,u,4]      arrival / departure
+//   [dt,u,5,from,to]         region transition (0 = none, 1 positive, 2 negative, 3 neutral)
+//   ["e",{…}]                any other event, kept verbatim
+
+export const COMPACT_RECORDING_FORMAT = 'reactions-compact';
+export const COMPACT_RECORDING_VERSION = 1;
+/** Coordinates are 0–100, so this keeps them to a hundredth of a percent. */
+export const COMPACT_COORD_SCALE = 100;
+
+export interface CompactRecordingHeader {
+  format: typeof COMPACT_RECORDING_FORMAT;
+  version: number;
+  room: string;
+  mode: RecordingMode;
+  recordingStart: number;
+  recordingEnd: number;
+  coordScale: number;
+}
+
+type Region = MomentSnapshot['regions'][string];
+
+const CURSOR_KINDS = ['move', 'touch', 'remove', 'arrival', 'departure'] as const;
+const TRANSITION_KIND = 5;
+const REGION_CODES: Region[] = [null, 'positive', 'negative', 'neutral'];
+
+const isRecordedEvent = (e: object): e is RecordedEvent => {
+  const r = e as Record<string, unknown>;
+  if (typeof r.connectionId !== 'string' || typeof r.timestamp !== 'number') return false;
+  if ('from' in r) return REGION_CODES.includes(r.from as Region) && REGION_CODES.includes(r.to as Region);
+  if (r.type === 'arrival' || r.type === 'departure') return true;
+  return (r.type === 'move' || r.type === 'touch' || r.type === 'remove')
+    && typeof r.x === 'number' && typeof r.y === 'number';
+};
+
+/** Turns events into compact lines, growing the userId dictionary as new users appear. */
+export class CompactRecordingEncoder {
+  private readonly userIndex = new Map<string, number>();
+  private lastTimestamp: number;
+
+  constructor(private readonly header: CompactRecordingHeader) {
+    this.lastTimestamp = header.recordingStart;
+  }
+
+  headerLine(): string {
+    return JSON.stringify(this.header);
+  }
+
+  /** The lines for one event: a dictionary line first if its user is new. */
+  encode(event: object): string[] {
+    if (!isRecordedEvent(event)) return [JSON.stringify(['e', event])];
+    const lines: string[] = [];
+    let u = this.userIndex.get(event.connectionId);
+    if (u === undefined) {
+      u = this.userIndex.size;
+      this.userIndex.set(event.connectionId, u);
+      lines.push(JSON.stringify(['u', event.connectionId]));
+    }
+    const dt = event.timestamp - this.lastTimestamp;
+    this.lastTimestamp = event.timestamp;
+    if ('from' in event) {
+      lines.push(JSON.stringify([dt, u, TRANSITION_KIND, REGION_CODES.indexOf(event.from), REGION_CODES.indexOf(event.to)]));
+    } else if (event.type === 'move' || event.type === 'touch') {
+      const q = (v: number) => Math.round(v * this.header.coordScale);
+      lines.push(JSON.stringify([dt, u, CURSOR_KINDS.indexOf(event.type), q(event.x), q(event.y)]));
+    } else {
+      lines.push(JSON.stringify([dt, u, CURSOR_KINDS.indexOf(event.type)]));
+    }
+    return lines;
+  }
+}
+
+/** Reads compact lines back into `PlaybackFile` events; dictionary lines yield nothing. */
+export class CompactRecordingDecoder {
+  private readonly users: string[] = [];
+  private lastTimestamp: number;
+
+  constructor(readonly header: CompactRecordingHeader) {
+    this.lastTimestamp = header.recordingStart;
+  }
+
+  decode(line: string): object | null {
+    const row = JSON.parse(line) as unknown[];
+    if (row[0] === 'u') {
+      this.users.push(row[1] as string);
+      return null;
+    }
+    if (row[0] === 'e') return row[1] as object;
+    const [dt, u, kind, a, b] = row as number[];
+    const connectionId = this.users[u];
+    if (connectionId === undefined) throw new Error(`Compact recording uses undeclared user ${u}`);
+    const timestamp = (this.lastTimestamp += dt);
+    if (kind === TRANSITION_KIND) return { connectionId, from: REGION_CODES[a], to: REGION_CODES[b], timestamp };
+    const type = CURSOR_KINDS[kind];
+    if (type === undefined) throw new Error(`Unknown compact event kind ${kind}`);
+    if (type === 'move' || type === 'touch') {
+      return { connectionId, type, x: a / this.header.coordScale, y: b / this.header.coordScale, timestamp };
+    }
+    return type === 'remove' ? { connectionId, type, x: 0, y: 0, timestamp } : { connectionId, type, timestamp };
+  }
+}
+
+export function parseCompactHeader(line: string): CompactRecordingHeader {
+  let header: Partial<CompactRecordingHeader>;
+  try { header = JSON.parse(line); } catch { throw new Error('Not a compact recording'); }
+  if (header?.format !== COMPACT_RECORDING_FORMAT) throw new Error('Not a compact recording');
+  if (header.version !== COMPACT_RECORDING_VERSION) {
+    throw new Error(`Unsupported compact recording version ${header.version}`);
+  }
+  return header as CompactRecordingHeader;
+}
+
+/** Writer: the compact lines of a `PlaybackFile`, produced lazily. */
+export function* compactRecordingLines(file: PlaybackFile): Generator<string> {
+  const encoder = new CompactRecordingEncoder({
+    format: COMPACT_RECORDING_FORMAT,
+    version: COMPACT_RECORDING_VERSION,
+    room: file.room,
+    mode: file.mode,
+    recordingStart: file.recordingStart,
+    recordingEnd: file.recordingEnd,
+    coordScale: COMPACT_COORD_SCALE,
+  });
+  yield encoder.headerLine();
+  for (const event of file.events) yield* encoder.encode(event);
+}
+
+/** Converts a `PlaybackFile` to compact text in one go. */
+export function encodeCompactRecording(file: PlaybackFile): string {
+  return [...compactRecordingLines(file)].join('\n') + '\n';
+}
+
+/** Reader: rebuilds a `PlaybackFile` from compact lines (blank lines are skipped). */
+export async function readCompactLines(lines: AsyncIterable<string> | Iterable<string>): Promise<PlaybackFile> {
+  let decoder: CompactRecordingDecoder | null = null;
+  const events: object[] = [];
+  for await (const line of lines) {
+    if (line.trim() === '') continue;
+    if (!decoder) {
+      decoder = new CompactRecordingDecoder(parseCompactHeader(line));
+      continue;
+    }
+    const event = decoder.decode(line);
+    if (event) events.push(event);
+  }
+  if (!decoder) throw new Error('Empty compact recording');
+  const { room, mode, recordingStart, recordingEnd } = decoder.header;
+  return { recordingStart, recordingEnd, room, mode, events };
+}
+
+/** Converts compact text back to a `PlaybackFile`. */
+export function decodeCompactRecording(text: string): Promise<PlaybackFile> {
+  return readCompactLines(text.split('\n'));
+}
+
+const LINES_PER_CHUNK = 1000;
+
+/** A byte stream of the compact form of `file`, gzipped unless `gzip` is false. */
+export function compactRecordingStream(file: PlaybackFile, { gzip = true } = {}): ReadableStream<Uint8Array<ArrayBuffer>> {
+  const lines = compactRecordingLines(file);
+  const text = new ReadableStream<string>({
+    pull(controller) {
+      const batch: string[] = [];
+      for (let next = lines.next(); !next.done; next = lines.next()) {
+        batch.push(next.value);
+        if (batch.length === LINES_PER_CHUNK) break;
+      }
+      if (batch.length > 0) controller.enqueue(batch.join('\n') + '\n');
+      else controller.close();
+    },
+  });
+  const bytes = text.pipeThrough(new TextEncoderStream());
+  return gzip ? bytes.pipeThrough(new CompressionStream('gzip')) : bytes;
+}
+
+async function* splitLines(head: string, reader: ReadableStreamDefaultReader<string>): AsyncGenerator<string> {
+  let pending = head;
+  for (;;) {
+    const parts = pending.split('\n');
+    pending = parts.pop()!;
+    yield* parts;
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += value;
+  }
+  if (pending) yield pending;
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+interface RecordingText {
+  head: string;
+  reader: ReadableStreamDefaultReader<string>;
+  compact: boolean;
+}
+
+/** Opens a recording byte stream as text, gunzipping it if it starts with the gzip magic. */
+async function openRecordingText(bytes: ReadableStream<Uint8Array<ArrayBuffer>>): Promise<RecordingText> {
+  const raw = bytes.getReader();
+  const first = await raw.read();
+  let rest = new ReadableStream<Uint8Array<ArrayBuffer>>({
+    start(controller) {
+      if (first.done) controller.close();
+      else controller.enqueue(first.value);
+    },
+    async pull(controller) {
+      const { done, value } = await raw.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel: reason => raw.cancel(reason),
+  });
+  if (first.value?.[0] === GZIP_MAGIC[0] && first.value[1] === GZIP_MAGIC[1]) {
+    rest = rest.pipeThrough(new DecompressionStream('gzip'));
+  }
+  const reader = rest.pipeThrough(new TextDecoderStream()).getReader();
+  const head = (await reader.read()).value ?? '';
+  return { head, reader, compact: head.trimStart().startsWith(`{"format":"${COMPACT_RECORDING_FORMAT}"`) };
+}
+
+/** The lines of a compact recording byte stream, plain or gzipped, as they arrive. */
+export async function* compactLinesOf(bytes: ReadableStream<Uint8Array<ArrayBuffer>>): AsyncGenerator<string> {
+  const { head, reader, compact } = await openRecordingText(bytes);
+  if (!compact) {
+    await reader.cancel();
+    throw new Error('Not a compact recording');
+  }
+  yield* splitLines(head, reader);
+}
+
+/**
+ * Rewrites a compact recording byte stream as the legacy `PlaybackFile` JSON, one event per
+ * line, so downloading the JSON form never holds the whole recording as objects.
+ */
+export function playbackJsonStream(compact: ReadableStream<Uint8Array<ArrayBuffer>>): ReadableStream<Uint8Array<ArrayBuffer>> {
+  const lines = compactLinesOf(compact);
+  let decoder: CompactRecordingDecoder | null = null;
+  let first = true;
+  const text = new ReadableStream<string>({
+    async pull(controller) {
+      for (;;) {
+        const next = await lines.next();
+        if (next.done) {
+          if (!decoder) throw new Error('Empty compact recording');
+          controller.enqueue(first ? ']}\n' : '\n]}\n');
+          controller.close();
+          return;
+        }
+        if (next.value.trim() === '') continue;
+        if (!decoder) {
+          decoder = new CompactRecordingDecoder(parseCompactHeader(next.value));
+          const { recordingStart, recordingEnd, room, mode } = decoder.header;
+          controller.enqueue(JSON.stringify({ recordingStart, recordingEnd, room, mode }).slice(0, -1) + ',"events":[');
+          return;
+        }
+        const event = decoder.decode(next.value);
+        if (!event) continue;
+        controller.enqueue((first ? '\n' : ',\n') + JSON.stringify(event));
+        first = false;
+        return;
+      }
+    },
+    cancel: () => { void lines.return(undefined); },
+  });
+  return text.pipeThrough(new TextEncoderStream());
+}
+
+/**
+ * Reads a recording in any supported form — the legacy pretty-printed JSON or the compact
+ * format, each plain or gzipped — telling them apart by content, not by file name.
+ */
+export async function readRecordingFile(blob: Blob): Promise<PlaybackFile> {
+  const { head, reader, compact } = await openRecordingText(blob.stream());
+  if (compact) return readCompactLines(splitLines(head, reader));
+  let text = head;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += value;
+  }
+  return JSON.parse(text) as PlaybackFile;
+}
+
+/**
+ * A recording file in the compact form the room server accepts: compact files are passed
+ * through untouched, legacy JSON ones are converted (and gzipped).
+ */
+export async function compactRecordingBlob(blob: Blob): Promise<Blob> {
+  const { reader, compact } = await openRecordingText(blob.stream());
+  await reader.cancel();
+  if (compact) return blob;
+  return new Response(compactRecordingStream(await readRecordingFile(blob))).blob();
+}
@@ -1,3 +1,6 @@
+import { decodeCursorFrame } from './cursorWire';
+import type { CursorIdDirectory } from './cursorWire';
+
 // ~30fps: smooth for cursor tracking, half the bandwidth of 60fps.
 // All cursor-sending surfaces (TouchLayer, PerfCanvasApp) use this as the
 // base throttle. The k6 load test mirrors this value so perf results
@@ -18,12 +21,15 @@ export type CursorEventMsg = {
 /**
  * Normalizes an incoming WebSocket message into a flat array of cursor events.
  * Handles both individual `move`/`touch`/`remove` messages and the batched
- * `cursorBatch` format emitted by the server when SERVER_CURSOR_BATCH_MS > 0.
- * Returns [] for any non-cursor message, so callers can always just `for...of`.
+ * `cursorBatch` format emitted by the server when SERVER_CURSOR_BATCH_MS > 0,
+ * as well as binary cursor frames (see cursorWire.ts) given the connection's
+ * id directory. Returns [] for any non-cursor message, so callers can always just `for...of`.
  */
 export function expandCursorEvents(
-  data: { type: string; position?: CursorEventMsg['position']; cursors?: CursorEventMsg[] },
+  data: { type: string; position?: CursorEventMsg['position']; cursors?: CursorEventMsg[] } | ArrayBuffer,
+  directory?: CursorIdDirectory,
 ): CursorEventMsg[] {
+  if (data instanceof ArrayBuffer) return directory ? decodeCursorFrame(data, directory) : [];
   if (data.type === 'cursorBatch') return data.cursors ?? [];
   if (data.type === 'move' || data.type === 'touch' || data.type === 'remove')
     return [data as CursorEventMsg];
@@ -0,0 +1,57 @@
+import { CURSOR_THROTTLE_MS } from './cursor';
+
+// The server recommends how often participants send cursor updates and how long it
+// batches them before broadcasting, from the room's size and the cursor traffic it
+// actually receives. Small rooms stay at CURSOR_THROTTLE_MS; big ones slow down
+// gradually instead of saturating the room. The k6 load test mirrors the size curve.
+
+/** Quadratic ease-in scaling: cheap at low counts, progressively more throttling near capacity. */
+export function computeThrottleMs(count: number, base: number, scaleStart: number, scaleEnd: number, max: number): number {
+  if (count <= scaleStart) return base;
+  if (count >= scaleEnd) return max;
+  const t = (count - scaleStart) / (scaleEnd - scaleStart);
+  return Math.round(base + (max - base) * t * t);
+}
+
+export interface CursorPacing {
+  /** Min ms between a participant's cursor sends. */
+  throttleMs: number;
+  /** The server's cursorBatch window in ms. */
+  batchMs: number;
+}
+
+export const CURSOR_PACING_CONFIG = {
+  scaleStart: 300,   // participants before throttling starts
+  scaleEnd: 400,     // participants at which it reaches maxThrottleMs
+  maxThrottleMs: 250,
+  /** Inbound cursor messages/s the room aims to stay under, whatever its size. */
+  inboundBudget: 4000,
+  maxBatchMs: 150,
+  /** Changes smaller than this fraction aren't worth a broadcast. */
+  hysteresis: 0.15,
+};
+
+/**
+ * The recommended pacing for `participants` when the room receives `inboundPerSec` cursor
+ * messages while they send at `current.throttleMs`. The traffic says how many people are
+ * really moving (rate × interval), so the interval that fits them in the inbound budget is
+ * that count's share of it; the size curve sets a floor. The batch window follows the
+ * interval, since cursors arriving no faster than that gain nothing from a shorter window.
+ * `baseBatchMs` is the server's default window (0 = no batching).
+ */
+export function recommendCursorPacing(
+  participants: number,
+  inboundPerSec: number,
+  current: CursorPacing,
+  baseBatchMs: number,
+  config = CURSOR_PACING_CONFIG,
+): CursorPacing {
+  const bySize = computeThrottleMs(participants, CURSOR_THROTTLE_MS, config.scaleStart, config.scaleEnd, config.maxThrottleMs);
+  const byRate = current.throttleMs * inboundPerSec / config.inboundBudget;
+  const throttleMs = Math.round(Math.min(config.maxThrottleMs, Math.max(bySize, byRate)));
+  if (throttleMs === current.throttleMs) return current;
+  const significant = Math.abs(throttleMs - current.throttleMs) > current.throttleMs * config.hysteresis;
+  if (!significant && throttleMs !== CURSOR_THROTTLE_MS) return current;
+  const batchMs = baseBatchMs > 0 ? Math.min(config.maxBatchMs, Math.max(baseBatchMs, throttleMs)) : 0;
+  return { throttleMs, batchMs };
+}
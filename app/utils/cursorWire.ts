@@ -0,0 +1,136 @@
+// Binary cursor frames: an opt-in alternative to the JSON `cursorBatch` for big rooms.
+// A connection asks for them with `?cursorFormat=binary`; the server then sends it each
+// cursor batch as one little-endian frame instead of JSON with full userIds:
+//
+//   header   u8 version · f64 base timestamp (the first cursor's)
+//   cursor   u16 id · u8 type (0 move, 1 touch, 2 remove) · u16 x · u16 y · i32 ms since base
+//
+// Coordinates are 0–100, quantised to u16. Ids are short per-room numbers announced once in
+// JSON (`{"type":"cursorIds","ids":{userId:id}}`, and in `connected.cursorIds`) before the
+// first frame that uses them. An id is freed when its cursor is removed and may then be
+// announced again for someone else, so clients always keep the latest announcement.
+
+export type CursorWireFormat = 'json' | 'binary';
+export const CURSOR_FORMAT_PARAM = 'cursorFormat';
+export const CURSOR_FRAME_VERSION = 1;
+
+const HEADER_BYTES = 9;
+const CURSOR_BYTES = 11;
+const MAX_ID = 0xffff;
+const COORD_SCALE = 0xffff / 100;
+const TYPES = ['move', 'touch', 'remove'] as const;
+
+export type CursorWireType = typeof TYPES[number];
+
+export interface WireCursorEvent {
+  type: CursorWireType;
+  position: { userId: string; x: number; y: number; timestamp: number };
+}
+
+export interface CursorIdsMessage {
+  type: 'cursorIds';
+  ids: Record<string, number>;
+}
+
+/** Server side: hands out the room's short cursor ids, reusing freed ones first. */
+export class CursorIdRegistry {
+  private readonly ids = new Map<string, number>();
+  private readonly freed: number[] = [];
+  private next = 0;
+
+  get(userId: string): number | undefined {
+    return this.ids.get(userId);
+  }
+
+  /** Ids for any of `userIds` that don't have one yet, as the announcement to send first. */
+  assign(userIds: Iterable<string>): CursorIdsMessage | null {
+    const ids: Record<string, number> = {};
+    let any = false;
+    for (const userId of userIds) {
+      if (this.ids.has(userId)) continue;
+      const id = this.freed.pop() ?? (this.next <= MAX_ID ? this.next++ : undefined);
+      if (id === undefined) continue; // a full table leaves the cursor out of binary frames
+      this.ids.set(userId, id);
+      ids[userId] = id;
+      any = true;
+    }
+    return any ? { type: 'cursorIds', ids } : null;
+  }
+
+  release(userId: string): void {
+    const id = this.ids.get(userId);
+    if (id === undefined) return;
+    this.ids.delete(userId);
+    this.freed.push(id);
+  }
+
+  entries(): Record<string, number> {
+    return Object.fromEntries(this.ids);
+  }
+}
+
+/** Client side: the id → userId table built from `cursorIds` announcements. */
+export class CursorIdDirectory {
+  private readonly users = new Map<number, string>();
+
+  /** `reset` replaces the table, as on a fresh `connected` snapshot. */
+  apply(ids: Record<string, number>, reset = false): void {
+    if (reset) this.users.clear();
+    for (const [userId, id] of Object.entries(ids)) this.users.set(id, userId);
+  }
+
+  userIdOf(id: number): string | undefined {
+    return this.users.get(id);
+  }
+}
+
+const quantise = (v: number) => Math.round(Math.max(0, Math.min(100, v)) * COORD_SCALE);
+
+/** One frame for `cursors`; cursors without an id in `idOf` are left out. */
+export function encodeCursorFrame(
+  cursors: { type: string; position: { userId: string; x: number; y: number; timestamp: number } }[],
+  idOf: (userId: string) => number | undefined,
+): ArrayBuffer {
+  const rows = cursors.flatMap(c => {
+    const id = idOf(c.position.userId);
+    const type = TYPES.indexOf(c.type as CursorWireType);
+    return id === undefined || type < 0 ? [] : [{ id, type, position: c.position }];
+  });
+  const buffer = new ArrayBuffer(HEADER_BYTES + rows.length * CURSOR_BYTES);
+  const view = new DataView(buffer);
+  const base = rows.length > 0 ? rows[0].position.timestamp : 0;
+  view.setUint8(0, CURSOR_FRAME_VERSION);
+  view.setFloat64(1, base, true);
+  rows.forEach(({ id, type, position }, i) => {
+    const at = HEADER_BYTES + i * CURSOR_BYTES;
+    view.setUint16(at, id, true);
+    view.setUint8(at + 2, type);
+    view.setUint16(at + 3, quantise(position.x), true);
+    view.setUint16(at + 5, quantise(position.y), true);
+    view.setInt32(at + 7, Math.round(position.timestamp - base), true);
+  });
+  return buffer;
+}
+
+/** The cursors in a frame; ids the directory hasn't been told about are skipped. */
+export function decodeCursorFrame(buffer: ArrayBuffer, directory: CursorIdDirectory): WireCursorEvent[] {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < HEADER_BYTES || view.getUint8(0) !== CURSOR_FRAME_VERSION) return [];
+  const base = view.getFloat64(1, true);
+  const events: WireCursorEvent[] = [];
+  for (let at = HEADER_BYTES; at + CURSOR_BYTES <= buffer.byteLength; at += CURSOR_BYTES) {
+    const userId = directory.userIdOf(view.getUint16(at, true));
+    const type = TYPES[view.getUint8(at + 2)];
+    if (userId === undefined || type === undefined) continue;
+    events.push({
+      type,
+      position: {
+        userId,
+        x: view.getUint16(at + 3, true) / COORD_SCALE,
+        y: view.getUint16(at + 5, true) / COORD_SCALE,
+        timestamp: base + view.getInt32(at + 7, true),
+      },
+    });
+  }
+  return events;
+}
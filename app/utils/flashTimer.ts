@@ -1,8 +1,12 @@
 // Flash-timer helpers for the Snap Moment countdown feature.
 // The emcee schedules a snap a few seconds out; a countdown is broadcast to
-// every canvas and the snapshot fires at zero. See SPEC.md.
+// every canvas and the server's alarm takes the snapshot at zero. See SPEC.md.
+
+import type { MomentSnapshot } from '../types';
 
 export const FLASH_TIMER_DEFAULT_SEC = 5;
+/** How much the emcee's "+Ns" button adds to a running timer. */
+export const FLASH_TIMER_EXTEND_SEC = 5;
 
 /** Coerce arbitrary input into a whole-second positive duration, defaulting on garbage. */
 export function normalizeFlashDuration(durationSec: number): number {
@@ -34,11 +38,21 @@ export interface FlashTimerStartedMessage {
   label: string;
 }
 
-/** Build the server→all broadcast that drives the countdown overlay on every canvas. */
+/** Build the server→all broadcast that drives the countdown overlay on every canvas. Re-sent with the new end when extended. */
 export function buildFlashTimerStarted(endTimestamp: number, label: string): FlashTimerStartedMessage {
   return { type: 'flashTimerStarted', endTimestamp, label };
 }
 
+/** Server→all broadcast when the alarm fires, carrying the moment it snapped. */
+export interface FlashTimerFiredMessage {
+  type: 'flashTimerFired';
+  moment: MomentSnapshot;
+}
+
+export interface FlashTimerCancelledMessage {
+  type: 'flashTimerCancelled';
+}
+
 /** Whole seconds left until `endTimestamp`, rounded up and clamped at 0. Each client ticks this from its own clock. */
 export function flashSecondsRemaining(endTimestamp: number, now: number): number {
   return Math.max(0, Math.ceil((endTimestamp - now) / 1000));
@@ -0,0 +1,59 @@
+// Client half of the reconnect resume (party/lib/messageLog.ts). The room stamps transient
+// messages with a `seq`; RoomSocketProvider remembers the newest it has seen and, after a
+// reconnect, sends `resume` so the server replays what this user missed. If the server
+// can't (it restarted, or the gap is too old) the `connected` snapshot every connection
+// gets is all there is. Replays can overlap what arrived live, so seen seqs are dropped.
+
+/** Where the room's sequence stands, as sent in `connected.sequence`. */
+export interface SequenceInfo {
+  epoch: string;
+  seq: number;
+}
+
+export interface ResumeMessage {
+  type: 'resume';
+  epoch: string;
+  lastSeq: number;
+}
+
+const SEEN_LIMIT = 512;
+// The server writes `seq` as the first key, and refuses client messages that carry one,
+// so nothing it relays from a client can start like this.
+const SEQ_PREFIX = /^\{"seq":(\d+)[,}]/;
+
+/** The `seq` a message was stamped with, without parsing it; null for unsequenced ones. */
+export function sequenceOf(data: string): number | null {
+  const match = SEQ_PREFIX.exec(data);
+  return match ? Number(match[1]) : null;
+}
+
+export class MessageSequence {
+  private epoch: string | null = null;
+  private lastSeq = 0;
+  private readonly seen = new Set<number>();
+
+  /** A `connected` snapshot: a new epoch starts over, the same one carries on. */
+  sync({ epoch, seq }: SequenceInfo): void {
+    if (epoch !== this.epoch) {
+      this.epoch = epoch;
+      this.lastSeq = seq;
+      this.seen.clear();
+    } else {
+      this.lastSeq = Math.max(this.lastSeq, seq);
+    }
+  }
+
+  /** False for a message already handled, e.g. one replayed after arriving live. */
+  accept(seq: number): boolean {
+    if (this.seen.has(seq)) return false;
+    this.seen.add(seq);
+    if (this.seen.size > SEEN_LIMIT) this.seen.delete(this.seen.values().next().value!);
+    this.lastSeq = Math.max(this.lastSeq, seq);
+    return true;
+  }
+
+  /** What to send after reconnecting; null before the first snapshot. */
+  resumeRequest(): ResumeMessage | null {
+    return this.epoch === null ? null : { type: 'resume', epoch: this.epoch, lastSeq: this.lastSeq };
+  }
+}
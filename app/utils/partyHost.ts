@@ -24,6 +24,13 @@ export function getPartySocketConfig(): { host: string; protocol: 'ws' | 'wss' }
   };
 }
 
+/** HTTP(S) URL of a room's `onRequest` route, e.g. `getRoomHttpUrl(room, 'moments')`. */
+export function getRoomHttpUrl(room: string, path: string, party = 'main'): string {
+  const { host, protocol } = getPartySocketConfig();
+  const httpProtocol = protocol === 'wss' ? 'https' : 'http';
+  return `${httpProtocol}://${host}/parties/${party}/${encodeURIComponent(room)}/${path}`;
+}
+
 /** @deprecated Use getPartySocketConfig() and spread both host and protocol. */
 export function getPartyHost(): string {
   return getPartySocketConfig().host;
@@ -0,0 +1,128 @@
+import { csvFormatRows } from 'd3';
+import type { MomentSnapshot } from '../components/panels/AdminPanelNoDB/types';
+
+// Writes moments out in the shape of a Polis conversation export, so a live event can be
+// analysed with Polis report tooling and read back in by `assemblePolisImport`.
+// Each moment is a comment and each participant a voter:
+// positive → agree (1), negative → disagree (-1), neutral → pass (0), null → no vote.
+// A participant with no votes at all only appears in participants-votes.csv.
+
+const VOTE_BY_REGION = { positive: 1, negative: -1, neutral: 0 } as const;
+
+// Exported ids live above real Polis ids (small sequential integers), so our own files
+// can be recognised on re-import without clashing with a real conversation's voters.
+const STABLE_ID_BASE = 1_000_000_000;
+const STABLE_ID_RANGE = 1_000_000_000;
+
+/** 32-bit FNV-1a hash of a string. */
+export function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Maps each key to a numeric id derived from its hash. Collisions are resolved by probing
+ * in sorted key order, so the same set of keys always gets the same ids.
+ */
+export function stablePolisIds(keys: Iterable<string>): Map<string, number> {
+  const ids = new Map<string, number>();
+  const taken = new Set<number>();
+  for (const key of [...new Set(keys)].sort()) {
+    let id = STABLE_ID_BASE + (fnv1a(key) % STABLE_ID_RANGE);
+    while (taken.has(id)) id = STABLE_ID_BASE + ((id - STABLE_ID_BASE + 1) % STABLE_ID_RANGE);
+    taken.add(id);
+    ids.set(key, id);
+  }
+  return ids;
+}
+
+/** voter-id → userId for the given users, as `exportPolisCSVs` numbers them; see `assemblePolisImport`. */
+export function polisVoterUserIds(userIds: Iterable<string>): Map<number, string> {
+  return new Map([...stablePolisIds(userIds)].map(([userId, id]) => [id, userId]));
+}
+
+export interface PolisExport {
+  comments: string;
+  votes: string;
+  participantsVotes: string;
+  summary: string;
+  /** voter-id → userId for every participant in the moments. */
+  voterUserIds: Map<number, string>;
+}
+
+/**
+ * comment-ids are derived from moment ids and voter-ids from userIds (`stablePolisIds`);
+ * comments are written oldest first.
+ */
+export function exportPolisCSVs(moments: MomentSnapshot[], topic = ''): PolisExport {
+  const ordered = [...moments].sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id));
+  const userIds = [...new Set(ordered.flatMap(m => Object.keys(m.regions)))].sort();
+  const voterIds = stablePolisIds(userIds);
+  const commentIds = stablePolisIds(ordered.map(m => m.id));
+  const userIndex = new Map(userIds.map((u, i) => [u, i]));
+
+  const commentRows: (string | number)[][] = [];
+  const voteRows: (string | number)[][] = [];
+  const tallies = userIds.map(() => ({ votes: 0, agree: 0, disagree: 0 }));
+  const matrix = userIds.map(() => ordered.map((): number | '' => ''));
+
+  ordered.forEach((moment, col) => {
+    const commentId = commentIds.get(moment.id)!;
+    // Fractional seconds keep the moment's milliseconds through the importer's ×1000.
+    const seconds = moment.timestamp / 1000;
+    const datetime = new Date(moment.timestamp).toUTCString();
+    let agrees = 0;
+    let disagrees = 0;
+    for (const [userId, region] of Object.entries(moment.regions)) {
+      if (region === null) continue;
+      const vote = VOTE_BY_REGION[region];
+      const row = userIndex.get(userId)!;
+      voteRows.push([seconds, datetime, commentId, voterIds.get(userId)!, vote]);
+      matrix[row][col] = vote;
+      const tally = tallies[row];
+      tally.votes++;
+      if (vote === 1) { agrees++; tally.agree++; }
+      else if (vote === -1) { disagrees++; tally.disagree++; }
+    }
+    // Moments have no author; every statement counts as moderated in.
+    commentRows.push([seconds, datetime, commentId, '', agrees, disagrees, 1, moment.label]);
+  });
+
+  const participantRows = userIds.map((userId, row) => {
+    const t = tallies[row];
+    // n-comments counts statements authored, which participants never do here.
+    return [voterIds.get(userId)!, '', 0, t.votes, t.agree, t.disagree, ...matrix[row]];
+  });
+
+  const summaryRows: (string | number)[][] = [
+    ['topic', topic],
+    ['url', ''],
+    ['voters', userIds.length],
+    ['voters-in-conv', tallies.filter(t => t.votes > 0).length],
+    ['commenters', 0],
+    ['comments', ordered.length],
+    ['groups', 0],
+    ['conversation-description', ''],
+  ];
+
+  return {
+    comments: csvFormatRows([
+      ['timestamp', 'datetime', 'comment-id', 'author-id', 'agrees', 'disagrees', 'moderated', 'comment-body'],
+      ...commentRows,
+    ].map(row => row.map(String))),
+    votes: csvFormatRows([
+      ['timestamp', 'datetime', 'comment-id', 'voter-id', 'vote'],
+      ...voteRows,
+    ].map(row => row.map(String))),
+    participantsVotes: csvFormatRows([
+      ['participant', 'group-id', 'n-comments', 'n-votes', 'n-agree', 'n-disagree', ...ordered.map(m => commentIds.get(m.id)!)],
+      ...participantRows,
+    ].map(row => row.map(String))),
+    summary: csvFormatRows(summaryRows.map(row => row.map(String))),
+    voterUserIds: polisVoterUserIds(userIds),
+  };
+}
@@ -1,5 +1,6 @@
-import { csvParse } from 'd3';
+import { csvParse, csvParseRows } from 'd3';
 import { generateUUID } from './userId';
+import { fnv1a } from './polisExport';
 import type { MomentSnapshot } from '../components/panels/AdminPanelNoDB/types';
 
 interface PolisVoteRow {
@@ -14,6 +15,20 @@ interface PolisCommentRow {
   'comment-body': string;
 }
 
+export type PolisFileKind = 'comments' | 'votes' | 'participants-votes' | 'summary';
+
+/** Recognises a Polis export file from its header row, whatever the file is called. */
+export function detectPolisFile(text: string): PolisFileKind | null {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0];
+  const header = csvParseRows(firstLine)[0] ?? [];
+  if (header.includes('comment-body')) return 'comments';
+  if (header.includes('voter-id')) return 'votes';
+  if (header[0] === 'participant' && header.includes('group-id')) return 'participants-votes';
+  // summary.csv has no header: each row is a key and its value.
+  if (header[0] === 'topic') return 'summary';
+  return null;
+}
+
 export function parsePolisVotes(text: string) {
   return (csvParse(text) as PolisVoteRow[]).map(row => ({
     commentId: Number(row['comment-id']),
@@ -30,10 +45,61 @@ export function parsePolisComments(text: string) {
   }));
 }
 
-function shuffle<T>(arr: T[]): T[] {
+// Columns before the comment-ids in participants-votes.csv.
+const PARTICIPANT_META_COLUMNS = ['participant', 'group-id', 'n-comments', 'n-votes', 'n-agree', 'n-disagree'];
+
+/**
+ * Reads the participant × comment matrix into the long format `parsePolisVotes` returns,
+ * along with each voter's group-id (voters Polis left ungrouped are omitted).
+ */
+export function parsePolisParticipantsVotes(text: string) {
+  const [header = [], ...rows] = csvParseRows(text);
+  const firstComment = header.findIndex(col => !PARTICIPANT_META_COLUMNS.includes(col));
+  const commentIds = firstComment === -1 ? [] : header.slice(firstComment).map(Number);
+  const groupCol = header.indexOf('group-id');
+  const votes: ReturnType<typeof parsePolisVotes> = [];
+  const groups = new Map<number, number>();
+  for (const row of rows) {
+    const voterId = Number(row[0]);
+    if (row[0] === '' || Number.isNaN(voterId)) continue;
+    if (groupCol !== -1 && row[groupCol] !== '' && row[groupCol] !== undefined) groups.set(voterId, Number(row[groupCol]));
+    commentIds.forEach((commentId, i) => {
+      const cell = row[firstComment + i];
+      if (cell === undefined || cell === '') return;
+      votes.push({ commentId, voterId, vote: Number(cell) as 1 | -1 | 0 });
+    });
+  }
+  return { votes, groups };
+}
+
+/** summary.csv as a key → value record (topic, url, voters, groups, …). */
+export function parsePolisSummary(text: string): Record<string, string> {
+  return Object.fromEntries(csvParseRows(text).filter(row => row[0]).map(([key, value = '']) => [key, value]));
+}
+
+// mulberry32: small, fast, and identical across browsers for a given seed.
+function seededRandom(seed: string): () => number {
+  let a = fnv1a(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function seededUUID(random: () => number): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16));
+  hex[12] = '4';
+  hex[16] = '89ab'[Math.floor(random() * 4)];
+  const s = hex.join('');
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+}
+
+function shuffle<T>(arr: T[], random: () => number = Math.random): T[] {
   const a = [...arr];
   for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [a[i], a[j]] = [a[j], a[i]];
   }
   return a;
@@ -42,32 +108,65 @@ function shuffle<T>(arr: T[]): T[] {
 export interface PolisImportResult {
   moments: MomentSnapshot[];
   syntheticUserIds: string[];
+  /** userId → Polis group-id, for the voters `voterGroups` covers. */
+  participantGroups: Record<string, number>;
+}
+
+/** What an import brought in, for the admin panel to confirm. */
+export interface PolisImportReport {
+  topic: string;
+  comments: number;
+  voters: number;
+  groups: number;
+}
+
+export interface PolisImportOptions {
+  /**
+   * Pins voter-ids to userIds — `polisVoterUserIds(seenUsers)` recognises the participants
+   * of our own exports. Voters it doesn't cover are mapped onto the remaining seen users.
+   */
+  knownVoters?: ReadonlyMap<number, string>;
+  /**
+   * Makes that mapping (and any synthetic ids) a function of the seed, the files and the
+   * set of seen users, so re-importing gives the same participants. Random when omitted.
+   */
+  seed?: string;
+  /** voter-id → group-id, as read by `parsePolisParticipantsVotes`. */
+  voterGroups?: ReadonlyMap<number, number>;
 }
 
 export function assemblePolisImport(
   comments: ReturnType<typeof parsePolisComments>,
   votes: ReturnType<typeof parsePolisVotes>,
   seenUsers: string[],
+  { knownVoters = new Map(), seed, voterGroups = new Map() }: PolisImportOptions = {},
 ): PolisImportResult {
+  const random = seed === undefined ? Math.random : seededRandom(seed);
+
   // Count votes per voter-id to find most participatory voters
   const voteCounts = new Map<number, number>();
+  const voterToUser = new Map<number, string>();
   for (const v of votes) {
-    voteCounts.set(v.voterId, (voteCounts.get(v.voterId) ?? 0) + 1);
+    const known = knownVoters.get(v.voterId);
+    if (known !== undefined) voterToUser.set(v.voterId, known);
+    else voteCounts.set(v.voterId, (voteCounts.get(v.voterId) ?? 0) + 1);
   }
   const rankedVoterIds = [...voteCounts.entries()]
-    .sort((a, b) => b[1] - a[1])
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
     .map(([voterId]) => voterId);
 
   // Map top-N voter-ids to real seen users; generate synthetic IDs for the rest
-  const shuffledUsers = shuffle(seenUsers);
+  const pinnedUsers = new Set(voterToUser.values());
+  const candidates = seenUsers.filter(u => !pinnedUsers.has(u));
+  // Seen users come out of localStorage in arrival order; sort so only the set matters.
+  const shuffledUsers = shuffle(seed === undefined ? candidates : candidates.sort(), random);
   const n = Math.min(rankedVoterIds.length, shuffledUsers.length);
-  const voterToUser = new Map<number, string>();
   for (let i = 0; i < n; i++) {
     voterToUser.set(rankedVoterIds[i], shuffledUsers[i]);
   }
   const syntheticUserIds: string[] = [];
   for (let i = n; i < rankedVoterIds.length; i++) {
-    const syntheticId = generateUUID();
+    const syntheticId = seed === undefined ? generateUUID() : seededUUID(random);
     voterToUser.set(rankedVoterIds[i], syntheticId);
     syntheticUserIds.push(syntheticId);
   }
@@ -94,10 +193,17 @@ export function assemblePolisImport(
     return {
       id: generateUUID(),
       label: comment.body,
-      timestamp: comment.timestamp * 1000,
+      // Our own exports write fractional seconds; rounding keeps their milliseconds exact.
+      timestamp: Math.round(comment.timestamp * 1000),
       regions,
     };
   });
 
-  return { moments, syntheticUserIds };
+  const participantGroups: Record<string, number> = {};
+  for (const [voterId, userId] of voterToUser) {
+    const group = voterGroups.get(voterId);
+    if (group !== undefined) participantGroups[userId] = group;
+  }
+
+  return { moments, syntheticUserIds, participantGroups };
 }
@@ -0,0 +1,69 @@
+import type { ReactionEvent } from "../lib/supabase";
+import type { PlaybackFile, RecordedEvent } from "../types";
+import { DEFAULT_ANCHORS } from "./voteRegion";
+import type { ReactionAnchors } from "./voteRegion";
+
+// `PlaybackFile` is the shared recording model. V5 keeps `reaction_events` rows keyed by
+// browser session and stamped with the video timecode in seconds; V4 keeps `RecordedEvent`s
+// keyed by userId and stamped with wall-clock ms. The adapters map session ↔ connectionId
+// and timecode ↔ ms since `recordingStart`, so either side can replay the other's data.
+
+const V5_TO_V4_TYPE = { touch: 'touch', move: 'move', lift: 'remove' } as const;
+
+/**
+ * A V5 session as a positions-mode `PlaybackFile`. Events are ordered by timecode, the
+ * clock V5 replays on; `timeOrigin` (default: the earliest `recorded_at`, else 0) becomes
+ * `recordingStart`, i.e. timecode 0.
+ */
+export function reactionEventsToPlaybackFile(events: ReactionEvent[], room: string, timeOrigin?: number): PlaybackFile {
+  // A loop, not Math.min(...): an hour-long session has more rows than the call stack takes arguments.
+  let earliest = Infinity;
+  for (const e of events) {
+    const t = e.recorded_at ? Date.parse(e.recorded_at) : NaN;
+    if (t < earliest) earliest = t;
+  }
+  const origin = timeOrigin ?? (earliest < Infinity ? earliest : 0);
+  const sorted = [...events].sort((a, b) => a.timecode - b.timecode || (a.id ?? 0) - (b.id ?? 0));
+  const recorded: RecordedEvent[] = sorted.map(e => {
+    const type = V5_TO_V4_TYPE[e.type];
+    const timestamp = origin + Math.round(e.timecode * 1000);
+    return type === 'remove'
+      ? { connectionId: e.session_id, type, x: 0, y: 0, timestamp }
+      : { connectionId: e.session_id, type, x: e.x ?? 0, y: e.y ?? 0, timestamp };
+  });
+  return {
+    recordingStart: origin,
+    recordingEnd: recorded.length > 0 ? recorded[recorded.length - 1].timestamp : origin,
+    room,
+    mode: 'positions',
+    events: recorded,
+  };
+}
+
+/**
+ * A recording as `reaction_events` rows for `room`, timecoded from `recordingStart`.
+ * Presence events have no V5 equivalent and are dropped. A transitions-mode recording has
+ * no coordinates, so each region is placed on its anchor and leaving a region lifts.
+ */
+export function playbackFileToReactionEvents(
+  file: PlaybackFile,
+  room: string,
+  anchors: ReactionAnchors = DEFAULT_ANCHORS,
+): Omit<ReactionEvent, 'id' | 'recorded_at'>[] {
+  const rows: Omit<ReactionEvent, 'id' | 'recorded_at'>[] = [];
+  for (const event of file.events as RecordedEvent[]) {
+    if (typeof event.connectionId !== 'string' || typeof event.timestamp !== 'number') continue;
+    const base = { room, session_id: event.connectionId, timecode: (event.timestamp - file.recordingStart) / 1000 };
+    if ('from' in event) {
+      const anchor = event.to ? anchors[event.to] : null;
+      rows.push(anchor
+        ? { ...base, type: event.from ? 'move' : 'touch', x: anchor.x, y: anchor.y }
+        : { ...base, type: 'lift', x: null, y: null });
+    } else if (event.type === 'remove') {
+      rows.push({ ...base, type: 'lift', x: null, y: null });
+    } else if (event.type === 'move' || event.type === 'touch') {
+      rows.push({ ...base, type: event.type, x: event.x, y: event.y });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,37 @@
+import { getRoomHttpUrl } from "./partyHost";
+import { idbGet, idbDelete } from "./idbStorage";
+import type { MomentSnapshot } from "../types";
+
+// Moments are stored by the room server (GET/POST /moments, both behind the admin token).
+// Clients re-fetch when the server broadcasts `momentsChanged`.
+
+export async function fetchRoomMoments(room: string, adminToken: string): Promise<MomentSnapshot[]> {
+  const res = await fetch(getRoomHttpUrl(room, 'moments'), {
+    headers: { Authorization: `Bearer ${adminToken}` },
+  });
+  if (!res.ok) throw new Error(`GET /moments failed: ${res.status}`);
+  return res.json() as Promise<MomentSnapshot[]>;
+}
+
+/** Merges moments into the room (same-label moments are replaced). Requires the admin token. */
+export async function importRoomMoments(room: string, adminToken: string, moments: MomentSnapshot[]): Promise<MomentSnapshot[]> {
+  const res = await fetch(getRoomHttpUrl(room, 'moments'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+    body: JSON.stringify({ moments }),
+  });
+  if (!res.ok) throw new Error(`POST /moments failed: ${res.status}`);
+  return res.json() as Promise<MomentSnapshot[]>;
+}
+
+/**
+ * One-time upload of moments an older build kept in this browser's IndexedDB.
+ * The local copy is deleted once the server has it.
+ */
+export async function migrateLocalMoments(room: string, adminToken: string): Promise<void> {
+  const key = `v4-moments-${room}`;
+  const local = await idbGet<MomentSnapshot[]>(key).catch(() => null);
+  if (!local || local.length === 0) return;
+  await importRoomMoments(room, adminToken, local);
+  await idbDelete(key);
+}
@@ -0,0 +1,49 @@
+import { getRoomHttpUrl } from "./partyHost";
+import { compactRecordingStream } from "./compactRecording";
+import type { PlaybackFile, RecordingMeta } from "../types";
+
+// The room server records cursor streams while recording is on (GET|POST /recordings,
+// GET|DELETE /recordings/:id, all behind the admin token). Clients re-fetch the list on
+// `recordingStateChanged`.
+
+export async function fetchRecordings(room: string, adminToken: string): Promise<RecordingMeta[]> {
+  const res = await fetch(getRoomHttpUrl(room, 'recordings'), {
+    headers: { Authorization: `Bearer ${adminToken}` },
+  });
+  if (!res.ok) throw new Error(`GET /recordings failed: ${res.status}`);
+  return res.json() as Promise<RecordingMeta[]>;
+}
+
+/** The recording as a compact NDJSON byte stream (see utils/compactRecording.ts). */
+export async function fetchRecording(room: string, adminToken: string, id: string): Promise<ReadableStream<Uint8Array<ArrayBuffer>>> {
+  const res = await fetch(getRoomHttpUrl(room, `recordings/${encodeURIComponent(id)}`), {
+    headers: { Authorization: `Bearer ${adminToken}` },
+  });
+  if (!res.ok || !res.body) throw new Error(`GET /recordings/${id} failed: ${res.status}`);
+  return res.body;
+}
+
+/** Requires the admin token; the server refuses to delete a recording that is still running. */
+export async function deleteRecording(room: string, adminToken: string, id: string): Promise<void> {
+  const res = await fetch(getRoomHttpUrl(room, `recordings/${encodeURIComponent(id)}`), {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${adminToken}` },
+  });
+  if (!res.ok) throw new Error(`DELETE /recordings/${id} failed: ${res.status}`);
+}
+
+/** Uploads a compact recording, plain or gzipped, so the server can replay it; requires the admin token. */
+export async function uploadRecording(room: string, adminToken: string, compact: Blob): Promise<RecordingMeta> {
+  const res = await fetch(getRoomHttpUrl(room, 'recordings'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-ndjson', Authorization: `Bearer ${adminToken}` },
+    body: compact,
+  });
+  if (!res.ok) throw new Error(`POST /recordings failed: ${res.status}`);
+  return res.json() as Promise<RecordingMeta>;
+}
+
+/** Uploads a PlaybackFile built in memory, compacted on the way. */
+export async function importRecording(room: string, adminToken: string, file: PlaybackFile): Promise<RecordingMeta> {
+  return uploadRecording(room, adminToken, await new Response(compactRecordingStream(file)).blob());
+}
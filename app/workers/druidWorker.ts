@@ -1,14 +1,49 @@
 import { runReducer } from 'reddwarf-ts';
-import type { DruidWorkerCommand } from './druidWorker.types';
+import { seedLayout, runSeededReducer } from './warmStart';
+import type { DruidReducer } from './warmStart';
+import type { DruidWorkerCommand, ReducerAlgorithm } from './druidWorker.types';
 
-self.onmessage = (evt: MessageEvent<DruidWorkerCommand>) => {
-  const { matrix, algorithm, params, knnBackend, knnParams } = evt.data;
+// Every command supersedes the run in flight: a `cancel` just stops it, a `reduce` stops it
+// and starts over. The loop yields between steps so those commands are received mid-run.
+let currentRun = 0;
+
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const DRUID_CLASSES: Partial<Record<ReducerAlgorithm, string>> = { umap: 'UMAP', pacmap: 'PaCMAP', localmap: 'LocalMAP' };
+
+// Warm runs go straight to druidjs (see warmStart.ts), so they use its own neighbour search
+// and `knnBackend` only applies to cold runs. Null when the algorithm can't be seeded.
+async function warmRun(matrix: number[][], algorithm: ReducerAlgorithm, params: Record<string, number>, initCoords: [number, number][]) {
+  const className = DRUID_CLASSES[algorithm];
+  if (!className || initCoords.length !== matrix.length) return null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const druid = await import('@saehrimnir/druidjs') as any;
+  const reducer: DruidReducer = new druid[className](matrix, {
+    ...params,
+    d: 2,
+    ...(params.n_neighbors ? { n_neighbors: Math.min(params.n_neighbors, matrix.length - 1) } : {}),
+  });
+  seedLayout(reducer, initCoords, rows => druid.Matrix.from(rows));
+  return runSeededReducer(reducer);
+}
+
+self.onmessage = async (evt: MessageEvent<DruidWorkerCommand>) => {
+  const run = ++currentRun;
+  if (evt.data.type === 'cancel') return;
+  const { runId, matrix, algorithm, params, knnBackend, knnParams, initCoords } = evt.data;
   try {
-    for (const event of runReducer({ type: 'reduce', matrix, algorithm, params, knnBackend, knnParams })) {
-      self.postMessage(event);
+    const events = (initCoords && await warmRun(matrix, algorithm, params, initCoords))
+      ?? runReducer({ type: 'reduce', matrix, algorithm, params, knnBackend, knnParams });
+    for (const event of events) {
+      if (run !== currentRun) {
+        self.postMessage({ type: 'cancelled', runId });
+        return;
+      }
+      self.postMessage({ ...event, runId });
       if (event.type === 'done' || event.type === 'error') break;
+      await nextTick();
     }
   } catch (err) {
-    self.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    self.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err), runId });
   }
 };
@@ -2,16 +2,25 @@ import type { KnnBackend, ReducerAlgorithm } from 'reddwarf-ts';
 
 export type { KnnBackend, ReducerAlgorithm };
 
-export type DruidWorkerCommand = {
-  type: 'reduce';
-  matrix: number[][];
-  algorithm: ReducerAlgorithm;
-  params: Record<string, number>;
-  knnBackend?: KnnBackend;
-  knnParams?: Record<string, number>;
-};
+export type DruidWorkerCommand =
+  | {
+      type: 'reduce';
+      /** Echoed on every event of this run, so events from a superseded run can be ignored. */
+      runId?: number;
+      matrix: number[][];
+      algorithm: ReducerAlgorithm;
+      params: Record<string, number>;
+      knnBackend?: KnnBackend;
+      knnParams?: Record<string, number>;
+      /** Warm start: one [x, y] per matrix row, e.g. the previous embedding. Ignores `knnBackend`. */
+      initCoords?: [number, number][];
+    }
+  /** Stops the run in flight at its next step; it answers with `cancelled`. */
+  | { type: 'cancel' };
 
-export type DruidWorkerEvent =
+export type DruidWorkerEvent = (
   | { type: 'progress'; iteration: number; total: number; coords: [number, number][] }
   | { type: 'done'; coords: [number, number][] }
-  | { type: 'error'; message: string };
+  | { type: 'error'; message: string }
+  | { type: 'cancelled' }
+) & { runId?: number };
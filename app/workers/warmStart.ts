@@ -0,0 +1,55 @@
+// reddwarf-ts's `runReducer` (as pinned in package.json) always starts from its own random
+// layout, so warm runs drive the druidjs reducer directly. druidjs builds the neighbour
+// graph and that random layout in `init()`, which `generator()` only calls while
+// `_is_initialized` is unset: running it here and then swapping the layout for the
+// caller's coords makes the optimisation continue from the previous embedding instead.
+
+/** The slice of a druidjs `DR` instance (UMAP, PaCMAP, LocalMAP) that warm runs use. */
+export interface DruidReducer {
+  init(): unknown;
+  _is_initialized: boolean;
+  Y: unknown;
+  generator(iterations?: number): Iterator<unknown>;
+  parameter(name: string): unknown;
+  readonly projection: ArrayLike<ArrayLike<number>>;
+}
+
+export type WarmReducerEvent =
+  | { type: 'progress'; iteration: number; total: number; coords: [number, number][] }
+  | { type: 'done'; coords: [number, number][] };
+
+/** Iterations for algorithms without a `num_iters` schedule (UMAP), matching druidjs's default. */
+export const DEFAULT_WARM_ITERATIONS = 500;
+/** A `progress` event is emitted every this many iterations. */
+export const WARM_PROGRESS_INTERVAL = 10;
+
+const toCoords = (projection: ArrayLike<ArrayLike<number>>): [number, number][] =>
+  Array.from(projection, row => [row[0], row[1]]);
+
+/** Builds the reducer's graph, then replaces its random starting layout with `initCoords`. */
+export function seedLayout(reducer: DruidReducer, initCoords: [number, number][], toMatrix: (rows: number[][]) => unknown): void {
+  reducer.init();
+  reducer._is_initialized = true;
+  reducer.Y = toMatrix(initCoords);
+}
+
+// PaCMAP and LocalMAP run a fixed schedule of phases; the total is their sum.
+function iterationsFor(reducer: DruidReducer): number {
+  try {
+    const phases = reducer.parameter('num_iters');
+    if (Array.isArray(phases)) return phases.reduce((a: number, b: number) => a + b, 0);
+  } catch { /* no schedule */ }
+  return DEFAULT_WARM_ITERATIONS;
+}
+
+/** Runs a seeded reducer to completion, yielding the same events as `runReducer`. */
+export function* runSeededReducer(reducer: DruidReducer): Generator<WarmReducerEvent> {
+  const total = iterationsFor(reducer);
+  const steps = reducer.generator(total);
+  for (let iteration = 1; !steps.next().done; iteration++) {
+    if (iteration % WARM_PROGRESS_INTERVAL === 0) {
+      yield { type: 'progress', iteration, total, coords: toCoords(reducer.projection) };
+    }
+  }
+  yield { type: 'done', coords: toCoords(reducer.projection) };
+}
@@ -0,0 +1,20 @@
+/** Per-room admin credential, kept under its own storage key so debug-state resets never unlock a room. */
+export interface AdminAuthRecord {
+  secret: string;
+  /** True once the secret has been handed out via POST /admin-token. Later claims are refused. */
+  claimed: boolean;
+}
+
+export function mintAdminSecret(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Constant-time comparison so response timing doesn't leak how much of a guessed token matched.
+export function adminTokenMatches(presented: string | null | undefined, expected: string | null | undefined): boolean {
+  if (!presented || !expected || presented.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= presented.charCodeAt(i) ^ expected.charCodeAt(i);
+  return diff === 0;
+}
@@ -0,0 +1,50 @@
+import type { AgendaItem, AgendaState } from '../../app/types';
+
+// The agenda is pure state here; the server applies each item's statement, labels and
+// anchors and owns the alarm that ends timed items.
+
+export function emptyAgenda(): AgendaState {
+  return { items: [], currentIndex: null, ended: false, itemEndsAt: null, autoAdvance: false };
+}
+
+export function currentAgendaItem(agenda: AgendaState): AgendaItem | null {
+  return agenda.currentIndex === null ? null : agenda.items[agenda.currentIndex] ?? null;
+}
+
+/** Moves to `index` (null ends the agenda), restarting the item's duration from `now`. */
+export function goToAgendaItem(agenda: AgendaState, index: number | null, now: number): AgendaState {
+  const item = index === null ? null : agenda.items[index] ?? null;
+  return {
+    ...agenda,
+    currentIndex: item ? index : null,
+    ended: !item,
+    itemEndsAt: item?.durationSec ? now + item.durationSec * 1000 : null,
+  };
+}
+
+/**
+ * Next from the last item ends the agenda, and after the end does nothing; previous
+ * before the start or from the first item stays put, and after the end goes back to the last.
+ * Returns `agenda` itself when nothing changes.
+ */
+export function stepAgenda(agenda: AgendaState, direction: 'next' | 'previous', now: number): AgendaState {
+  const i = agenda.currentIndex;
+  if (direction === 'next') {
+    if (agenda.ended) return agenda;
+    return goToAgendaItem(agenda, i === null ? 0 : i + 1 < agenda.items.length ? i + 1 : null, now);
+  }
+  if (i === null) return agenda.ended && agenda.items.length > 0 ? goToAgendaItem(agenda, agenda.items.length - 1, now) : agenda;
+  return goToAgendaItem(agenda, Math.max(0, i - 1), now);
+}
+
+/**
+ * Replaces the items while keeping the current one (by id) if it survived the edit,
+ * along with its running duration.
+ */
+export function replaceAgendaItems(agenda: AgendaState, items: AgendaItem[]): AgendaState {
+  const current = currentAgendaItem(agenda);
+  const index = current ? items.findIndex(it => it.id === current.id) : -1;
+  return index === -1
+    ? { ...agenda, items, currentIndex: null, itemEndsAt: null }
+    : { ...agenda, items, currentIndex: index };
+}
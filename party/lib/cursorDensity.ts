@@ -0,0 +1,34 @@
+import { computeReactionRegion } from './reactionRegion';
+import type { ReactionAnchors } from './reactionRegion';
+import type { CursorDensity, CursorMode } from '../../app/types';
+
+// In very large rooms the server stops relaying each cursor and instead broadcasts, every
+// DENSITY_TICK_MS, how many cursors sit in each cell of a coarse grid and in each reaction
+// region. The message size depends on the grid, not the room, and participants still draw
+// their own cursor locally.
+export const DENSITY_GRID_SIZE = 20;
+export const DENSITY_TICK_MS = 250;
+export const DEFAULT_DENSITY_THRESHOLD = 300;
+
+/** Whether a room in `mode` with `participants` should get density instead of cursors. */
+export function isDensityActive(mode: CursorMode, threshold: number, participants: number): boolean {
+  if (participants === 0) return false;
+  return mode === 'density' || (mode === 'auto' && participants >= threshold);
+}
+
+export function aggregateCursorDensity(
+  positions: Iterable<{ x: number; y: number }>,
+  anchors: ReactionAnchors,
+  size = DENSITY_GRID_SIZE,
+): CursorDensity {
+  const cells = new Array<number>(size * size).fill(0);
+  const regions = { positive: 0, negative: 0, neutral: 0 };
+  let total = 0;
+  const cellOf = (v: number) => Math.min(size - 1, Math.max(0, Math.floor(v / 100 * size)));
+  for (const { x, y } of positions) {
+    cells[cellOf(y) * size + cellOf(x)]++;
+    regions[computeReactionRegion(x, y, anchors)]++;
+    total++;
+  }
+  return { cols: size, rows: size, cells, regions, total };
+}
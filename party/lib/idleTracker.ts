@@ -0,0 +1,54 @@
+// When each user was last heard from. A user silent for longer than the idle timeout is
+// idle: the server drops their cursor (a locked phone mustn't leave a frozen cursor that
+// still counts for region targeting or soccer kicks) and tells the room, until they speak
+// again.
+export const DEFAULT_IDLE_TIMEOUT_MS = 30_000;
+/** How often the server looks for users who have gone idle. */
+export const IDLE_SWEEP_MS = 1000;
+
+/** `CURSOR_IDLE_TIMEOUT_SEC=<seconds>` in room env; malformed values fall back to the default. */
+export function idleTimeoutFromEnv(env: Record<string, unknown>): number {
+  const sec = Number(env.CURSOR_IDLE_TIMEOUT_SEC);
+  return sec > 0 ? sec * 1000 : DEFAULT_IDLE_TIMEOUT_MS;
+}
+
+export class IdleTracker {
+  private readonly lastSeen = new Map<string, number>();
+  private readonly idle = new Set<string>();
+
+  constructor(readonly timeoutMs: number) {}
+
+  get size(): number {
+    return this.lastSeen.size;
+  }
+
+  /** Records activity; true when it brings an idle user back. */
+  touch(userId: string, now: number): boolean {
+    this.lastSeen.set(userId, now);
+    return this.idle.delete(userId);
+  }
+
+  forget(userId: string): void {
+    this.lastSeen.delete(userId);
+    this.idle.delete(userId);
+  }
+
+  /** Users who have gone idle since the last sweep. */
+  sweep(now: number): string[] {
+    const expired: string[] = [];
+    for (const [userId, seen] of this.lastSeen) {
+      if (this.idle.has(userId) || now - seen < this.timeoutMs) continue;
+      this.idle.add(userId);
+      expired.push(userId);
+    }
+    return expired;
+  }
+
+  isIdle(userId: string): boolean {
+    return this.idle.has(userId);
+  }
+
+  idleUserIds(): string[] {
+    return [...this.idle];
+  }
+}
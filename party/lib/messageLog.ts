@@ -0,0 +1,60 @@
+// Transient messages (pushed interfaces, buzzes, activities, flash timers) are gone for
+// anyone whose socket was down when they went out. Each one is stamped with the room's
+// next `seq` and kept here for a while, with who it was for, so a reconnecting client can
+// ask for what it missed (`resume`). `epoch` changes whenever the room restarts, which
+// tells clients their old sequence numbers mean nothing here.
+export const MESSAGE_LOG_SIZE = 200;
+export const MESSAGE_LOG_MAX_AGE_MS = 2 * 60_000;
+
+interface LoggedMessage {
+  seq: number;
+  at: number;
+  json: string;
+  /** Null when it went to everyone. */
+  userIds: string[] | null;
+}
+
+export class MessageLog {
+  readonly epoch = crypto.randomUUID();
+  private seq = 0;
+  private entries: LoggedMessage[] = [];
+  /** Highest seq no longer kept; a resume from before it can't be served. */
+  private dropped = 0;
+
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+  /**
+   * `message` as JSON led by the next `seq`, kept for `userIds` (null: everyone). Clients
+   * read `seq` off the front without parsing, and client messages may not carry one.
+   */
+  record(message: object, userIds: string[] | null, now: number): string {
+    const seq = ++this.seq;
+    const json = JSON.stringify({ seq, ...message });
+    this.entries.push({ seq, at: now, json, userIds });
+    this.prune(now);
+    return json;
+  }
+
+  /**
+   * What `userId` was sent after `lastSeq`, oldest first, or null when the log can't say:
+   * another epoch, or some of the gap has already been dropped.
+   */
+  since(epoch: string, lastSeq: number, userId: string, now: number): string[] | null {
+    this.prune(now);
+    if (epoch !== this.epoch || lastSeq < this.dropped || lastSeq > this.seq) return null;
+    return this.entries
+      .filter(e => e.seq > lastSeq && (e.userIds === null || e.userIds.includes(userId)))
+      .map(e => e.json);
+  }
+
+  private prune(now: number): void {
+    let n = 0;
+    while (n < this.entries.length
+      && (this.entries.length - n > MESSAGE_LOG_SIZE || now - this.entries[n].at > MESSAGE_LOG_MAX_AGE_MS)) n++;
+    if (n === 0) return;
+    this.dropped = this.entries[n - 1].seq;
+    this.entries = this.entries.slice(n);
+  }
+}
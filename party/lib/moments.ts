@@ -0,0 +1,36 @@
+import { computeReactionRegion } from './reactionRegion';
+import type { ReactionAnchors } from './reactionRegion';
+import type { MomentSnapshot } from '../../app/types';
+
+const REGIONS = new Set(['positive', 'negative', 'neutral']);
+
+/** Region per seen participant; participants without a live cursor are recorded as null. */
+export function snapshotRegions(
+  seenUserIds: Iterable<string>,
+  cursorPositions: Map<string, { x: number; y: number }>,
+  anchors: ReactionAnchors,
+): MomentSnapshot['regions'] {
+  const regions: MomentSnapshot['regions'] = {};
+  for (const userId of seenUserIds) {
+    const cursor = cursorPositions.get(userId);
+    regions[userId] = cursor ? computeReactionRegion(cursor.x, cursor.y, anchors) : null;
+  }
+  return regions;
+}
+
+/**
+ * Prepends imported moments (newest first), replacing existing moments with the same
+ * label so re-importing a Polis export updates statements instead of duplicating them.
+ */
+export function mergeImportedMoments(existing: MomentSnapshot[], imported: MomentSnapshot[]): MomentSnapshot[] {
+  const importedLabels = new Set(imported.map(m => m.label));
+  return [...imported, ...existing.filter(m => !importedLabels.has(m.label))];
+}
+
+export function isMomentSnapshot(v: unknown): v is MomentSnapshot {
+  if (typeof v !== 'object' || v === null) return false;
+  const m = v as Record<string, unknown>;
+  if (typeof m.id !== 'string' || typeof m.label !== 'string' || typeof m.timestamp !== 'number') return false;
+  if (typeof m.regions !== 'object' || m.regions === null || Array.isArray(m.regions)) return false;
+  return Object.values(m.regions).every(r => r === null || REGIONS.has(r as string));
+}
@@ -0,0 +1,52 @@
+import { PERSISTED_STATE_VERSION } from '../types';
+import type { PersistedState } from '../types';
+import { DEFAULT_DENSITY_THRESHOLD } from './cursorDensity';
+
+/** v1 (unversioned): only plugin states were saved. */
+interface PersistedStateV1 {
+  pluginStates?: Record<string, unknown>;
+}
+
+type AnyPersistedState = (PersistedStateV1 & { version?: undefined }) | PersistedState;
+
+// Each entry upgrades a saved state from version `n` to `n + 1`. Keep old entries
+// forever — rooms can sit in storage across many deploys before they wake up.
+const MIGRATIONS: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 → v2: room config joins plugin states. Nothing to carry over; defaults apply.
+  1: state => ({ ...state, version: 2 }),
+  // v2 → v3: V5 reaction storage settings join the room config, unset.
+  2: state => ({
+    ...state,
+    version: 3,
+    ...(state.roomConfig ? { roomConfig: { ...state.roomConfig as object, reactionStore: null, reactionsProtected: null } } : {}),
+  }),
+  // v3 → v4: cursor mode joins the room config; existing rooms keep individual cursors.
+  3: state => ({
+    ...state,
+    version: 4,
+    ...(state.roomConfig ? { roomConfig: { ...state.roomConfig as object, cursorMode: 'individual', densityThreshold: DEFAULT_DENSITY_THRESHOLD } } : {}),
+  }),
+  // v4 → v5: the waiting queue's reservation timeout joins the room config, off.
+  4: state => ({
+    ...state,
+    version: 5,
+    ...(state.roomConfig ? { roomConfig: { ...state.roomConfig as object, queueReservationSec: null } } : {}),
+  }),
+};
+
+/**
+ * Upgrades whatever is in the "state" storage key to the current `PersistedState`.
+ * Returns null for states written by a newer server than this one, so a rollback
+ * starts fresh instead of misreading fields it doesn't know.
+ */
+export function migratePersistedState(raw: AnyPersistedState | undefined): PersistedState | null {
+  if (!raw) return null;
+  let state = raw as Record<string, unknown>;
+  let version = typeof state.version === 'number' ? state.version : 1;
+  if (version > PERSISTED_STATE_VERSION) return null;
+  while (version < PERSISTED_STATE_VERSION) {
+    state = MIGRATIONS[version](state);
+    version++;
+  }
+  return state as unknown as PersistedState;
+}
@@ -0,0 +1,288 @@
+import type { ReactionAnchors } from './reactionRegion';
+import type { CursorEvent } from '../types';
+import type { PlaybackState, RecordedEvent, RecordingMode } from '../../app/types';
+
+export const PLAYBACK_TICK_MS = 50;
+/** While paused, replay cursors are re-sent this often so clients don't expire them as stale. */
+export const PLAYBACK_HEARTBEAT_MS = 2000;
+export const MIN_PLAYBACK_SPEED = 0.1;
+export const MAX_PLAYBACK_SPEED = 16;
+
+type Event = Record<string, unknown>;
+
+/** A stored recording as playback reads it: one chunk at a time, never the whole file. */
+export interface PlaybackSource {
+  mode: RecordingMode;
+  chunkCount: number;
+  readChunk(n: number): Promise<RecordedEvent[]>;
+}
+
+interface PlaybackSummary {
+  originTs: number;
+  durationMs: number;
+  eventCount: number;
+  userCount: number;
+}
+
+// Recordings are stored in time order as they happen; an upload may not be, so each chunk
+// is put in order as it's read. Stragglers across chunks simply play when they're reached.
+async function readSorted(source: PlaybackSource, n: number): Promise<Event[]> {
+  const events = (await source.readChunk(n)) as Event[];
+  return [...events].sort((a, b) => (a.timestamp as number) - (b.timestamp as number));
+}
+
+function anchorForRegion(region: string, userId: string, anchors: ReactionAnchors): { x: number; y: number } {
+  const base = anchors[region as keyof ReactionAnchors] ?? { x: 50, y: 50 };
+  // Deterministic jitter ±4 units seeded by userId so users don't pile up on the same pixel
+  const h = userId.split('').reduce((a, c) => (a * 31 + c.charCodeAt(0)) | 0, 0);
+  // Clamped so replay cursors stay on the 0–100 canvas
+  return {
+    x: Math.max(0, Math.min(100, base.x + ((Math.abs(h) % 9) - 4))),
+    y: Math.max(0, Math.min(100, base.y + ((Math.abs(h >> 4) % 9) - 4))),
+  };
+}
+
+/**
+ * Replays one recording as `replay_<userId>` cursors. The server calls `tick(now)` on an
+ * interval and broadcasts whatever cursor updates come back. Only the chunk being played
+ * and the next one are held; `load` streams the file once up front for its totals.
+ */
+export class PlaybackEngine {
+  status: PlaybackState['status'] = 'stopped';
+  positionMs = 0;
+  speed = 1;
+  loop = false;
+
+  private chunkNo = 0;
+  /** The chunk `idx` points into; null while it is still being read after a rewind. */
+  private chunk: Event[] | null;
+  private idx = 0;
+  private ahead: { n: number; events: Event[] } | null = null;
+  private reading: number | null = null;
+  /** Bumped by every jump, so a seek that was overtaken drops its result. */
+  private generation = 0;
+  private active = new Map<string, { x: number; y: number }>();
+  private lastTickAt = 0;
+  private lastHeartbeatAt = 0;
+
+  private constructor(
+    readonly recordingId: string,
+    private readonly source: PlaybackSource,
+    private readonly summary: PlaybackSummary,
+    firstChunk: Event[],
+    private readonly getAnchors: () => ReactionAnchors,
+  ) {
+    this.chunk = firstChunk;
+    this.fetchChunk(1);
+  }
+
+  /** Reads `source` through once for its duration and counts, keeping only the first chunk. */
+  static async load(recordingId: string, source: PlaybackSource, getAnchors: () => ReactionAnchors): Promise<PlaybackEngine> {
+    let first: Event[] = [];
+    let minTs = Infinity;
+    let maxTs = -Infinity;
+    let eventCount = 0;
+    const users = new Set<unknown>();
+    for (let n = 0; n < source.chunkCount; n++) {
+      const events = await readSorted(source, n);
+      if (n === 0) first = events;
+      for (const evt of events) {
+        minTs = Math.min(minTs, evt.timestamp as number);
+        maxTs = Math.max(maxTs, evt.timestamp as number);
+        users.add(evt.connectionId);
+      }
+      eventCount += events.length;
+    }
+    const summary = eventCount > 0
+      ? { originTs: minTs, durationMs: maxTs - minTs, eventCount, userCount: users.size }
+      : { originTs: 0, durationMs: 0, eventCount: 0, userCount: 0 };
+    return new PlaybackEngine(recordingId, source, summary, first, getAnchors);
+  }
+
+  get durationMs(): number {
+    return this.summary.durationMs;
+  }
+
+  state(): PlaybackState {
+    return {
+      recordingId: this.recordingId,
+      mode: this.source.mode,
+      status: this.status,
+      positionMs: this.positionMs,
+      durationMs: this.durationMs,
+      speed: this.speed,
+      loop: this.loop,
+      eventCount: this.summary.eventCount,
+      userCount: this.summary.userCount,
+    };
+  }
+
+  play(now: number): void {
+    if (this.summary.eventCount === 0) return;
+    this.status = 'playing';
+    this.lastTickAt = now;
+  }
+
+  pause(now: number): void {
+    if (this.status !== 'playing') return;
+    this.status = 'paused';
+    this.lastHeartbeatAt = now;
+  }
+
+  /** Stops and rewinds; returns the removes that clear every replay cursor. */
+  stop(now: number): CursorEvent[] {
+    this.status = 'stopped';
+    this.rewind();
+    return this.clear(now);
+  }
+
+  /**
+   * Jumps to `positionMs`, returning the updates that bring clients to that instant. The
+   * chunks before it are read one at a time to find where every cursor stands.
+   */
+  async seek(positionMs: number, now: number): Promise<CursorEvent[]> {
+    const generation = ++this.generation;
+    const target = Math.max(0, Math.min(positionMs, this.durationMs));
+    const next = new Map<string, { x: number; y: number }>();
+    let chunkNo = 0;
+    let chunk: Event[] = [];
+    let idx = 0;
+    for (let n = 0; n < this.source.chunkCount; n++) {
+      chunk = await readSorted(this.source, n);
+      if (generation !== this.generation) return [];
+      chunkNo = n;
+      for (idx = 0; idx < chunk.length; idx++) {
+        const evt = chunk[idx];
+        if ((evt.timestamp as number) - this.summary.originTs > target) break;
+        this.applyTo(next, evt);
+      }
+      if (idx < chunk.length) break;
+    }
+    const out = new Map<string, CursorEvent>();
+    for (const userId of this.active.keys()) {
+      if (!next.has(userId)) out.set(userId, this.cursor('remove', userId, { x: 0, y: 0 }, now));
+    }
+    for (const [userId, pos] of next) out.set(userId, this.cursor('move', userId, pos, now));
+    this.active = next;
+    this.chunkNo = chunkNo;
+    this.chunk = chunk;
+    this.idx = idx;
+    this.fetchChunk(chunkNo + 1);
+    this.positionMs = target;
+    this.lastTickAt = now;
+    return [...out.values()];
+  }
+
+  tick(now: number): CursorEvent[] {
+    const wallMs = now - this.lastTickAt;
+    this.lastTickAt = now;
+    if (this.status === 'paused') {
+      if (now - this.lastHeartbeatAt < PLAYBACK_HEARTBEAT_MS) return [];
+      this.lastHeartbeatAt = now;
+      return [...this.active].map(([userId, pos]) => this.cursor('move', userId, pos, now));
+    }
+    if (this.status !== 'playing') return [];
+    // Rewound onto a chunk that is still being read: hold the position until it arrives.
+    if (!this.chunk && !this.takeChunk(this.chunkNo)) return [];
+
+    // The recording's final positions stay up for one tick before the cursors clear.
+    if (this.atEnd()) {
+      const removes = this.clear(now);
+      this.rewind();
+      if (!this.loop) this.status = 'stopped';
+      return removes;
+    }
+
+    this.positionMs += wallMs * this.speed;
+    // Latest update per cursor wins within one tick, as in the live cursorBatch.
+    const out = new Map<string, CursorEvent>();
+    while (this.chunk) {
+      if (this.idx >= this.chunk.length) {
+        // A next chunk still being read is caught up with on a later tick.
+        if (this.chunkNo + 1 >= this.source.chunkCount || !this.takeChunk(this.chunkNo + 1)) break;
+        continue;
+      }
+      const evt = this.chunk[this.idx];
+      if ((evt.timestamp as number) - this.summary.originTs > this.positionMs) break;
+      const userId = `replay_${evt.connectionId}`;
+      this.applyTo(this.active, evt);
+      const pos = this.active.get(userId);
+      if (pos) out.set(userId, this.cursor('move', userId, pos, now));
+      else if (this.isCursorEvent(evt)) out.set(userId, this.cursor('remove', userId, { x: 0, y: 0 }, now));
+      this.idx++;
+    }
+    return [...out.values()];
+  }
+
+  private atEnd(): boolean {
+    return this.chunkNo >= this.source.chunkCount - 1 && this.idx >= (this.chunk?.length ?? 0);
+  }
+
+  // Back to the start. The first chunk stays loaded when it is the one in hand.
+  private rewind(): void {
+    this.generation++;
+    this.positionMs = 0;
+    this.idx = 0;
+    if (this.chunkNo !== 0) {
+      this.chunkNo = 0;
+      this.chunk = null;
+      this.fetchChunk(0);
+    }
+  }
+
+  // Moves onto chunk `n` if it has been read, starting on the one after; otherwise asks for it.
+  private takeChunk(n: number): boolean {
+    if (this.ahead?.n !== n) {
+      this.fetchChunk(n);
+      return false;
+    }
+    this.chunkNo = n;
+    this.chunk = this.ahead.events;
+    this.idx = 0;
+    this.ahead = null;
+    this.fetchChunk(n + 1);
+    return true;
+  }
+
+  private fetchChunk(n: number): void {
+    if (n >= this.source.chunkCount || this.ahead?.n === n || this.reading === n) return;
+    this.reading = n;
+    readSorted(this.source, n).then(events => {
+      if (this.reading === n) this.reading = null;
+      // A read overtaken by a seek or rewind is dropped.
+      if (n === this.chunkNo + 1 || (!this.chunk && n === this.chunkNo)) this.ahead = { n, events };
+    }).catch(err => {
+      // Left for the next tick to ask again.
+      if (this.reading === n) this.reading = null;
+      console.error('[playback] chunk read failed:', err);
+    });
+  }
+
+  private clear(now: number): CursorEvent[] {
+    const removes = [...this.active.keys()].map(userId => this.cursor('remove', userId, { x: 0, y: 0 }, now));
+    this.active = new Map();
+    return removes;
+  }
+
+  private isCursorEvent(evt: Event): boolean {
+    return this.source.mode === 'transitions' ? evt.to !== undefined : evt.type === 'move' || evt.type === 'touch' || evt.type === 'remove';
+  }
+
+  // Arrival/departure rows carry no position, so they don't move replay cursors.
+  private applyTo(cursors: Map<string, { x: number; y: number }>, evt: Event): void {
+    if (!this.isCursorEvent(evt)) return;
+    const userId = `replay_${evt.connectionId}`;
+    if (this.source.mode === 'transitions') {
+      if (evt.to == null) cursors.delete(userId);
+      else cursors.set(userId, anchorForRegion(String(evt.to), userId, this.getAnchors()));
+    } else if (evt.type === 'remove') {
+      cursors.delete(userId);
+    } else {
+      cursors.set(userId, { x: evt.x as number, y: evt.y as number });
+    }
+  }
+
+  private cursor(type: 'move' | 'remove', userId: string, pos: { x: number; y: number }, now: number): CursorEvent {
+    return { type, position: { x: pos.x, y: pos.y, userId, timestamp: now } };
+  }
+}
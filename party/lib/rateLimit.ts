@@ -0,0 +1,129 @@
+/** Message categories that get their own token bucket per connection. */
+export type RateCategory = 'cursor' | 'stroke' | 'submission' | 'other' | 'invalid' | 'reactions';
+
+export interface BucketConfig {
+  /** Tokens refilled per second — the sustained message rate allowed. */
+  ratePerSec: number;
+  /** Bucket size — how many messages may arrive back-to-back after a quiet spell. */
+  burst: number;
+}
+
+export interface RateLimitConfig {
+  buckets: Record<RateCategory, BucketConfig>;
+  /** Dropped messages within one `strikeWindowMs` that get a connection closed. */
+  disconnectAfter: number;
+  strikeWindowMs: number;
+}
+
+// Cursors get ~2x the client's CURSOR_THROTTLE_MS rate (33ms ≈ 30/s) so heartbeats,
+// timecode pings and jittery timers never trip the limit; raw pointer-rate floods do.
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  buckets: {
+    cursor:     { ratePerSec: 60, burst: 120 },
+    stroke:     { ratePerSec: 30, burst: 60 },
+    submission: { ratePerSec: 1, burst: 5 },
+    other:      { ratePerSec: 10, burst: 30 },
+    // Messages that fail validation, whatever their type. Each costs an `error` reply, so a
+    // client stuck sending bad frames is throttled and eventually disconnected like any flood.
+    invalid:    { ratePerSec: 1, burst: 10 },
+    // Rows `POST /reactions` accepts from one client address, scaled by its live connections
+    // since HTTP has no connection to charge: a V5 participant sends a row per 150ms, posted
+    // in batches every 2 s.
+    reactions:  { ratePerSec: 20, burst: 200 },
+  },
+  disconnectAfter: 300,
+  strikeWindowMs: 10_000,
+};
+
+const MESSAGE_CATEGORIES: Record<string, RateCategory> = {
+  move: 'cursor',
+  touch: 'cursor',
+  remove: 'cursor',
+  setTimecode: 'cursor',
+  strokeSegment: 'stroke',
+  clearSignature: 'stroke',
+  submitGithubUsername: 'submission',
+  submitFeedbackStars: 'submission',
+  registerCustomAvatar: 'submission',
+  recordInvitations: 'submission',
+  requestJoin: 'submission',
+  neighborEdge: 'submission',
+};
+
+export function messageCategory(type: string): RateCategory {
+  // Own keys only, as in validateClientEvent: "constructor" must not resolve to an inherited member.
+  return Object.prototype.hasOwnProperty.call(MESSAGE_CATEGORIES, type) ? MESSAGE_CATEGORIES[type] : 'other';
+}
+
+/**
+ * Reads overrides from room env: `RATE_LIMIT_<CATEGORY>="<ratePerSec>,<burst>"`
+ * (e.g. `RATE_LIMIT_CURSOR=60,120`) and `RATE_LIMIT_DISCONNECT_AFTER=<drops>`.
+ * Malformed values fall back to the defaults.
+ */
+export function rateLimitConfigFromEnv(env: Record<string, unknown>): RateLimitConfig {
+  const buckets = { ...DEFAULT_RATE_LIMITS.buckets };
+  for (const category of Object.keys(buckets) as RateCategory[]) {
+    const raw = env[`RATE_LIMIT_${category.toUpperCase()}`];
+    if (typeof raw !== 'string') continue;
+    const [ratePerSec, burst] = raw.split(',').map(Number);
+    if (ratePerSec > 0 && burst > 0) buckets[category] = { ratePerSec, burst };
+  }
+  const disconnectAfter = Number(env.RATE_LIMIT_DISCONNECT_AFTER);
+  return {
+    ...DEFAULT_RATE_LIMITS,
+    buckets,
+    disconnectAfter: disconnectAfter > 0 ? disconnectAfter : DEFAULT_RATE_LIMITS.disconnectAfter,
+  };
+}
+
+/** 'allow': dispatch. 'drop': over the limit, skip this message. 'disconnect': persistent offender. */
+export type RateDecision = 'allow' | 'drop' | 'disconnect';
+
+/** One token bucket per category for a single connection. */
+export class ConnectionRateLimiter {
+  private tokens = new Map<RateCategory, number>();
+  private refilledAt = new Map<RateCategory, number>();
+  private strikes = 0;
+  private strikeWindowStart = 0;
+  /** Drops per category since the last `takeDropReport()`, for DEBUG logging. */
+  private dropsSinceReport: Partial<Record<RateCategory, number>> = {};
+
+  constructor(private readonly config: RateLimitConfig) {}
+
+  /**
+   * Charges `cost` tokens (one message, or a post's rows) to `category`. `scale` multiplies
+   * the bucket's rate and size, for a limiter shared by that many clients.
+   */
+  take(category: RateCategory, now = Date.now(), cost = 1, scale = 1): RateDecision {
+    const ratePerSec = this.config.buckets[category].ratePerSec * scale;
+    const burst = this.config.buckets[category].burst * scale;
+    const last = this.refilledAt.get(category) ?? now;
+    const available = Math.min(burst, (this.tokens.get(category) ?? burst) + ((now - last) / 1000) * ratePerSec);
+    this.refilledAt.set(category, now);
+
+    if (available >= cost) {
+      this.tokens.set(category, available - cost);
+      return 'allow';
+    }
+    this.tokens.set(category, available);
+    this.dropsSinceReport[category] = (this.dropsSinceReport[category] ?? 0) + 1;
+
+    if (now - this.strikeWindowStart > this.config.strikeWindowMs) {
+      this.strikeWindowStart = now;
+      this.strikes = 0;
+    }
+    this.strikes++;
+    return this.strikes >= this.config.disconnectAfter ? 'disconnect' : 'drop';
+  }
+
+  /** True for the first drop of a streak, so the client is told once rather than per message. */
+  get isFirstStrike(): boolean {
+    return this.strikes === 1;
+  }
+
+  takeDropReport(): Partial<Record<RateCategory, number>> | null {
+    const report = this.dropsSinceReport;
+    this.dropsSinceReport = {};
+    return Object.keys(report).length > 0 ? report : null;
+  }
+}
@@ -0,0 +1,141 @@
+import type * as Party from 'partykit/server';
+import type { ReactionEvent } from '../../app/types';
+
+// V5 reactions for rooms that keep them in room storage instead of Supabase. Rows are
+// bucketed by video timecode, one bucket per REACTION_BUCKET_SEC of video, and each bucket
+// is split into `reactions:<bucket>:<n>` chunks so a busy stretch never hits the per-value
+// storage limit. The index under "reactionIndex" lists every bucket's chunks, so reading a
+// stretch of the video only touches the chunks that cover it.
+export const REACTION_BUCKET_SEC = 10;
+export const REACTION_CHUNK_SIZE = 500;
+/** Most rows one `POST /reactions` may carry. */
+export const MAX_REACTIONS_PER_POST = 500;
+/**
+ * Most rows a room keeps; posts past it are refused. Override with `REACTION_ROW_LIMIT`.
+ * At ~150 bytes a row this keeps even a read of every row within a few tens of MB.
+ */
+export const MAX_STORED_REACTIONS = 100_000;
+/** Widest timecode range one `GET /reactions` returns; longer ranges are paged. */
+export const REACTION_READ_WINDOW_SEC = 60;
+
+export function reactionRowLimitFromEnv(env: Record<string, unknown>): number {
+  const limit = Number(env.REACTION_ROW_LIMIT);
+  return limit > 0 ? limit : MAX_STORED_REACTIONS;
+}
+
+/** Rooms protected before protection was a room setting; they stay protected until changed. */
+export const LEGACY_PROTECTED_ROOMS = ['irc6creOFGs'];
+
+export type NewReactionEvent = Omit<ReactionEvent, 'id' | 'recorded_at'>;
+
+interface ReactionIndex {
+  nextId: number;
+  /** bucket → chunk count and the size of its last chunk. */
+  buckets: Record<number, { chunks: number; lastSize: number }>;
+}
+
+const INDEX_KEY = 'reactionIndex';
+const chunkKey = (bucket: number, n: number) => `reactions:${bucket}:${n}`;
+const bucketOf = (timecode: number) => Math.floor(timecode / REACTION_BUCKET_SEC);
+
+const coord = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 100;
+
+export function isNewReactionEvent(v: unknown, room: string): v is NewReactionEvent {
+  if (typeof v !== 'object' || v === null) return false;
+  const e = v as Record<string, unknown>;
+  if (e.room !== room || typeof e.session_id !== 'string' || e.session_id.length === 0 || e.session_id.length > 128) return false;
+  if (typeof e.timecode !== 'number' || !Number.isFinite(e.timecode) || e.timecode < 0) return false;
+  if (e.type === 'lift') return e.x === null && e.y === null;
+  return (e.type === 'touch' || e.type === 'move') && coord(e.x) && coord(e.y);
+}
+
+/** One room's stored V5 reactions. Writes are chained so concurrent posts can't interleave. */
+export class ReactionEventStore {
+  private index: ReactionIndex = { nextId: 1, buckets: {} };
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly storage: Party.Storage) {}
+
+  async load(): Promise<void> {
+    this.index = await this.storage.get<ReactionIndex>(INDEX_KEY) ?? this.index;
+  }
+
+  count(): number {
+    return Object.values(this.index.buckets).reduce((n, b) => n + (b.chunks - 1) * REACTION_CHUNK_SIZE + b.lastSize, 0);
+  }
+
+  append(rows: NewReactionEvent[], now = Date.now()): Promise<void> {
+    const run = this.writing.then(() => this.write(rows, new Date(now).toISOString()));
+    this.writing = run.catch(() => {});
+    return run;
+  }
+
+  /** Where the first stored row at or after `timecode` could be, or null when none can. */
+  nextTimecode(timecode: number): number | null {
+    const buckets = Object.keys(this.index.buckets).map(Number).filter(b => (b + 1) * REACTION_BUCKET_SEC > timecode);
+    return buckets.length > 0 ? Math.max(timecode, Math.min(...buckets) * REACTION_BUCKET_SEC) : null;
+  }
+
+  /** Rows with `from <= timecode < to`, ordered by timecode. */
+  async read(from = 0, to = Infinity): Promise<ReactionEvent[]> {
+    await this.writing;
+    const buckets = Object.keys(this.index.buckets).map(Number)
+      .filter(b => (b + 1) * REACTION_BUCKET_SEC > from && b * REACTION_BUCKET_SEC < to)
+      .sort((a, b) => a - b);
+    const chunks = await Promise.all(buckets.flatMap(b => {
+      const { chunks, lastSize } = this.index.buckets[b];
+      return Array.from({ length: chunks }, async (_, n) => {
+        const rows = await this.storage.get<ReactionEvent[]>(chunkKey(b, n)) ?? [];
+        return n === chunks - 1 ? rows.slice(0, lastSize) : rows;
+      });
+    }));
+    return chunks.flat()
+      .filter(e => e.timecode >= from && e.timecode < to)
+      .sort((a, b) => a.timecode - b.timecode || (a.id ?? 0) - (b.id ?? 0));
+  }
+
+  clear(): Promise<void> {
+    const run = this.writing.then(async () => {
+      const keys = Object.entries(this.index.buckets).flatMap(([b, { chunks }]) =>
+        Array.from({ length: chunks }, (_, n) => chunkKey(Number(b), n)));
+      await Promise.all(keys.map(k => this.storage.delete(k)));
+      this.index = { nextId: 1, buckets: {} };
+      await this.storage.delete(INDEX_KEY);
+    });
+    this.writing = run.catch(() => {});
+    return run;
+  }
+
+  // Built on a copy and swapped in once every put, the index's last, has resolved, so a
+  // failed put leaves `this.index` matching storage. Rows a failed write did put past a
+  // chunk's indexed size are ignored, and overwritten by the next write.
+  private async write(rows: NewReactionEvent[], recordedAt: string): Promise<void> {
+    const index: ReactionIndex = { nextId: this.index.nextId, buckets: { ...this.index.buckets } };
+    const byBucket = new Map<number, ReactionEvent[]>();
+    for (const row of rows) {
+      const b = bucketOf(row.timecode);
+      const list = byBucket.get(b) ?? [];
+      list.push({ ...row, id: index.nextId++, recorded_at: recordedAt });
+      byBucket.set(b, list);
+    }
+    for (const [b, incoming] of byBucket) {
+      const entry = { ...(index.buckets[b] ?? { chunks: 0, lastSize: REACTION_CHUNK_SIZE }) };
+      let pending = incoming;
+      while (pending.length > 0) {
+        if (entry.lastSize >= REACTION_CHUNK_SIZE) {
+          entry.chunks++;
+          entry.lastSize = 0;
+        }
+        const n = entry.chunks - 1;
+        const existing = entry.lastSize > 0 ? (await this.storage.get<ReactionEvent[]>(chunkKey(b, n)) ?? []).slice(0, entry.lastSize) : [];
+        const space = REACTION_CHUNK_SIZE - entry.lastSize;
+        await this.storage.put(chunkKey(b, n), [...existing, ...pending.slice(0, space)]);
+        entry.lastSize += Math.min(space, pending.length);
+        pending = pending.slice(space);
+      }
+      index.buckets[b] = entry;
+    }
+    await this.storage.put(INDEX_KEY, index);
+    this.index = index;
+  }
+}
@@ -0,0 +1,194 @@
+import type * as Party from 'partykit/server';
+import { computeReactionRegion } from './reactionRegion';
+import type { ReactionAnchors } from './reactionRegion';
+import type { PlaybackSource } from './playback';
+import {
+  CompactRecordingDecoder,
+  CompactRecordingEncoder,
+  parseCompactHeader,
+  COMPACT_COORD_SCALE,
+  COMPACT_RECORDING_FORMAT,
+  COMPACT_RECORDING_VERSION,
+} from '../../app/utils/compactRecording';
+import type { PlaybackFile, RecordedEvent, RecordingMeta, RecordingMode, MomentSnapshot } from '../../app/types';
+
+// A recording is an index entry under "recordings" plus its events split across
+// `recording:<id>:<n>` chunks, so a long session never hits the per-value storage limit.
+export const RECORDING_CHUNK_SIZE = 500;
+/** Partial chunks are written at least this often, bounding what a server restart can lose. */
+export const RECORDING_FLUSH_MS = 5000;
+
+type Region = MomentSnapshot['regions'][string];
+
+const chunkKey = (id: string, n: number) => `recording:${id}:${n}`;
+
+export function newRecordingMeta(room: string, mode: RecordingMode, now = Date.now()): RecordingMeta {
+  return { id: crypto.randomUUID(), room, mode, recordingStart: now, recordingEnd: now, eventCount: 0, chunkCount: 0, active: true };
+}
+
+/** Appends one room's cursor stream to storage while recording is on. */
+export class SessionRecorder {
+  private buffer: RecordedEvent[] = [];
+  private prevRegions = new Map<string, Region>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private nextChunk: number;
+
+  constructor(
+    private readonly storage: Party.Storage,
+    readonly meta: RecordingMeta,
+    private readonly getAnchors: () => ReactionAnchors,
+    private readonly onMetaChanged: (meta: RecordingMeta) => void,
+  ) {
+    this.nextChunk = meta.chunkCount;
+  }
+
+  /**
+   * `positions` logs every event; `transitions` logs only region changes, plus a
+   * transition to null when a cursor is removed from a region.
+   */
+  recordCursor(type: 'move' | 'touch' | 'remove', userId: string, x: number, y: number, now = Date.now()): void {
+    if (this.meta.mode === 'positions') {
+      this.push(type === 'remove'
+        ? { connectionId: userId, type, x: 0, y: 0, timestamp: now }
+        : { connectionId: userId, type, x, y, timestamp: now });
+      return;
+    }
+    const from = this.prevRegions.get(userId) ?? null;
+    const to = type === 'remove' ? null : computeReactionRegion(x, y, this.getAnchors());
+    this.prevRegions.set(userId, to);
+    if (from !== to) this.push({ connectionId: userId, from, to, timestamp: now });
+  }
+
+  recordPresence(type: 'arrival' | 'departure', userId: string, now = Date.now()): void {
+    this.push({ connectionId: userId, type, timestamp: now });
+  }
+
+  async stop(now = Date.now()): Promise<RecordingMeta> {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.meta.active = false;
+    this.meta.recordingEnd = now;
+    await this.flush();
+    return this.meta;
+  }
+
+  private push(event: RecordedEvent): void {
+    this.buffer.push(event);
+    this.meta.eventCount++;
+    this.meta.recordingEnd = event.timestamp;
+    if (this.buffer.length >= RECORDING_CHUNK_SIZE) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => { this.flushTimer = null; void this.flush(); }, RECORDING_FLUSH_MS);
+    }
+  }
+
+  // The buffer is sealed into a numbered chunk synchronously; writes are chained so
+  // `chunkCount` only ever covers chunks already in storage. Readers of an active
+  // recording await a flush first so buffered events are included.
+  flush(): Promise<void> {
+    const events = this.buffer;
+    const n = events.length > 0 ? this.nextChunk++ : null;
+    this.buffer = [];
+    this.flushing = this.flushing.then(async () => {
+      if (n !== null) {
+        await this.storage.put(chunkKey(this.meta.id, n), events);
+        this.meta.chunkCount = n + 1;
+      }
+      this.onMetaChanged({ ...this.meta });
+    }).catch(err => console.error('[recording] chunk write failed:', err));
+    return this.flushing;
+  }
+}
+
+async function readChunk(storage: Party.Storage, meta: RecordingMeta, n: number): Promise<RecordedEvent[]> {
+  return await storage.get<RecordedEvent[]>(chunkKey(meta.id, n)) ?? [];
+}
+
+/** A stored recording for `PlaybackEngine`, which reads it a chunk at a time as it plays. */
+export function recordingSource(storage: Party.Storage, meta: RecordingMeta): PlaybackSource {
+  return { mode: meta.mode, chunkCount: meta.chunkCount, readChunk: n => readChunk(storage, meta, n) };
+}
+
+/** Assembles a whole stored recording in memory as a `PlaybackFile`. */
+export async function readPlaybackFile(storage: Party.Storage, meta: RecordingMeta): Promise<PlaybackFile> {
+  const chunks = await Promise.all(Array.from({ length: meta.chunkCount }, (_, n) => readChunk(storage, meta, n)));
+  return {
+    recordingStart: meta.recordingStart,
+    recordingEnd: meta.recordingEnd,
+    room: meta.room,
+    mode: meta.mode,
+    events: chunks.flat(),
+  };
+}
+
+export async function deleteRecordingChunks(storage: Party.Storage, meta: RecordingMeta): Promise<void> {
+  await Promise.all(Array.from({ length: meta.chunkCount }, (_, n) => storage.delete(chunkKey(meta.id, n))));
+}
+
+/**
+ * Stores an uploaded compact recording (see app/utils/compactRecording.ts) as a finished
+ * one, putting each chunk as soon as it fills so the upload is never held whole.
+ */
+export async function importCompactRecording(storage: Party.Storage, lines: AsyncIterable<string> | Iterable<string>): Promise<RecordingMeta> {
+  let decoder: CompactRecordingDecoder | null = null;
+  let meta: RecordingMeta | null = null;
+  let buffer: RecordedEvent[] = [];
+  const putChunk = async (m: RecordingMeta) => {
+    await storage.put(chunkKey(m.id, m.chunkCount), buffer);
+    m.chunkCount++;
+    buffer = [];
+  };
+  try {
+    for await (const line of lines) {
+      if (line.trim() === '') continue;
+      if (!decoder || !meta) {
+        decoder = new CompactRecordingDecoder(parseCompactHeader(line));
+        const { room, mode, recordingStart, recordingEnd } = decoder.header;
+        meta = { ...newRecordingMeta(room, mode, recordingStart), recordingEnd, active: false };
+        continue;
+      }
+      const event = decoder.decode(line);
+      if (!event) continue;
+      buffer.push(event as RecordedEvent);
+      meta.eventCount++;
+      if (buffer.length === RECORDING_CHUNK_SIZE) await putChunk(meta);
+    }
+    if (!meta) throw new Error('Empty compact recording');
+    if (buffer.length > 0) await putChunk(meta);
+    return meta;
+  } catch (err) {
+    if (meta) await deleteRecordingChunks(storage, meta);
+    throw err;
+  }
+}
+
+/** A stored recording as compact NDJSON, read from storage one chunk at a time. */
+export function compactRecordingBody(storage: Party.Storage, meta: RecordingMeta): ReadableStream<Uint8Array<ArrayBuffer>> {
+  const encoder = new CompactRecordingEncoder({
+    format: COMPACT_RECORDING_FORMAT,
+    version: COMPACT_RECORDING_VERSION,
+    room: meta.room,
+    mode: meta.mode,
+    recordingStart: meta.recordingStart,
+    recordingEnd: meta.recordingEnd,
+    coordScale: COMPACT_COORD_SCALE,
+  });
+  let n = -1;
+  const text = new ReadableStream<string>({
+    async pull(controller) {
+      if (n === -1) {
+        controller.enqueue(encoder.headerLine() + '\n');
+      } else if (n < meta.chunkCount) {
+        const events = await readChunk(storage, meta, n);
+        const lines = events.flatMap(e => encoder.encode(e));
+        if (lines.length > 0) controller.enqueue(lines.join('\n') + '\n');
+      } else {
+        controller.close();
+      }
+      n++;
+    },
+  });
+  return text.pipeThrough(new TextEncoderStream());
+}
@@ -0,0 +1,257 @@
+import type { ClientEvent } from '../types';
+import { MIN_PLAYBACK_SPEED, MAX_PLAYBACK_SPEED } from './playback';
+
+// Limits for incoming client messages. Anything outside them is rejected before dispatch,
+// so a malformed or oversized payload never reaches handlers, plugins, or other clients.
+export const MAX_MESSAGE_LENGTH = 64 * 1024;
+// Map Maker projections carry ~125 bytes per participant, so a big room's outgrows the
+// general cap. The larger cap only applies to admin connections, and these types are
+// recognised from the message prefix (the sender puts `type` first), so nothing else is
+// ever parsed at this size.
+export const MAX_PROJECTION_MESSAGE_LENGTH = 4 * 1024 * 1024;
+const LARGE_MESSAGE_TYPES = new Set(['mapProjectionSet', 'mapProjectionProgress']);
+const TYPE_PREFIX = /^\{"type":"(\w+)"/;
+export const MAX_ID_LENGTH = 128;
+export const MAX_LABEL_LENGTH = 200;
+export const MAX_URL_LENGTH = 2048;
+export const MAX_TARGET_USERS = 1000;
+export const MAX_INVITE_EDGES = 100;
+export const MAX_STROKE_POINTS = 200;
+export const MAX_FLASH_EXTEND_SEC = 600;
+export const MAX_QUEUE_RESERVATION_SEC = 600;
+export const MAX_AGENDA_ITEMS = 50;
+export const MAX_STATEMENT_LENGTH = 500;
+export const MAX_AGENDA_ITEM_SEC = 3600;
+
+export type ValidationResult =
+  | { ok: true; event: ClientEvent }
+  | { ok: false; eventType?: string; reason: string };
+
+type Fields = Record<string, unknown>;
+/** Returns a human-readable reason when the event is invalid, null when it passes. */
+type Validator = (e: Fields) => string | null;
+
+const isObject = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+function str(e: Fields, key: string, max: number): string | null {
+  const v = e[key];
+  if (typeof v !== 'string') return `${key} must be a string`;
+  if (v.length > max) return `${key} exceeds ${max} characters`;
+  return null;
+}
+
+function optStr(e: Fields, key: string, max: number): string | null {
+  return e[key] === undefined ? null : str(e, key, max);
+}
+
+function nullableStr(e: Fields, key: string, max: number): string | null {
+  return e[key] === null ? null : str(e, key, max);
+}
+
+function num(e: Fields, key: string, min = -Infinity, max = Infinity): string | null {
+  const v = e[key];
+  if (!isFiniteNumber(v)) return `${key} must be a finite number`;
+  if (v < min || v > max) return `${key} must be between ${min} and ${max}`;
+  return null;
+}
+
+function int(e: Fields, key: string, min = -Infinity, max = Infinity): string | null {
+  return num(e, key, min, max) ?? (Number.isInteger(e[key]) ? null : `${key} must be an integer`);
+}
+
+function bool(e: Fields, key: string): string | null {
+  return typeof e[key] === 'boolean' ? null : `${key} must be a boolean`;
+}
+
+function oneOf(e: Fields, key: string, values: readonly unknown[]): string | null {
+  return values.includes(e[key]) ? null : `${key} must be one of ${values.join(', ')}`;
+}
+
+/** Canvas coordinates are percentages of the canvas, 0–100 on both axes. */
+function point(v: unknown, key: string): string | null {
+  if (!isObject(v)) return `${key} must be an object`;
+  const err = num(v, 'x', 0, 100) ?? num(v, 'y', 0, 100);
+  return err && `${key}.${err}`;
+}
+
+function cursorPosition(v: unknown): string | null {
+  if (!isObject(v)) return 'position must be an object';
+  return point(v, 'position') ?? num(v, 'timestamp', 0) ?? str(v, 'userId', MAX_ID_LENGTH);
+}
+
+function idList(v: unknown, key: string, max: number): string | null {
+  if (!Array.isArray(v)) return `${key} must be an array`;
+  if (v.length > max) return `${key} exceeds ${max} entries`;
+  return v.every(id => typeof id === 'string' && id.length <= MAX_ID_LENGTH) ? null : `${key} must contain user ids`;
+}
+
+const REGIONS = ['positive', 'negative', 'neutral'] as const;
+
+/** Shared by pushInterface, pushHaptic and triggerActivity. */
+function target(e: Fields): string | null {
+  return optStr(e, 'targetUserId', MAX_ID_LENGTH)
+    ?? (e.targetRegion == null ? null : oneOf(e, 'targetRegion', REGIONS))
+    ?? (e.targetUserIds === undefined ? null : idList(e.targetUserIds, 'targetUserIds', MAX_TARGET_USERS))
+    ?? (e.targetGroup === undefined ? null : int(e, 'targetGroup', 0, MAX_TARGET_USERS));
+}
+
+function labels(v: unknown): string | null {
+  if (v === null) return null;
+  if (!isObject(v)) return 'labels must be an object or null';
+  return str(v, 'positive', MAX_LABEL_LENGTH) ?? str(v, 'negative', MAX_LABEL_LENGTH) ?? str(v, 'neutral', MAX_LABEL_LENGTH);
+}
+
+function anchors(v: unknown): string | null {
+  if (v === null) return null;
+  if (!isObject(v)) return 'anchors must be an object or null';
+  return point(v.positive, 'anchors.positive') ?? point(v.negative, 'anchors.negative') ?? point(v.neutral, 'anchors.neutral');
+}
+
+function agendaItem(v: unknown, i: number): string | null {
+  if (!isObject(v)) return `items[${i}] must be an object`;
+  const err = str(v, 'id', MAX_ID_LENGTH) ?? str(v, 'statement', MAX_STATEMENT_LENGTH)
+    ?? (v.labels === undefined ? null : labels(v.labels))
+    ?? (v.anchors === undefined ? null : anchors(v.anchors))
+    ?? (v.durationSec == null ? null : num(v, 'durationSec', 1, MAX_AGENDA_ITEM_SEC));
+  return err && `items[${i}].${err}`;
+}
+
+function agendaItems(v: unknown): string | null {
+  if (!Array.isArray(v)) return 'items must be an array';
+  if (v.length > MAX_AGENDA_ITEMS) return `items exceeds ${MAX_AGENDA_ITEMS} entries`;
+  for (let i = 0; i < v.length; i++) {
+    const err = agendaItem(v[i], i);
+    if (err) return err;
+  }
+  return null;
+}
+
+const cursor: Validator = e => cursorPosition(e.position);
+
+const CLIENT_EVENT_VALIDATORS: Record<ClientEvent['type'], Validator> = {
+  move:   cursor,
+  touch:  cursor,
+  remove: cursor,
+  setTimecode:        e => num(e, 'timecode', 0),
+  setRecordingState:  e => bool(e, 'recording') ?? (e.mode === undefined ? null : oneOf(e, 'mode', ['positions', 'transitions'])),
+  setRoomLabels:      e => labels(e.labels),
+  setRoomAnchors:     e => anchors(e.anchors),
+  setRoomAvatarStyle: e => nullableStr(e, 'avatarStyle', MAX_ID_LENGTH),
+  setScreenPanel:     e => str(e, 'screenPanel', MAX_ID_LENGTH) ?? optStr(e, 'screenName', MAX_ID_LENGTH),
+  setImageUrl:        e => str(e, 'url', MAX_URL_LENGTH),
+  setNowLabel:        e => str(e, 'label', MAX_LABEL_LENGTH),
+  startFlashTimer:    e => num(e, 'endTimestamp', 0) ?? str(e, 'label', MAX_LABEL_LENGTH),
+  cancelFlashTimer:   () => null,
+  extendFlashTimer:   e => num(e, 'seconds', 1, MAX_FLASH_EXTEND_SEC),
+  setUserCap:         e => (e.cap === null ? null : num(e, 'cap', 0)),
+  requestJoin:        () => null,
+  setQueueReservation: e => (e.seconds === null ? null : int(e, 'seconds', 1, MAX_QUEUE_RESERVATION_SEC)),
+  moveQueuedViewer:   e => str(e, 'userId', MAX_ID_LENGTH) ?? int(e, 'index', 0),
+  promoteQueuedViewer: e => str(e, 'userId', MAX_ID_LENGTH),
+  evictQueuedViewer:  e => str(e, 'userId', MAX_ID_LENGTH),
+  getState:           () => null,
+  resume:             e => str(e, 'epoch', MAX_ID_LENGTH) ?? int(e, 'lastSeq', 0),
+  loadPlayback:       e => str(e, 'recordingId', MAX_ID_LENGTH),
+  playbackControl: e => {
+    const err = oneOf(e, 'action', ['play', 'pause', 'stop', 'seek', 'setSpeed', 'setLoop']);
+    if (err) return err;
+    if (e.action === 'seek') return num(e, 'positionMs', 0);
+    if (e.action === 'setSpeed') return num(e, 'speed', MIN_PLAYBACK_SPEED, MAX_PLAYBACK_SPEED);
+    if (e.action === 'setLoop') return bool(e, 'loop');
+    return null;
+  },
+  triggerActivity:    e => oneOf(e, 'activityName', ['githubUsername', 'feedbackStars']) ?? target(e),
+  submitGithubUsername: e =>
+    str(e, 'username', MAX_ID_LENGTH) ?? nullableStr(e, 'displayName', MAX_LABEL_LENGTH)
+    ?? nullableStr(e, 'avatarUrl', MAX_URL_LENGTH) ?? num(e, 'timestamp', 0),
+  submitFeedbackStars: e => str(e, 'userId', MAX_ID_LENGTH) ?? num(e, 'stars', 0, 5) ?? num(e, 'timestamp', 0),
+  pushInterface: e =>
+    str(e, 'interfaceName', MAX_ID_LENGTH) ?? target(e)
+    ?? (e.payload === undefined || isObject(e.payload) ? null : 'payload must be an object'),
+  acceptInterface:       e => str(e, 'interfaceName', MAX_ID_LENGTH),
+  clearPushedInterfaces: () => null,
+  pushHaptic:            target,
+  recordInvitations: e => {
+    if (!Array.isArray(e.edges)) return 'edges must be an array';
+    if (e.edges.length > MAX_INVITE_EDGES) return `edges exceeds ${MAX_INVITE_EDGES} entries`;
+    return e.edges.every(edge => Array.isArray(edge) && edge.length === 2 && idList(edge, 'edge', 2) === null)
+      ? null : 'edges must be [from, to] user id pairs';
+  },
+  registerCustomAvatar:  e => str(e, 'userId', MAX_ID_LENGTH) ?? str(e, 'photoUrl', MAX_URL_LENGTH),
+  setColorCursorsByVote: e => bool(e, 'enabled'),
+  setDefaultCursorColor: e => str(e, 'color', MAX_ID_LENGTH),
+  setOwnValenceDisplay:  e => oneOf(e, 'mode', ['background', 'labels', 'none']),
+  setValenceInputMode:   e => oneOf(e, 'mode', ['touch', 'orientation-horizontal', 'orientation-vertical', 'orientation-rotation']),
+  setReactionStorage:    e => oneOf(e, 'store', [null, 'supabase', 'partykit']) ?? bool(e, 'protected'),
+  setCursorMode:         e => oneOf(e, 'mode', ['individual', 'density', 'auto']) ?? int(e, 'threshold', 1),
+  snapMoment:            e => optStr(e, 'label', MAX_LABEL_LENGTH),
+  renameMoment:          e => str(e, 'id', MAX_ID_LENGTH) ?? str(e, 'label', MAX_LABEL_LENGTH),
+  deleteMoment:          e => str(e, 'id', MAX_ID_LENGTH),
+  clearMoments:          () => null,
+  setAgenda:             e => agendaItems(e.items),
+  advanceAgenda:         e => oneOf(e, 'direction', ['next', 'previous']),
+  setAgendaAutoAdvance:  e => bool(e, 'autoAdvance'),
+
+  resetSoccerScore: () => null,
+  setSocialConfig: e => {
+    if (e.config === null) return null;
+    if (!isObject(e.config)) return 'config must be an object or null';
+    const c = e.config;
+    return str(c, 'default', MAX_URL_LENGTH) ?? str(c, 'twitter', MAX_URL_LENGTH)
+      ?? str(c, 'bluesky', MAX_URL_LENGTH) ?? str(c, 'mastodon', MAX_URL_LENGTH);
+  },
+  setGreeterConfig: e => {
+    if (e.config === null) return null;
+    return isObject(e.config) ? str(e.config, 'eventUrl', MAX_URL_LENGTH) : 'config must be an object or null';
+  },
+  strokeSegment: e => {
+    const err = str(e, 'userId', MAX_ID_LENGTH) ?? str(e, 'strokeId', MAX_ID_LENGTH) ?? bool(e, 'isFinal');
+    if (err) return err;
+    if (!Array.isArray(e.points)) return 'points must be an array';
+    if (e.points.length > MAX_STROKE_POINTS) return `points exceeds ${MAX_STROKE_POINTS} entries`;
+    // Strokes may leave the signature box under pointer capture, so only finiteness is checked.
+    return e.points.every(p => isObject(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y))
+      ? null : 'points must be {x, y} numbers';
+  },
+  clearSignature:       e => str(e, 'userId', MAX_ID_LENGTH),
+  setArrivalCapacity:   e => num(e, 'capacity', 0),
+  neighborEdge:         e => str(e, 'from', MAX_ID_LENGTH) ?? str(e, 'toCode', MAX_ID_LENGTH),
+  requestNeighborEdges: () => null,
+  clearNeighborEdges:   () => null,
+  setLightColor:        e => str(e, 'color', MAX_ID_LENGTH) ?? num(e, 'brightness', 0, 100),
+};
+
+/**
+ * Parses and checks a raw WebSocket message. Event types declared in `ClientEvent` are
+ * checked field by field; any other type (plugin-private messages) only has to be a
+ * well-formed object with a string `type`. `isAdmin` is whether the sending connection
+ * holds the admin token; only then may a projection exceed the general size cap.
+ */
+export function validateClientEvent(message: string, isAdmin = false): ValidationResult {
+  const maxLength = isAdmin && message.length > MAX_MESSAGE_LENGTH && LARGE_MESSAGE_TYPES.has(TYPE_PREFIX.exec(message)?.[1] ?? '')
+    ? MAX_PROJECTION_MESSAGE_LENGTH : MAX_MESSAGE_LENGTH;
+  if (message.length > maxLength) return { ok: false, reason: `message exceeds ${maxLength} characters` };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message);
+  } catch {
+    return { ok: false, reason: 'message is not valid JSON' };
+  }
+  if (!isObject(parsed) || typeof parsed.type !== 'string') return { ok: false, reason: 'message must be an object with a string type' };
+  const eventType = parsed.type;
+  // A repeated "type" key parses to its last value, so the prefix alone doesn't vouch for it.
+  if (message.length > MAX_MESSAGE_LENGTH && !LARGE_MESSAGE_TYPES.has(eventType)) {
+    return { ok: false, eventType, reason: `message exceeds ${MAX_MESSAGE_LENGTH} characters` };
+  }
+  // `seq` marks messages the server sequenced (party/lib/messageLog.ts); a client message
+  // relayed to others must not be able to pose as one.
+  if (Object.prototype.hasOwnProperty.call(parsed, 'seq')) return { ok: false, eventType, reason: 'seq is reserved for the server' };
+  // Own keys only: a type like "constructor" or "__proto__" must not resolve to an inherited member.
+  const validator = Object.prototype.hasOwnProperty.call(CLIENT_EVENT_VALIDATORS, eventType)
+    ? (CLIENT_EVENT_VALIDATORS as Record<string, Validator>)[eventType]
+    : undefined;
+  const reason = validator?.(parsed) ?? null;
+  if (reason) return { ok: false, eventType, reason };
+  return { ok: true, event: parsed as unknown as ClientEvent };
+}
@@ -0,0 +1,46 @@
+import type { QueuedViewer } from '../../app/types';
+
+// Viewers who asked to join a full room, first come first served. The server promotes the
+// head whenever a participant slot frees up; the emcee can reorder, promote or evict.
+// Keyed by userId, like the cap itself: a user with two tabs waits once.
+export class WaitingQueue {
+  private entries: QueuedViewer[] = [];
+
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /** 1-based place in line, or null when not queued. */
+  position(userId: string): number | null {
+    const i = this.entries.findIndex(e => e.userId === userId);
+    return i === -1 ? null : i + 1;
+  }
+
+  /** Joins the back of the line; a user already queued keeps their place. */
+  enqueue(userId: string, now: number): number {
+    return this.position(userId) ?? this.entries.push({ userId, since: now });
+  }
+
+  remove(userId: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(e => e.userId !== userId);
+    return this.entries.length !== before;
+  }
+
+  /** Moves a queued user to `index` (0-based, clamped); false when they aren't queued. */
+  move(userId: string, index: number): boolean {
+    const i = this.entries.findIndex(e => e.userId === userId);
+    if (i === -1) return false;
+    const [entry] = this.entries.splice(i, 1);
+    this.entries.splice(Math.max(0, Math.min(index, this.entries.length)), 0, entry);
+    return true;
+  }
+
+  shift(): string | undefined {
+    return this.entries.shift()?.userId;
+  }
+
+  list(): QueuedViewer[] {
+    return [...this.entries];
+  }
+}
@@ -1,4 +1,10 @@
 import type * as Party from "partykit/server";
+import { CursorIdRegistry, encodeCursorFrame, CURSOR_FORMAT_PARAM } from "../app/utils/cursorWire";
+import { CURSOR_THROTTLE_MS } from "../app/utils/cursor";
+import { recommendCursorPacing } from "../app/utils/cursorThrottle";
+import type { CursorPacing } from "../app/utils/cursorThrottle";
+
+const BATCH_MS = 50;
 
 interface CursorPosition {
   x: number;
@@ -17,6 +23,8 @@ interface CursorEvent {
  *
  * Handles only cursor move/touch/remove events and presence count.
  * No statement queue, no admin, no ghost cursors, no Polis proxy.
+ * Speaks both cursor wire formats (?cursorFormat=binary, see app/utils/cursorWire.ts)
+ * so load tests can compare them, and recommends cursor pacing like the main server.
  * Accessible at: /parties/perf/{roomName}
  */
 export default class PerfServer implements Party.Server {
@@ -25,26 +33,40 @@ export default class PerfServer implements Party.Server {
   private cursorPositions = new Map<string, CursorPosition>();
   private connectionUserMap = new Map<string, string>();
   private pendingCursorUpdates = new Map<string, CursorEvent>();
+  private binaryConnectionIds = new Set<string>();
+  private cursorIds = new CursorIdRegistry();
   private batchTimer: ReturnType<typeof setTimeout> | null = null;
+  private pacing: CursorPacing = { throttleMs: CURSOR_THROTTLE_MS, batchMs: BATCH_MS };
+  private rate = { windowStart: 0, count: 0, perSec: 0 };
 
   onConnect(conn: Party.Connection, ctx: Party.ConnectionContext) {
-    const userId = new URL(ctx.request.url).searchParams.get("userId") ?? conn.id;
+    const params = new URL(ctx.request.url).searchParams;
+    const userId = params.get("userId") ?? conn.id;
     this.connectionUserMap.set(conn.id, userId);
+    const binary = params.get(CURSOR_FORMAT_PARAM) === "binary";
+    if (binary) this.binaryConnectionIds.add(conn.id);
 
     const count = [...this.room.getConnections()].length;
-    conn.send(JSON.stringify({ type: "connected", userId, presenceCount: count }));
+    conn.send(JSON.stringify({
+      type: "connected", userId, presenceCount: count,
+      cursorPacing: this.pacing,
+      ...(binary ? { cursorIds: this.cursorIds.entries() } : {}),
+    }));
     this.room.broadcast(
       JSON.stringify({ type: "presenceCount", count }),
       [conn.id],
     );
+    this.updatePacing(count, Date.now());
   }
 
   onClose(conn: Party.Connection) {
     const userId = this.connectionUserMap.get(conn.id);
     this.connectionUserMap.delete(conn.id);
+    this.binaryConnectionIds.delete(conn.id);
 
     if (userId) {
       this.cursorPositions.delete(userId);
+      this.cursorIds.release(userId);
       this.room.broadcast(
         JSON.stringify({
           type: "remove",
@@ -55,6 +77,7 @@ export default class PerfServer implements Party.Server {
 
     const count = [...this.room.getConnections()].length - 1;
     this.room.broadcast(JSON.stringify({ type: "presenceCount", count }));
+    this.updatePacing(count, Date.now());
   }
 
   private flushCursorBatch() {
@@ -62,7 +85,33 @@ export default class PerfServer implements Party.Server {
     const cursors = [...this.pendingCursorUpdates.values()];
     this.pendingCursorUpdates.clear();
     this.batchTimer = null;
-    this.room.broadcast(JSON.stringify({ type: "cursorBatch", cursors }));
+    const json = JSON.stringify({ type: "cursorBatch", cursors });
+    if (this.binaryConnectionIds.size === 0) {
+      this.room.broadcast(json);
+      return;
+    }
+    const jsonIds = [...this.room.getConnections()].map(c => c.id).filter(id => !this.binaryConnectionIds.has(id));
+    this.room.broadcast(json, [...this.binaryConnectionIds]);
+    const announcement = this.cursorIds.assign(cursors.map(c => c.position.userId));
+    if (announcement) this.room.broadcast(JSON.stringify(announcement), jsonIds);
+    this.room.broadcast(encodeCursorFrame(cursors, id => this.cursorIds.get(id)), jsonIds);
+    for (const c of cursors) if (c.type === "remove") this.cursorIds.release(c.position.userId);
+  }
+
+  private updatePacing(count: number, now: number) {
+    const inboundPerSec = now - this.rate.windowStart > 2000 ? 0 : this.rate.perSec;
+    const next = recommendCursorPacing(count, inboundPerSec, this.pacing, BATCH_MS);
+    if (next === this.pacing) return;
+    this.pacing = next;
+    this.room.broadcast(JSON.stringify({ type: "cursorPacingChanged", pacing: next }));
+  }
+
+  private measureRate(now: number) {
+    this.rate.count++;
+    const elapsed = now - this.rate.windowStart;
+    if (elapsed < 1000) return;
+    this.rate = { windowStart: now, count: 0, perSec: (this.rate.count * 1000) / elapsed };
+    this.updatePacing([...this.room.getConnections()].length, now);
   }
 
   onMessage(message: string, sender: Party.Connection) {
@@ -73,9 +122,10 @@ export default class PerfServer implements Party.Server {
       } else if (event.type === "remove") {
         this.cursorPositions.delete(event.position.userId);
       }
+      this.measureRate(Date.now());
       this.pendingCursorUpdates.set(event.position.userId, event);
       if (!this.batchTimer) {
-        this.batchTimer = setTimeout(() => this.flushCursorBatch(), 50);
+        this.batchTimer = setTimeout(() => this.flushCursorBatch(), this.pacing.batchMs);
       }
     } catch {
       // ignore malformed messages
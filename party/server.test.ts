@@ -7,7 +7,7 @@ function makeConn(id: string): Party.Connection {
 }
 
 function makeCtx(url: string): Party.ConnectionContext {
-  return { request: { url } as unknown as Request } as unknown as Party.ConnectionContext;
+  return { request: { url, headers: new Headers() } as unknown as Request } as unknown as Party.ConnectionContext;
 }
 
 function makeRoom(connections: Party.Connection[]): Party.Room {
@@ -15,8 +15,8 @@ function makeRoom(connections: Party.Connection[]): Party.Room {
     id: 'test-room',
     getConnections: () => connections as unknown as IterableIterator<Party.Connection>,
     broadcast: vi.fn(),
-    storage: { get: vi.fn().mockResolvedValue(undefined), put: vi.fn().mockResolvedValue(undefined), delete: vi.fn(), list: vi.fn() } as never,
-    env: { DISABLE_STORAGE_PERSISTENCE: 'true', DEBUG: 'false' },
+    storage: { get: vi.fn().mockResolvedValue(undefined), put: vi.fn().mockResolvedValue(undefined), delete: vi.fn().mockResolvedValue(undefined), list: vi.fn() } as never,
+    env: { DISABLE_STORAGE_PERSISTENCE: 'true', DEBUG: 'false', ADMIN_SECRET: 'test-admin-secret' },
     name: 'test-room',
     parties: {} as never,
     context: {} as never,
@@ -41,7 +41,7 @@ function connectParticipant(server: Server, conn: Party.Connection, userId: stri
 
 // Establish an admin (emcee) connection on the server.
 function connectAdmin(server: Server, conn: Party.Connection, userId: string) {
-  server.onConnect(conn, makeCtx(`https://localhost/?userId=${userId}&isAdmin=true`));
+  server.onConnect(conn, makeCtx(`https://localhost/?userId=${userId}&isAdmin=true&adminToken=test-admin-secret`));
 }
 
 describe('pushInterface routing', () => {
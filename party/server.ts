@@ -1,30 +1,78 @@
 import type * as Party from "partykit/server";
 import { computeReactionRegion, DEFAULT_ANCHORS as REACTION_DEFAULT_ANCHORS } from './lib/reactionRegion';
 import type { ReactionAnchors } from './lib/reactionRegion';
-import { SERVER_CURSOR_BATCH_MS } from '../app/utils/cursor';
+import { mintAdminSecret, adminTokenMatches } from './lib/adminAuth';
+import type { AdminAuthRecord } from './lib/adminAuth';
+import { SERVER_CURSOR_BATCH_MS, CURSOR_THROTTLE_MS } from '../app/utils/cursor';
+import { recommendCursorPacing } from '../app/utils/cursorThrottle';
+import type { CursorPacing } from '../app/utils/cursorThrottle';
+import { CursorIdRegistry, encodeCursorFrame, CURSOR_FORMAT_PARAM } from '../app/utils/cursorWire';
 import { buildFlashTimerStarted } from '../app/utils/flashTimer';
+import type { FlashTimerFiredMessage, FlashTimerCancelledMessage } from '../app/utils/flashTimer';
+import { compactLinesOf } from '../app/utils/compactRecording';
 import { PLUGIN_MAP } from '../plugins/index';
 import { SCREEN_NAMES, LIFECYCLE_SCREEN } from '../app/screens';
 import type { PluginContext, PluginConnection } from '../plugins/types';
+import type { AgendaState, CursorDensity, CursorMode, CursorModeConfig, MomentSnapshot, ReactionEventPage, ReactionStorageConfig, ReactionStoreKind, RecordingMeta, WaitingQueueState } from '../app/types';
 import { getSoccerBallState, getSoccerScore } from '../plugins/soccer/server';
+import { getMapGroupUserIds } from '../plugins/map/server';
+import type { MapPluginState } from '../plugins/map/types';
+import { CLIENT_EVENT_PERMISSIONS, PERSISTED_STATE_VERSION } from './types';
+import { migratePersistedState } from './lib/persistedState';
+import { MessageLog } from './lib/messageLog';
+import { WaitingQueue } from './lib/waitingQueue';
+import { IdleTracker, idleTimeoutFromEnv, IDLE_SWEEP_MS } from './lib/idleTracker';
+import { aggregateCursorDensity, isDensityActive, DEFAULT_DENSITY_THRESHOLD, DENSITY_TICK_MS } from './lib/cursorDensity';
+import { snapshotRegions, mergeImportedMoments, isMomentSnapshot } from './lib/moments';
+import { SessionRecorder, newRecordingMeta, recordingSource, deleteRecordingChunks, importCompactRecording, compactRecordingBody } from './lib/recordings';
+import { PlaybackEngine, PLAYBACK_TICK_MS } from './lib/playback';
+import { ReactionEventStore, isNewReactionEvent, reactionRowLimitFromEnv, LEGACY_PROTECTED_ROOMS, MAX_REACTIONS_PER_POST, REACTION_READ_WINDOW_SEC } from './lib/reactionEvents';
+import { emptyAgenda, currentAgendaItem, goToAgendaItem, stepAgenda, replaceAgendaItems } from './lib/agenda';
+import { validateClientEvent, MAX_LABEL_LENGTH } from './lib/validateClientEvent';
+import { ConnectionRateLimiter, messageCategory, rateLimitConfigFromEnv } from './lib/rateLimit';
+import type { RateCategory, RateLimitConfig } from './lib/rateLimit';
 import type {
-  CursorEvent, PersistedState, ClientEvent,
-  PlaybackCursorBroadcastEvent,
+  CursorEvent, PersistedState, PersistedRoomConfig, ClientEvent, ServerErrorMessage, EventPermission,
+  LoadPlaybackEvent, PlaybackControlEvent,
   SetTimecodeEvent, SetRecordingStateEvent, SetRoomLabelsEvent, SetRoomAnchorsEvent,
-  SetRoomAvatarStyleEvent, SetScreenPanelEvent, SetNowLabelEvent, StartFlashTimerEvent, SetImageUrlEvent,
+  SetRoomAvatarStyleEvent, SetScreenPanelEvent, SetNowLabelEvent, StartFlashTimerEvent, ExtendFlashTimerEvent, SetImageUrlEvent,
   SetUserCapEvent, TriggerActivityEvent, SubmitGithubUsernameEvent, SubmitFeedbackStarsEvent,
   SetSocialConfigEvent, SetGreeterConfigEvent, PushInterfaceEvent, AcceptInterfaceEvent,
   PushHapticEvent, RegisterCustomAvatarEvent, SetColorCursorsByVoteEvent,
-  SetDefaultCursorColorEvent, SetOwnValenceDisplayEvent, SetValenceInputModeEvent,
-  RecordInvitationsEvent,
-  SetArrivalCapacityEvent,
+  SetDefaultCursorColorEvent, SetOwnValenceDisplayEvent, SetValenceInputModeEvent, SetReactionStorageEvent, SetCursorModeEvent,
+  RecordInvitationsEvent, SnapMomentEvent, RenameMomentEvent, DeleteMomentEvent,
+  SetAgendaEvent, AdvanceAgendaEvent, SetAgendaAutoAdvanceEvent,
+  SetArrivalCapacityEvent, ResumeEvent,
+  SetQueueReservationEvent, MoveQueuedViewerEvent, PromoteQueuedViewerEvent, EvictQueuedViewerEvent,
 } from './types';
 
+// How often admins get a position update while a recording is replaying.
+const PLAYBACK_STATE_INTERVAL_MS = 500;
+// Inbound cursor traffic is measured over windows this long to pace senders.
+const CURSOR_RATE_WINDOW_MS = 1000;
+// State changes any participant can make are saved at most this often.
+const PERSIST_COALESCE_MS = 2000;
+// Client addresses with a `POST /reactions` bucket; past this the oldest is forgotten.
+const MAX_REACTION_POST_LIMITERS = 10_000;
+
+// The visitor's IP as Cloudflare reports it; local dev has none.
+function clientAddress(request: Party.Request): string {
+  return request.headers.get("cf-connecting-ip") ?? "unknown";
+}
+
 export default class Server implements Party.Server {
   private connectionUserMap = new Map<string, string>(); // connectionId -> userId
-  private adminConnectionIds = new Set<string>();
+  private adminConnectionIds = new Set<string>(); // ?isAdmin=true with a valid ?adminToken= — excluded from presence and the cap
+  private authorizedConnectionIds = new Set<string>(); // presented a valid ?adminToken=
+  private rejectCounts = new Map<string, number>(); // connId → messages refused by validation
+  private rateLimiters = new Map<string, ConnectionRateLimiter>(); // unauthorized connections only
+  private rateLimitConfig?: RateLimitConfig;
+  private adminAuth: AdminAuthRecord = { secret: mintAdminSecret(), claimed: false };
   private viewerConnectionIds = new Set<string>();
   private userCap: number | null = null;
+  private waitingQueue = new WaitingQueue(); // viewers who asked to join a full room
+  private queueReservationSec: number | null = null;
+  private reservations = new Map<string, ReturnType<typeof setTimeout>>(); // userId → expiry, promoted but not heard from yet
   private savedTimecode: number = 0;
   private recordingState: boolean = false;
   private roomLabels: { positive: string; negative: string; neutral: string } | null = { positive: 'Agree', negative: 'Disagree', neutral: 'Pass' };
@@ -38,13 +86,41 @@ export default class Server implements Party.Server {
   private githubSubmissions: { username: string; displayName: string | null; avatarUrl: string | null; timestamp: number }[] = [];
   private cursorPositions = new Map<string, { x: number; y: number }>();
   private pendingCursorUpdates = new Map<string, CursorEvent>();
+  private binaryCursorConnectionIds = new Set<string>(); // ?cursorFormat=binary — get cursor frames, not JSON
+  private cursorIds = new CursorIdRegistry(); // userId → short id used in binary cursor frames
   private batchTimer: ReturnType<typeof setTimeout> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private cursorPacing: CursorPacing | null = null; // null until room size or traffic calls for a change
+  private cursorRate = { windowStart: 0, count: 0, perSec: 0 }; // inbound cursor messages
+  private cursorMode: CursorMode = 'individual';
+  private densityThreshold = DEFAULT_DENSITY_THRESHOLD;
+  private densityActive = false; // broadcasting cursorDensity instead of cursorBatch
+  private densityTimer: ReturnType<typeof setInterval> | null = null;
+  private lastDensity: string | null = null; // last cursorDensity sent, to skip unchanged ticks
+  private idle: IdleTracker; // lastSeen per user; silent ones go idle and lose their cursor
+  private idleSweepTimer: ReturnType<typeof setInterval> | null = null;
+  private messageLog = new MessageLog(); // transient messages, replayed to clients that reconnect
   private inviteEdges = new Map<string, string>(); // inviteeId -> inviterId
   private customAvatars = new Map<string, string>(); // userId -> photoUrl
+  private moments: MomentSnapshot[] = []; // newest first
+  private seenUserIds = new Set<string>(); // every participant who has joined; the rows of each moment
+  private flashTimer: { endTimestamp: number; label: string } | null = null; // pending snap, fired by the room alarm
+  private agenda: AgendaState = emptyAgenda();
+  private recordings: RecordingMeta[] = []; // newest first
+  private recorder: SessionRecorder | null = null;
+  private playback: PlaybackEngine | null = null;
+  private playbackTimer: ReturnType<typeof setInterval> | null = null;
+  private playbackStateSentAt = 0;
   private colorCursorsByVote: boolean = false;
   private defaultCursorColor: string = '#d4d4d4';
   private ownValenceDisplay: 'background' | 'labels' | 'none' = 'labels';
   private valenceInputMode: 'touch' | 'orientation-horizontal' | 'orientation-vertical' | 'orientation-rotation' = 'touch';
+  private reactionStore: ReactionStoreKind | null = null;
+  private reactionsProtected: boolean | null = null;
+  private reactionEvents: ReactionEventStore; // V5 reactions for rooms that don't use Supabase
+  private reactionPostLimiters = new Map<string, ConnectionRateLimiter>(); // client address → rows posted to /reactions
+  private connectionAddresses = new Map<string, string>(); // connId → client address
+  private addressConnectionCounts = new Map<string, number>(); // client address → live connections
   private roomHost: string | null = null;
   private readonly BAT_SIGNAL_FIBONACCI = [3, 5, 8, 13, 21, 34, 55, 89, 144, 233];
   private maxParticipantCount = 0;
@@ -54,8 +130,14 @@ private pluginStates = new Map<string, unknown>(
       .filter(([, p]) => p.server)
       .map(([id, p]) => [id, p.server!.createState()]),
   );
+  private pluginAdminMessageTypes = new Set(
+    Object.values(PLUGIN_MAP).flatMap(p => p.server?.adminMessageTypes ?? []),
+  );
 
-  constructor(readonly room: Party.Room) {}
+  constructor(readonly room: Party.Room) {
+    this.reactionEvents = new ReactionEventStore(room.storage);
+    this.idle = new IdleTracker(idleTimeoutFromEnv(room.env));
+  }
 
   private makePluginContext(): PluginContext {
     return {
@@ -69,7 +151,12 @@ private pluginStates = new Map<string, unknown>(
   }
 
   private makePluginConn(conn: Party.Connection): PluginConnection {
-    return { id: conn.id, userId: this.connectionUserMap.get(conn.id) ?? conn.id, send: (msg) => conn.send(msg) };
+    return {
+      id: conn.id,
+      userId: this.connectionUserMap.get(conn.id) ?? conn.id,
+      isAdmin: this.isAuthorized(conn.id),
+      send: (msg) => conn.send(msg),
+    };
   }
 
   private get persistenceEnabled(): boolean {
@@ -77,9 +164,83 @@ private pluginStates = new Map<string, unknown>(
   }
 
   async onStart() {
+    // Recordings are session output rather than restorable room state, so they stay in
+    // storage even with persistence disabled. One left active was cut off by a restart.
+    const recordings = await this.room.storage.get<RecordingMeta[]>("recordings") ?? [];
+    this.recordings = recordings.map(r => (r.active ? { ...r, active: false } : r));
+    await this.reactionEvents.load();
+    // The admin secret is kept regardless too: re-minting it unclaimed on every restart
+    // would reopen the room to a fresh claim.
+    const auth = await this.room.storage.get<AdminAuthRecord>("adminAuth");
+    if (auth) this.adminAuth = auth;
+    // So is a pending flash timer: the room alarm survives a restart either way, and the
+    // snap it was set for should still happen. The agenda is room state and follows the
+    // flag, so with persistence disabled its auto-advance is dropped along with it.
+    this.flashTimer = await this.room.storage.get<{ endTimestamp: number; label: string }>("flashTimer") ?? null;
+    if (this.persistenceEnabled) {
+      const saved = migratePersistedState(await this.room.storage.get<PersistedState>("state"));
+      if (saved) this.applyPersistedState(saved);
+      await this.loadMoments();
+      this.agenda = { ...emptyAgenda(), ...await this.room.storage.get<AgendaState>("agenda") };
+    }
+    // Re-arm for what was restored, or clear an alarm left for state that wasn't.
+    this.syncAlarm();
+  }
+
+  // The room has a single alarm, shared by the flash timer and the agenda's auto-advance:
+  // it is always set for whichever deadline comes first. Anything due by then fires.
+  async onAlarm() {
+    const due = Math.max(Date.now(), this.nextAlarmAt() ?? 0);
+    if (this.flashTimer && this.flashTimer.endTimestamp <= due) this.fireFlashTimer();
+    const agendaAt = this.agendaAlarmAt();
+    if (agendaAt !== null && agendaAt <= due) this.finishAgendaItem();
+    this.syncAlarm();
+  }
+
+  private agendaAlarmAt(): number | null {
+    return this.agenda.autoAdvance ? this.agenda.itemEndsAt : null;
+  }
+
+  private nextAlarmAt(): number | null {
+    const deadlines = [this.flashTimer?.endTimestamp ?? null, this.agendaAlarmAt()].filter((t): t is number => t !== null);
+    return deadlines.length > 0 ? Math.min(...deadlines) : null;
+  }
+
+  private syncAlarm(): void {
+    const at = this.nextAlarmAt();
+    (at === null ? this.room.storage.deleteAlarm() : this.room.storage.setAlarm(at))
+      .catch(err => console.error('Failed to sync alarm:', err));
+  }
+
+  // Moments live outside "state": each one is stored under its own key so a room with
+  // many participants never hits the per-value storage limit.
+  private async loadMoments(): Promise<void> {
+    const ids = await this.room.storage.get<string[]>("momentIds") ?? [];
+    const loaded = await Promise.all(ids.map(id => this.room.storage.get<MomentSnapshot>(`moment:${id}`)));
+    this.moments = loaded.filter((m): m is MomentSnapshot => m !== undefined);
+    this.seenUserIds = new Set(await this.room.storage.get<string[]>("seenUserIds") ?? []);
+  }
+
+  private async persistMoments(changed: MomentSnapshot[] = [], removedIds: string[] = []): Promise<void> {
     if (!this.persistenceEnabled) return;
-    const saved = await this.room.storage.get<PersistedState>("state");
-    if (saved) this.applyPersistedState(saved);
+    await this.room.storage.put("momentIds", this.moments.map(m => m.id));
+    await Promise.all([
+      ...changed.map(m => this.room.storage.put(`moment:${m.id}`, m)),
+      ...removedIds.map(id => this.room.storage.delete(`moment:${id}`)),
+    ]);
+  }
+
+  private persistMomentsNow(changed: MomentSnapshot[] = [], removedIds: string[] = []): void {
+    this.persistMoments(changed, removedIds).catch(err => console.error('Failed to persist moments:', err));
+  }
+
+  private markSeen(userIds: Iterable<string>): void {
+    const before = this.seenUserIds.size;
+    for (const id of userIds) this.seenUserIds.add(id);
+    if (this.seenUserIds.size !== before && this.persistenceEnabled) {
+      this.room.storage.put("seenUserIds", [...this.seenUserIds])
+        .catch(err => console.error('Failed to persist seen users:', err));
+    }
   }
 
   private getPersistedState(): PersistedState {
@@ -89,10 +250,33 @@ private pluginStates = new Map<string, unknown>(
         pluginStates[id] = plugin.server.getPersistedState(this.pluginStates.get(id));
       }
     }
-    return { pluginStates };
+    return { version: PERSISTED_STATE_VERSION, pluginStates, roomConfig: this.getRoomConfig() };
   }
 
-  private applyPersistedState(saved: Partial<PersistedState>): void {
+  private getRoomConfig(): PersistedRoomConfig {
+    return {
+      roomLabels: this.roomLabels,
+      roomAnchors: this.roomAnchors,
+      roomAvatarStyle: this.roomAvatarStyle,
+      screenPanelsByName: this.screenPanelsByName,
+      userCap: this.userCap,
+      nowLabel: this.nowLabel,
+      roomImageUrl: this.roomImageUrl,
+      inviteEdges: Object.fromEntries(this.inviteEdges),
+      customAvatars: Object.fromEntries(this.customAvatars),
+      colorCursorsByVote: this.colorCursorsByVote,
+      defaultCursorColor: this.defaultCursorColor,
+      ownValenceDisplay: this.ownValenceDisplay,
+      valenceInputMode: this.valenceInputMode,
+      reactionStore: this.reactionStore,
+      reactionsProtected: this.reactionsProtected,
+      cursorMode: this.cursorMode,
+      densityThreshold: this.densityThreshold,
+      queueReservationSec: this.queueReservationSec,
+    };
+  }
+
+  private applyPersistedState(saved: PersistedState): void {
     if (saved.pluginStates) {
       for (const [id, plugin] of Object.entries(PLUGIN_MAP)) {
         if (plugin.server?.applyPersistedState && saved.pluginStates[id] !== undefined) {
@@ -100,6 +284,34 @@ private pluginStates = new Map<string, unknown>(
         }
       }
     }
+    if (saved.roomConfig) this.applyRoomConfig(saved.roomConfig);
+  }
+
+  private applyRoomConfig(config: PersistedRoomConfig): void {
+    this.roomLabels = config.roomLabels;
+    this.roomAnchors = config.roomAnchors;
+    this.roomAvatarStyle = config.roomAvatarStyle;
+    // Merge so screens added since the save still get a default panel
+    this.screenPanelsByName = { ...this.screenPanelsByName, ...config.screenPanelsByName };
+    this.userCap = config.userCap;
+    this.nowLabel = config.nowLabel;
+    this.roomImageUrl = config.roomImageUrl;
+    this.inviteEdges = new Map(Object.entries(config.inviteEdges));
+    this.customAvatars = new Map(Object.entries(config.customAvatars));
+    this.colorCursorsByVote = config.colorCursorsByVote;
+    this.defaultCursorColor = config.defaultCursorColor;
+    this.ownValenceDisplay = config.ownValenceDisplay;
+    this.valenceInputMode = config.valenceInputMode;
+    this.reactionStore = config.reactionStore;
+    this.reactionsProtected = config.reactionsProtected;
+    this.cursorMode = config.cursorMode;
+    this.densityThreshold = config.densityThreshold;
+    this.queueReservationSec = config.queueReservationSec;
+
+    // Re-run activation for a restored lifecycle panel (e.g. restart soccer physics)
+    const panel = this.screenPanelsByName[LIFECYCLE_SCREEN];
+    const plugin = panel ? PLUGIN_MAP[panel] : undefined;
+    if (plugin?.server) plugin.server.onActivate(this.makePluginContext(), this.pluginStates.get(panel));
   }
 
   private async persistState(): Promise<void> {
@@ -107,6 +319,116 @@ private pluginStates = new Map<string, unknown>(
     await this.room.storage.put<PersistedState>("state", this.getPersistedState());
   }
 
+  // Fire-and-forget save for handlers that don't wait on storage; a failed put is logged
+  // rather than left as an unhandled rejection.
+  private persistStateNow(): void {
+    this.persistState().catch(err => console.error('Failed to persist state:', err));
+  }
+
+  // Avatar registrations and invitations come from any participant, so a burst of them
+  // is coalesced into one "state" write instead of rewriting the whole blob for each.
+  private schedulePersistState(): void {
+    if (!this.persistenceEnabled || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persistStateNow();
+    }, PERSIST_COALESCE_MS);
+  }
+
+  private async persistAdminAuth(): Promise<void> {
+    await this.room.storage.put<AdminAuthRecord>("adminAuth", this.adminAuth);
+  }
+
+  // The room's own claimed secret, or the deployment-wide ADMIN_SECRET env var as a
+  // recovery key for rooms whose emcee lost their token.
+  private isValidAdminToken(token: string | null): boolean {
+    if (this.adminAuth.claimed && adminTokenMatches(token, this.adminAuth.secret)) return true;
+    return adminTokenMatches(token, this.room.env.ADMIN_SECRET as string | undefined);
+  }
+
+  // Claiming a room's secret needs the deployment's ADMIN_CLAIM_KEY (or the ADMIN_SECRET
+  // recovery key) as a Bearer token, so a stranger opening a fresh room can't take it.
+  private hasClaimKey(request: Party.Request): boolean {
+    const token = request.headers.get("Authorization")?.replace(/^Bearer /, "") ?? null;
+    return adminTokenMatches(token, this.room.env.ADMIN_CLAIM_KEY as string | undefined)
+      || adminTokenMatches(token, this.room.env.ADMIN_SECRET as string | undefined);
+  }
+
+  // HTTP counterpart of ?adminToken=: `Authorization: Bearer <token>`.
+  private hasAdminBearer(request: Party.Request): boolean {
+    const token = request.headers.get("Authorization")?.replace(/^Bearer /, "");
+    return this.isValidAdminToken(token ?? null);
+  }
+
+  private adminTokenRequired(): Response {
+    return new Response(JSON.stringify({ error: "Admin token required" }), {
+      status: 403,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private isAuthorized(connId: string): boolean {
+    return this.authorizedConnectionIds.has(connId);
+  }
+
+  private requiresAdmin(type: string): boolean {
+    return (CLIENT_EVENT_PERMISSIONS as Record<string, EventPermission>)[type] === 'admin'
+      || this.pluginAdminMessageTypes.has(type);
+  }
+
+  private sendError(conn: Party.Connection, error: Omit<ServerErrorMessage, 'type'>): void {
+    conn.send(JSON.stringify({ type: 'error', ...error } satisfies ServerErrorMessage));
+  }
+
+  private rejectInvalid(conn: Party.Connection, eventType: string | undefined, reason: string): void {
+    // Rejects are charged to their own bucket, so bad frames get dropped and disconnected like any flood.
+    if (!this.withinRateLimit(conn, eventType, 'invalid')) return;
+    const count = (this.rejectCounts.get(conn.id) ?? 0) + 1;
+    this.rejectCounts.set(conn.id, count);
+    // Log the first reject and then every 100th so a misbehaving client can't flood the logs.
+    if (count === 1 || count % 100 === 0) {
+      console.log(`[reject] room=${this.room.id} conn=${conn.id} user=${this.connectionUserMap.get(conn.id)} count=${count} ${eventType ?? '?'}: ${reason}`);
+    }
+    this.sendError(conn, { code: 'invalid', eventType, message: reason });
+  }
+
+  /** Returns false when the message should be skipped: over its category's rate, or the connection was closed. */
+  private withinRateLimit(conn: Party.Connection, eventType: string | undefined, category: RateCategory = messageCategory(eventType ?? '')): boolean {
+    const limiter = this.rateLimiters.get(conn.id);
+    if (!limiter) return true;
+    const decision = limiter.take(category);
+    if (decision === 'allow') return true;
+    if (decision === 'disconnect') {
+      console.log(`[rate-limit] room=${this.room.id} conn=${conn.id} user=${this.connectionUserMap.get(conn.id)} disconnected for flooding`);
+      this.sendError(conn, { code: 'rateLimited', eventType, message: 'Too many messages; disconnecting' });
+      conn.close(4008, 'rate limited');
+      return false;
+    }
+    // Over the limit: the message is dropped (for cursors this downsamples the stream).
+    // Tell the client once per streak rather than echoing an error for every message.
+    if (limiter.isFirstStrike) {
+      this.sendError(conn, { code: 'rateLimited', eventType, message: `Sending ${category} messages too fast; some are being dropped` });
+    }
+    return false;
+  }
+
+  // `POST /reactions` has no connection to charge, so each client address gets a bucket,
+  // sized by its live connections: participants sharing a NAT share a fair allowance, and
+  // a flood from one address throttles only that address.
+  private withinReactionRateLimit(address: string, rows: number): boolean {
+    this.rateLimitConfig ??= rateLimitConfigFromEnv(this.room.env);
+    let limiter = this.reactionPostLimiters.get(address);
+    if (!limiter) {
+      if (this.reactionPostLimiters.size >= MAX_REACTION_POST_LIMITERS) {
+        this.reactionPostLimiters.delete(this.reactionPostLimiters.keys().next().value!);
+      }
+      limiter = new ConnectionRateLimiter(this.rateLimitConfig);
+      this.reactionPostLimiters.set(address, limiter);
+    }
+    const connections = Math.max(1, this.addressConnectionCounts.get(address) ?? 0);
+    return limiter.take('reactions', Date.now(), rows, connections) === 'allow';
+  }
+
   private participantCount(): number {
     return new Set(
       [...this.connectionUserMap.entries()]
@@ -119,13 +441,27 @@ private pluginStates = new Map<string, unknown>(
     return this.viewerConnectionIds.size;
   }
 
-  private getTargetConnections(targetUserId?: string, targetRegion?: 'positive' | 'negative' | 'neutral' | null, targetUserIds?: string[]): Party.Connection[] {
+  private idleCount(): number {
+    return this.idle.idleUserIds().filter(userId => this.isUserConnected(userId)).length;
+  }
+
+  private isUserConnected(userId: string): boolean {
+    for (const [connId, uid] of this.connectionUserMap) {
+      if (uid === userId && !this.adminConnectionIds.has(connId)) return true;
+    }
+    return false;
+  }
+
+  private getTargetConnections(targetUserId?: string, targetRegion?: 'positive' | 'negative' | 'neutral' | null, targetUserIds?: string[], targetGroup?: number): Party.Connection[] {
     const anchors = this.roomAnchors ?? REACTION_DEFAULT_ANCHORS;
+    // Group membership is read from the map projection at send time, not when the emcee picked it.
+    const groupUserIds = targetGroup !== undefined ? getMapGroupUserIds(this.pluginStates.get('map-maker') as MapPluginState | undefined, targetGroup) : undefined;
     return [...this.room.getConnections()].filter(conn => {
       const userId = this.connectionUserMap.get(conn.id);
       if (!userId) return false;
       if (targetUserId !== undefined) return userId === targetUserId;
       if (targetUserIds !== undefined) return targetUserIds.includes(userId);
+      if (groupUserIds !== undefined) return groupUserIds.includes(userId);
       const pos = this.cursorPositions.get(userId);
       if (!pos) return targetRegion === null;
       return computeReactionRegion(pos.x, pos.y, anchors) === targetRegion;
@@ -168,19 +504,40 @@ private pluginStates = new Map<string, unknown>(
     );
 
     if (!this.roomHost) this.roomHost = url.host;
-
-    const isAdmin = url.searchParams.get('isAdmin') === 'true';
+    const address = clientAddress(ctx.request);
+    this.connectionAddresses.set(conn.id, address);
+    this.addressConnectionCounts.set(address, (this.addressConnectionCounts.get(address) ?? 0) + 1);
+
+    const isAuthorized = this.isValidAdminToken(url.searchParams.get('adminToken'));
+    // Only the emcee stays out of presence and the cap. A token-less ?isAdmin=true page
+    // (a projector, a read-only panel) still watches, but as a viewer like anyone else.
+    const wantsAdmin = url.searchParams.get('isAdmin') === 'true';
+    const isAdmin = wantsAdmin && isAuthorized;
     if (isAdmin) {
       this.adminConnectionIds.add(conn.id);
     }
+    if (url.searchParams.get(CURSOR_FORMAT_PARAM) === 'binary') {
+      this.binaryCursorConnectionIds.add(conn.id);
+    }
+    if (isAuthorized) {
+      this.authorizedConnectionIds.add(conn.id);
+    } else {
+      // The emcee is trusted: admin playback legitimately sends cursors for many users at once.
+      this.rateLimitConfig ??= rateLimitConfigFromEnv(this.room.env);
+      this.rateLimiters.set(conn.id, new ConnectionRateLimiter(this.rateLimitConfig));
+    }
 
     const prevCount = this.participantCount();
 
     // Determine viewer status before adding to connectionUserMap
-    const isViewer = !isAdmin && this.userCap !== null && prevCount >= this.userCap;
+    const isViewer = !isAdmin && (wantsAdmin || (this.userCap !== null && prevCount >= this.userCap));
 
     const userId = url.searchParams.get('userId') ?? conn.id;
     this.connectionUserMap.set(conn.id, userId);
+    if (!isAdmin) {
+      this.markSeen([userId]);
+      this.noteActivity(userId, Date.now());
+    }
     if (isViewer) {
       this.viewerConnectionIds.add(conn.id);
     }
@@ -200,12 +557,15 @@ private pluginStates = new Map<string, unknown>(
       }
     }
     // Send directly to new connection (broadcast may not include it)
-    conn.send(JSON.stringify({ type: 'presenceCount', count, viewerCount: vCount }));
+    conn.send(JSON.stringify({ type: 'presenceCount', count, viewerCount: vCount, idleCount: this.idleCount() }));
     // Notify all other connections
-    this.room.broadcast(JSON.stringify({ type: 'presenceCount', count, viewerCount: vCount }), [conn.id]);
+    this.room.broadcast(JSON.stringify({ type: 'presenceCount', count, viewerCount: vCount, idleCount: this.idleCount() }), [conn.id]);
+    this.updateCursorPacing(Date.now());
+    this.updateCursorDensity();
     // Notify admins of the arrival (exclude the new connection itself)
     if (!isAdmin) {
       this.room.broadcast(JSON.stringify({ type: 'userJoined', userId, isViewer }), [conn.id]);
+      this.recorder?.recordPresence('arrival', userId);
     }
 
     // Unique participant userIds currently connected (for admin snapshot on join)
@@ -234,7 +594,18 @@ private pluginStates = new Map<string, unknown>(
     const pluginConn = this.makePluginConn(conn);
 
     this.adminConnectionIds.delete(conn.id);
+    this.authorizedConnectionIds.delete(conn.id);
+    this.rejectCounts.delete(conn.id);
+    this.rateLimiters.delete(conn.id);
+    const address = this.connectionAddresses.get(conn.id);
+    if (address !== undefined) {
+      const remaining = (this.addressConnectionCounts.get(address) ?? 1) - 1;
+      if (remaining > 0) this.addressConnectionCounts.set(address, remaining);
+      else this.addressConnectionCounts.delete(address);
+      this.connectionAddresses.delete(conn.id);
+    }
     this.viewerConnectionIds.delete(conn.id);
+    this.binaryCursorConnectionIds.delete(conn.id);
     this.connectionUserMap.delete(conn.id);
 
     // Only treat the user as gone if this was their last connection
@@ -244,14 +615,24 @@ private pluginStates = new Map<string, unknown>(
 
     if (userId && !userStillConnected) {
       this.cursorPositions.delete(userId);
+      this.cursorIds.release(userId);
+      this.idle.forget(userId);
+      this.stopIdleSweepIfEmpty();
+      clearTimeout(this.reservations.get(userId));
+      this.reservations.delete(userId);
+      if (this.waitingQueue.remove(userId)) this.queueChanged();
     }
 
     if (!isAdmin && userId && !userStillConnected) {
       this.room.broadcast(JSON.stringify({ type: 'userLeft', userId, wasViewer }));
+      this.recorder?.recordPresence('departure', userId);
     }
 
     const count = this.participantCount();
-    this.room.broadcast(JSON.stringify({ type: 'presenceCount', count, viewerCount: this.viewerCount() }));
+    this.room.broadcast(JSON.stringify({ type: 'presenceCount', count, viewerCount: this.viewerCount(), idleCount: this.idleCount() }));
+    if (!isAdmin && !wasViewer) this.promoteFromQueue();
+    this.updateCursorPacing(Date.now());
+    this.updateCursorDensity();
 
     const pluginCtx = this.makePluginContext();
     for (const [id, plugin] of Object.entries(PLUGIN_MAP)) {
@@ -269,12 +650,36 @@ private pluginStates = new Map<string, unknown>(
           const avgMs = this.msgCount > 0 ? Math.round(1000 / this.msgCount) : null;
           console.log(`[msg-rate] room=${this.room.id} ${this.msgCount} msg/s (~${avgMs ?? '∞'}ms between msgs)`);
           this.msgCount = 0;
+          for (const [connId, limiter] of this.rateLimiters) {
+            const dropped = limiter.takeDropReport();
+            if (dropped) console.log(`[msg-rate] offender conn=${connId} user=${this.connectionUserMap.get(connId)} dropped=${JSON.stringify(dropped)}`);
+          }
         }, 1000);
       }
     }
 
     try {
-      const event: ClientEvent = JSON.parse(message);
+      // Authorization is checked before parsing so only admins get the raised projection cap.
+      const result = validateClientEvent(message, this.isAuthorized(sender.id));
+      if (!result.ok) {
+        this.rejectInvalid(sender, result.eventType, result.reason);
+        return;
+      }
+      if (!this.withinRateLimit(sender, result.event.type)) return;
+
+      const now = Date.now();
+      const senderUserId = this.connectionUserMap.get(sender.id);
+      if (senderUserId && !this.adminConnectionIds.has(sender.id)) {
+        this.noteActivity(senderUserId, now);
+        this.claimReservation(senderUserId);
+      }
+
+      const event: ClientEvent = result.event;
+
+      if (this.requiresAdmin(event.type) && !this.isAuthorized(sender.id)) {
+        this.sendError(sender, { code: 'forbidden', eventType: event.type, message: `${event.type} requires the room admin token` });
+        return;
+      }
 
       // Plugin message router — runs before the main switch; return early if handled
       const pluginCtx = this.makePluginContext();
@@ -284,7 +689,13 @@ private pluginStates = new Map<string, unknown>(
       }
 
       switch (event.type) {
-        case 'playbackCursorBroadcast': this.handlePlaybackCursorBroadcast(event); break;
+        case 'loadPlayback':
+          this.handleLoadPlayback(event).catch(err => {
+            console.error('[playback] load failed:', err);
+            this.sendError(sender, { code: 'failed', eventType: event.type, message: 'Could not load the recording' });
+          });
+          break;
+        case 'playbackControl': this.handlePlaybackControl(event); break;
         case 'move':
         case 'touch':
         case 'remove': this.handleCursorEvent(event, message, sender); break;
@@ -296,26 +707,42 @@ private pluginStates = new Map<string, unknown>(
         case 'setScreenPanel': this.handleSetScreenPanel(event); break;
         case 'setNowLabel': this.handleSetNowLabel(event); break;
         case 'startFlashTimer': this.handleStartFlashTimer(event); break;
+        case 'cancelFlashTimer': this.handleCancelFlashTimer(); break;
+        case 'extendFlashTimer': this.handleExtendFlashTimer(event); break;
+        case 'setAgenda': this.handleSetAgenda(event); break;
+        case 'advanceAgenda': this.handleAdvanceAgenda(event); break;
+        case 'setAgendaAutoAdvance': this.handleSetAgendaAutoAdvance(event); break;
         case 'setImageUrl': this.handleSetImageUrl(event); break;
-        case 'setUserCap': this.handleSetUserCap(event, sender); break;
+        case 'setUserCap': this.handleSetUserCap(event); break;
         case 'triggerActivity': this.handleTriggerActivity(event); break;
         case 'submitGithubUsername': this.handleSubmitGithubUsername(event); break;
         case 'submitFeedbackStars': this.handleSubmitFeedbackStars(event); break;
         case 'requestJoin': this.handleRequestJoin(sender); break;
-        case 'clearPushedInterfaces': this.handleClearPushedInterfaces(sender); break;
-        case 'pushInterface': this.handlePushInterface(event, sender); break;
-        case 'pushHaptic': this.handlePushHaptic(event, sender); break;
+        case 'setQueueReservation': this.handleSetQueueReservation(event); break;
+        case 'moveQueuedViewer': this.handleMoveQueuedViewer(event); break;
+        case 'promoteQueuedViewer': this.handlePromoteQueuedViewer(event); break;
+        case 'evictQueuedViewer': this.handleEvictQueuedViewer(event); break;
+        case 'clearPushedInterfaces': this.handleClearPushedInterfaces(); break;
+        case 'pushInterface': this.handlePushInterface(event); break;
+        case 'pushHaptic': this.handlePushHaptic(event); break;
         case 'acceptInterface': this.handleAcceptInterface(event, sender); break;
-        case 'setOwnValenceDisplay': this.handleSetOwnValenceDisplay(event, sender); break;
-        case 'setValenceInputMode': this.handleSetValenceInputMode(event, sender); break;
-        case 'setDefaultCursorColor': this.handleSetDefaultCursorColor(event, sender); break;
-        case 'setColorCursorsByVote': this.handleSetColorCursorsByVote(event, sender); break;
+        case 'setOwnValenceDisplay': this.handleSetOwnValenceDisplay(event); break;
+        case 'setValenceInputMode': this.handleSetValenceInputMode(event); break;
+        case 'setReactionStorage': this.handleSetReactionStorage(event); break;
+        case 'setCursorMode': this.handleSetCursorMode(event); break;
+        case 'setDefaultCursorColor': this.handleSetDefaultCursorColor(event); break;
+        case 'setColorCursorsByVote': this.handleSetColorCursorsByVote(event); break;
         case 'registerCustomAvatar': this.handleRegisterCustomAvatar(event); break;
         case 'recordInvitations': this.handleRecordInvitations(event); break;
+        case 'snapMoment': this.handleSnapMoment(event); break;
+        case 'renameMoment': this.handleRenameMoment(event); break;
+        case 'deleteMoment': this.handleDeleteMoment(event); break;
+        case 'clearMoments': this.handleClearMoments(); break;
         case 'getState': this.handleGetState(sender); break;
+        case 'resume': this.handleResume(event, sender); break;
       }
     } catch (e) {
-      console.error('Failed to parse event:', e);
+      console.error('Failed to handle event:', e);
     }
   }
 
@@ -326,16 +753,161 @@ private pluginStates = new Map<string, unknown>(
     const cursors = [...this.pendingCursorUpdates.values()];
     this.pendingCursorUpdates.clear();
     this.batchTimer = null;
-    this.room.broadcast(JSON.stringify({ type: 'cursorBatch', cursors }));
+    this.broadcastCursors(cursors, JSON.stringify({ type: 'cursorBatch', cursors }));
   }
 
-  private handlePlaybackCursorBroadcast(event: PlaybackCursorBroadcastEvent): void {
-    // Admin replaying recorded events — broadcast to ALL clients (including sender)
-    // so the admin's own "Peek Canvas" tab also sees playback cursors
-    this.room.broadcast(JSON.stringify({
-      type: event.cursorType,
-      position: { ...event.position, isPlayback: true },
-    }));
+  private currentCursorPacing(): CursorPacing {
+    return this.cursorPacing ?? { throttleMs: CURSOR_THROTTLE_MS, batchMs: SERVER_CURSOR_BATCH_MS };
+  }
+
+  // The send interval participants should use and the batch window, from room size and
+  // the cursor traffic measured over the last window (see app/utils/cursorThrottle.ts).
+  // Re-evaluated as traffic arrives and people come and go, so an idle room does no work.
+  private updateCursorPacing(now: number): void {
+    const stale = now - this.cursorRate.windowStart > 2 * CURSOR_RATE_WINDOW_MS;
+    const current = this.currentCursorPacing();
+    const next = recommendCursorPacing(this.participantCount(), stale ? 0 : this.cursorRate.perSec, current, SERVER_CURSOR_BATCH_MS);
+    if (next === current) return;
+    this.cursorPacing = next;
+    this.room.broadcast(JSON.stringify({ type: 'cursorPacingChanged', pacing: next }));
+  }
+
+  private measureCursorRate(now: number): void {
+    const rate = this.cursorRate;
+    rate.count++;
+    const elapsed = now - rate.windowStart;
+    if (elapsed < CURSOR_RATE_WINDOW_MS) return;
+    rate.perSec = rate.count * 1000 / elapsed;
+    rate.windowStart = now;
+    rate.count = 0;
+    this.updateCursorPacing(now);
+  }
+
+  private cursorModeConfig(): CursorModeConfig {
+    return { mode: this.cursorMode, threshold: this.densityThreshold, active: this.densityActive };
+  }
+
+  private currentCursorDensity(): CursorDensity {
+    return aggregateCursorDensity(this.cursorPositions.values(), this.roomAnchors ?? REACTION_DEFAULT_ANCHORS);
+  }
+
+  // Switches between relaying cursors and ticking density (party/lib/cursorDensity.ts) when
+  // the mode or the room size calls for it. The tick only runs while density is active.
+  private updateCursorDensity(): void {
+    const active = isDensityActive(this.cursorMode, this.densityThreshold, this.participantCount());
+    if (active === this.densityActive) return;
+    this.densityActive = active;
+    if (active) {
+      this.lastDensity = null;
+      this.densityTimer = setInterval(() => this.tickCursorDensity(), DENSITY_TICK_MS);
+    } else if (this.densityTimer) {
+      clearInterval(this.densityTimer);
+      this.densityTimer = null;
+    }
+    this.room.broadcast(JSON.stringify({ type: 'cursorModeChanged', config: this.cursorModeConfig() }));
+  }
+
+  private tickCursorDensity(): void {
+    const msg = JSON.stringify({ type: 'cursorDensity', density: this.currentCursorDensity() });
+    if (msg === this.lastDensity) return;
+    this.lastDensity = msg;
+    this.room.broadcast(msg);
+  }
+
+  // JSON connections get `json`; binary ones get the same cursors as one frame, preceded
+  // by a `cursorIds` announcement when the frame brings in users they have no id for.
+  private broadcastCursors(cursors: CursorEvent[], json: string, without: string[] = []): void {
+    if (this.binaryCursorConnectionIds.size === 0) {
+      if (without.length > 0) this.room.broadcast(json, without);
+      else this.room.broadcast(json);
+      return;
+    }
+    const jsonConnectionIds = [...this.room.getConnections()]
+      .map(c => c.id)
+      .filter(id => !this.binaryCursorConnectionIds.has(id));
+    this.room.broadcast(json, [...without, ...this.binaryCursorConnectionIds]);
+    const announcement = this.cursorIds.assign(cursors.map(c => c.position.userId));
+    if (announcement) this.room.broadcast(JSON.stringify(announcement), jsonConnectionIds);
+    this.room.broadcast(encodeCursorFrame(cursors, id => this.cursorIds.get(id)), [...without, ...jsonConnectionIds]);
+    for (const c of cursors) if (c.type === 'remove') this.cursorIds.release(c.position.userId);
+  }
+
+  // --- Playback ---
+  // The server replays stored recordings itself, so playback doesn't depend on the
+  // emcee's network or tab staying awake. Replay cursors go to every client, including
+  // the emcee's own "Peek Canvas" tab, as `cursorBatch` messages.
+
+  private async handleLoadPlayback(event: LoadPlaybackEvent): Promise<void> {
+    const meta = this.recordings.find(r => r.id === event.recordingId);
+    if (!meta) return;
+    if (this.recorder?.meta.id === meta.id) await this.recorder.flush();
+    const source = recordingSource(this.room.storage, this.recordings.find(r => r.id === meta.id) ?? meta);
+    const engine = await PlaybackEngine.load(meta.id, source, () => this.roomAnchors ?? REACTION_DEFAULT_ANCHORS);
+    if (this.playback) this.broadcastReplayCursors(this.playback.stop(Date.now()));
+    this.stopPlaybackTimer();
+    this.playback = engine;
+    this.broadcastPlaybackState();
+  }
+
+  private handlePlaybackControl(event: PlaybackControlEvent): void {
+    const engine = this.playback;
+    if (!engine) return;
+    const now = Date.now();
+    switch (event.action) {
+      case 'play': engine.play(now); break;
+      case 'pause': engine.pause(now); break;
+      case 'stop': this.broadcastReplayCursors(engine.stop(now)); break;
+      case 'seek':
+        this.seekPlayback(engine, event.positionMs).catch(err => console.error('[playback] seek failed:', err));
+        break;
+      case 'setSpeed': engine.speed = event.speed; break;
+      case 'setLoop': engine.loop = event.loop; break;
+    }
+    if (engine.status === 'stopped') this.stopPlaybackTimer();
+    else if (!this.playbackTimer) this.playbackTimer = setInterval(() => this.tickPlayback(), PLAYBACK_TICK_MS);
+    this.broadcastPlaybackState();
+  }
+
+  private async seekPlayback(engine: PlaybackEngine, positionMs: number): Promise<void> {
+    const updates = await engine.seek(positionMs, Date.now());
+    if (this.playback !== engine) return;
+    this.broadcastReplayCursors(updates);
+    this.broadcastPlaybackState();
+  }
+
+  private tickPlayback(): void {
+    const engine = this.playback;
+    if (!engine) return this.stopPlaybackTimer();
+    const now = Date.now();
+    this.broadcastReplayCursors(engine.tick(now));
+    if (engine.status === 'stopped') {
+      this.stopPlaybackTimer();
+      this.broadcastPlaybackState();
+    } else if (engine.status === 'playing' && now - this.playbackStateSentAt >= PLAYBACK_STATE_INTERVAL_MS) {
+      this.broadcastPlaybackState();
+    }
+  }
+
+  private stopPlaybackTimer(): void {
+    if (this.playbackTimer) clearInterval(this.playbackTimer);
+    this.playbackTimer = null;
+  }
+
+  private broadcastReplayCursors(cursors: CursorEvent[]): void {
+    if (cursors.length > 0) this.broadcastCursors(cursors, JSON.stringify({ type: 'cursorBatch', cursors }));
+  }
+
+  // Only admin surfaces show the transport controls.
+  private broadcastPlaybackState(): void {
+    this.playbackStateSentAt = Date.now();
+    this.sendToAdmins(JSON.stringify({ type: 'playbackStateChanged', state: this.playback?.state() ?? null }));
+  }
+
+  // Queue lists and playback state name participants, so they go only to token holders.
+  private sendToAdmins(msg: string): void {
+    for (const conn of this.room.getConnections()) {
+      if (this.authorizedConnectionIds.has(conn.id)) conn.send(msg);
+    }
   }
 
   private handleCursorEvent(event: CursorEvent, message: string, sender: Party.Connection): void {
@@ -347,14 +919,58 @@ private pluginStates = new Map<string, unknown>(
     } else if (event.type === 'remove') {
       this.cursorPositions.delete(event.position.userId);
     }
+    this.recorder?.recordCursor(event.type, event.position.userId, event.position.x, event.position.y);
+    this.measureCursorRate(Date.now());
+    this.relayCursor(event, message, [sender.id]);
+  }
+
+  private relayCursor(event: CursorEvent, message: string, without: string[]): void {
+    if (this.densityActive) return; // the next density tick carries it
     if (SERVER_CURSOR_BATCH_MS > 0) {
       this.pendingCursorUpdates.set(event.position.userId, event);
       if (!this.batchTimer) {
-        this.batchTimer = setTimeout(() => this.flushCursorBatch(), SERVER_CURSOR_BATCH_MS);
+        this.batchTimer = setTimeout(() => this.flushCursorBatch(), this.currentCursorPacing().batchMs);
       }
     } else {
-      this.room.broadcast(message, [sender.id]);
+      this.broadcastCursors([event], message, without);
+    }
+  }
+
+  // --- Idle detection ---
+
+  private noteActivity(userId: string, now: number): void {
+    if (this.idle.touch(userId, now) && this.isUserConnected(userId)) {
+      this.room.broadcast(JSON.stringify({ type: 'idleChanged', userIds: [userId], idle: false, idleCount: this.idleCount() }));
     }
+    this.idleSweepTimer ??= setInterval(() => this.sweepIdleUsers(Date.now()), IDLE_SWEEP_MS);
+  }
+
+  // Users silent past the timeout lose their cursor, as if they had lifted, and are reported
+  // idle. Only what a user sends themselves counts as activity: cursors relayed under their
+  // id by someone else (playback, synthetic cursors) don't keep them awake.
+  private sweepIdleUsers(now: number): void {
+    const idleUserIds: string[] = [];
+    for (const userId of this.idle.sweep(now)) {
+      const pos = this.cursorPositions.get(userId);
+      if (pos) {
+        this.cursorPositions.delete(userId);
+        this.recorder?.recordCursor('remove', userId, pos.x, pos.y);
+        const event: CursorEvent = { type: 'remove', position: { userId, x: pos.x, y: pos.y, timestamp: now } };
+        this.relayCursor(event, JSON.stringify(event), []);
+      }
+      if (this.isUserConnected(userId)) idleUserIds.push(userId);
+      else this.idle.forget(userId);
+    }
+    if (idleUserIds.length > 0) {
+      this.room.broadcast(JSON.stringify({ type: 'idleChanged', userIds: idleUserIds, idle: true, idleCount: this.idleCount() }));
+    }
+    this.stopIdleSweepIfEmpty();
+  }
+
+  private stopIdleSweepIfEmpty(): void {
+    if (this.idle.size > 0 || !this.idleSweepTimer) return;
+    clearInterval(this.idleSweepTimer);
+    this.idleSweepTimer = null;
   }
 
   // --- Room config handlers ---
@@ -366,37 +982,140 @@ private pluginStates = new Map<string, unknown>(
 
   private handleSetRecordingState(event: SetRecordingStateEvent): void {
     this.recordingState = event.recording;
-    this.room.broadcast(JSON.stringify({ type: 'recordingStateChanged', recording: this.recordingState }));
+    if (event.recording && !this.recorder) {
+      const meta = newRecordingMeta(this.room.id, event.mode ?? 'positions');
+      this.recorder = new SessionRecorder(
+        this.room.storage, meta, () => this.roomAnchors ?? REACTION_DEFAULT_ANCHORS, m => this.saveRecordingMeta(m),
+      );
+      this.saveRecordingMeta({ ...meta });
+    } else if (!event.recording && this.recorder) {
+      void this.recorder.stop();
+      this.recorder = null;
+    }
+    this.room.broadcast(JSON.stringify({
+      type: 'recordingStateChanged',
+      recording: this.recordingState,
+      recordingId: this.recorder?.meta.id ?? null,
+      mode: this.recorder?.meta.mode ?? null,
+    }));
+  }
+
+  private saveRecordingMeta(meta: RecordingMeta): void {
+    const i = this.recordings.findIndex(r => r.id === meta.id);
+    this.recordings = i === -1 ? [meta, ...this.recordings] : this.recordings.map(r => (r.id === meta.id ? meta : r));
+    this.room.storage.put("recordings", this.recordings).catch(err => console.error('Failed to persist recordings:', err));
   }
 
   private handleSetRoomLabels(event: SetRoomLabelsEvent): void {
     this.roomLabels = event.labels;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'roomLabelsChanged', labels: this.roomLabels }));
   }
 
   private handleSetRoomAnchors(event: SetRoomAnchorsEvent): void {
     this.roomAnchors = event.anchors;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'roomAnchorsChanged', anchors: this.roomAnchors }));
   }
 
   private handleSetRoomAvatarStyle(event: SetRoomAvatarStyleEvent): void {
     this.roomAvatarStyle = event.avatarStyle;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'roomAvatarStyleChanged', avatarStyle: this.roomAvatarStyle }));
   }
 
   private handleSetNowLabel(event: SetNowLabelEvent): void {
     this.nowLabel = event.label;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'nowLabelChanged', label: this.nowLabel }));
   }
 
-  // Relay the flash-timer countdown to every canvas. The emcee owns the snapshot
-  // (fired client-side at zero); the server only rebroadcasts the visual countdown.
+  // --- Flash timer ---
+  // The server owns the snapshot: a room alarm at `endTimestamp` snaps the moment from
+  // the server's cursor state, so a backgrounded or throttled emcee tab can't delay it.
+  // Starting a new timer replaces any running one.
+
   private handleStartFlashTimer(event: StartFlashTimerEvent): void {
-    this.room.broadcast(JSON.stringify(buildFlashTimerStarted(event.endTimestamp, event.label)));
+    this.scheduleFlashTimer({ endTimestamp: event.endTimestamp, label: event.label });
+  }
+
+  private handleExtendFlashTimer(event: ExtendFlashTimerEvent): void {
+    if (!this.flashTimer) return;
+    this.scheduleFlashTimer({ ...this.flashTimer, endTimestamp: this.flashTimer.endTimestamp + event.seconds * 1000 });
+  }
+
+  private handleCancelFlashTimer(): void {
+    if (!this.flashTimer) return;
+    this.clearFlashTimer();
+    this.syncAlarm();
+    this.broadcastLogged({ type: 'flashTimerCancelled' } satisfies FlashTimerCancelledMessage);
+  }
+
+  private scheduleFlashTimer(timer: { endTimestamp: number; label: string }): void {
+    this.flashTimer = timer;
+    this.room.storage.put("flashTimer", timer).catch(err => console.error('Failed to persist flash timer:', err));
+    this.syncAlarm();
+    this.broadcastLogged(buildFlashTimerStarted(timer.endTimestamp, timer.label));
+  }
+
+  private clearFlashTimer(): void {
+    this.flashTimer = null;
+    this.room.storage.delete("flashTimer").catch(err => console.error('Failed to clear flash timer:', err));
+  }
+
+  private fireFlashTimer(): void {
+    const timer = this.flashTimer;
+    if (!timer) return;
+    this.clearFlashTimer();
+    const moment = this.snapMoment(timer.label);
+    this.broadcastLogged({ type: 'flashTimerFired', moment } satisfies FlashTimerFiredMessage);
+  }
+
+  // --- Agenda ---
+  // A prepared sequence of statements. Entering an item makes its statement the room's
+  // "Now" label and applies its labels and anchors; with auto-advance on, the end of a
+  // timed item snaps a moment labelled with the statement and moves on.
+
+  private handleSetAgenda(event: SetAgendaEvent): void {
+    this.updateAgenda(replaceAgendaItems(this.agenda, event.items));
+  }
+
+  private handleAdvanceAgenda(event: AdvanceAgendaEvent): void {
+    const next = stepAgenda(this.agenda, event.direction, Date.now());
+    if (next !== this.agenda) this.enterAgendaItem(next);
+  }
+
+  private handleSetAgendaAutoAdvance(event: SetAgendaAutoAdvanceEvent): void {
+    this.updateAgenda({ ...this.agenda, autoAdvance: event.autoAdvance });
+  }
+
+  private finishAgendaItem(): void {
+    const item = currentAgendaItem(this.agenda);
+    if (!item || this.agenda.currentIndex === null) return;
+    this.snapMoment(item.statement.slice(0, MAX_LABEL_LENGTH));
+    this.enterAgendaItem(goToAgendaItem(this.agenda, this.agenda.currentIndex + 1, Date.now()));
+  }
+
+  private enterAgendaItem(next: AgendaState): void {
+    const item = currentAgendaItem(next);
+    this.handleSetNowLabel({ type: 'setNowLabel', label: item?.statement ?? '' });
+    if (item?.labels !== undefined) this.handleSetRoomLabels({ type: 'setRoomLabels', labels: item.labels });
+    if (item?.anchors !== undefined) this.handleSetRoomAnchors({ type: 'setRoomAnchors', anchors: item.anchors });
+    this.updateAgenda(next);
+  }
+
+  private updateAgenda(next: AgendaState): void {
+    this.agenda = next;
+    if (this.persistenceEnabled) {
+      this.room.storage.put("agenda", this.agenda).catch(err => console.error('Failed to persist agenda:', err));
+    }
+    this.syncAlarm();
+    this.room.broadcast(JSON.stringify({ type: 'agendaChanged', agenda: this.agenda }));
   }
 
   private handleSetImageUrl(event: SetImageUrlEvent): void {
     this.roomImageUrl = event.url;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'imageUrlChanged', url: this.roomImageUrl }));
   }
 
@@ -404,6 +1123,7 @@ private pluginStates = new Map<string, unknown>(
     const screenName = event.screenName ?? 'personal';
     const prevPanel = this.screenPanelsByName[screenName] ?? 'canvas';
     this.screenPanelsByName[screenName] = event.screenPanel;
+    this.persistStateNow();
     const ctx = this.makePluginContext();
 
     // Plugin lifecycle hooks fire only for the lifecycle screen. Panels that need
@@ -430,18 +1150,22 @@ private pluginStates = new Map<string, unknown>(
 
   // --- Admin / access handlers ---
 
-  private handleSetUserCap(event: SetUserCapEvent, sender: Party.Connection): void {
-    if (!this.adminConnectionIds.has(sender.id)) return;
+  private handleSetUserCap(event: SetUserCapEvent): void {
     this.userCap = event.cap;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'userCapChanged', cap: this.userCap }));
+    this.promoteFromQueue();
   }
 
   private sendCurrentState(conn: Party.Connection, isViewer: boolean, vCount: number, connectedUserIds: string[]): void {
     conn.send(JSON.stringify({
       type: 'connected',
       connectionId: conn.id,
+      isAdmin: this.isAuthorized(conn.id),
       timecode: this.savedTimecode,
       recordingState: this.recordingState,
+      recordingMode: this.recorder?.meta.mode ?? null,
+      playback: this.playback?.state() ?? null,
       roomLabels: this.roomLabels,
       roomAnchors: this.roomAnchors,
       roomAvatarStyle: this.roomAvatarStyle,
@@ -449,6 +1173,8 @@ private pluginStates = new Map<string, unknown>(
       currentScreenPanels: this.screenPanelsByName,
       roomImageUrl: this.roomImageUrl,
       nowLabel: this.nowLabel,
+      flashTimer: this.flashTimer,
+      agenda: this.agenda,
       ballState: (this.screenPanelsByName[LIFECYCLE_SCREEN] ?? 'canvas') === 'soccer' ? getSoccerBallState(this.pluginStates.get('soccer')) : null,
       soccerScore: getSoccerScore(this.pluginStates.get('soccer')),
       isViewer,
@@ -461,6 +1187,15 @@ private pluginStates = new Map<string, unknown>(
       defaultCursorColor: this.defaultCursorColor,
       ownValenceDisplay: this.ownValenceDisplay,
       valenceInputMode: this.valenceInputMode,
+      reactionStorage: this.reactionStorageConfig(),
+      cursorPacing: this.currentCursorPacing(),
+      cursorMode: this.cursorModeConfig(),
+      idleUserIds: this.idle.idleUserIds().filter(userId => this.isUserConnected(userId)),
+      waitingQueue: this.waitingQueueState(),
+      queuePosition: isViewer ? this.waitingQueue.position(this.connectionUserMap.get(conn.id) ?? conn.id) : null,
+      sequence: { epoch: this.messageLog.epoch, seq: this.messageLog.lastSeq },
+      ...(this.densityActive ? { cursorDensity: this.currentCursorDensity() } : {}),
+      ...(this.binaryCursorConnectionIds.has(conn.id) ? { cursorIds: this.cursorIds.entries() } : {}),
     }));
   }
 
@@ -474,88 +1209,280 @@ private pluginStates = new Map<string, unknown>(
     )];
     this.sendCurrentState(sender, isViewer, vCount, connectedUserIds);
     const count = this.participantCount();
-    sender.send(JSON.stringify({ type: 'presenceCount', count, viewerCount: vCount }));
+    sender.send(JSON.stringify({ type: 'presenceCount', count, viewerCount: vCount, idleCount: this.idleCount() }));
   }
 
+  // A viewer gets a slot straight away if there is one and nobody is waiting for it;
+  // otherwise they join the back of the waiting queue.
   private handleRequestJoin(sender: Party.Connection): void {
     if (!this.viewerConnectionIds.has(sender.id)) return;
-    if (this.userCap !== null && this.participantCount() >= this.userCap) {
-      sender.send(JSON.stringify({ type: 'joinDenied' }));
+    const userId = this.connectionUserMap.get(sender.id) ?? sender.id;
+    if (this.roomHasSpace() && this.waitingQueue.length === 0) {
+      this.promoteViewer(userId, false);
       return;
     }
-    this.viewerConnectionIds.delete(sender.id);
-    const count = this.participantCount();
-    const vCount = this.viewerCount();
-    sender.send(JSON.stringify({ type: 'joinApproved' }));
-    this.room.broadcast(JSON.stringify({ type: 'presenceCount', count, viewerCount: vCount }), [sender.id]);
-    sender.send(JSON.stringify({ type: 'presenceCount', count, viewerCount: vCount }));
+    this.waitingQueue.enqueue(userId, Date.now());
+    this.queueChanged();
+  }
+
+  private handleSetQueueReservation(event: SetQueueReservationEvent): void {
+    this.queueReservationSec = event.seconds;
+    this.persistStateNow();
+    this.sendToAdmins(JSON.stringify({ type: 'waitingQueueChanged', ...this.waitingQueueState() }));
+  }
+
+  private handleMoveQueuedViewer(event: MoveQueuedViewerEvent): void {
+    if (this.waitingQueue.move(event.userId, event.index)) this.queueChanged();
+  }
+
+  // The emcee's call: promotes even past the cap.
+  private handlePromoteQueuedViewer(event: PromoteQueuedViewerEvent): void {
+    if (this.waitingQueue.position(event.userId) === null) return;
+    this.promoteViewer(event.userId, true);
+    this.queueChanged();
+  }
+
+  // Evicted viewers keep watching; they can ask to join again.
+  private handleEvictQueuedViewer(event: EvictQueuedViewerEvent): void {
+    if (!this.waitingQueue.remove(event.userId)) return;
+    const msg = JSON.stringify({ type: 'queuePosition', position: null, length: this.waitingQueue.length });
+    for (const conn of this.viewerConnections(event.userId)) conn.send(msg);
+    this.queueChanged();
+  }
+
+  private roomHasSpace(): boolean {
+    return this.userCap === null || this.participantCount() < this.userCap;
+  }
+
+  private viewerConnections(userId: string): Party.Connection[] {
+    return this.getTargetConnections(userId).filter(conn => this.viewerConnectionIds.has(conn.id));
+  }
+
+  private waitingQueueState(): WaitingQueueState {
+    return { queue: this.waitingQueue.list(), reservationSec: this.queueReservationSec };
+  }
+
+  // Tells each waiting viewer their place in line, and the emcee the whole list.
+  private queueChanged(): void {
+    const length = this.waitingQueue.length;
+    this.waitingQueue.list().forEach(({ userId }, i) => {
+      const msg = JSON.stringify({ type: 'queuePosition', position: i + 1, length });
+      for (const conn of this.viewerConnections(userId)) conn.send(msg);
+    });
+    this.sendToAdmins(JSON.stringify({ type: 'waitingQueueChanged', ...this.waitingQueueState() }));
+  }
+
+  // Fills free slots from the head of the queue.
+  private promoteFromQueue(): void {
+    let promoted = false;
+    while (this.waitingQueue.length > 0 && this.roomHasSpace()) {
+      this.promoteViewer(this.waitingQueue.shift()!, true);
+      promoted = true;
+    }
+    if (promoted) this.queueChanged();
+  }
+
+  // Turns a user's viewer connections into participants. Someone promoted from the queue may
+  // have pocketed their phone while waiting, so it buzzes, and with a reservation timeout set
+  // the slot only stays theirs if they send something before it runs out.
+  private promoteViewer(userId: string, fromQueue: boolean): void {
+    const conns = this.viewerConnections(userId);
+    this.waitingQueue.remove(userId);
+    if (conns.length === 0) return;
+    for (const conn of conns) {
+      this.viewerConnectionIds.delete(conn.id);
+      conn.send(JSON.stringify({ type: 'joinApproved' }));
+    }
+    if (fromQueue) {
+      this.sendLogged(conns, { type: 'hapticPushed' });
+      this.claimReservation(userId);
+      if (this.queueReservationSec !== null) {
+        this.reservations.set(userId, setTimeout(() => this.expireReservation(userId), this.queueReservationSec * 1000));
+      }
+    }
+    this.room.broadcast(JSON.stringify({ type: 'presenceCount', count: this.participantCount(), viewerCount: this.viewerCount(), idleCount: this.idleCount() }));
+  }
+
+  private claimReservation(userId: string): void {
+    clearTimeout(this.reservations.get(userId));
+    this.reservations.delete(userId);
+  }
+
+  // A promoted viewer who never spoke up goes back to watching; the slot passes down the line.
+  private expireReservation(userId: string): void {
+    this.reservations.delete(userId);
+    for (const conn of this.getTargetConnections(userId)) {
+      if (this.adminConnectionIds.has(conn.id)) continue;
+      this.viewerConnectionIds.add(conn.id);
+      conn.send(JSON.stringify({ type: 'reservationExpired' }));
+    }
+    this.room.broadcast(JSON.stringify({ type: 'presenceCount', count: this.participantCount(), viewerCount: this.viewerCount(), idleCount: this.idleCount() }));
+    this.promoteFromQueue();
+  }
+
+  // --- Reconnect resume (party/lib/messageLog.ts) ---
+
+  private broadcastLogged(message: object): void {
+    this.room.broadcast(this.messageLog.record(message, null, Date.now()));
+  }
+
+  /** Sends to `targets`, logging it for their users and for `offline` ones who should get it on resume. */
+  private sendLogged(targets: Party.Connection[], message: object, offline: string[] = []): void {
+    const userIds = [...new Set([...targets.flatMap(conn => this.connectionUserMap.get(conn.id) ?? []), ...offline])];
+    const json = this.messageLog.record(message, userIds, Date.now());
+    for (const conn of targets) conn.send(json);
+  }
+
+  // Named users and map group members are logged as recipients even while their socket is down,
+  // so a resume replays the push. A region only holds the cursors that are here right now.
+  private sendTargeted(event: PushInterfaceEvent | PushHapticEvent | TriggerActivityEvent, message: object): void {
+    const targets = this.getTargetConnections(event.targetUserId, event.targetRegion, event.targetUserIds, event.targetGroup);
+    const named = event.targetUserId !== undefined ? [event.targetUserId]
+      : event.targetUserIds ?? (event.targetGroup !== undefined ? getMapGroupUserIds(this.pluginStates.get('map-maker') as MapPluginState | undefined, event.targetGroup) : []);
+    this.sendLogged(targets, message, named);
+  }
+
+  // Replays what the sender's user missed while disconnected. When the log can't cover the
+  // gap, the `connected` snapshot the new connection already got is the best there is.
+  private handleResume(event: ResumeEvent, sender: Party.Connection): void {
+    const userId = this.connectionUserMap.get(sender.id) ?? sender.id;
+    const missed = this.messageLog.since(event.epoch, event.lastSeq, userId, Date.now());
+    for (const json of missed ?? []) sender.send(json);
+    sender.send(JSON.stringify({ type: 'resumed', replayed: missed?.length ?? 0, complete: missed !== null }));
   }
 
-  private handleClearPushedInterfaces(sender: Party.Connection): void {
-    if (!this.adminConnectionIds.has(sender.id)) return;
-    this.room.broadcast(JSON.stringify({ type: 'pushedInterfacesCleared' }));
+  private handleClearPushedInterfaces(): void {
+    this.broadcastLogged({ type: 'pushedInterfacesCleared' });
   }
 
-  private handlePushInterface(event: PushInterfaceEvent, sender: Party.Connection): void {
-    if (!this.adminConnectionIds.has(sender.id)) return;
-    const targets = this.getTargetConnections(event.targetUserId, event.targetRegion, event.targetUserIds);
-    const msg = JSON.stringify({ type: 'interfacePushed', interfaceName: event.interfaceName, payload: event.payload ?? {} });
-    for (const conn of targets) conn.send(msg);
+  private handlePushInterface(event: PushInterfaceEvent): void {
+    this.sendTargeted(event, { type: 'interfacePushed', interfaceName: event.interfaceName, payload: event.payload ?? {} });
   }
 
-  private handlePushHaptic(event: PushHapticEvent, sender: Party.Connection): void {
-    if (!this.adminConnectionIds.has(sender.id)) return;
-    const targets = this.getTargetConnections(event.targetUserId, event.targetRegion, event.targetUserIds);
-    const msg = JSON.stringify({ type: 'hapticPushed' });
-    for (const conn of targets) conn.send(msg);
+  private handlePushHaptic(event: PushHapticEvent): void {
+    this.sendTargeted(event, { type: 'hapticPushed' });
   }
 
   private handleAcceptInterface(event: AcceptInterfaceEvent, sender: Party.Connection): void {
     const userId = this.connectionUserMap.get(sender.id);
     if (!userId) return;
-    const msg = JSON.stringify({ type: 'interfaceAccepted', userId, interfaceName: event.interfaceName });
-    for (const conn of this.room.getConnections()) {
-      if (this.adminConnectionIds.has(conn.id)) conn.send(msg);
-    }
+    this.sendToAdmins(JSON.stringify({ type: 'interfaceAccepted', userId, interfaceName: event.interfaceName }));
   }
 
   private handleTriggerActivity(event: TriggerActivityEvent): void {
-    const msg = JSON.stringify({ type: 'activityTriggered', activityName: event.activityName });
-    const hasTarget = event.targetUserId !== undefined || event.targetRegion !== undefined || event.targetUserIds !== undefined;
+    const msg = { type: 'activityTriggered', activityName: event.activityName };
+    const hasTarget = event.targetUserId !== undefined || event.targetRegion !== undefined
+      || event.targetUserIds !== undefined || event.targetGroup !== undefined;
     if (hasTarget) {
-      const targets = this.getTargetConnections(event.targetUserId, event.targetRegion, event.targetUserIds);
-      for (const conn of targets) conn.send(msg);
+      this.sendTargeted(event, msg);
     } else {
-      this.room.broadcast(msg);
+      this.broadcastLogged(msg);
     }
   }
 
   // --- Viz / display handlers ---
 
-  private handleSetOwnValenceDisplay(event: SetOwnValenceDisplayEvent, sender: Party.Connection): void {
-    if (!this.adminConnectionIds.has(sender.id)) return;
+  private handleSetOwnValenceDisplay(event: SetOwnValenceDisplayEvent): void {
     this.ownValenceDisplay = event.mode;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'ownValenceDisplayChanged', ownValenceDisplay: this.ownValenceDisplay }));
   }
 
-  private handleSetValenceInputMode(event: SetValenceInputModeEvent, sender: Party.Connection): void {
-    if (!this.adminConnectionIds.has(sender.id)) return;
+  private handleSetValenceInputMode(event: SetValenceInputModeEvent): void {
     this.valenceInputMode = event.mode;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'valenceInputModeChanged', valenceInputMode: this.valenceInputMode }));
   }
 
-  private handleSetDefaultCursorColor(event: SetDefaultCursorColorEvent, sender: Party.Connection): void {
-    if (!this.adminConnectionIds.has(sender.id)) return;
+  private reactionStorageConfig(): ReactionStorageConfig {
+    return {
+      store: this.reactionStore,
+      protected: this.reactionsProtected ?? LEGACY_PROTECTED_ROOMS.includes(this.room.id),
+    };
+  }
+
+  private handleSetReactionStorage(event: SetReactionStorageEvent): void {
+    this.reactionStore = event.store;
+    this.reactionsProtected = event.protected;
+    this.persistStateNow();
+    this.room.broadcast(JSON.stringify({ type: 'reactionStorageChanged', config: this.reactionStorageConfig() }));
+  }
+
+  private handleSetCursorMode(event: SetCursorModeEvent): void {
+    this.cursorMode = event.mode;
+    this.densityThreshold = event.threshold;
+    this.persistStateNow();
+    const wasActive = this.densityActive;
+    this.updateCursorDensity();
+    // A switch was already announced; otherwise tell clients about the new settings.
+    if (this.densityActive === wasActive) {
+      this.room.broadcast(JSON.stringify({ type: 'cursorModeChanged', config: this.cursorModeConfig() }));
+    }
+  }
+
+  private handleSetDefaultCursorColor(event: SetDefaultCursorColorEvent): void {
     this.defaultCursorColor = event.color;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'defaultCursorColorChanged', defaultCursorColor: this.defaultCursorColor }));
   }
 
-  private handleSetColorCursorsByVote(event: SetColorCursorsByVoteEvent, sender: Party.Connection): void {
-    if (!this.adminConnectionIds.has(sender.id)) return;
+  private handleSetColorCursorsByVote(event: SetColorCursorsByVoteEvent): void {
     this.colorCursorsByVote = event.enabled;
+    this.persistStateNow();
     this.room.broadcast(JSON.stringify({ type: 'colorCursorsByVoteChanged', colorCursorsByVote: this.colorCursorsByVote }));
   }
 
+  // --- Moment handlers ---
+
+  // Snapshots use the server's cursor state and clock, so every emcee device sees the
+  // same moment regardless of which one pressed the button or how laggy its socket is.
+  private handleSnapMoment(event: SnapMomentEvent): void {
+    this.snapMoment(event.label);
+  }
+
+  private snapMoment(label?: string): MomentSnapshot {
+    const moment: MomentSnapshot = {
+      id: crypto.randomUUID(),
+      label: label?.trim() || `Moment ${this.moments.length + 1}`,
+      timestamp: Date.now(),
+      regions: snapshotRegions(this.seenUserIds, this.cursorPositions, this.roomAnchors ?? REACTION_DEFAULT_ANCHORS),
+    };
+    this.moments = [moment, ...this.moments];
+    this.persistMomentsNow([moment]);
+    this.broadcastMomentsChanged();
+    return moment;
+  }
+
+  private handleRenameMoment(event: RenameMomentEvent): void {
+    const label = event.label.trim();
+    const target = this.moments.find(m => m.id === event.id);
+    if (!target || !label) return;
+    const renamed = { ...target, label };
+    this.moments = this.moments.map(m => (m.id === event.id ? renamed : m));
+    this.persistMomentsNow([renamed]);
+    this.broadcastMomentsChanged();
+  }
+
+  private handleDeleteMoment(event: DeleteMomentEvent): void {
+    if (!this.moments.some(m => m.id === event.id)) return;
+    this.moments = this.moments.filter(m => m.id !== event.id);
+    this.persistMomentsNow([], [event.id]);
+    this.broadcastMomentsChanged();
+  }
+
+  private handleClearMoments(): void {
+    const removedIds = this.moments.map(m => m.id);
+    this.moments = [];
+    this.persistMomentsNow([], removedIds);
+    this.broadcastMomentsChanged();
+  }
+
+  // Moments can be large, so the broadcast only announces the change; clients that
+  // display them re-fetch GET /moments.
+  private broadcastMomentsChanged(): void {
+    this.room.broadcast(JSON.stringify({ type: 'momentsChanged', count: this.moments.length }));
+  }
+
   // --- Social / submission handlers ---
 
   private handleSubmitGithubUsername(event: SubmitGithubUsernameEvent): void {
@@ -575,6 +1502,7 @@ private pluginStates = new Map<string, unknown>(
 
   private handleRegisterCustomAvatar(event: RegisterCustomAvatarEvent): void {
     this.customAvatars.set(event.userId, event.photoUrl);
+    this.schedulePersistState();
     this.room.broadcast(JSON.stringify({ type: 'customAvatarsChanged', customAvatars: Object.fromEntries(this.customAvatars) }));
   }
 
@@ -587,6 +1515,7 @@ private pluginStates = new Map<string, unknown>(
       }
     }
     if (newEdges.length > 0) {
+      this.schedulePersistState();
       this.room.broadcast(JSON.stringify({ type: 'inviteEdges', edges: newEdges }));
     }
   }
@@ -603,13 +1532,204 @@ private pluginStates = new Map<string, unknown>(
       }
     }
 
+    // The first emcee holding the claim key gets the room's admin secret. Every later
+    // claim is refused, so the token can only travel via the emcee link.
+    if (request.method === "POST" && url.pathname.endsWith("/admin-token")) {
+      if (!this.hasClaimKey(request)) {
+        return new Response(JSON.stringify({ error: "Claiming a room requires the claim key" }), {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      if (this.adminAuth.claimed) {
+        return new Response(JSON.stringify({ error: "Room already has an admin" }), {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      this.adminAuth.claimed = true;
+      await this.persistAdminAuth();
+      return new Response(JSON.stringify({ token: this.adminAuth.secret }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Each moment holds every participant's region, i.e. their vote history, so reads need the token too.
+    if (request.method === "GET" && url.pathname.endsWith("/moments")) {
+      if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
+      return new Response(JSON.stringify(this.moments), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Bulk import (Polis CSVs) goes over HTTP because it can exceed the WebSocket message cap.
+    if (request.method === "POST" && url.pathname.endsWith("/moments")) {
+      if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
+      const body = await request.json().catch(() => null) as { moments?: unknown } | null;
+      if (!Array.isArray(body?.moments) || !body.moments.every(isMomentSnapshot)) {
+        return new Response(JSON.stringify({ error: "Expected { moments: MomentSnapshot[] }" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const imported = body.moments as MomentSnapshot[];
+      const previousIds = this.moments.map(m => m.id);
+      this.moments = mergeImportedMoments(this.moments, imported);
+      const keptIds = new Set(this.moments.map(m => m.id));
+      this.markSeen(imported.flatMap(m => Object.keys(m.regions)));
+      await this.persistMoments(imported, previousIds.filter(id => !keptIds.has(id)));
+      this.broadcastMomentsChanged();
+      return new Response(JSON.stringify(this.moments), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Recordings hold every participant's cursor trail, so even reading them needs the admin token.
+    if (request.method === "GET" && url.pathname.endsWith("/recordings")) {
+      if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
+      return new Response(JSON.stringify(this.recordings), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Uploaded files become ordinary stored recordings so the server can replay them. The
+    // body is compact NDJSON (plain or gzipped), stored chunk by chunk as it streams in.
+    if (request.method === "POST" && url.pathname.endsWith("/recordings")) {
+      if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
+      let meta: RecordingMeta;
+      try {
+        // Party.Request types its body with the workers' own ReadableStream declaration.
+        const body = request.body as unknown as ReadableStream<Uint8Array<ArrayBuffer>> | null;
+        if (!body) throw new Error("Empty compact recording");
+        meta = await importCompactRecording(this.room.storage, compactLinesOf(body));
+      } catch (e) {
+        return new Response(JSON.stringify({ error: `Expected a compact recording: ${(e as Error).message}` }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      this.saveRecordingMeta(meta);
+      return new Response(JSON.stringify(meta), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const recordingMatch = url.pathname.match(/\/recordings\/([^/]+)$/);
+    if (recordingMatch) {
+      if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
+      const meta = this.recordings.find(r => r.id === decodeURIComponent(recordingMatch[1]));
+      if (!meta) {
+        return new Response(JSON.stringify({ error: "Recording not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      if (request.method === "GET") {
+        if (this.recorder?.meta.id === meta.id) await this.recorder.flush();
+        const current = this.recordings.find(r => r.id === meta.id) ?? meta;
+        return new Response(compactRecordingBody(this.room.storage, current), {
+          headers: { "Content-Type": "application/x-ndjson" },
+        });
+      }
+      if (request.method === "DELETE") {
+        if (meta.active) {
+          return new Response(JSON.stringify({ error: "Stop the recording before deleting it" }), {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        this.recordings = this.recordings.filter(r => r.id !== meta.id);
+        await this.room.storage.put("recordings", this.recordings);
+        await deleteRecordingChunks(this.room.storage, meta);
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // V5 reactions kept in room storage (see party/lib/reactionEvents.ts). Like the Supabase
+    // table they stand in for, anyone in the room may add rows; clearing needs the admin token.
+    // Without Supabase's quota, posts are throttled per client address (the emcee's imports excepted)
+    // and the room stops taking rows at REACTION_ROW_LIMIT.
+    if (request.method === "GET" && url.pathname.endsWith("/reactions/config")) {
+      return new Response(JSON.stringify(this.reactionStorageConfig()), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (request.method === "GET" && url.pathname.endsWith("/reactions/count")) {
+      return new Response(JSON.stringify({ count: this.reactionEvents.count() }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (url.pathname.endsWith("/reactions")) {
+      // One window of at most REACTION_READ_WINDOW_SEC per request, so no response holds the
+      // whole room; `next` is where the caller continues, or null once the range is done.
+      if (request.method === "GET") {
+        const from = Math.max(0, Number(url.searchParams.get("from")) || 0);
+        const requestedTo = Number(url.searchParams.get("to") ?? Infinity);
+        const rangeEnd = Number.isNaN(requestedTo) ? Infinity : requestedTo;
+        const to = Math.min(rangeEnd, from + REACTION_READ_WINDOW_SEC);
+        const after = to < rangeEnd ? this.reactionEvents.nextTimecode(to) : null;
+        const page: ReactionEventPage = {
+          events: await this.reactionEvents.read(from, to),
+          next: after !== null && after < rangeEnd ? after : null,
+        };
+        return new Response(JSON.stringify(page), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      if (request.method === "POST") {
+        const body = await request.json().catch(() => null) as { events?: unknown } | null;
+        const events = body?.events;
+        if (!Array.isArray(events) || events.length > MAX_REACTIONS_PER_POST || !events.every(e => isNewReactionEvent(e, this.room.id))) {
+          return new Response(JSON.stringify({ error: `Expected { events: ReactionEvent[] } with at most ${MAX_REACTIONS_PER_POST} rows for this room` }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        if (this.reactionEvents.count() + events.length > reactionRowLimitFromEnv(this.room.env)) {
+          return new Response(JSON.stringify({ error: "This room's reaction storage is full" }), {
+            status: 507,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        if (!this.hasAdminBearer(request) && !this.withinReactionRateLimit(clientAddress(request), events.length)) {
+          return new Response(JSON.stringify({ error: "Too many reactions posted; try again shortly" }), {
+            status: 429,
+            headers: { "Content-Type": "application/json", "Retry-After": "1" },
+          });
+        }
+        await this.reactionEvents.append(events);
+        return new Response(JSON.stringify({ count: this.reactionEvents.count() }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      if (request.method === "DELETE") {
+        if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
+        if (this.reactionStorageConfig().protected) {
+          return new Response(JSON.stringify({ error: "Reactions in this room are protected" }), {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        await this.reactionEvents.clear();
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
     if (request.method === "GET" && url.pathname.endsWith("/github-submissions")) {
+      if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
       return new Response(JSON.stringify(this.githubSubmissions), {
         headers: { "Content-Type": "application/json" }
       });
     }
 
     if (request.method === "DELETE" && url.pathname.endsWith("/github-submissions")) {
+      if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
       this.githubSubmissions = [];
       return new Response(JSON.stringify({ success: true }), {
         headers: { "Content-Type": "application/json" }
@@ -617,18 +1737,20 @@ private pluginStates = new Map<string, unknown>(
     }
 
     if (request.method === "GET" && url.pathname.endsWith("/debug-state")) {
+      if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
       const raw = await this.room.storage.get<PersistedState>("state");
       const debugReplacer = (_k: string, v: unknown) => {
         if (v instanceof Map) return Object.fromEntries(v);
         if (v instanceof Set) return [...v];
         return v;
       };
-      return new Response(JSON.stringify({ raw, inMemoryPluginStates: Object.fromEntries(this.pluginStates) }, debugReplacer, 2), {
+      return new Response(JSON.stringify({ raw, inMemoryPluginStates: Object.fromEntries(this.pluginStates), rejectCounts: this.rejectCounts }, debugReplacer, 2), {
         headers: { "Content-Type": "application/json" },
       });
     }
 
     if (request.method === "DELETE" && url.pathname.endsWith("/debug-state")) {
+      if (!this.hasAdminBearer(request)) return this.adminTokenRequired();
       await this.room.storage.delete("state");
       return new Response(JSON.stringify({ success: true, message: "Persisted state deleted from storage" }), {
         headers: { "Content-Type": "application/json" },
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type * as Party from 'partykit/server';
+import Server from '../server';
+import { emptyAgenda, goToAgendaItem, stepAgenda, replaceAgendaItems } from '../lib/agenda';
+import type { AgendaItem, AgendaState } from '../../app/types';
+import { createMockRoom, createMockConnection, makeConnectCtx, mapStorage, TEST_ADMIN_SECRET } from './helpers/mockParty';
+
+vi.mock('../../app/utils/cursor', () => ({ SERVER_CURSOR_BATCH_MS: 0, CURSOR_THROTTLE_MS: 33 }));
+
+const items: AgendaItem[] = [
+  { id: 'a', statement: 'Cities should ban cars downtown', durationSec: 30 },
+  { id: 'b', statement: 'Transit should be free', labels: { positive: 'Yes', negative: 'No', neutral: 'Unsure' } },
+];
+
+describe('agenda state', () => {
+  const agenda: AgendaState = { ...emptyAgenda(), items };
+
+  it('steps through the items and ends after the last', () => {
+    const first = stepAgenda(agenda, 'next', 1000);
+    expect(first).toMatchObject({ currentIndex: 0, itemEndsAt: 31_000 });
+    const second = stepAgenda(first, 'next', 2000);
+    expect(second).toMatchObject({ currentIndex: 1, itemEndsAt: null });
+    expect(stepAgenda(second, 'next', 3000)).toMatchObject({ currentIndex: null, ended: true });
+  });
+
+  it('next after the end does not restart the agenda', () => {
+    const ended = goToAgendaItem(agenda, null, 0);
+    expect(stepAgenda(ended, 'next', 1000)).toBe(ended);
+  });
+
+  it('previous stays put before the start and on the first item, and returns to the last after the end', () => {
+    expect(stepAgenda(agenda, 'previous', 0)).toBe(agenda);
+    expect(stepAgenda(goToAgendaItem(agenda, 0, 0), 'previous', 0).currentIndex).toBe(0);
+    expect(stepAgenda(goToAgendaItem(agenda, null, 0), 'previous', 0)).toMatchObject({ currentIndex: 1, ended: false });
+  });
+
+  it('keeps the current item across edits by id', () => {
+    const running = goToAgendaItem(agenda, 0, 1000);
+    const reordered = replaceAgendaItems(running, [items[1], items[0]]);
+    expect(reordered).toMatchObject({ currentIndex: 1, itemEndsAt: 31_000 });
+    expect(replaceAgendaItems(running, [items[1]])).toMatchObject({ currentIndex: null, itemEndsAt: null });
+  });
+});
+
+describe('server agenda', () => {
+  let connections: Party.Connection[];
+  let room: Party.Room;
+  let broadcast: ReturnType<typeof vi.fn>;
+  let server: Server;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    connections = [];
+    ({ room, broadcast } = createMockRoom(connections));
+    server = new Server(room);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function connect(userId: string, opts: { isAdmin?: boolean } = {}) {
+    const { conn, send } = createMockConnection(`conn-${userId}`);
+    connections.push(conn);
+    server.onConnect(conn, makeConnectCtx(userId, opts));
+    return { conn, send };
+  }
+
+  const send = (conn: Party.Connection, event: object) => server.onMessage(JSON.stringify(event), conn);
+  const broadcasts = () => broadcast.mock.calls.map(([m]) => JSON.parse(m as string));
+  const lastAgenda = () => broadcasts().filter(m => m.type === 'agendaChanged').pop()?.agenda as AgendaState;
+
+  it('applies each item as it becomes current', () => {
+    const { conn } = connect('admin', { isAdmin: true });
+    send(conn, { type: 'setAgenda', items });
+    send(conn, { type: 'advanceAgenda', direction: 'next' });
+    expect(broadcasts()).toContainEqual({ type: 'nowLabelChanged', label: items[0].statement });
+    expect(lastAgenda()).toMatchObject({ currentIndex: 0 });
+
+    send(conn, { type: 'advanceAgenda', direction: 'next' });
+    expect(broadcasts()).toContainEqual({ type: 'roomLabelsChanged', labels: items[1].labels });
+    expect(broadcasts()).toContainEqual({ type: 'nowLabelChanged', label: items[1].statement });
+  });
+
+  it('ignores next once the agenda has ended', () => {
+    const { conn } = connect('admin', { isAdmin: true });
+    send(conn, { type: 'setAgenda', items });
+    for (let i = 0; i < items.length + 1; i++) send(conn, { type: 'advanceAgenda', direction: 'next' });
+    expect(lastAgenda()).toMatchObject({ currentIndex: null, ended: true });
+    const sent = broadcast.mock.calls.length;
+
+    send(conn, { type: 'advanceAgenda', direction: 'next' });
+    expect(broadcast.mock.calls.length).toBe(sent);
+  });
+
+  it('auto-advance snaps a moment labelled with the statement when the item ends', async () => {
+    const { conn } = connect('admin', { isAdmin: true });
+    connect('alice');
+    send(conn, { type: 'setAgenda', items });
+    send(conn, { type: 'setAgendaAutoAdvance', autoAdvance: true });
+    send(conn, { type: 'advanceAgenda', direction: 'next' });
+    const { itemEndsAt } = lastAgenda();
+    expect(room.storage.setAlarm).toHaveBeenLastCalledWith(itemEndsAt);
+
+    await server.onAlarm();
+
+    const res = await server.onRequest({ method: 'GET', url: 'https://test.example.com/moments', headers: new Headers({ Authorization: `Bearer ${TEST_ADMIN_SECRET}` }) } as unknown as Party.Request);
+    expect(await res.json()).toMatchObject([{ label: items[0].statement, regions: { alice: null } }]);
+    expect(lastAgenda()).toMatchObject({ currentIndex: 1, itemEndsAt: null });
+    // The second item is untimed, so nothing is left for the alarm.
+    expect(room.storage.deleteAlarm).toHaveBeenCalled();
+  });
+
+  it('shares the alarm with a pending flash timer', async () => {
+    const { conn } = connect('admin', { isAdmin: true });
+    send(conn, { type: 'setAgenda', items });
+    send(conn, { type: 'setAgendaAutoAdvance', autoAdvance: true });
+    send(conn, { type: 'advanceAgenda', direction: 'next' });
+    const { itemEndsAt } = lastAgenda();
+    send(conn, { type: 'startFlashTimer', endTimestamp: itemEndsAt! - 10_000, label: 'Early' });
+    expect(room.storage.setAlarm).toHaveBeenLastCalledWith(itemEndsAt! - 10_000);
+
+    await server.onAlarm();
+    expect(lastAgenda()).toMatchObject({ currentIndex: 0 });
+    expect(room.storage.setAlarm).toHaveBeenLastCalledWith(itemEndsAt);
+  });
+
+  it('with persistence disabled, a restart keeps a pending flash timer but not the agenda', async () => {
+    room.env.DISABLE_STORAGE_PERSISTENCE = 'true';
+    (room as { storage: Party.Storage }).storage = mapStorage();
+    const { conn } = connect('admin', { isAdmin: true });
+    send(conn, { type: 'setAgenda', items });
+    send(conn, { type: 'setAgendaAutoAdvance', autoAdvance: true });
+    send(conn, { type: 'advanceAgenda', direction: 'next' });
+    const { itemEndsAt } = lastAgenda();
+    send(conn, { type: 'startFlashTimer', endTimestamp: itemEndsAt! + 10_000, label: 'Late' });
+
+    const restarted = new Server(room);
+    await restarted.onStart();
+    expect(room.storage.setAlarm).toHaveBeenLastCalledWith(itemEndsAt! + 10_000);
+    const { conn: alice, send: aliceSend } = createMockConnection('conn-alice');
+    restarted.onConnect(alice, makeConnectCtx('alice'));
+    const connected = aliceSend.mock.calls.map(([m]) => JSON.parse(m as string)).find(m => m.type === 'connected');
+    expect(connected.flashTimer).toEqual({ endTimestamp: itemEndsAt! + 10_000, label: 'Late' });
+    expect(connected.agenda).toMatchObject({ items: [], currentIndex: null });
+  });
+
+  it('clears an alarm left for an agenda that was not restored', async () => {
+    room.env.DISABLE_STORAGE_PERSISTENCE = 'true';
+    const restarted = new Server(room);
+    await restarted.onStart();
+    expect(room.storage.deleteAlarm).toHaveBeenCalled();
+    expect(room.storage.setAlarm).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed items and non-admin senders', () => {
+    const { conn, send: adminSend } = connect('admin', { isAdmin: true });
+    send(conn, { type: 'setAgenda', items: [{ id: 'x', statement: 'ok', durationSec: 0 }] });
+    expect(JSON.parse(adminSend.mock.calls.pop()![0] as string)).toMatchObject({ type: 'error', code: 'invalid' });
+
+    const { conn: alice, send: aliceSend } = connect('alice');
+    send(alice, { type: 'advanceAgenda', direction: 'next' });
+    expect(JSON.parse(aliceSend.mock.calls.pop()![0] as string)).toMatchObject({ type: 'error', code: 'forbidden' });
+  });
+
+  it('includes the agenda in the connected snapshot', () => {
+    const { conn } = connect('admin', { isAdmin: true });
+    send(conn, { type: 'setAgenda', items });
+    const { send: aliceSend } = connect('alice');
+    const connected = aliceSend.mock.calls.map(([m]) => JSON.parse(m as string)).find(m => m.type === 'connected');
+    expect(connected.agenda).toMatchObject({ items, currentIndex: null });
+  });
+});
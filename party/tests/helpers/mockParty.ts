@@ -1,17 +1,22 @@
 import { vi } from 'vitest';
 import type * as Party from 'partykit/server';
 
+// Deployment-wide recovery key set on every mock room, so `isAdmin: true` connections
+// are privileged without each test having to claim the room first.
+export const TEST_ADMIN_SECRET = 'test-admin-secret';
+
 export function createMockConnection(id: string) {
   const send = vi.fn();
-  const conn = { id, send } as unknown as Party.Connection;
-  return { conn, send };
+  const close = vi.fn();
+  const conn = { id, send, close } as unknown as Party.Connection;
+  return { conn, send, close };
 }
 
 export function createMockRoom(connections: Party.Connection[] = []) {
   const broadcast = vi.fn();
   const room = {
     id: 'test-room',
-    env: {} as Record<string, unknown>,
+    env: { ADMIN_SECRET: TEST_ADMIN_SECRET } as Record<string, unknown>,
     broadcast,
     getConnections: () => connections[Symbol.iterator](),
     getConnection: (id: string) => connections.find(c => c.id === id),
@@ -19,16 +24,37 @@ export function createMockRoom(connections: Party.Connection[] = []) {
       get: vi.fn().mockResolvedValue(undefined),
       put: vi.fn().mockResolvedValue(undefined),
       delete: vi.fn().mockResolvedValue(undefined),
+      setAlarm: vi.fn().mockResolvedValue(undefined),
+      deleteAlarm: vi.fn().mockResolvedValue(undefined),
     },
   } as unknown as Party.Room;
   return { room, broadcast };
 }
 
-export function makeConnectCtx(userId: string, opts: { isAdmin?: boolean; host?: string } = {}): Party.ConnectionContext {
+// Map-backed stand-in for tests that write values and read them back.
+export function mapStorage(): Party.Storage {
+  const data = new Map<string, unknown>();
+  return {
+    get: vi.fn(async (key: string) => data.get(key)),
+    put: vi.fn(async (key: string, value: unknown) => { data.set(key, value); }),
+    delete: vi.fn(async (key: string) => data.delete(key)),
+    setAlarm: vi.fn().mockResolvedValue(undefined),
+    deleteAlarm: vi.fn().mockResolvedValue(undefined),
+  } as unknown as Party.Storage;
+}
+
+// `adminToken` defaults to TEST_ADMIN_SECRET for admins; pass null for an unauthenticated ?isAdmin=true.
+export function makeConnectCtx(userId: string, opts: { isAdmin?: boolean; adminToken?: string | null; host?: string; cursorFormat?: 'json' | 'binary'; address?: string } = {}): Party.ConnectionContext {
   const params = new URLSearchParams({ userId });
   if (opts.isAdmin) params.set('isAdmin', 'true');
+  if (opts.cursorFormat) params.set('cursorFormat', opts.cursorFormat);
+  const adminToken = opts.adminToken !== undefined ? opts.adminToken : (opts.isAdmin ? TEST_ADMIN_SECRET : null);
+  if (adminToken) params.set('adminToken', adminToken);
   const host = opts.host ?? 'test.example.com';
   return {
-    request: { url: `https://${host}/?${params}` } as unknown as Party.Request,
+    request: {
+      url: `https://${host}/?${params}`,
+      headers: new Headers(opts.address ? { 'cf-connecting-ip': opts.address } : {}),
+    } as unknown as Party.Request,
   };
 }
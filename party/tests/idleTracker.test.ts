@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { IdleTracker, DEFAULT_IDLE_TIMEOUT_MS, idleTimeoutFromEnv } from '../lib/idleTracker';
+
+describe('IdleTracker', () => {
+  it('reports a user once when they pass the timeout', () => {
+    const tracker = new IdleTracker(1000);
+    tracker.touch('alice', 0);
+    tracker.touch('bob', 500);
+    expect(tracker.sweep(999)).toEqual([]);
+    expect(tracker.sweep(1000)).toEqual(['alice']);
+    expect(tracker.sweep(1200)).toEqual([]); // already idle
+    expect(tracker.idleUserIds()).toEqual(['alice']);
+  });
+
+  it('brings an idle user back on activity', () => {
+    const tracker = new IdleTracker(1000);
+    tracker.touch('alice', 0);
+    tracker.sweep(1000);
+    expect(tracker.touch('alice', 1500)).toBe(true);
+    expect(tracker.isIdle('alice')).toBe(false);
+    expect(tracker.touch('alice', 1600)).toBe(false);
+    expect(tracker.sweep(2499)).toEqual([]);
+  });
+
+  it('forgets users entirely', () => {
+    const tracker = new IdleTracker(1000);
+    tracker.touch('alice', 0);
+    tracker.sweep(1000);
+    tracker.forget('alice');
+    expect(tracker.size).toBe(0);
+    expect(tracker.isIdle('alice')).toBe(false);
+  });
+});
+
+describe('idleTimeoutFromEnv', () => {
+  it('reads CURSOR_IDLE_TIMEOUT_SEC, falling back to the default', () => {
+    expect(idleTimeoutFromEnv({ CURSOR_IDLE_TIMEOUT_SEC: '5' })).toBe(5000);
+    expect(idleTimeoutFromEnv({ CURSOR_IDLE_TIMEOUT_SEC: 'soon' })).toBe(DEFAULT_IDLE_TIMEOUT_MS);
+    expect(idleTimeoutFromEnv({})).toBe(DEFAULT_IDLE_TIMEOUT_MS);
+  });
+});
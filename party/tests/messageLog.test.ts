@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { MessageLog, MESSAGE_LOG_SIZE, MESSAGE_LOG_MAX_AGE_MS } from '../lib/messageLog';
+
+describe('MessageLog', () => {
+  it('stamps each message with the next seq, first', () => {
+    const log = new MessageLog();
+    expect(log.record({ type: 'hapticPushed' }, null, 0)).toBe('{"seq":1,"type":"hapticPushed"}');
+    expect(log.record({ type: 'hapticPushed' }, ['alice'], 0)).toBe('{"seq":2,"type":"hapticPushed"}');
+    expect(log.lastSeq).toBe(2);
+  });
+
+  it('returns what a user was sent after a seq', () => {
+    const log = new MessageLog();
+    log.record({ type: 'a' }, null, 0);
+    log.record({ type: 'b' }, ['bob'], 0);
+    log.record({ type: 'c' }, ['alice', 'bob'], 0);
+    expect(log.since(log.epoch, 1, 'alice', 0)).toEqual(['{"seq":3,"type":"c"}']);
+    expect(log.since(log.epoch, 0, 'bob', 0)).toHaveLength(3);
+    expect(log.since(log.epoch, 3, 'bob', 0)).toEqual([]);
+  });
+
+  it("can't answer for another epoch or a seq it never issued", () => {
+    const log = new MessageLog();
+    log.record({ type: 'a' }, null, 0);
+    expect(log.since('other', 0, 'alice', 0)).toBeNull();
+    expect(log.since(log.epoch, 5, 'alice', 0)).toBeNull();
+  });
+
+  it("can't answer once part of the gap has been dropped", () => {
+    const log = new MessageLog();
+    for (let i = 0; i <= MESSAGE_LOG_SIZE; i++) log.record({ type: 'a' }, null, 0);
+    expect(log.since(log.epoch, 0, 'alice', 0)).toBeNull();
+    expect(log.since(log.epoch, 1, 'alice', 0)).toHaveLength(MESSAGE_LOG_SIZE);
+
+    expect(log.since(log.epoch, 1, 'alice', MESSAGE_LOG_MAX_AGE_MS + 1)).toBeNull();
+    expect(log.since(log.epoch, log.lastSeq, 'alice', MESSAGE_LOG_MAX_AGE_MS + 1)).toEqual([]);
+  });
+});
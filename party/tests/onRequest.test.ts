@@ -1,6 +1,6 @@
 /**
  * HTTP surface tests for the PartyKit server: the `onRequest` REST endpoints
- * (github submissions, debug-state).
+ * (admin token claim, moments, V5 reactions, github submissions, debug-state).
  *
  * Plugins are mocked out to an empty registry so these tests exercise only the
  * server's own request handling, not plugin `onRequest` delegation (which is a
@@ -10,20 +10,26 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import type * as Party from 'partykit/server';
 import Server from '../server';
-import { createMockRoom } from './helpers/mockParty';
+import { createMockRoom, createMockConnection, makeConnectCtx, mapStorage, TEST_ADMIN_SECRET } from './helpers/mockParty';
 
 vi.mock('../../plugins/index', () => ({ PLUGINS: [], PLUGIN_MAP: {} }));
+// With the registry empty there is no soccer state for the connected snapshot to read.
+vi.mock('../../plugins/soccer/server', () => ({
+  getSoccerBallState: () => null,
+  getSoccerScore:     () => ({ left: 0, right: 0 }),
+}));
 // Immediate broadcasts (no cursor batching) keep async assertions simple.
-vi.mock('../../app/utils/cursor', () => ({ SERVER_CURSOR_BATCH_MS: 0 }));
+vi.mock('../../app/utils/cursor', () => ({ SERVER_CURSOR_BATCH_MS: 0, CURSOR_THROTTLE_MS: 33 }));
 
 function makeRequest(
   method: string,
   path: string,
-  opts: { json?: unknown } = {},
+  opts: { json?: unknown; headers?: Record<string, string> } = {},
 ): Party.Request {
   return {
     method,
     url: `https://test.example.com${path}`,
+    headers: new Headers(opts.headers),
     json: async () => {
       if ('json' in opts) return opts.json;
       throw new SyntaxError('Unexpected end of JSON input');
@@ -46,33 +52,231 @@ describe('Server.onRequest', () => {
     vi.restoreAllMocks();
   });
 
+  // ── POST /admin-token ───────────────────────────────────────────────────────
+
+  describe('admin-token endpoint', () => {
+    const claim = (key = 'claim-key') => makeRequest('POST', '/admin-token', { headers: { Authorization: `Bearer ${key}` } });
+
+    beforeEach(() => {
+      room.env.ADMIN_CLAIM_KEY = 'claim-key';
+    });
+
+    it('hands the secret to the first caller with the claim key only', async () => {
+      expect((await server.onRequest(makeRequest('POST', '/admin-token'))).status).toBe(403);
+      expect((await server.onRequest(claim('guess'))).status).toBe(403);
+
+      const first = await server.onRequest(claim());
+      const { token } = await first.json();
+      expect(typeof token).toBe('string');
+      expect(token.length).toBeGreaterThan(16);
+
+      const second = await server.onRequest(claim());
+      expect(second.status).toBe(403);
+    });
+
+    it('also accepts the ADMIN_SECRET recovery key', async () => {
+      const res = await server.onRequest(claim(TEST_ADMIN_SECRET));
+      expect(typeof (await res.json()).token).toBe('string');
+    });
+
+    it('keeps the claimed secret across restarts with persistence disabled', async () => {
+      room.env.DISABLE_STORAGE_PERSISTENCE = 'true';
+      (room as { storage: Party.Storage }).storage = mapStorage();
+      const { token } = await (await server.onRequest(claim())).json();
+
+      const restarted = new Server(room);
+      await restarted.onStart();
+      expect((await restarted.onRequest(claim())).status).toBe(403);
+      const { conn, send } = createMockConnection('conn-admin');
+      restarted.onConnect(conn, makeConnectCtx('emcee', { isAdmin: true, adminToken: token }));
+      const connected = send.mock.calls.map(([m]) => JSON.parse(m as string)).find((m) => m.type === 'connected');
+      expect(connected).toMatchObject({ isAdmin: true });
+    });
+
+    it('the claimed token authorizes an admin connection', async () => {
+      const res = await server.onRequest(claim());
+      const { token } = await res.json();
+      const { conn, send } = createMockConnection('conn-admin');
+      server.onConnect(conn, makeConnectCtx('emcee', { isAdmin: true, adminToken: token }));
+      const connected = send.mock.calls.map(([m]) => JSON.parse(m as string)).find((m) => m.type === 'connected');
+      expect(connected).toMatchObject({ isAdmin: true });
+    });
+  });
+
+  // ── GET / POST /moments ─────────────────────────────────────────────────────
+
+  describe('moments endpoints', () => {
+    const moment = { id: 'm1', label: 'Statement 1', timestamp: 1000, regions: { alice: 'positive', bob: null } };
+    const auth = { Authorization: `Bearer ${TEST_ADMIN_SECRET}` };
+
+    it('GET starts empty', async () => {
+      const res = await server.onRequest(makeRequest('GET', '/moments', { headers: auth }));
+      expect(await res.json()).toEqual([]);
+    });
+
+    it('GET without the admin token is forbidden', async () => {
+      await server.onRequest(makeRequest('POST', '/moments', { json: { moments: [moment] }, headers: auth }));
+      const res = await server.onRequest(makeRequest('GET', '/moments'));
+      expect(res.status).toBe(403);
+    });
+
+    it('POST without the admin token is forbidden', async () => {
+      const res = await server.onRequest(makeRequest('POST', '/moments', { json: { moments: [moment] } }));
+      expect(res.status).toBe(403);
+    });
+
+    it('POST rejects malformed moments', async () => {
+      const bad = { ...moment, regions: { alice: 'maybe' } };
+      const res = await server.onRequest(makeRequest('POST', '/moments', { json: { moments: [bad] }, headers: auth }));
+      expect(res.status).toBe(400);
+    });
+
+    it('POST imports moments, replacing same-label ones', async () => {
+      await server.onRequest(makeRequest('POST', '/moments', { json: { moments: [moment] }, headers: auth }));
+      const replaced = { ...moment, id: 'm2', regions: { alice: 'negative' } };
+      await server.onRequest(makeRequest('POST', '/moments', { json: { moments: [replaced] }, headers: auth }));
+
+      const res = await server.onRequest(makeRequest('GET', '/moments', { headers: auth }));
+      expect(await res.json()).toEqual([replaced]);
+      expect(room.broadcast).toHaveBeenLastCalledWith(JSON.stringify({ type: 'momentsChanged', count: 1 }));
+    });
+  });
+
   // ── GET / DELETE /github-submissions ────────────────────────────────────────
 
   describe('github-submissions endpoints', () => {
+    const auth = { Authorization: `Bearer ${TEST_ADMIN_SECRET}` };
+
     it('returns an empty list and clears on DELETE', async () => {
-      const get = await server.onRequest(makeRequest('GET', '/github-submissions'));
+      const get = await server.onRequest(makeRequest('GET', '/github-submissions', { headers: auth }));
       expect(await get.json()).toEqual([]);
 
-      const del = await server.onRequest(makeRequest('DELETE', '/github-submissions'));
+      const del = await server.onRequest(makeRequest('DELETE', '/github-submissions', { headers: auth }));
       expect(await del.json()).toEqual({ success: true });
     });
+
+    it('needs the admin token', async () => {
+      expect((await server.onRequest(makeRequest('GET', '/github-submissions'))).status).toBe(403);
+      expect((await server.onRequest(makeRequest('DELETE', '/github-submissions'))).status).toBe(403);
+    });
+  });
+
+  // ── GET / POST / DELETE /reactions ──────────────────────────────────────────
+
+  describe('reactions endpoints', () => {
+    const auth = { Authorization: `Bearer ${TEST_ADMIN_SECRET}` };
+    const row = { room: 'test-room', session_id: 's1', type: 'move', x: 10, y: 20, timecode: 4 };
+
+    beforeEach(() => {
+      (room as { storage: Party.Storage }).storage = mapStorage();
+      server = new Server(room);
+    });
+
+    function setStorage(config: { store: 'supabase' | 'partykit' | null; protected: boolean }) {
+      const { conn } = createMockConnection('conn-admin');
+      server.onConnect(conn, makeConnectCtx('admin', { isAdmin: true }));
+      server.onMessage(JSON.stringify({ type: 'setReactionStorage', ...config }), conn);
+    }
+
+    it('stores posted rows and reads them back by timecode', async () => {
+      const post = await server.onRequest(makeRequest('POST', '/reactions', { json: { events: [row, { ...row, timecode: 30 }] } }));
+      expect(await post.json()).toEqual({ count: 2 });
+
+      const res = await server.onRequest(makeRequest('GET', '/reactions?from=0&to=10'));
+      expect(await res.json()).toEqual({ events: [expect.objectContaining({ ...row, id: 1 })], next: null });
+      const count = await server.onRequest(makeRequest('GET', '/reactions/count'));
+      expect(await count.json()).toEqual({ count: 2 });
+    });
+
+    it('GET pages a long range a window at a time, skipping stretches with no rows', async () => {
+      await server.onRequest(makeRequest('POST', '/reactions', { json: { events: [4, 70, 500].map(timecode => ({ ...row, timecode })) } }));
+      const page = async (path: string) => (await server.onRequest(makeRequest('GET', path))).json();
+      expect(await page('/reactions')).toMatchObject({ events: [{ timecode: 4 }], next: 70 });
+      expect(await page('/reactions?from=70')).toMatchObject({ events: [{ timecode: 70 }], next: 500 });
+      expect(await page('/reactions?from=70&to=400')).toMatchObject({ events: [{ timecode: 70 }], next: null });
+      expect(await page('/reactions?from=500')).toMatchObject({ events: [{ timecode: 500 }], next: null });
+    });
+
+    it('POST rejects rows for another room', async () => {
+      const res = await server.onRequest(makeRequest('POST', '/reactions', { json: { events: [{ ...row, room: 'elsewhere' }] } }));
+      expect(res.status).toBe(400);
+    });
+
+    const rows = (n: number, address = '203.0.113.1') => ({
+      json: { events: Array.from({ length: n }, (_, i) => ({ ...row, timecode: i })) },
+      headers: { 'cf-connecting-ip': address },
+    });
+
+    it('POST throttles rows per client address, except from the emcee', async () => {
+      room.env.RATE_LIMIT_REACTIONS = '1,3';
+      expect((await server.onRequest(makeRequest('POST', '/reactions', rows(3)))).status).toBe(200);
+      const throttled = await server.onRequest(makeRequest('POST', '/reactions', rows(1)));
+      expect(throttled.status).toBe(429);
+      expect((await server.onRequest(makeRequest('POST', '/reactions', rows(3, '203.0.113.2')))).status).toBe(200);
+      expect((await server.onRequest(makeRequest('POST', '/reactions', { ...rows(5), headers: auth }))).status).toBe(200);
+      expect(await (await server.onRequest(makeRequest('GET', '/reactions/count'))).json()).toEqual({ count: 11 });
+    });
+
+    it('POST allows an address more rows for each live connection from it', async () => {
+      room.env.RATE_LIMIT_REACTIONS = '1,3';
+      for (const userId of ['alice', 'bob']) {
+        server.onConnect(createMockConnection(`conn-${userId}`).conn, makeConnectCtx(userId, { address: '203.0.113.1' }));
+      }
+      expect((await server.onRequest(makeRequest('POST', '/reactions', rows(6)))).status).toBe(200);
+      expect((await server.onRequest(makeRequest('POST', '/reactions', rows(1)))).status).toBe(429);
+    });
+
+    it('POST refuses rows past the room limit', async () => {
+      room.env.REACTION_ROW_LIMIT = '2';
+      expect((await server.onRequest(makeRequest('POST', '/reactions', { json: { events: [row, row] } }))).status).toBe(200);
+      const full = await server.onRequest(makeRequest('POST', '/reactions', { json: { events: [row] }, headers: auth }));
+      expect(full.status).toBe(507);
+      expect(await (await server.onRequest(makeRequest('GET', '/reactions/count'))).json()).toEqual({ count: 2 });
+    });
+
+    it('reports the room storage config', async () => {
+      setStorage({ store: 'partykit', protected: true });
+      const res = await server.onRequest(makeRequest('GET', '/reactions/config'));
+      expect(await res.json()).toEqual({ store: 'partykit', protected: true });
+    });
+
+    it('DELETE needs the admin token and refuses protected rooms', async () => {
+      await server.onRequest(makeRequest('POST', '/reactions', { json: { events: [row] } }));
+      expect((await server.onRequest(makeRequest('DELETE', '/reactions'))).status).toBe(403);
+
+      setStorage({ store: 'partykit', protected: true });
+      expect((await server.onRequest(makeRequest('DELETE', '/reactions', { headers: auth }))).status).toBe(409);
+
+      setStorage({ store: 'partykit', protected: false });
+      const res = await server.onRequest(makeRequest('DELETE', '/reactions', { headers: auth }));
+      expect(await res.json()).toEqual({ success: true });
+      expect(await (await server.onRequest(makeRequest('GET', '/reactions'))).json()).toEqual({ events: [], next: null });
+    });
   });
 
   // ── debug-state ─────────────────────────────────────────────────────────────
 
   describe('debug-state endpoints', () => {
+    const auth = { Authorization: `Bearer ${TEST_ADMIN_SECRET}` };
+
     it('GET reads persisted state from storage', async () => {
-      const res = await server.onRequest(makeRequest('GET', '/debug-state'));
+      const res = await server.onRequest(makeRequest('GET', '/debug-state', { headers: auth }));
       const body = await res.json();
       expect(room.storage.get).toHaveBeenCalledWith('state');
       expect(body).toHaveProperty('inMemoryPluginStates');
     });
 
     it('DELETE removes persisted state from storage', async () => {
-      const res = await server.onRequest(makeRequest('DELETE', '/debug-state'));
+      const res = await server.onRequest(makeRequest('DELETE', '/debug-state', { headers: auth }));
       expect(room.storage.delete).toHaveBeenCalledWith('state');
       expect(await res.json()).toEqual({ success: true, message: 'Persisted state deleted from storage' });
     });
+
+    it('needs the admin token', async () => {
+      expect((await server.onRequest(makeRequest('GET', '/debug-state'))).status).toBe(403);
+      expect((await server.onRequest(makeRequest('DELETE', '/debug-state'))).status).toBe(403);
+      expect(room.storage.delete).not.toHaveBeenCalledWith('state');
+    });
   });
 
   // ── default response ────────────────────────────────────────────────────────
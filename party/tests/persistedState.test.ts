@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type * as Party from 'partykit/server';
+import Server from '../server';
+import { migratePersistedState } from '../lib/persistedState';
+import { PERSISTED_STATE_VERSION } from '../types';
+import type { PersistedState } from '../types';
+import { createMockRoom, createMockConnection, makeConnectCtx } from './helpers/mockParty';
+
+describe('migratePersistedState', () => {
+  it('upgrades an unversioned v1 state, keeping plugin states', () => {
+    const migrated = migratePersistedState({ pluginStates: { greeter: { eventUrl: 'https://x' } } });
+    expect(migrated).toEqual({ version: PERSISTED_STATE_VERSION, pluginStates: { greeter: { eventUrl: 'https://x' } } });
+  });
+
+  it('adds unset reaction storage settings to a v2 room config', () => {
+    const migrated = migratePersistedState({ version: 2, pluginStates: {}, roomConfig: { userCap: 5 } } as unknown as PersistedState);
+    expect(migrated?.roomConfig).toEqual({
+      userCap: 5, reactionStore: null, reactionsProtected: null, cursorMode: 'individual', densityThreshold: 300,
+      queueReservationSec: null,
+    });
+    expect(migrated?.version).toBe(PERSISTED_STATE_VERSION);
+  });
+
+  it('keeps individual cursors for a v3 room config', () => {
+    const migrated = migratePersistedState({ version: 3, roomConfig: { userCap: 5 } } as unknown as PersistedState);
+    expect(migrated?.roomConfig).toEqual({ userCap: 5, cursorMode: 'individual', densityThreshold: 300, queueReservationSec: null });
+  });
+
+  it('leaves the queue reservation off for a v4 room config', () => {
+    const migrated = migratePersistedState({ version: 4, roomConfig: { userCap: 5 } } as unknown as PersistedState);
+    expect(migrated?.roomConfig).toEqual({ userCap: 5, queueReservationSec: null });
+  });
+
+  it('passes a current state through', () => {
+    const state: PersistedState = { version: PERSISTED_STATE_VERSION, pluginStates: {} };
+    expect(migratePersistedState(state)).toEqual(state);
+  });
+
+  it('refuses states written by a newer server', () => {
+    expect(migratePersistedState({ version: PERSISTED_STATE_VERSION + 1 } as unknown as PersistedState)).toBeNull();
+  });
+
+  it('returns null when nothing was saved', () => {
+    expect(migratePersistedState(undefined)).toBeNull();
+  });
+});
+
+describe('room config persistence', () => {
+  let room: Party.Room;
+  let server: Server;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    ({ room } = createMockRoom([]));
+    server = new Server(room);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function lastSavedState(): PersistedState {
+    const calls = (room.storage.put as ReturnType<typeof vi.fn>).mock.calls.filter(([key]) => key === 'state');
+    return calls[calls.length - 1][1] as PersistedState;
+  }
+
+  it('saves emcee config changes and restores them after a restart', async () => {
+    const { conn: admin } = createMockConnection('conn-admin');
+    server.onConnect(admin, makeConnectCtx('admin', { isAdmin: true }));
+    const send = (event: object) => server.onMessage(JSON.stringify(event), admin);
+    send({ type: 'setRoomLabels', labels: { positive: 'Yes', negative: 'No', neutral: 'Meh' } });
+    send({ type: 'setUserCap', cap: 12 });
+    send({ type: 'setNowLabel', label: 'Q&A' });
+    send({ type: 'setValenceInputMode', mode: 'orientation-vertical' });
+    send({ type: 'registerCustomAvatar', userId: 'alice', photoUrl: 'https://example.com/a.png' });
+    send({ type: 'recordInvitations', edges: [['alice', 'bob']] });
+    send({ type: 'setReactionStorage', store: 'partykit', protected: false });
+    send({ type: 'setCursorMode', mode: 'auto', threshold: 50 });
+    send({ type: 'setQueueReservation', seconds: 45 });
+
+    const saved = lastSavedState();
+    expect(saved.version).toBe(PERSISTED_STATE_VERSION);
+
+    const { room: restartedRoom } = createMockRoom([]);
+    (restartedRoom.storage.get as ReturnType<typeof vi.fn>).mockImplementation(async (key: string) => (key === 'state' ? saved : undefined));
+    const restarted = new Server(restartedRoom);
+    await restarted.onStart();
+
+    const { conn, send: connSend } = createMockConnection('conn-carol');
+    restarted.onConnect(conn, makeConnectCtx('carol'));
+    const connected = connSend.mock.calls.map(([m]) => JSON.parse(m as string)).find((m) => m.type === 'connected');
+    expect(connected).toMatchObject({
+      roomLabels: { positive: 'Yes', negative: 'No', neutral: 'Meh' },
+      userCap: 12,
+      nowLabel: 'Q&A',
+      valenceInputMode: 'orientation-vertical',
+      customAvatars: { alice: 'https://example.com/a.png' },
+      inviteEdges: { bob: 'alice' },
+      reactionStorage: { store: 'partykit', protected: false },
+      cursorMode: { mode: 'auto', threshold: 50, active: false },
+      waitingQueue: { queue: [], reservationSec: 45 },
+    });
+  });
+
+  it('does not write storage when persistence is disabled', () => {
+    room.env.DISABLE_STORAGE_PERSISTENCE = 'true';
+    const { conn: admin } = createMockConnection('conn-admin');
+    server.onConnect(admin, makeConnectCtx('admin', { isAdmin: true }));
+    server.onMessage(JSON.stringify({ type: 'setNowLabel', label: 'Q&A' }), admin);
+    expect(room.storage.put).not.toHaveBeenCalled();
+  });
+
+  describe('participant-driven changes', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const stateWrites = () => (room.storage.put as ReturnType<typeof vi.fn>).mock.calls.filter(([key]) => key === 'state');
+
+    it('coalesces a burst of avatar registrations and invitations into one write', () => {
+      const { conn } = createMockConnection('conn-alice');
+      server.onConnect(conn, makeConnectCtx('alice'));
+      for (let i = 0; i < 2; i++) {
+        server.onMessage(JSON.stringify({ type: 'registerCustomAvatar', userId: 'alice', photoUrl: `https://example.com/${i}.png` }), conn);
+        server.onMessage(JSON.stringify({ type: 'recordInvitations', edges: [['alice', `guest-${i}`]] }), conn);
+      }
+      expect(stateWrites()).toHaveLength(0);
+
+      vi.advanceTimersByTime(2000);
+      expect(stateWrites()).toHaveLength(1);
+      expect(lastSavedState().roomConfig).toMatchObject({
+        customAvatars: { alice: 'https://example.com/1.png' },
+        inviteEdges: { 'guest-0': 'alice', 'guest-1': 'alice' },
+      });
+    });
+
+    it('logs a failed write instead of leaving the rejection unhandled', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      (room.storage.put as ReturnType<typeof vi.fn>).mockImplementation(async (key: string) => {
+        if (key === 'state') throw new Error('storage full');
+      });
+      const { conn } = createMockConnection('conn-alice');
+      server.onConnect(conn, makeConnectCtx('alice'));
+      server.onMessage(JSON.stringify({ type: 'registerCustomAvatar', userId: 'alice', photoUrl: 'https://example.com/a.png' }), conn);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(error).toHaveBeenCalledWith('Failed to persist state:', expect.any(Error));
+    });
+  });
+});
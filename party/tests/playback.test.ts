@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type * as Party from 'partykit/server';
+import Server from '../server';
+import { PlaybackEngine, PLAYBACK_HEARTBEAT_MS, PLAYBACK_TICK_MS } from '../lib/playback';
+import type { PlaybackSource } from '../lib/playback';
+import { DEFAULT_ANCHORS } from '../lib/reactionRegion';
+import { encodeCompactRecording } from '../../app/utils/compactRecording';
+import type { PlaybackFile, RecordedEvent } from '../../app/types';
+import { createMockRoom, createMockConnection, makeConnectCtx, mapStorage, TEST_ADMIN_SECRET } from './helpers/mockParty';
+
+vi.mock('../../app/utils/cursor', () => ({ SERVER_CURSOR_BATCH_MS: 0, CURSOR_THROTTLE_MS: 33 }));
+
+const positions: PlaybackFile = {
+  recordingStart: 1000,
+  recordingEnd: 3000,
+  room: 'test-room',
+  mode: 'positions',
+  events: [
+    { connectionId: 'alice', type: 'arrival', timestamp: 1000 },
+    { connectionId: 'alice', type: 'move', x: 10, y: 20, timestamp: 1000 },
+    { connectionId: 'bob', type: 'move', x: 60, y: 70, timestamp: 2000 },
+    { connectionId: 'alice', type: 'remove', x: 0, y: 0, timestamp: 3000 },
+  ],
+};
+
+// Serves `file` the way stored recordings are read, `chunkSize` events per chunk.
+function fileSource(file: PlaybackFile, chunkSize = 2): PlaybackSource & { reads: number[] } {
+  const events = file.events as RecordedEvent[];
+  const reads: number[] = [];
+  return {
+    mode: file.mode,
+    chunkCount: Math.ceil(events.length / chunkSize),
+    reads,
+    readChunk: async (n) => {
+      reads.push(n);
+      return events.slice(n * chunkSize, (n + 1) * chunkSize);
+    },
+  };
+}
+
+// Lets chunk reads started by the engine land.
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const ids = (updates: { type: string; position: { userId: string } }[]) => updates.map(u => `${u.type}:${u.position.userId}`);
+
+describe('PlaybackEngine', () => {
+  let engine: PlaybackEngine;
+
+  beforeEach(async () => {
+    engine = await PlaybackEngine.load('rec-1', fileSource(positions), () => DEFAULT_ANCHORS);
+    await settle();
+  });
+
+  it('emits events as playback time reaches them and stops at the end', () => {
+    engine.play(0);
+    expect(ids(engine.tick(0))).toEqual(['move:replay_alice']);
+    expect(engine.tick(500)).toEqual([]);
+    expect(ids(engine.tick(1000))).toEqual(['move:replay_bob']);
+    expect(ids(engine.tick(2000))).toEqual(['remove:replay_alice']);
+    expect(ids(engine.tick(2000 + PLAYBACK_TICK_MS))).toEqual(['remove:replay_bob']);
+    expect(engine.state()).toMatchObject({ status: 'stopped', positionMs: 0, durationMs: 2000, eventCount: 4, userCount: 2 });
+  });
+
+  it('scales playback time by speed', () => {
+    engine.speed = 2;
+    engine.play(0);
+    engine.tick(0);
+    expect(ids(engine.tick(500))).toEqual(['move:replay_bob']);
+  });
+
+  it('rewinds instead of stopping when looping', async () => {
+    engine.loop = true;
+    engine.play(0);
+    engine.tick(2000);
+    engine.tick(2000 + PLAYBACK_TICK_MS);
+    expect(engine.status).toBe('playing');
+    await settle();
+    expect(ids(engine.tick(2000 + 2 * PLAYBACK_TICK_MS))).toEqual(['move:replay_alice']);
+  });
+
+  it('seek brings cursors to the state at that instant', async () => {
+    engine.play(0);
+    engine.tick(0);
+    const updates = await engine.seek(1500, 10);
+    expect(updates.map(u => [u.type, u.position.userId, u.position.x])).toEqual([
+      ['move', 'replay_alice', 10],
+      ['move', 'replay_bob', 60],
+    ]);
+    expect(engine.positionMs).toBe(1500);
+  });
+
+  it('re-sends frozen cursors while paused so clients do not expire them', () => {
+    engine.play(0);
+    engine.tick(0);
+    engine.pause(0);
+    expect(engine.tick(PLAYBACK_HEARTBEAT_MS - 1)).toEqual([]);
+    expect(ids(engine.tick(PLAYBACK_HEARTBEAT_MS))).toEqual(['move:replay_alice']);
+    expect(engine.positionMs).toBe(0);
+  });
+
+  it('holds only the chunk in play and the next, reading on as it goes', async () => {
+    const long: PlaybackFile = {
+      ...positions,
+      events: Array.from({ length: 10 }, (_, i) => ({ connectionId: `u${i % 3}`, type: 'move' as const, x: i, y: i, timestamp: i * 100 })),
+    };
+    const source = fileSource(long);
+    const e = await PlaybackEngine.load('rec-3', source, () => DEFAULT_ANCHORS);
+    // One pass for the totals, then only the next chunk is read ahead.
+    expect(source.reads).toEqual([0, 1, 2, 3, 4, 1]);
+    expect(e.state()).toMatchObject({ durationMs: 900, eventCount: 10, userCount: 3 });
+
+    e.play(0);
+    await settle();
+    expect(ids(e.tick(150))).toEqual(['move:replay_u0', 'move:replay_u1']);
+    expect(source.reads.slice(6)).toEqual([2]);
+    await settle();
+    expect(ids(e.tick(350))).toEqual(['move:replay_u2', 'move:replay_u0']);
+    e.state();
+    expect(source.reads.slice(6)).toEqual([2, 3]);
+  });
+
+  it('places transitions at the region anchor', async () => {
+    const file: PlaybackFile = { ...positions, mode: 'transitions', events: [{ connectionId: 'carol', from: null, to: 'positive', timestamp: 0 }] };
+    const t = await PlaybackEngine.load('rec-2', fileSource(file), () => DEFAULT_ANCHORS);
+    t.play(0);
+    const [update] = t.tick(0);
+    expect(Math.abs(update.position.x - DEFAULT_ANCHORS.positive.x)).toBeLessThanOrEqual(4);
+    expect(Math.abs(update.position.y - DEFAULT_ANCHORS.positive.y)).toBeLessThanOrEqual(4);
+  });
+});
+
+describe('server-driven playback', () => {
+  let connections: Party.Connection[];
+  let room: Party.Room;
+  let broadcast: ReturnType<typeof vi.fn>;
+  let server: Server;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    connections = [];
+    ({ room, broadcast } = createMockRoom(connections));
+    (room as { storage: Party.Storage }).storage = mapStorage();
+    server = new Server(room);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function connect(userId: string, opts: { isAdmin?: boolean } = {}) {
+    const { conn, send } = createMockConnection(`conn-${userId}`);
+    connections.push(conn);
+    server.onConnect(conn, makeConnectCtx(userId, opts));
+    return { conn, send };
+  }
+
+  const post = (file: PlaybackFile | string, headers: Record<string, string> = { Authorization: `Bearer ${TEST_ADMIN_SECRET}` }) => server.onRequest(
+    new Request('https://test.example.com/recordings', {
+      method: 'POST', headers, body: typeof file === 'string' ? file : encodeCompactRecording(file),
+    }) as unknown as Party.Request,
+  );
+
+  const replayBatches = () => broadcast.mock.calls
+    .map(([m]) => JSON.parse(m as string))
+    .filter(m => m.type === 'cursorBatch')
+    .flatMap(m => m.cursors as { type: string; position: { userId: string } }[]);
+
+  const lastState = (send: ReturnType<typeof vi.fn>) => send.mock.calls
+    .map(([m]) => JSON.parse(m as string))
+    .filter(m => m.type === 'playbackStateChanged')
+    .pop()?.state;
+
+  it('imports an uploaded file with the admin token only', async () => {
+    expect((await post(positions, {})).status).toBe(403);
+    expect((await post(JSON.stringify(positions))).status).toBe(400);
+    const res = await post(positions);
+    expect(await res.json()).toMatchObject({ mode: 'positions', eventCount: 4, active: false });
+  });
+
+  it('plays a stored recording to every client and reports state to admins', async () => {
+    const admin = connect('admin', { isAdmin: true });
+    const alice = connect('alice');
+    const meta = await (await post(positions)).json();
+
+    server.onMessage(JSON.stringify({ type: 'loadPlayback', recordingId: meta.id }), admin.conn);
+    await vi.waitFor(() => expect(lastState(admin.send)).toMatchObject({ recordingId: meta.id, status: 'stopped', durationMs: 2000 }));
+    expect(lastState(alice.send)).toBeUndefined();
+
+    server.onMessage(JSON.stringify({ type: 'playbackControl', action: 'play' }), admin.conn);
+    expect(lastState(admin.send).status).toBe('playing');
+    vi.advanceTimersByTime(1000 + PLAYBACK_TICK_MS);
+    expect(ids(replayBatches())).toEqual(['move:replay_alice', 'move:replay_bob']);
+
+    server.onMessage(JSON.stringify({ type: 'playbackControl', action: 'stop' }), admin.conn);
+    expect(ids(replayBatches()).slice(2).sort()).toEqual(['remove:replay_alice', 'remove:replay_bob']);
+    expect(lastState(admin.send).status).toBe('stopped');
+  });
+
+  it('does not record replay cursors into a running recording', async () => {
+    const admin = connect('admin', { isAdmin: true });
+    const meta = await (await post(positions)).json();
+    server.onMessage(JSON.stringify({ type: 'setRecordingState', recording: true }), admin.conn);
+    server.onMessage(JSON.stringify({ type: 'loadPlayback', recordingId: meta.id }), admin.conn);
+    await vi.waitFor(() => expect(lastState(admin.send)).toBeDefined());
+    server.onMessage(JSON.stringify({ type: 'playbackControl', action: 'play' }), admin.conn);
+    vi.advanceTimersByTime(2000 + PLAYBACK_TICK_MS);
+
+    const res = await server.onRequest({ method: 'GET', url: 'https://test.example.com/recordings', headers: new Headers({ Authorization: `Bearer ${TEST_ADMIN_SECRET}` }) } as unknown as Party.Request);
+    const [live] = await res.json();
+    expect(live).toMatchObject({ active: true, eventCount: 0 });
+  });
+
+  it('reports a recording that fails to load to the admin who asked', async () => {
+    const admin = connect('admin', { isAdmin: true });
+    const meta = await (await post(positions)).json();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(room.storage.get).mockRejectedValueOnce(new Error('storage unavailable'));
+
+    server.onMessage(JSON.stringify({ type: 'loadPlayback', recordingId: meta.id }), admin.conn);
+    await vi.waitFor(() => expect(error).toHaveBeenCalledWith('[playback] load failed:', expect.any(Error)));
+    const errors = admin.send.mock.calls.map(([m]) => JSON.parse(m as string)).filter(m => m.type === 'error');
+    expect(errors).toEqual([{ type: 'error', code: 'failed', eventType: 'loadPlayback', message: 'Could not load the recording' }]);
+    expect(lastState(admin.send)).toBeUndefined();
+  });
+
+  it('rejects playback control from non-admins', () => {
+    const alice = connect('alice');
+    server.onMessage(JSON.stringify({ type: 'playbackControl', action: 'play' }), alice.conn);
+    expect(JSON.parse(alice.send.mock.calls.pop()![0] as string)).toMatchObject({ type: 'error', eventType: 'playbackControl' });
+  });
+});
@@ -5,6 +5,7 @@
  *   - lifecycle methods are called with the correct userId (not conn.id)
  *   - onMessage routing: plugins get first dibs; returning true stops processing
  *   - ctx.sendToUser delivers to the right connection
+ *   - adminMessageTypes are rejected before plugins see them unless authorized
  *
  * They use a minimal spy plugin injected via vi.mock so no real panel
  * behaviour is involved. If these break, the server's plugin plumbing is
@@ -19,6 +20,7 @@ import type { PanelPlugin } from '../../plugins/types';
 // values that are available both inside the factory and in the test body.
 const { spyServer, spyPlugin } = vi.hoisted(() => {
   const spyServer = {
+    adminMessageTypes: ['spyAdminOnly'],
     createState: () => ({}),
     onConnect:    vi.fn(),
     onMessage:    vi.fn().mockReturnValue(false),
@@ -54,7 +56,7 @@ vi.mock('../../plugins/soccer/server', () => ({
 
 // Disable cursor batching so dispatch tests get immediate broadcasts
 // without needing fake timers. Batching behaviour is tested in server.test.ts.
-vi.mock('../../app/utils/cursor', () => ({ SERVER_CURSOR_BATCH_MS: 0 }));
+vi.mock('../../app/utils/cursor', () => ({ SERVER_CURSOR_BATCH_MS: 0, CURSOR_THROTTLE_MS: 33 }));
 
 import Server from '../server';
 import { createMockRoom, createMockConnection, makeConnectCtx } from './helpers/mockParty';
@@ -143,6 +145,30 @@ describe('server plugin dispatch contracts', () => {
     });
   });
 
+  // ── adminMessageTypes ─────────────────────────────────────────────────────
+
+  describe('adminMessageTypes', () => {
+    it('rejects declared types from a participant before the plugin sees them', () => {
+      const { conn, send } = connectUser('alice');
+      vi.clearAllMocks();
+      server.onMessage(msg({ type: 'spyAdminOnly' }), conn);
+      expect(spyServer.onMessage).not.toHaveBeenCalled();
+      expect(JSON.parse(send.mock.calls[0][0] as string)).toMatchObject({ type: 'error', code: 'forbidden', eventType: 'spyAdminOnly' });
+    });
+
+    it('passes declared types from the admin with conn.isAdmin set', () => {
+      const { conn: adminConn, send } = createMockConnection('conn-admin');
+      connections.push(adminConn);
+      server.onConnect(adminConn, makeConnectCtx('admin', { isAdmin: true }));
+      vi.clearAllMocks();
+      server.onMessage(msg({ type: 'spyAdminOnly' }), adminConn);
+      expect(spyServer.onMessage).toHaveBeenCalledOnce();
+      const [, , pluginConn] = spyServer.onMessage.mock.calls[0];
+      expect(pluginConn).toMatchObject({ id: 'conn-admin', isAdmin: true });
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
   // ── ctx.sendToUser ────────────────────────────────────────────────────────
 
   describe('ctx.sendToUser', () => {
@@ -165,4 +191,25 @@ describe('server plugin dispatch contracts', () => {
       expect(aliceMsgs).not.toContainEqual({ type: 'test-delivery' });
     });
   });
+
+  // ── map group targets ─────────────────────────────────────────────────────
+
+  describe('group pushes without map state', () => {
+    it('reach nobody when no map plugin state exists', () => {
+      spyServer.onMessage.mockReturnValue(false);
+      const { send: aliceSend } = connectUser('alice');
+      const { conn: admin, send: adminSend } = createMockConnection('conn-admin');
+      connections.push(admin);
+      server.onConnect(admin, makeConnectCtx('admin', { isAdmin: true }));
+      aliceSend.mockClear();
+      adminSend.mockClear();
+
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      server.onMessage(msg({ type: 'pushHaptic', targetGroup: 0 }), admin);
+      expect(error).not.toHaveBeenCalled();
+      expect(aliceSend).not.toHaveBeenCalled();
+      expect(adminSend.mock.calls.map(([m]) => JSON.parse(m))).not.toContainEqual(expect.objectContaining({ type: 'error' }));
+    });
+  });
 });
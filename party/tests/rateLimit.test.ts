@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { ConnectionRateLimiter, DEFAULT_RATE_LIMITS, messageCategory, rateLimitConfigFromEnv } from '../lib/rateLimit';
+import type { RateLimitConfig } from '../lib/rateLimit';
+
+const config: RateLimitConfig = {
+  buckets: {
+    cursor:     { ratePerSec: 10, burst: 2 },
+    stroke:     { ratePerSec: 10, burst: 2 },
+    submission: { ratePerSec: 1, burst: 1 },
+    other:      { ratePerSec: 10, burst: 2 },
+    invalid:    { ratePerSec: 1, burst: 1 },
+    reactions:  { ratePerSec: 10, burst: 2 },
+  },
+  disconnectAfter: 3,
+  strikeWindowMs: 1000,
+};
+
+describe('ConnectionRateLimiter', () => {
+  it('allows a burst, then drops until tokens refill', () => {
+    const limiter = new ConnectionRateLimiter(config);
+    expect(limiter.take('cursor', 0)).toBe('allow');
+    expect(limiter.take('cursor', 0)).toBe('allow');
+    expect(limiter.take('cursor', 0)).toBe('drop');
+    // 10/s refills one token every 100ms
+    expect(limiter.take('cursor', 100)).toBe('allow');
+  });
+
+  it('charges a multi-token cost in one take', () => {
+    const limiter = new ConnectionRateLimiter(config);
+    expect(limiter.take('cursor', 0, 2)).toBe('allow');
+    expect(limiter.take('cursor', 0, 1)).toBe('drop');
+  });
+
+  it('scales the bucket for a limiter shared by several clients', () => {
+    const limiter = new ConnectionRateLimiter(config);
+    expect(limiter.take('reactions', 0, 6, 3)).toBe('allow');
+    expect(limiter.take('reactions', 0, 1, 3)).toBe('drop');
+    // 3 × 10/s refills three tokens every 100ms
+    expect(limiter.take('reactions', 100, 3, 3)).toBe('allow');
+  });
+
+  it('keeps categories independent', () => {
+    const limiter = new ConnectionRateLimiter(config);
+    expect(limiter.take('submission', 0)).toBe('allow');
+    expect(limiter.take('submission', 0)).toBe('drop');
+    expect(limiter.take('cursor', 0)).toBe('allow');
+  });
+
+  it('disconnects after repeated drops inside the strike window', () => {
+    const limiter = new ConnectionRateLimiter(config);
+    limiter.take('submission', 0);
+    expect(limiter.take('submission', 10)).toBe('drop');
+    expect(limiter.isFirstStrike).toBe(true);
+    expect(limiter.take('submission', 20)).toBe('drop');
+    expect(limiter.isFirstStrike).toBe(false);
+    expect(limiter.take('submission', 30)).toBe('disconnect');
+  });
+
+  it('forgives strikes once the window passes', () => {
+    const limiter = new ConnectionRateLimiter(config);
+    limiter.take('submission', 0);
+    limiter.take('submission', 10);
+    limiter.take('submission', 20);
+    // Next drop lands in a fresh window: strike count restarts at 1
+    limiter.take('submission', 2000);
+    expect(limiter.take('submission', 2010)).toBe('drop');
+    expect(limiter.take('submission', 2020)).toBe('drop');
+  });
+
+  it('reports drops per category once', () => {
+    const limiter = new ConnectionRateLimiter(config);
+    limiter.take('submission', 0);
+    limiter.take('submission', 0);
+    expect(limiter.takeDropReport()).toEqual({ submission: 1 });
+    expect(limiter.takeDropReport()).toBeNull();
+  });
+});
+
+describe('messageCategory', () => {
+  it('groups cursor, stroke and submission messages', () => {
+    expect(messageCategory('move')).toBe('cursor');
+    expect(messageCategory('strokeSegment')).toBe('stroke');
+    expect(messageCategory('submitGithubUsername')).toBe('submission');
+    expect(messageCategory('webrtcOffer')).toBe('other');
+  });
+
+  it.each(['constructor', 'toString', 'hasOwnProperty', '__proto__'])('files the Object member name %s under other', (type) => {
+    expect(messageCategory(type)).toBe('other');
+    expect(new ConnectionRateLimiter(DEFAULT_RATE_LIMITS).take(messageCategory(type))).toBe('allow');
+  });
+});
+
+describe('rateLimitConfigFromEnv', () => {
+  it('overrides buckets and the disconnect threshold from env', () => {
+    const result = rateLimitConfigFromEnv({ RATE_LIMIT_CURSOR: '90,180', RATE_LIMIT_DISCONNECT_AFTER: '50' });
+    expect(result.buckets.cursor).toEqual({ ratePerSec: 90, burst: 180 });
+    expect(result.buckets.stroke).toEqual(DEFAULT_RATE_LIMITS.buckets.stroke);
+    expect(result.disconnectAfter).toBe(50);
+  });
+
+  it('ignores malformed values', () => {
+    expect(rateLimitConfigFromEnv({ RATE_LIMIT_CURSOR: 'fast', RATE_LIMIT_DISCONNECT_AFTER: '-1' })).toEqual(DEFAULT_RATE_LIMITS);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ReactionEventStore, REACTION_CHUNK_SIZE, isNewReactionEvent } from '../lib/reactionEvents';
+import type { NewReactionEvent } from '../lib/reactionEvents';
+import { mapStorage } from './helpers/mockParty';
+
+const row = (timecode: number, session_id = 's1'): NewReactionEvent =>
+  ({ room: 'vid', session_id, type: 'move', x: 10, y: 20, timecode });
+
+describe('ReactionEventStore', () => {
+  it('numbers rows and reads them back by timecode range', async () => {
+    const store = new ReactionEventStore(mapStorage());
+    await store.append([row(25), row(3), row(12.5)], Date.parse('2026-10-01T10:00:00.000Z'));
+    expect(store.count()).toBe(3);
+
+    const all = await store.read();
+    expect(all.map(e => [e.timecode, e.id])).toEqual([[3, 2], [12.5, 3], [25, 1]]);
+    expect(all[0].recorded_at).toBe('2026-10-01T10:00:00.000Z');
+    expect((await store.read(10, 25)).map(e => e.timecode)).toEqual([12.5]);
+  });
+
+  it('splits a busy bucket into chunks and only reads the buckets a range covers', async () => {
+    const storage = mapStorage();
+    const store = new ReactionEventStore(storage);
+    await store.append(Array.from({ length: REACTION_CHUNK_SIZE + 5 }, (_, i) => row(1 + i / 1000)));
+    await store.append([row(1.9), row(42)]);
+    expect(storage.put).toHaveBeenCalledWith('reactions:0:1', expect.any(Array));
+    expect(await storage.get('reactions:0:1')).toHaveLength(6);
+    expect(store.count()).toBe(REACTION_CHUNK_SIZE + 7);
+
+    vi.mocked(storage.get).mockClear();
+    expect(await store.read(40, 50)).toHaveLength(1);
+    expect(storage.get).toHaveBeenCalledTimes(1);
+    expect(storage.get).toHaveBeenCalledWith('reactions:4:0');
+  });
+
+  it('keeps the index in step with storage when a write fails partway', async () => {
+    const storage = mapStorage();
+    const store = new ReactionEventStore(storage);
+    await store.append([row(1)]);
+    // The chunk put goes through; the index put after it fails.
+    const put = vi.mocked(storage.put).getMockImplementation()!;
+    vi.mocked(storage.put).mockImplementationOnce(put).mockRejectedValueOnce(new Error('storage full'));
+    await expect(store.append([row(2), row(3)])).rejects.toThrow('storage full');
+    expect(store.count()).toBe(1);
+
+    await store.append([row(4)]);
+    expect((await store.read()).map(e => [e.timecode, e.id])).toEqual([[1, 1], [4, 2]]);
+    const restarted = new ReactionEventStore(storage);
+    await restarted.load();
+    expect(restarted.count()).toBe(2);
+  });
+
+  it('survives a restart and clears every chunk', async () => {
+    const storage = mapStorage();
+    await new ReactionEventStore(storage).append([row(1), row(15)]);
+
+    const restarted = new ReactionEventStore(storage);
+    await restarted.load();
+    expect(restarted.count()).toBe(2);
+    await restarted.append([row(2)]);
+    expect((await restarted.read()).map(e => e.id)).toEqual([1, 3, 2]);
+
+    await restarted.clear();
+    expect(restarted.count()).toBe(0);
+    expect(await restarted.read()).toEqual([]);
+    expect(await storage.get('reactions:0:0')).toBeUndefined();
+    expect(await storage.get('reactionIndex')).toBeUndefined();
+  });
+});
+
+describe('isNewReactionEvent', () => {
+  it('accepts moves, touches and coordinate-less lifts for the room', () => {
+    expect(isNewReactionEvent(row(1), 'vid')).toBe(true);
+    expect(isNewReactionEvent({ ...row(1), type: 'lift', x: null, y: null }, 'vid')).toBe(true);
+  });
+
+  it('rejects other rooms, bad coordinates and bad timecodes', () => {
+    expect(isNewReactionEvent(row(1), 'other')).toBe(false);
+    expect(isNewReactionEvent({ ...row(1), x: 101 }, 'vid')).toBe(false);
+    expect(isNewReactionEvent({ ...row(1), type: 'lift' }, 'vid')).toBe(false);
+    expect(isNewReactionEvent({ ...row(1), timecode: -1 }, 'vid')).toBe(false);
+    expect(isNewReactionEvent({ ...row(1), session_id: '' }, 'vid')).toBe(false);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type * as Party from 'partykit/server';
+import Server from '../server';
+import { SessionRecorder, newRecordingMeta, readPlaybackFile, importCompactRecording, compactRecordingBody, RECORDING_CHUNK_SIZE } from '../lib/recordings';
+import { compactRecordingLines, compactRecordingStream, readRecordingFile } from '../../app/utils/compactRecording';
+import { DEFAULT_ANCHORS } from '../lib/reactionRegion';
+import type { PlaybackFile, RecordingMeta } from '../../app/types';
+import { createMockRoom, createMockConnection, makeConnectCtx, mapStorage, TEST_ADMIN_SECRET } from './helpers/mockParty';
+
+vi.mock('../../app/utils/cursor', () => ({ SERVER_CURSOR_BATCH_MS: 0, CURSOR_THROTTLE_MS: 33 }));
+
+describe('SessionRecorder', () => {
+  let storage: Party.Storage;
+  let metas: RecordingMeta[];
+
+  function recorder(mode: 'positions' | 'transitions') {
+    return new SessionRecorder(storage, newRecordingMeta('room', mode, 1000), () => DEFAULT_ANCHORS, m => metas.push(m));
+  }
+
+  beforeEach(() => {
+    storage = mapStorage();
+    metas = [];
+  });
+
+  it('positions mode logs every cursor and presence event', async () => {
+    const rec = recorder('positions');
+    rec.recordPresence('arrival', 'alice', 1001);
+    rec.recordCursor('move', 'alice', 10, 20, 1002);
+    rec.recordCursor('remove', 'alice', 10, 20, 1003);
+    const meta = await rec.stop(1004);
+
+    expect((await readPlaybackFile(storage, meta)).events).toEqual([
+      { connectionId: 'alice', type: 'arrival', timestamp: 1001 },
+      { connectionId: 'alice', type: 'move', x: 10, y: 20, timestamp: 1002 },
+      { connectionId: 'alice', type: 'remove', x: 0, y: 0, timestamp: 1003 },
+    ]);
+    expect(meta).toMatchObject({ active: false, eventCount: 3, recordingStart: 1000, recordingEnd: 1004 });
+  });
+
+  it('transitions mode logs only region changes', async () => {
+    const rec = recorder('transitions');
+    rec.recordCursor('move', 'bob', 95, 5, 1);
+    rec.recordCursor('move', 'bob', 94, 6, 2);
+    rec.recordCursor('move', 'bob', 5, 95, 3);
+    rec.recordCursor('remove', 'bob', 0, 0, 4);
+    const meta = await rec.stop();
+
+    expect((await readPlaybackFile(storage, meta)).events).toEqual([
+      { connectionId: 'bob', from: null, to: 'positive', timestamp: 1 },
+      { connectionId: 'bob', from: 'positive', to: 'negative', timestamp: 3 },
+      { connectionId: 'bob', from: 'negative', to: null, timestamp: 4 },
+    ]);
+  });
+
+  it('splits long sessions into chunks', async () => {
+    const rec = recorder('positions');
+    for (let i = 0; i < RECORDING_CHUNK_SIZE + 1; i++) rec.recordCursor('move', 'alice', 50, 50, i);
+    const meta = await rec.stop();
+
+    expect(meta.chunkCount).toBe(2);
+    expect((await readPlaybackFile(storage, meta)).events).toHaveLength(RECORDING_CHUNK_SIZE + 1);
+  });
+});
+
+const longFile: PlaybackFile = {
+  recordingStart: 1000,
+  recordingEnd: 5000,
+  room: 'room',
+  mode: 'positions',
+  events: Array.from({ length: RECORDING_CHUNK_SIZE + 3 }, (_, i) => (
+    { connectionId: `u${i % 7}`, type: 'move' as const, x: i % 100, y: 50, timestamp: 1000 + i }
+  )),
+};
+
+describe('compact recording import and export', () => {
+  let storage: Party.Storage;
+
+  beforeEach(() => {
+    storage = mapStorage();
+  });
+
+  it('stores uploaded lines a chunk at a time as they arrive', async () => {
+    const total = [...compactRecordingLines(longFile)].length;
+    let linesRead = 0;
+    async function* lines() {
+      for (const line of compactRecordingLines(longFile)) {
+        linesRead++;
+        yield line;
+      }
+    }
+    const readAtPut: number[] = [];
+    vi.mocked(storage.put).mockImplementation(async () => { readAtPut.push(linesRead); });
+    await importCompactRecording(storage, lines());
+    expect(readAtPut).toHaveLength(2);
+    expect(readAtPut[0]).toBeLessThan(total);
+  });
+
+  it('round-trips a multi-chunk recording through storage', async () => {
+    const meta = await importCompactRecording(storage, compactRecordingLines(longFile));
+    expect(meta).toMatchObject({ room: 'room', mode: 'positions', recordingStart: 1000, recordingEnd: 5000, eventCount: longFile.events.length, chunkCount: 2, active: false });
+    expect(await readPlaybackFile(storage, meta)).toEqual(longFile);
+    expect(await readRecordingFile(await new Response(compactRecordingBody(storage, meta)).blob())).toEqual(longFile);
+  });
+
+  it('reads stored chunks only as the body is consumed', async () => {
+    const meta = await importCompactRecording(storage, compactRecordingLines(longFile));
+    const get = vi.spyOn(storage, 'get');
+    const reader = compactRecordingBody(storage, meta).getReader();
+    await reader.read();
+    expect(get.mock.calls.length).toBeLessThan(meta.chunkCount);
+    await reader.cancel();
+  });
+
+  it('removes the chunks it wrote when the upload turns out to be malformed', async () => {
+    async function* lines() {
+      yield* [...compactRecordingLines(longFile)].slice(0, RECORDING_CHUNK_SIZE + 10);
+      yield '[1,99,0,1,1]';
+    }
+    const del = vi.spyOn(storage, 'delete');
+    await expect(importCompactRecording(storage, lines())).rejects.toThrow('undeclared user 99');
+    expect(del).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('server-side recording', () => {
+  let connections: Party.Connection[];
+  let room: Party.Room;
+  let server: Server;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    connections = [];
+    ({ room } = createMockRoom(connections));
+    (room as { storage: Party.Storage }).storage = mapStorage();
+    server = new Server(room);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function connect(userId: string, opts: { isAdmin?: boolean } = {}) {
+    const { conn } = createMockConnection(`conn-${userId}`);
+    connections.push(conn);
+    server.onConnect(conn, makeConnectCtx(userId, opts));
+    return conn;
+  }
+
+  const send = (conn: Party.Connection, event: object) => server.onMessage(JSON.stringify(event), conn);
+
+  const auth = { Authorization: `Bearer ${TEST_ADMIN_SECRET}` };
+
+  async function getJson(path: string) {
+    const res = await server.onRequest({ method: 'GET', url: `https://test.example.com${path}`, headers: new Headers(auth) } as unknown as Party.Request);
+    return { status: res.status, body: await res.json() };
+  }
+
+  async function getRecording(id: string) {
+    const res = await server.onRequest({ method: 'GET', url: `https://test.example.com/recordings/${id}`, headers: new Headers(auth) } as unknown as Party.Request);
+    expect(res.headers.get('Content-Type')).toBe('application/x-ndjson');
+    return readRecordingFile(await res.blob());
+  }
+
+  const upload = (body: BodyInit, headers: Record<string, string> = { Authorization: `Bearer ${TEST_ADMIN_SECRET}` }) =>
+    server.onRequest(new Request('https://test.example.com/recordings', {
+      method: 'POST', headers, body, duplex: 'half',
+    } as RequestInit) as unknown as Party.Request);
+
+  it('records cursors and presence between start and stop, served as compact NDJSON', async () => {
+    const admin = connect('admin', { isAdmin: true });
+    send(admin, { type: 'setRecordingState', recording: true, mode: 'positions' });
+    const alice = connect('alice');
+    send(alice, { type: 'move', position: { x: 30, y: 40, timestamp: 1, userId: 'alice' } });
+
+    const { body: [live] } = await getJson('/recordings');
+    expect(live).toMatchObject({ room: 'test-room', mode: 'positions', active: true });
+    // An active recording can be read while it is still running.
+    expect((await getRecording(live.id)).events).toHaveLength(2);
+
+    send(admin, { type: 'setRecordingState', recording: false });
+    send(alice, { type: 'move', position: { x: 31, y: 41, timestamp: 2, userId: 'alice' } });
+    await vi.waitFor(async () => expect((await getJson('/recordings')).body[0].active).toBe(false));
+
+    const file = await getRecording(live.id);
+    expect(file).toMatchObject({ room: 'test-room', mode: 'positions', recordingStart: live.recordingStart });
+    expect(file.events.map(e => (e as { type: string }).type)).toEqual(['arrival', 'move']);
+  });
+
+  it('returns 404 for an unknown recording', async () => {
+    expect((await getJson('/recordings/nope')).status).toBe(404);
+  });
+
+  it('lists and serves recordings with the admin token only', async () => {
+    const admin = connect('admin', { isAdmin: true });
+    send(admin, { type: 'setRecordingState', recording: true });
+    const { body: [meta] } = await getJson('/recordings');
+
+    for (const path of ['/recordings', `/recordings/${meta.id}`, '/recordings/nope']) {
+      const res = await server.onRequest({ method: 'GET', url: `https://test.example.com${path}`, headers: new Headers() } as unknown as Party.Request);
+      expect(res.status).toBe(403);
+    }
+  });
+
+  it('deletes a finished recording with the admin token only', async () => {
+    const admin = connect('admin', { isAdmin: true });
+    send(admin, { type: 'setRecordingState', recording: true });
+    send(admin, { type: 'setRecordingState', recording: false });
+    const { body: [meta] } = await getJson('/recordings');
+
+    const del = (headers: Record<string, string>) => server.onRequest({
+      method: 'DELETE', url: `https://test.example.com/recordings/${meta.id}`, headers: new Headers(headers),
+    } as unknown as Party.Request);
+    expect((await del({})).status).toBe(403);
+    expect((await del({ Authorization: `Bearer ${TEST_ADMIN_SECRET}` })).status).toBe(200);
+    expect((await getJson('/recordings')).body).toEqual([]);
+  });
+
+  it('imports a streamed compact upload with the admin token only', async () => {
+    expect((await upload(compactRecordingStream(longFile), {})).status).toBe(403);
+
+    const res = await upload(compactRecordingStream(longFile));
+    expect(res.status).toBe(200);
+    const meta = await res.json();
+    expect(meta).toMatchObject({ eventCount: longFile.events.length, chunkCount: 2, active: false });
+    expect((await getJson('/recordings')).body[0].id).toBe(meta.id);
+    expect(await getRecording(meta.id)).toEqual(longFile);
+  });
+
+  it('rejects uploads that are not compact recordings', async () => {
+    const res = await upload(JSON.stringify(longFile));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/Not a compact recording/);
+    expect((await getJson('/recordings')).body).toEqual([]);
+  });
+});
@@ -1,10 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import type * as Party from 'partykit/server';
 import Server from '../server';
-import { createMockRoom, createMockConnection, makeConnectCtx } from './helpers/mockParty';
+import { createMockRoom, createMockConnection, makeConnectCtx, TEST_ADMIN_SECRET } from './helpers/mockParty';
 
 // Mutable mock so individual describe blocks can test both batching modes.
-const cursorMock = vi.hoisted(() => ({ SERVER_CURSOR_BATCH_MS: 50 }));
+const cursorMock = vi.hoisted(() => ({ SERVER_CURSOR_BATCH_MS: 50, CURSOR_THROTTLE_MS: 33 }));
 vi.mock('../../app/utils/cursor', () => cursorMock);
 
 // Helper: JSON-encode a client event for onMessage
@@ -41,7 +41,7 @@ describe('Server onMessage handlers', () => {
     vi.restoreAllMocks();
   });
 
-  function connectUser(userId: string, opts: { isAdmin?: boolean } = {}) {
+  function connectUser(userId: string, opts: { isAdmin?: boolean; adminToken?: string | null } = {}) {
     const { conn, send } = createMockConnection(`conn-${userId}`);
     connections.push(conn);
     server.onConnect(conn, makeConnectCtx(userId, opts));
@@ -140,6 +140,176 @@ describe('Server onMessage handlers', () => {
         expect(payload.cursors[0].position).toMatchObject({ x: 0.9, y: 0.9 }); // latest wins
       });
     });
+
+    describe('cursor pacing', () => {
+      beforeEach(() => { cursorMock.SERVER_CURSOR_BATCH_MS = 50; vi.useFakeTimers(); });
+      afterEach(() => { vi.useRealTimers(); });
+
+      it('starts at the default pace in the connected snapshot', () => {
+        const { conn, send } = createMockConnection('conn-alice');
+        connections.push(conn);
+        server.onConnect(conn, makeConnectCtx('alice'));
+        const connected = send.mock.calls.map(([m]) => JSON.parse(m as string)).find(m => m.type === 'connected');
+        expect(connected.cursorPacing).toEqual({ throttleMs: 33, batchMs: 50 });
+      });
+
+      it('recommends a slower pace once inbound cursor traffic exceeds the budget', () => {
+        const { conn } = connectUser('emcee', { isAdmin: true });
+        const move = (i: number) => msg({ type: 'move', position: { userId: `u${i % 300}`, x: 50, y: 50, timestamp: Date.now() } });
+        for (let i = 0; i < 6000; i++) server.onMessage(move(i), conn);
+        vi.advanceTimersByTime(1000);
+        broadcast.mockClear();
+        server.onMessage(move(0), conn);
+        expect(allBroadcasts(broadcast)).toContainEqual({ type: 'cursorPacingChanged', pacing: { throttleMs: 50, batchMs: 50 } });
+      });
+    });
+
+    describe('density mode', () => {
+      beforeEach(() => { cursorMock.SERVER_CURSOR_BATCH_MS = 50; vi.useFakeTimers(); });
+      afterEach(() => { vi.useRealTimers(); });
+
+      it('broadcasts cursorDensity on a tick instead of cursorBatch', () => {
+        const { conn: emcee } = connectUser('emcee', { isAdmin: true });
+        const { conn: alice } = connectUser('alice');
+        server.onMessage(msg({ type: 'setCursorMode', mode: 'density', threshold: 300 }), emcee);
+        expect(lastBroadcast(broadcast)).toEqual({ type: 'cursorModeChanged', config: { mode: 'density', threshold: 300, active: true } });
+
+        broadcast.mockClear();
+        server.onMessage(msg({ type: 'move', position: { userId: 'alice', x: 97, y: 2, timestamp: 1 } }), alice);
+        vi.advanceTimersByTime(250);
+        const sent = allBroadcasts(broadcast) as { type: string; density?: { cells: number[]; regions: object; total: number } }[];
+        expect(sent.map(m => m.type)).toEqual(['cursorDensity']);
+        expect(sent[0].density).toMatchObject({ total: 1, regions: { positive: 1, negative: 0, neutral: 0 } });
+        expect(sent[0].density!.cells[19]).toBe(1); // top-right cell of the 20×20 grid
+
+        // Nothing moved: the next tick is skipped
+        broadcast.mockClear();
+        vi.advanceTimersByTime(250);
+        expect(broadcast).not.toHaveBeenCalled();
+      });
+
+      it('switches automatically at the participant threshold and back', () => {
+        const { conn: emcee } = connectUser('emcee', { isAdmin: true });
+        connectUser('alice');
+        server.onMessage(msg({ type: 'setCursorMode', mode: 'auto', threshold: 2 }), emcee);
+        expect(lastBroadcast(broadcast)).toEqual({ type: 'cursorModeChanged', config: { mode: 'auto', threshold: 2, active: false } });
+
+        const { conn: bob, send } = createMockConnection('conn-bob');
+        connections.push(bob);
+        broadcast.mockClear();
+        server.onConnect(bob, makeConnectCtx('bob'));
+        expect(allBroadcasts(broadcast)).toContainEqual({ type: 'cursorModeChanged', config: { mode: 'auto', threshold: 2, active: true } });
+        const connected = send.mock.calls.map(([m]) => JSON.parse(m as string)).find(m => m.type === 'connected');
+        expect(connected.cursorMode).toEqual({ mode: 'auto', threshold: 2, active: true });
+        expect(connected.cursorDensity).toMatchObject({ cols: 20, rows: 20, total: 0 });
+
+        broadcast.mockClear();
+        server.onClose(bob);
+        expect(allBroadcasts(broadcast)).toContainEqual({ type: 'cursorModeChanged', config: { mode: 'auto', threshold: 2, active: false } });
+      });
+    });
+
+    describe('idle detection', () => {
+      beforeEach(() => { cursorMock.SERVER_CURSOR_BATCH_MS = 50; vi.useFakeTimers(); });
+      afterEach(() => { vi.useRealTimers(); });
+
+      it('removes a silent cursor after the timeout and reports the user idle', () => {
+        const { conn: emcee } = connectUser('emcee', { isAdmin: true });
+        const { conn: alice, send: aliceSend } = connectUser('alice');
+        server.onMessage(msg({ type: 'touch', position: { userId: 'alice', x: 97, y: 2, timestamp: 1 } }), alice);
+        vi.advanceTimersByTime(50);
+        broadcast.mockClear();
+
+        vi.advanceTimersByTime(30_000);
+        const sent = allBroadcasts(broadcast) as { type: string; cursors?: { type: string; position: { userId: string } }[] }[];
+        expect(sent).toContainEqual({ type: 'idleChanged', userIds: ['alice'], idle: true, idleCount: 1 });
+        const batch = sent.find(m => m.type === 'cursorBatch');
+        expect(batch?.cursors).toEqual([expect.objectContaining({ type: 'remove', position: expect.objectContaining({ userId: 'alice' }) })]);
+
+        // The frozen cursor no longer counts for region targeting
+        server.onMessage(msg({ type: 'pushHaptic', targetRegion: 'positive' }), emcee);
+        expect(aliceSend.mock.calls.some(([m]) => JSON.parse(m as string).type === 'hapticPushed')).toBe(false);
+      });
+
+      it('reports the user active again when they send anything', () => {
+        const { conn: alice } = connectUser('alice');
+        vi.advanceTimersByTime(31_000);
+        broadcast.mockClear();
+        server.onMessage(msg({ type: 'move', position: { userId: 'alice', x: 50, y: 50, timestamp: 2 } }), alice);
+        expect(allBroadcasts(broadcast)).toContainEqual({ type: 'idleChanged', userIds: ['alice'], idle: false, idleCount: 0 });
+      });
+
+      it("doesn't count cursors sent under another user's id as that user's activity", () => {
+        connectUser('alice');
+        const { conn: bob } = connectUser('bob');
+        vi.advanceTimersByTime(20_000);
+        server.onMessage(msg({ type: 'move', position: { userId: 'alice', x: 50, y: 50, timestamp: 2 } }), bob);
+        broadcast.mockClear();
+        vi.advanceTimersByTime(10_000);
+        expect(allBroadcasts(broadcast)).toContainEqual({ type: 'idleChanged', userIds: ['alice'], idle: true, idleCount: 1 });
+      });
+
+      it('lists idle users in the connected snapshot and idleCount in presence', () => {
+        connectUser('alice');
+        vi.advanceTimersByTime(31_000);
+        const { conn, send } = createMockConnection('conn-bob');
+        connections.push(conn);
+        server.onConnect(conn, makeConnectCtx('bob'));
+        const sent = send.mock.calls.map(([m]) => JSON.parse(m as string));
+        expect(sent.find(m => m.type === 'connected').idleUserIds).toEqual(['alice']);
+        expect(sent.find(m => m.type === 'presenceCount')).toEqual({ type: 'presenceCount', count: 2, viewerCount: 0, idleCount: 1 });
+      });
+    });
+
+    describe('binary cursor format (?cursorFormat=binary)', () => {
+      beforeEach(() => { cursorMock.SERVER_CURSOR_BATCH_MS = 50; vi.useFakeTimers(); });
+      afterEach(() => { vi.useRealTimers(); });
+
+      function connectBinary(userId: string) {
+        const { conn, send } = createMockConnection(`conn-${userId}`);
+        connections.push(conn);
+        server.onConnect(conn, makeConnectCtx(userId, { cursorFormat: 'binary' }));
+        broadcast.mockClear();
+        return { conn, send };
+      }
+
+      it('sends JSON to JSON connections and an id announcement then a frame to binary ones', () => {
+        const { conn: alice } = connectUser('alice');
+        const { conn: bob } = connectBinary('bob');
+        server.onMessage(msg({ type: 'move', position: { userId: 'alice', x: 50, y: 25, timestamp: 1000 } }), alice);
+        vi.advanceTimersByTime(50);
+
+        expect(broadcast).toHaveBeenCalledTimes(3);
+        const [[json, jsonWithout], [ids, idsWithout], [frame, frameWithout]] = broadcast.mock.calls;
+        expect(JSON.parse(json as string).type).toBe('cursorBatch');
+        expect(jsonWithout).toEqual([bob.id]);
+        expect(JSON.parse(ids as string)).toEqual({ type: 'cursorIds', ids: { alice: 0 } });
+        expect(idsWithout).toEqual([alice.id]);
+        expect(frame).toBeInstanceOf(ArrayBuffer);
+        expect(frameWithout).toEqual([alice.id]);
+
+        // A known cursor needs no second announcement
+        broadcast.mockClear();
+        server.onMessage(msg({ type: 'move', position: { userId: 'alice', x: 60, y: 25, timestamp: 1100 } }), alice);
+        vi.advanceTimersByTime(50);
+        expect(broadcast).toHaveBeenCalledTimes(2);
+      });
+
+      it('lists the assigned ids in the connected snapshot of binary connections only', () => {
+        const { conn: alice } = connectUser('alice');
+        connectBinary('bob');
+        server.onMessage(msg({ type: 'move', position: { userId: 'alice', x: 50, y: 25, timestamp: 1000 } }), alice);
+        vi.advanceTimersByTime(50);
+
+        const { send: carolSend } = connectBinary('carol');
+        const { conn: dave, send: daveSend } = createMockConnection('conn-dave');
+        server.onConnect(dave, makeConnectCtx('dave'));
+        const connectedOf = (send: ReturnType<typeof vi.fn>) =>
+          send.mock.calls.map(([m]) => JSON.parse(m as string)).find(m => m.type === 'connected');
+        expect(connectedOf(carolSend).cursorIds).toEqual({ alice: 0 });
+        expect(connectedOf(daveSend)).not.toHaveProperty('cursorIds');
+      });
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -148,7 +318,7 @@ describe('Server onMessage handlers', () => {
 
   describe('setRoomLabels', () => {
     it('updates labels and broadcasts roomLabelsChanged', () => {
-      const { conn } = connectUser('alice');
+      const { conn } = connectUser('admin', { isAdmin: true });
       const labels = { positive: 'Yes', negative: 'No', neutral: 'Skip' };
       server.onMessage(msg({ type: 'setRoomLabels', labels }), conn);
       expect(lastBroadcast(broadcast)).toMatchObject({ type: 'roomLabelsChanged', labels });
@@ -165,15 +335,17 @@ describe('Server onMessage handlers', () => {
 
   describe('setRecordingState', () => {
     it('broadcasts recordingStateChanged', () => {
-      const { conn } = connectUser('alice');
-      server.onMessage(msg({ type: 'setRecordingState', recording: true }), conn);
-      expect(lastBroadcast(broadcast)).toEqual({ type: 'recordingStateChanged', recording: true });
+      const { conn } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'setRecordingState', recording: true, mode: 'transitions' }), conn);
+      expect(lastBroadcast(broadcast)).toEqual({
+        type: 'recordingStateChanged', recording: true, recordingId: expect.any(String), mode: 'transitions',
+      });
     });
   });
 
   describe('setNowLabel', () => {
     it('broadcasts nowLabelChanged', () => {
-      const { conn } = connectUser('alice');
+      const { conn } = connectUser('admin', { isAdmin: true });
       server.onMessage(msg({ type: 'setNowLabel', label: 'Q&A' }), conn);
       expect(lastBroadcast(broadcast)).toEqual({ type: 'nowLabelChanged', label: 'Q&A' });
     });
@@ -181,12 +353,119 @@ describe('Server onMessage handlers', () => {
 
   describe('setImageUrl', () => {
     it('broadcasts imageUrlChanged', () => {
-      const { conn } = connectUser('alice');
+      const { conn } = connectUser('admin', { isAdmin: true });
       server.onMessage(msg({ type: 'setImageUrl', url: 'https://example.com/img.png' }), conn);
       expect(lastBroadcast(broadcast)).toEqual({ type: 'imageUrlChanged', url: 'https://example.com/img.png' });
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Moments
+  // -----------------------------------------------------------------------
+
+  describe('moments', () => {
+    async function storedMoments() {
+      const res = await server.onRequest({ method: 'GET', url: 'https://test.example.com/moments', headers: new Headers({ Authorization: `Bearer ${TEST_ADMIN_SECRET}` }) } as unknown as Party.Request);
+      return res.json();
+    }
+
+    it('snapMoment records a region per seen participant and broadcasts momentsChanged', async () => {
+      const { conn: admin } = connectUser('admin', { isAdmin: true });
+      const { conn: alice } = connectUser('alice');
+      connectUser('bob');
+      server.onMessage(msg({ type: 'move', position: { x: 90, y: 10, timestamp: 1, userId: 'alice' } }), alice);
+      broadcast.mockClear();
+
+      server.onMessage(msg({ type: 'snapMoment', label: 'Q1' }), admin);
+
+      expect(lastBroadcast(broadcast)).toEqual({ type: 'momentsChanged', count: 1 });
+      const [moment] = await storedMoments();
+      expect(moment.label).toBe('Q1');
+      expect(moment.regions).toEqual({ alice: expect.any(String), bob: null });
+    });
+
+    it('defaults the label to the moment number', async () => {
+      const { conn } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'snapMoment' }), conn);
+      server.onMessage(msg({ type: 'snapMoment' }), conn);
+      expect((await storedMoments()).map((m: { label: string }) => m.label)).toEqual(['Moment 2', 'Moment 1']);
+    });
+
+    it('renames, deletes and clears', async () => {
+      const { conn } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'snapMoment', label: 'a' }), conn);
+      server.onMessage(msg({ type: 'snapMoment', label: 'b' }), conn);
+      const [b, a] = await storedMoments();
+
+      server.onMessage(msg({ type: 'renameMoment', id: a.id, label: 'renamed' }), conn);
+      server.onMessage(msg({ type: 'deleteMoment', id: b.id }), conn);
+      expect((await storedMoments()).map((m: { label: string }) => m.label)).toEqual(['renamed']);
+
+      server.onMessage(msg({ type: 'clearMoments' }), conn);
+      expect(await storedMoments()).toEqual([]);
+      expect(lastBroadcast(broadcast)).toEqual({ type: 'momentsChanged', count: 0 });
+    });
+  });
+
+  describe('flash timer', () => {
+    const endTimestamp = Date.now() + 5000;
+
+    it('schedules the room alarm and broadcasts the countdown', () => {
+      const { conn } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'startFlashTimer', endTimestamp, label: 'Q1' }), conn);
+      expect(room.storage.setAlarm).toHaveBeenCalledWith(endTimestamp);
+      expect(lastBroadcast(broadcast)).toEqual({ type: 'flashTimerStarted', endTimestamp, label: 'Q1', seq: expect.any(Number) });
+    });
+
+    it('snaps the moment when the alarm fires and broadcasts flashTimerFired', async () => {
+      const { conn } = connectUser('admin', { isAdmin: true });
+      connectUser('alice');
+      server.onMessage(msg({ type: 'startFlashTimer', endTimestamp, label: 'Q1' }), conn);
+      broadcast.mockClear();
+
+      await server.onAlarm();
+
+      const fired = allBroadcasts(broadcast).find((m) => (m as { type: string }).type === 'flashTimerFired');
+      expect((fired as { moment: unknown }).moment).toMatchObject({ label: 'Q1', regions: { alice: null } });
+      expect(allBroadcasts(broadcast)).toContainEqual({ type: 'momentsChanged', count: 1 });
+
+      // A stray alarm with no timer pending is a no-op.
+      broadcast.mockClear();
+      await server.onAlarm();
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+
+    it('extend pushes the alarm back and rebroadcasts the new end', () => {
+      const { conn } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'startFlashTimer', endTimestamp, label: 'Q1' }), conn);
+      server.onMessage(msg({ type: 'extendFlashTimer', seconds: 5 }), conn);
+      expect(room.storage.setAlarm).toHaveBeenLastCalledWith(endTimestamp + 5000);
+      expect(lastBroadcast(broadcast)).toEqual({ type: 'flashTimerStarted', endTimestamp: endTimestamp + 5000, label: 'Q1', seq: expect.any(Number) });
+    });
+
+    it('cancel clears the alarm so no moment is snapped', async () => {
+      const { conn } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'startFlashTimer', endTimestamp, label: 'Q1' }), conn);
+      server.onMessage(msg({ type: 'cancelFlashTimer' }), conn);
+      expect(room.storage.deleteAlarm).toHaveBeenCalled();
+      expect(lastBroadcast(broadcast)).toEqual({ type: 'flashTimerCancelled', seq: expect.any(Number) });
+
+      broadcast.mockClear();
+      await server.onAlarm();
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+
+    it('reports the pending timer in the connected snapshot', () => {
+      const { conn } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'startFlashTimer', endTimestamp, label: 'Q1' }), conn);
+      const { conn: late, send } = createMockConnection('conn-late');
+      connections.push(late);
+      server.onConnect(late, makeConnectCtx('late'));
+      const connected = send.mock.calls.map(([m]) => JSON.parse(m as string)).find((m) => m.type === 'connected');
+      expect(connected.flashTimer).toEqual({ endTimestamp, label: 'Q1' });
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Admin guards
   // -----------------------------------------------------------------------
@@ -205,6 +484,88 @@ describe('Server onMessage handlers', () => {
     });
   });
 
+  describe('admin authentication', () => {
+    it('?isAdmin=true without a token is not privileged', () => {
+      const { conn } = connectUser('intruder', { isAdmin: true, adminToken: null });
+      server.onMessage(msg({ type: 'setUserCap', cap: 1 }), conn);
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+
+    it('?isAdmin=true without a token joins a full room as a viewer, behind the queue', () => {
+      const { conn: admin } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'setUserCap', cap: 1 }), admin);
+      connectUser('participant');
+      const { conn: queued } = connectUser('queued');
+      server.onMessage(msg({ type: 'requestJoin' }), queued);
+
+      const { conn, send } = createMockConnection('conn-intruder');
+      connections.push(conn);
+      server.onConnect(conn, makeConnectCtx('intruder', { isAdmin: true, adminToken: null }));
+      const sent = send.mock.calls.map(([m]) => JSON.parse(m as string));
+      expect(sent.find((m) => m.type === 'connected')).toMatchObject({ isViewer: true, isAdmin: false });
+      expect(sent.find((m) => m.type === 'presenceCount')).toMatchObject({ count: 1, viewerCount: 2 });
+
+      send.mockClear();
+      server.onMessage(msg({ type: 'requestJoin' }), conn);
+      expect(send.mock.calls.map(([m]) => JSON.parse(m as string))).toEqual([{ type: 'queuePosition', position: 2, length: 2 }]);
+    });
+
+    it('rejects a wrong token', () => {
+      const { conn } = connectUser('intruder', { isAdmin: true, adminToken: 'guess' });
+      server.onMessage(msg({ type: 'setUserCap', cap: 1 }), conn);
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+
+    it('reports authorization in the connected snapshot', () => {
+      const { conn: adminConn, send: adminSend } = createMockConnection('conn-admin');
+      connections.push(adminConn);
+      server.onConnect(adminConn, makeConnectCtx('admin', { isAdmin: true }));
+      const { conn: peekConn, send: peekSend } = createMockConnection('conn-peek');
+      connections.push(peekConn);
+      server.onConnect(peekConn, makeConnectCtx('peek', { isAdmin: true, adminToken: null }));
+
+      const connectedFor = (send: ReturnType<typeof vi.fn>) =>
+        send.mock.calls.map(([m]) => JSON.parse(m as string)).find((m) => m.type === 'connected');
+      expect(connectedFor(adminSend)).toMatchObject({ isAdmin: true });
+      expect(connectedFor(peekSend)).toMatchObject({ isAdmin: false });
+    });
+
+    it('a participant socket presenting the token is privileged but still counted', () => {
+      const { conn } = connectUser('emcee', { adminToken: TEST_ADMIN_SECRET });
+      server.onMessage(msg({ type: 'setUserCap', cap: 5 }), conn);
+      expect(lastBroadcast(broadcast)).toEqual({ type: 'userCapChanged', cap: 5 });
+    });
+  });
+
+  describe('permission table', () => {
+    function sentMessages(send: ReturnType<typeof vi.fn>) {
+      return send.mock.calls.map(([m]) => JSON.parse(m as string));
+    }
+
+    it.each([
+      ['setRoomLabels', { labels: { positive: 'Yes', negative: 'No', neutral: 'Skip' } }],
+      ['setRecordingState', { recording: true }],
+      ['setNowLabel', { label: 'Q&A' }],
+      ['setImageUrl', { url: 'https://example.com/img.png' }],
+      ['pushHaptic', { targetUserId: 'bob' }],
+      ['startFlashTimer', { endTimestamp: Date.now() + 3000, label: 'Go' }],
+    ])('rejects %s from a participant with a forbidden error', (type, payload) => {
+      const { conn, send } = connectUser('alice');
+      server.onMessage(msg({ type, ...payload }), conn);
+      expect(broadcast).not.toHaveBeenCalled();
+      expect(sentMessages(send)).toEqual([
+        expect.objectContaining({ type: 'error', code: 'forbidden', eventType: type }),
+      ]);
+    });
+
+    it('lets participant events through without an admin token', () => {
+      const { conn, send } = connectUser('alice');
+      server.onMessage(msg({ type: 'setTimecode', timecode: 1000 }), conn);
+      expect(lastBroadcast(broadcast)).toEqual({ type: 'timecodeUpdate', timecode: 1000 });
+      expect(sentMessages(send).some((m) => m.type === 'error')).toBe(false);
+    });
+  });
+
   describe('setOwnValenceDisplay', () => {
     it('from admin: broadcasts ownValenceDisplayChanged', () => {
       const { conn } = connectUser('admin', { isAdmin: true });
@@ -223,7 +584,7 @@ describe('Server onMessage handlers', () => {
     it('from admin: broadcasts pushedInterfacesCleared', () => {
       const { conn } = connectUser('admin', { isAdmin: true });
       server.onMessage(msg({ type: 'clearPushedInterfaces' }), conn);
-      expect(lastBroadcast(broadcast)).toEqual({ type: 'pushedInterfacesCleared' });
+      expect(lastBroadcast(broadcast)).toEqual({ type: 'pushedInterfacesCleared', seq: expect.any(Number) });
     });
 
     it('from non-admin: no broadcast', () => {
@@ -233,6 +594,109 @@ describe('Server onMessage handlers', () => {
     });
   });
 
+  describe('reconnect resume', () => {
+    const sentMessages = (send: ReturnType<typeof vi.fn>) => send.mock.calls.map(([m]) => JSON.parse(m as string));
+
+    function reconnect(userId: string) {
+      const { conn, send } = createMockConnection(`conn-${userId}-2`);
+      connections.push(conn);
+      server.onConnect(conn, makeConnectCtx(userId));
+      return { conn, send };
+    }
+
+    it('replays what the user missed while away, and nothing meant for others', () => {
+      const { conn: admin } = connectUser('admin', { isAdmin: true });
+      const { conn: alice, send: aliceSend } = connectUser('alice');
+      connectUser('bob');
+      server.onMessage(msg({ type: 'pushHaptic', targetUserId: 'alice' }), admin);
+      const [{ seq: lastSeq }] = sentMessages(aliceSend);
+
+      server.onClose(alice);
+      connections.splice(connections.indexOf(alice), 1);
+      server.onMessage(msg({ type: 'clearPushedInterfaces' }), admin);
+      server.onMessage(msg({ type: 'pushHaptic', targetUserId: 'bob' }), admin);
+
+      const { conn, send } = reconnect('alice');
+      const { sequence } = sentMessages(send).find(m => m.type === 'connected');
+      send.mockClear();
+      server.onMessage(msg({ type: 'resume', epoch: sequence.epoch, lastSeq }), conn);
+      expect(sentMessages(send)).toEqual([
+        { type: 'pushedInterfacesCleared', seq: lastSeq + 1 },
+        { type: 'resumed', replayed: 1, complete: true },
+      ]);
+    });
+
+    it('replays a push aimed at the user while their socket was down', () => {
+      const { conn: admin } = connectUser('admin', { isAdmin: true });
+      const { conn: alice, send: aliceSend } = connectUser('alice');
+      server.onMessage(msg({ type: 'pushHaptic', targetUserId: 'alice' }), admin);
+      const [{ seq: lastSeq }] = sentMessages(aliceSend);
+
+      server.onClose(alice);
+      connections.splice(connections.indexOf(alice), 1);
+      server.onMessage(msg({ type: 'pushInterface', targetUserIds: ['alice', 'bob'], interfaceName: 'feedbackStars' }), admin);
+
+      const { conn, send } = reconnect('alice');
+      const { sequence } = sentMessages(send).find(m => m.type === 'connected');
+      send.mockClear();
+      server.onMessage(msg({ type: 'resume', epoch: sequence.epoch, lastSeq }), conn);
+      expect(sentMessages(send)).toEqual([
+        { type: 'interfacePushed', interfaceName: 'feedbackStars', payload: {}, seq: lastSeq + 1 },
+        { type: 'resumed', replayed: 1, complete: true },
+      ]);
+    });
+
+    it('reports an incomplete resume for a sequence from another epoch', () => {
+      const { conn, send } = connectUser('alice');
+      server.onMessage(msg({ type: 'resume', epoch: 'before-restart', lastSeq: 7 }), conn);
+      expect(sentMessages(send)).toEqual([{ type: 'resumed', replayed: 0, complete: false }]);
+    });
+  });
+
+  describe('push to a map group', () => {
+    const sentMessages = (send: ReturnType<typeof vi.fn>) => send.mock.calls.map(([m]) => JSON.parse(m as string));
+
+    it('sends only to connections in that spatial group of the current projection', () => {
+      const { conn: admin } = connectUser('admin', { isAdmin: true });
+      const { send: aliceSend } = connectUser('alice');
+      const { send: bobSend } = connectUser('bob');
+      const coords = [
+        ['alice', [0, 0]], ['a2', [0.1, 0]], ['a3', [0, 0.1]],
+        ['bob', [10, 10]], ['b2', [10.1, 10]], ['b3', [10, 10.1]], ['b4', [10.1, 10.1]],
+      ];
+      server.onMessage(msg({ type: 'mapProjectionSet', projection: { coords, algorithm: 'umap', computedAt: 'now' } }), admin);
+      aliceSend.mockClear();
+      bobSend.mockClear();
+
+      // Bob's clump is bigger, so it is group 0; Alice's is group 1.
+      server.onMessage(msg({ type: 'pushHaptic', targetGroup: 1 }), admin);
+      expect(sentMessages(aliceSend)).toEqual([{ type: 'hapticPushed', seq: expect.any(Number) }]);
+      expect(sentMessages(bobSend)).toEqual([]);
+    });
+
+    it('accepts a projection for a room far past the general message size cap', () => {
+      const { conn: admin, send } = connectUser('admin', { isAdmin: true });
+      const coords = Array.from({ length: 2000 }, (_, i) => [`polis-voter-${i}-0123456789abcdef`, [i / 2000, (i % 7) / 7]]);
+      const assignments = coords.map(([userId], i) => [userId, i % 3]);
+      server.onMessage(msg({ type: 'mapProjectionSet', projection: { coords, algorithm: 'umap', computedAt: 'now', clusters: { k: 3, silhouette: 0.4, assignments } } }), admin);
+      expect(sentMessages(send)).toEqual([]);
+      expect(lastBroadcast(broadcast)).toMatchObject({ type: 'mapProjectionChanged', projection: { algorithm: 'umap' } });
+    });
+
+    it('holds an oversized projection from a participant to the general cap', () => {
+      const { conn, send } = connectUser('alice');
+      const coords = Array.from({ length: 2000 }, (_, i) => [`polis-voter-${i}-0123456789abcdef`, [i / 2000, (i % 7) / 7]]);
+      server.onMessage(msg({ type: 'mapProjectionSet', projection: { coords, algorithm: 'umap', computedAt: 'now' } }), conn);
+      expect(sentMessages(send).pop()).toMatchObject({ type: 'error', code: 'invalid' });
+    });
+
+    it('rejects a non-integer group', () => {
+      const { conn, send } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'pushHaptic', targetGroup: 1.5 }), conn);
+      expect(sentMessages(send)).toEqual([expect.objectContaining({ type: 'error', code: 'invalid' })]);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // requestJoin (viewer promotion)
   // -----------------------------------------------------------------------
@@ -261,7 +725,7 @@ describe('Server onMessage handlers', () => {
       expect(sentMessages).toContainEqual({ type: 'joinApproved' });
     });
 
-    it('viewer when cap is full: sends joinDenied', () => {
+    it('viewer when cap is full: joins the waiting queue', () => {
       const { conn: adminConn } = connectUser('admin', { isAdmin: true });
       server.onMessage(msg({ type: 'setUserCap', cap: 1 }), adminConn);
 
@@ -278,14 +742,13 @@ describe('Server onMessage handlers', () => {
       broadcast.mockClear();
       viewer2Send.mockClear();
 
-      // viewer1 joins first, filling the slot
+      // Both ask to join the full room; viewer1 asked first
       server.onMessage(msg({ type: 'requestJoin' }), viewer1Conn);
-
-      // viewer2 tries to join but cap is now full
       server.onMessage(msg({ type: 'requestJoin' }), viewer2Conn);
 
       const sentMessages = viewer2Send.mock.calls.map((c) => JSON.parse(c[0]));
-      expect(sentMessages).toContainEqual({ type: 'joinDenied' });
+      expect(sentMessages).toContainEqual({ type: 'queuePosition', position: 2, length: 2 });
+      expect(sentMessages).not.toContainEqual({ type: 'joinApproved' });
     });
 
     it('non-viewer: no-op (no send)', () => {
@@ -296,6 +759,115 @@ describe('Server onMessage handlers', () => {
     });
   });
 
+  describe('waiting queue', () => {
+    const sentMessages = (send: ReturnType<typeof vi.fn>) => send.mock.calls.map(([m]) => JSON.parse(m as string));
+
+    beforeEach(() => { vi.useFakeTimers(); });
+    afterEach(() => { vi.useRealTimers(); });
+
+    // A full room of one, with `ids` connected as viewers who have all asked to join, in order.
+    function fullRoomWithQueue(...ids: string[]) {
+      const { conn: admin, send: adminSend } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'setUserCap', cap: 1 }), admin);
+      const { conn: participant } = connectUser('participant');
+      const viewers = ids.map(id => {
+        const { conn, send } = connectUser(id);
+        server.onMessage(msg({ type: 'requestJoin' }), conn);
+        return { conn, send };
+      });
+      for (const { send } of viewers) send.mockClear();
+      adminSend.mockClear();
+      return { admin, adminSend, participant, viewers };
+    }
+
+    it('promotes the head with a buzz when a participant leaves, and moves the rest up', () => {
+      const { participant, viewers: [v1, v2] } = fullRoomWithQueue('v1', 'v2');
+      server.onClose(participant);
+      connections.splice(connections.indexOf(participant), 1);
+
+      expect(sentMessages(v1.send)).toEqual([
+        { type: 'joinApproved' },
+        { type: 'hapticPushed', seq: expect.any(Number) },
+      ]);
+      expect(sentMessages(v2.send)).toEqual([{ type: 'queuePosition', position: 1, length: 1 }]);
+    });
+
+    it('passes a reserved slot on when the promoted viewer stays silent', () => {
+      const { admin, participant, viewers: [v1, v2] } = fullRoomWithQueue('v1', 'v2');
+      server.onMessage(msg({ type: 'setQueueReservation', seconds: 10 }), admin);
+      server.onClose(participant);
+      connections.splice(connections.indexOf(participant), 1);
+      v1.send.mockClear();
+      v2.send.mockClear();
+
+      vi.advanceTimersByTime(10_000);
+      expect(sentMessages(v1.send)).toEqual([{ type: 'reservationExpired' }]);
+      expect(sentMessages(v2.send)).toContainEqual({ type: 'joinApproved' });
+
+      // v2 speaks up in time and keeps the slot
+      server.onMessage(msg({ type: 'move', position: { userId: 'v2', x: 10, y: 10, timestamp: 1 } }), v2.conn);
+      v2.send.mockClear();
+      vi.advanceTimersByTime(10_000);
+      expect(sentMessages(v2.send)).not.toContainEqual({ type: 'reservationExpired' });
+    });
+
+    it('times a re-promotion inside the reservation window from the new promotion', () => {
+      const { admin, participant, viewers: [v1] } = fullRoomWithQueue('v1');
+      server.onMessage(msg({ type: 'setQueueReservation', seconds: 10 }), admin);
+      server.onClose(participant);
+      connections.splice(connections.indexOf(participant), 1);
+      vi.advanceTimersByTime(4_000);
+
+      // A second tab joins as a viewer, queues, and the emcee promotes it
+      const { conn: tab, send: tabSend } = createMockConnection('conn-v1-tab');
+      connections.push(tab);
+      server.onConnect(tab, makeConnectCtx('v1'));
+      server.onMessage(msg({ type: 'requestJoin' }), tab);
+      server.onMessage(msg({ type: 'promoteQueuedViewer', userId: 'v1' }), admin);
+      expect(sentMessages(tabSend)).toContainEqual({ type: 'joinApproved' });
+      v1.send.mockClear();
+
+      vi.advanceTimersByTime(6_000);
+      expect(sentMessages(v1.send)).not.toContainEqual({ type: 'reservationExpired' });
+      vi.advanceTimersByTime(4_000);
+      expect(sentMessages(v1.send)).toContainEqual({ type: 'reservationExpired' });
+    });
+
+    it('lets the emcee reorder, promote and evict queued viewers', () => {
+      const { admin, adminSend, viewers: [v1, v2, v3] } = fullRoomWithQueue('v1', 'v2', 'v3');
+
+      server.onMessage(msg({ type: 'moveQueuedViewer', userId: 'v3', index: 0 }), admin);
+      expect(sentMessages(v3.send)).toEqual([{ type: 'queuePosition', position: 1, length: 3 }]);
+      expect(sentMessages(adminSend).pop()).toEqual({
+        type: 'waitingQueueChanged',
+        queue: [expect.objectContaining({ userId: 'v3' }), expect.objectContaining({ userId: 'v1' }), expect.objectContaining({ userId: 'v2' })],
+        reservationSec: null,
+      });
+
+      server.onMessage(msg({ type: 'evictQueuedViewer', userId: 'v1' }), admin);
+      expect(sentMessages(v1.send).pop()).toEqual({ type: 'queuePosition', position: null, length: 2 });
+
+      // Promotion is the emcee's call, so it goes past the cap
+      server.onMessage(msg({ type: 'promoteQueuedViewer', userId: 'v2' }), admin);
+      expect(sentMessages(v2.send)).toContainEqual({ type: 'joinApproved' });
+      expect(sentMessages(adminSend).pop()).toMatchObject({ queue: [{ userId: 'v3' }] });
+    });
+
+    it('sends the queue list only to connections holding the admin token', () => {
+      const { adminSend } = fullRoomWithQueue('v1');
+      const { conn: peek, send: peekSend } = connectUser('peek', { isAdmin: true, adminToken: null });
+      server.onMessage(msg({ type: 'requestJoin' }), peek);
+      expect(sentMessages(adminSend).pop()).toMatchObject({ type: 'waitingQueueChanged', queue: [{ userId: 'v1' }, { userId: 'peek' }] });
+      expect(sentMessages(peekSend).some((m) => m.type === 'waitingQueueChanged')).toBe(false);
+    });
+
+    it('drops a viewer from the queue when they leave', () => {
+      const { viewers: [v1, v2] } = fullRoomWithQueue('v1', 'v2');
+      server.onClose(v1.conn);
+      expect(sentMessages(v2.send)).toEqual([{ type: 'queuePosition', position: 1, length: 1 }]);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Malformed message
   // -----------------------------------------------------------------------
@@ -303,10 +875,114 @@ describe('Server onMessage handlers', () => {
   describe('malformed message', () => {
     it('does not throw and does not broadcast', () => {
       const { conn } = connectUser('alice');
-      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
       expect(() => server.onMessage('not json', conn)).not.toThrow();
-      expect(errorSpy).toHaveBeenCalledWith('Failed to parse event:', expect.any(SyntaxError));
       expect(broadcast).not.toHaveBeenCalled();
     });
+
+    it('survives frames whose type names an Object member', () => {
+      const { conn } = connectUser('alice');
+      for (const type of ['__proto__', 'constructor', 'valueOf']) {
+        expect(() => server.onMessage(msg({ type, position: null }), conn)).not.toThrow();
+      }
+    });
+  });
+
+  describe('schema validation', () => {
+    function errors(send: ReturnType<typeof vi.fn>) {
+      return send.mock.calls.map(([m]) => JSON.parse(m as string)).filter((m) => m.type === 'error');
+    }
+
+    it('replies with an invalid error and does not relay out-of-range cursors', () => {
+      const { conn, send } = connectUser('alice');
+      server.onMessage(msg({ type: 'move', position: { userId: 'alice', x: 500, y: 50, timestamp: 1 } }), conn);
+      expect(broadcast).not.toHaveBeenCalled();
+      expect(errors(send)).toEqual([
+        { type: 'error', code: 'invalid', eventType: 'move', message: 'position.x must be between 0 and 100' },
+      ]);
+    });
+
+    it('validates before the admin check so malformed admin events never reach handlers', () => {
+      const { conn, send } = connectUser('admin', { isAdmin: true });
+      server.onMessage(msg({ type: 'setRoomAnchors', anchors: 'everywhere' }), conn);
+      expect(broadcast).not.toHaveBeenCalled();
+      expect(errors(send)).toEqual([expect.objectContaining({ code: 'invalid', eventType: 'setRoomAnchors' })]);
+    });
+
+    it('counts rejects per connection and logs the first one', () => {
+      const { conn } = connectUser('alice');
+      const logSpy = vi.mocked(console.log);
+      logSpy.mockClear();
+      server.onMessage('not json', conn);
+      server.onMessage('not json', conn);
+      const rejectLogs = logSpy.mock.calls.filter(([line]) => String(line).startsWith('[reject]'));
+      expect(rejectLogs).toHaveLength(1);
+      expect(rejectLogs[0][0]).toContain('count=1');
+    });
+  });
+
+  describe('rate limiting', () => {
+    function errors(send: ReturnType<typeof vi.fn>) {
+      return send.mock.calls.map(([m]) => JSON.parse(m as string)).filter((m) => m.type === 'error');
+    }
+
+    function submitStars(conn: Party.Connection, times: number) {
+      for (let i = 0; i < times; i++) {
+        server.onMessage(msg({ type: 'submitFeedbackStars', userId: 'alice', stars: 5, timestamp: i }), conn);
+      }
+    }
+
+    it('drops messages over the category burst and tells the client once', () => {
+      room.env.RATE_LIMIT_SUBMISSION = '1,2';
+      const { conn, send } = connectUser('alice');
+      submitStars(conn, 5);
+      expect(allBroadcasts(broadcast).filter((m) => (m as { type: string }).type === 'feedbackStarsSubmitted')).toHaveLength(2);
+      expect(errors(send)).toEqual([expect.objectContaining({ code: 'rateLimited', eventType: 'submitFeedbackStars' })]);
+    });
+
+    it('disconnects a connection that keeps flooding', () => {
+      room.env.RATE_LIMIT_SUBMISSION = '1,1';
+      room.env.RATE_LIMIT_DISCONNECT_AFTER = '3';
+      const { conn: flooder, send } = createMockConnection('conn-flooder');
+      const close = vi.mocked(flooder.close);
+      connections.push(flooder);
+      server.onConnect(flooder, makeConnectCtx('flooder'));
+      submitStars(flooder, 4);
+      expect(close).toHaveBeenCalledWith(4008, 'rate limited');
+      const sent = errors(send);
+      expect(sent[sent.length - 1]).toMatchObject({ code: 'rateLimited', message: 'Too many messages; disconnecting' });
+    });
+
+    it('charges unknown types named after Object members to the other bucket', () => {
+      room.env.RATE_LIMIT_OTHER = '1,1';
+      room.env.RATE_LIMIT_DISCONNECT_AFTER = '3';
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { conn } = connectUser('flooder');
+      const close = vi.mocked(conn.close);
+      for (let i = 0; i < 5; i++) server.onMessage(msg({ type: 'constructor' }), conn);
+      expect(error).not.toHaveBeenCalled();
+      expect(close).toHaveBeenCalledWith(4008, 'rate limited');
+    });
+
+    it('throttles replies to invalid frames and disconnects a client that keeps sending them', () => {
+      room.env.RATE_LIMIT_INVALID = '1,2';
+      room.env.RATE_LIMIT_DISCONNECT_AFTER = '5';
+      const { conn, send } = createMockConnection('conn-bad');
+      const close = vi.mocked(conn.close);
+      connections.push(conn);
+      server.onConnect(conn, makeConnectCtx('bad'));
+      for (let i = 0; i < 4; i++) server.onMessage('not json', conn);
+      expect(errors(send).map((e) => e.code)).toEqual(['invalid', 'invalid', 'rateLimited']);
+      expect(close).not.toHaveBeenCalled();
+
+      for (let i = 0; i < 3; i++) server.onMessage('not json', conn);
+      expect(close).toHaveBeenCalledWith(4008, 'rate limited');
+    });
+
+    it('does not limit the authorized emcee', () => {
+      room.env.RATE_LIMIT_SUBMISSION = '1,1';
+      const { conn, send } = connectUser('admin', { isAdmin: true });
+      submitStars(conn, 5);
+      expect(errors(send)).toEqual([]);
+    });
   });
 });
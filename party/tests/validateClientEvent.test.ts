@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { validateClientEvent, MAX_MESSAGE_LENGTH, MAX_PROJECTION_MESSAGE_LENGTH, MAX_STROKE_POINTS, MAX_LABEL_LENGTH } from '../lib/validateClientEvent';
+
+const json = (event: object) => JSON.stringify(event);
+const position = (x: number, y: number) => ({ x, y, timestamp: 1, userId: 'alice' });
+
+describe('validateClientEvent', () => {
+  it('accepts a well-formed cursor event', () => {
+    const result = validateClientEvent(json({ type: 'move', position: position(50, 50) }));
+    expect(result).toMatchObject({ ok: true, event: { type: 'move' } });
+  });
+
+  it.each([
+    [-1, 50],
+    [50, 100.5],
+    [NaN, 50],
+  ])('rejects cursor coordinates outside 0–100 (%s, %s)', (x, y) => {
+    const result = validateClientEvent(json({ type: 'touch', position: position(x, y) }));
+    expect(result).toMatchObject({ ok: false, eventType: 'touch' });
+  });
+
+  it('rejects anchors with string coordinates', () => {
+    const anchors = { positive: { x: '95', y: 5 }, negative: { x: 5, y: 95 }, neutral: { x: 95, y: 95 } };
+    const result = validateClientEvent(json({ type: 'setRoomAnchors', anchors }));
+    expect(result).toEqual({ ok: false, eventType: 'setRoomAnchors', reason: 'anchors.positive.x must be a finite number' });
+  });
+
+  it('accepts null to reset anchors', () => {
+    expect(validateClientEvent(json({ type: 'setRoomAnchors', anchors: null })).ok).toBe(true);
+  });
+
+  it('rejects over-long labels', () => {
+    const labels = { positive: 'x'.repeat(MAX_LABEL_LENGTH + 1), negative: 'No', neutral: 'Skip' };
+    expect(validateClientEvent(json({ type: 'setRoomLabels', labels })).ok).toBe(false);
+  });
+
+  it('caps strokeSegment point counts', () => {
+    const points = Array.from({ length: MAX_STROKE_POINTS + 1 }, () => ({ x: 1, y: 1 }));
+    const result = validateClientEvent(json({ type: 'strokeSegment', userId: 'alice', strokeId: 's1', points, isFinal: false }));
+    expect(result).toMatchObject({ ok: false, eventType: 'strokeSegment', reason: `points exceeds ${MAX_STROKE_POINTS} entries` });
+  });
+
+  it('rejects enum values the server does not know', () => {
+    expect(validateClientEvent(json({ type: 'setOwnValenceDisplay', mode: 'sparkles' })).ok).toBe(false);
+  });
+
+  it('passes plugin-private types through with only a type check', () => {
+    expect(validateClientEvent(json({ type: 'webrtcOffer', sdp: {} })).ok).toBe(true);
+  });
+
+  it.each(['__proto__', 'constructor', 'valueOf', 'hasOwnProperty'])('treats the Object member name %s as an unknown type', (type) => {
+    expect(validateClientEvent(json({ type }))).toMatchObject({ ok: true, event: { type } });
+  });
+
+  it('refuses a seq, which only the server may stamp', () => {
+    expect(validateClientEvent('{"seq":9,"type":"move","position":{"x":1,"y":2,"timestamp":0,"userId":"a"}}'))
+      .toMatchObject({ ok: false, eventType: 'move', reason: 'seq is reserved for the server' });
+    expect(validateClientEvent(json({ type: 'webrtcOffer', sdp: {}, seq: 9 })).ok).toBe(false);
+  });
+
+  it("lets a large room's map projection past the general size cap", () => {
+    const coords = Array.from({ length: 2000 }, (_, i) => [`participant-${i}-${'x'.repeat(20)}`, [Math.random(), Math.random()]]);
+    const assignments = Object.fromEntries(coords.map(([userId], i) => [userId, i % 4]));
+    const projection = { coords, algorithm: 'umap', computedAt: 'now', clusters: { k: 4, silhouette: 0.5, assignments } };
+    const set = json({ type: 'mapProjectionSet', userId: 'emcee', projection });
+    expect(set.length).toBeGreaterThan(MAX_MESSAGE_LENGTH);
+    expect(validateClientEvent(set, true).ok).toBe(true);
+    expect(validateClientEvent(json({ type: 'mapProjectionProgress', userId: 'emcee', coords }), true).ok).toBe(true);
+  });
+
+  it('holds projections from non-admin connections to the general cap', () => {
+    const padding = 'x'.repeat(MAX_MESSAGE_LENGTH);
+    expect(validateClientEvent(`{"type":"mapProjectionSet","padding":"${padding}"}`))
+      .toEqual({ ok: false, reason: `message exceeds ${MAX_MESSAGE_LENGTH} characters` });
+  });
+
+  it('holds other types to the general cap however they are dressed up', () => {
+    const padding = 'x'.repeat(MAX_MESSAGE_LENGTH);
+    expect(validateClientEvent(json({ type: 'move', padding })).ok).toBe(false);
+    expect(validateClientEvent(`{"type":"mapProjectionSet","padding":"${padding}","type":"webrtcOffer"}`, true)).toMatchObject({ ok: false, eventType: 'webrtcOffer' });
+    expect(validateClientEvent(`{"type":"mapProjectionSet","padding":"${'x'.repeat(MAX_PROJECTION_MESSAGE_LENGTH)}"}`, true).ok).toBe(false);
+  });
+
+  it('rejects non-JSON, typeless, and oversized messages', () => {
+    expect(validateClientEvent('not json')).toEqual({ ok: false, reason: 'message is not valid JSON' });
+    expect(validateClientEvent(json({ position: position(1, 1) })).ok).toBe(false);
+    expect(validateClientEvent(json([{ type: 'move' }])).ok).toBe(false);
+    expect(validateClientEvent('"' + 'x'.repeat(MAX_MESSAGE_LENGTH) + '"').ok).toBe(false);
+  });
+});
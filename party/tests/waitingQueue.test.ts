@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { WaitingQueue } from '../lib/waitingQueue';
+
+describe('WaitingQueue', () => {
+  it('serves users first come first served, once each', () => {
+    const queue = new WaitingQueue();
+    expect(queue.enqueue('alice', 1)).toBe(1);
+    expect(queue.enqueue('bob', 2)).toBe(2);
+    expect(queue.enqueue('alice', 3)).toBe(1);
+    expect(queue.list()).toEqual([{ userId: 'alice', since: 1 }, { userId: 'bob', since: 2 }]);
+    expect(queue.shift()).toBe('alice');
+    expect(queue.position('bob')).toBe(1);
+  });
+
+  it('moves a user to a clamped index', () => {
+    const queue = new WaitingQueue();
+    for (const id of ['a', 'b', 'c']) queue.enqueue(id, 0);
+    expect(queue.move('c', 0)).toBe(true);
+    expect(queue.list().map(e => e.userId)).toEqual(['c', 'a', 'b']);
+    expect(queue.move('c', 99)).toBe(true);
+    expect(queue.list().map(e => e.userId)).toEqual(['a', 'b', 'c']);
+    expect(queue.move('zed', 0)).toBe(false);
+  });
+
+  it('removes users', () => {
+    const queue = new WaitingQueue();
+    queue.enqueue('alice', 0);
+    expect(queue.remove('alice')).toBe(true);
+    expect(queue.remove('alice')).toBe(false);
+    expect(queue.position('alice')).toBeNull();
+    expect(queue.length).toBe(0);
+  });
+});
@@ -1,4 +1,5 @@
 import type { ReactionAnchors } from './lib/reactionRegion';
+import type { AgendaItem, CursorMode, ReactionStoreKind, RecordingMode } from '../app/types';
 
 export type { ReactionAnchors };
 
@@ -14,12 +15,43 @@ export interface CursorEvent {
   position: CursorPosition;
 }
 
+/** Bump when `PersistedState` changes shape, and add a migration in `party/lib/persistedState.ts`. */
+export const PERSISTED_STATE_VERSION = 5;
+
+/** Emcee-controlled room setup, saved so a hibernated room wakes up configured. */
+export interface PersistedRoomConfig {
+  roomLabels: { positive: string; negative: string; neutral: string } | null;
+  roomAnchors: ReactionAnchors | null;
+  roomAvatarStyle: string | null;
+  screenPanelsByName: Record<string, string>;
+  userCap: number | null;
+  nowLabel: string;
+  roomImageUrl: string;
+  inviteEdges: Record<string, string>; // inviteeId -> inviterId
+  customAvatars: Record<string, string>; // userId -> photoUrl
+  colorCursorsByVote: boolean;
+  defaultCursorColor: string;
+  ownValenceDisplay: 'background' | 'labels' | 'none';
+  valenceInputMode: 'touch' | 'orientation-horizontal' | 'orientation-vertical' | 'orientation-rotation';
+  /** V5 reaction storage; null picks Supabase when configured, else room storage. */
+  reactionStore: ReactionStoreKind | null;
+  /** Null until the emcee sets it: protected only if listed in `LEGACY_PROTECTED_ROOMS`. */
+  reactionsProtected: boolean | null;
+  cursorMode: CursorMode;
+  /** Participants at which 'auto' cursor mode switches to density. */
+  densityThreshold: number;
+  /** Seconds a viewer promoted from the waiting queue has to start reacting; null: no limit. */
+  queueReservationSec: number | null;
+}
+
 export interface PersistedState {
+  version: typeof PERSISTED_STATE_VERSION;
   pluginStates?: Record<string, unknown>;
+  roomConfig?: PersistedRoomConfig;
 }
 
 export interface SetTimecodeEvent        { type: 'setTimecode'; timecode: number }
-export interface SetRecordingStateEvent  { type: 'setRecordingState'; recording: boolean }
+export interface SetRecordingStateEvent  { type: 'setRecordingState'; recording: boolean; mode?: RecordingMode }
 export interface SetRoomLabelsEvent      { type: 'setRoomLabels'; labels: { positive: string; negative: string; neutral: string } | null }
 export interface SetRoomAnchorsEvent     { type: 'setRoomAnchors'; anchors: ReactionAnchors | null }
 export interface SetRoomAvatarStyleEvent { type: 'setRoomAvatarStyle'; avatarStyle: string | null }
@@ -29,11 +61,19 @@ export interface ResetSoccerScoreEvent   { type: 'resetSoccerScore' }
 export interface SetUserCapEvent         { type: 'setUserCap'; cap: number | null }
 export interface SetNowLabelEvent        { type: 'setNowLabel'; label: string }
 export interface StartFlashTimerEvent    { type: 'startFlashTimer'; endTimestamp: number; label: string }
+export interface CancelFlashTimerEvent   { type: 'cancelFlashTimer' }
+export interface ExtendFlashTimerEvent   { type: 'extendFlashTimer'; seconds: number }
 export interface SetSocialConfigEvent    { type: 'setSocialConfig'; config: { default: string; twitter: string; bluesky: string; mastodon: string } | null }
 export interface SetGreeterConfigEvent   { type: 'setGreeterConfig'; config: { eventUrl: string } | null }
 export interface RequestJoinEvent        { type: 'requestJoin' }
+export interface SetQueueReservationEvent { type: 'setQueueReservation'; seconds: number | null }
+export interface MoveQueuedViewerEvent   { type: 'moveQueuedViewer'; userId: string; index: number }
+export interface PromoteQueuedViewerEvent { type: 'promoteQueuedViewer'; userId: string }
+export interface EvictQueuedViewerEvent  { type: 'evictQueuedViewer'; userId: string }
 export interface ResetSoccerScore        { type: 'resetSoccerScore' }
 export interface GetStateEvent           { type: 'getState' }
+/** Sent after a reconnect; see party/lib/messageLog.ts. */
+export interface ResumeEvent             { type: 'resume'; epoch: string; lastSeq: number }
 
 export interface TriggerActivityEvent {
   type: 'triggerActivity';
@@ -41,6 +81,8 @@ export interface TriggerActivityEvent {
   targetUserId?: string;
   targetRegion?: 'positive' | 'negative' | 'neutral' | null;
   targetUserIds?: string[];
+  /** Spatial group index on the current map projection; see plugins/map/mapGroups.ts. */
+  targetGroup?: number;
 }
 
 export interface SubmitFeedbackStarsEvent {
@@ -58,17 +100,26 @@ export interface SubmitGithubUsernameEvent {
   timestamp: number;
 }
 
-export interface PlaybackCursorBroadcastEvent {
-  type: 'playbackCursorBroadcast';
-  cursorType: 'move' | 'touch' | 'remove';
-  position: CursorPosition;
+/** Loads a stored recording (see `GET /recordings`) for server-driven playback, stopped at 0. */
+export interface LoadPlaybackEvent {
+  type: 'loadPlayback';
+  recordingId: string;
 }
 
+export type PlaybackControlEvent = { type: 'playbackControl' } & (
+  | { action: 'play' | 'pause' | 'stop' }
+  | { action: 'seek'; positionMs: number }
+  | { action: 'setSpeed'; speed: number }
+  | { action: 'setLoop'; loop: boolean }
+);
+
 export interface PushInterfaceEvent {
   type: 'pushInterface';
   targetUserId?: string;
   targetRegion?: 'positive' | 'negative' | 'neutral' | null;
   targetUserIds?: string[];
+  /** Spatial group index on the current map projection; see plugins/map/mapGroups.ts. */
+  targetGroup?: number;
   interfaceName: string;
   payload?: Record<string, unknown>;
 }
@@ -81,6 +132,8 @@ export interface PushHapticEvent {
   targetUserId?: string;
   targetRegion?: 'positive' | 'negative' | 'neutral' | null;
   targetUserIds?: string[];
+  /** Spatial group index on the current map projection; see plugins/map/mapGroups.ts. */
+  targetGroup?: number;
 }
 
 export interface RecordInvitationsEvent  { type: 'recordInvitations'; edges: Array<[string, string]> }
@@ -89,6 +142,8 @@ export interface SetColorCursorsByVoteEvent { type: 'setColorCursorsByVote'; ena
 export interface SetDefaultCursorColorEvent { type: 'setDefaultCursorColor'; color: string }
 export interface SetOwnValenceDisplayEvent  { type: 'setOwnValenceDisplay'; mode: 'background' | 'labels' | 'none' }
 export interface SetValenceInputModeEvent   { type: 'setValenceInputMode'; mode: 'touch' | 'orientation-horizontal' | 'orientation-vertical' | 'orientation-rotation' }
+export interface SetReactionStorageEvent    { type: 'setReactionStorage'; store: ReactionStoreKind | null; protected: boolean }
+export interface SetCursorModeEvent         { type: 'setCursorMode'; mode: CursorMode; threshold: number }
 
 export interface StrokeSegmentEvent {
   type: 'strokeSegment';
@@ -107,20 +162,112 @@ export interface NeighborEdgeEvent          { type: 'neighborEdge';       from:
 export interface RequestNeighborEdgesEvent  { type: 'requestNeighborEdges' }
 export interface ClearNeighborEdgesEvent    { type: 'clearNeighborEdges' }
 
+export interface SnapMomentEvent         { type: 'snapMoment'; label?: string }
+export interface RenameMomentEvent       { type: 'renameMoment'; id: string; label: string }
+export interface DeleteMomentEvent       { type: 'deleteMoment'; id: string }
+export interface ClearMomentsEvent       { type: 'clearMoments' }
+
+export interface SetAgendaEvent          { type: 'setAgenda'; items: AgendaItem[] }
+export interface AdvanceAgendaEvent      { type: 'advanceAgenda'; direction: 'next' | 'previous' }
+export interface SetAgendaAutoAdvanceEvent { type: 'setAgendaAutoAdvance'; autoAdvance: boolean }
+
 export interface SetLightColorEvent      { type: 'setLightColor'; color: string; brightness: number }
 
-export type ClientEvent =
+/** Events handled by the core server switch in `party/server.ts`. */
+export type CoreClientEvent =
   | CursorEvent | SetTimecodeEvent
   | SetRecordingStateEvent | SetRoomLabelsEvent | SetRoomAnchorsEvent
   | SetRoomAvatarStyleEvent | SetScreenPanelEvent | SetImageUrlEvent
-  | ResetSoccerScoreEvent | SetUserCapEvent | RequestJoinEvent
-  | PlaybackCursorBroadcastEvent | TriggerActivityEvent | SubmitGithubUsernameEvent
-  | SubmitFeedbackStarsEvent | SetSocialConfigEvent | SetGreeterConfigEvent
+  | SetUserCapEvent | RequestJoinEvent
+  | SetQueueReservationEvent | MoveQueuedViewerEvent | PromoteQueuedViewerEvent | EvictQueuedViewerEvent
+  | LoadPlaybackEvent | PlaybackControlEvent | TriggerActivityEvent | SubmitGithubUsernameEvent
+  | SubmitFeedbackStarsEvent
   | PushInterfaceEvent | AcceptInterfaceEvent | ClearPushedInterfacesEvent
-  | PushHapticEvent | SetNowLabelEvent | StartFlashTimerEvent | RecordInvitationsEvent
+  | PushHapticEvent | SetNowLabelEvent | StartFlashTimerEvent | CancelFlashTimerEvent | ExtendFlashTimerEvent
+  | RecordInvitationsEvent
   | RegisterCustomAvatarEvent | SetColorCursorsByVoteEvent | SetDefaultCursorColorEvent
-  | SetOwnValenceDisplayEvent | SetValenceInputModeEvent | StrokeSegmentEvent
-  | ClearSignatureEvent
-  | SetArrivalCapacityEvent | GetStateEvent
+  | SetOwnValenceDisplayEvent | SetValenceInputModeEvent | SetReactionStorageEvent | SetCursorModeEvent
+  | SnapMomentEvent | RenameMomentEvent | DeleteMomentEvent | ClearMomentsEvent
+  | SetAgendaEvent | AdvanceAgendaEvent | SetAgendaAutoAdvanceEvent
+  | GetStateEvent | ResumeEvent;
+
+/** Events handled by server plugins; their permissions live in `ServerPlugin.adminMessageTypes`. */
+export type PluginClientEvent =
+  | ResetSoccerScoreEvent | SetSocialConfigEvent | SetGreeterConfigEvent
+  | StrokeSegmentEvent | ClearSignatureEvent
+  | SetArrivalCapacityEvent
   | NeighborEdgeEvent | RequestNeighborEdgesEvent | ClearNeighborEdgesEvent
   | SetLightColorEvent;
+
+export type ClientEvent = CoreClientEvent | PluginClientEvent;
+
+export type EventPermission = 'anyone' | 'admin';
+
+/**
+ * Who may send each core event. 'admin' events from a connection without the room's
+ * admin token are rejected with an `error` reply before any handler runs.
+ */
+export const CLIENT_EVENT_PERMISSIONS: Record<CoreClientEvent['type'], EventPermission> = {
+  move:                    'anyone',
+  touch:                   'anyone',
+  remove:                  'anyone',
+  setTimecode:             'anyone', // V2 participants keep the shared video in sync
+  requestJoin:             'anyone',
+  getState:                'anyone',
+  resume:                  'anyone',
+  acceptInterface:         'anyone',
+  submitGithubUsername:    'anyone',
+  submitFeedbackStars:     'anyone',
+  registerCustomAvatar:    'anyone',
+  recordInvitations:       'anyone',
+  setRecordingState:       'admin',
+  setRoomLabels:           'admin',
+  setRoomAnchors:          'admin',
+  setRoomAvatarStyle:      'admin',
+  setScreenPanel:          'admin',
+  setImageUrl:             'admin',
+  setNowLabel:             'admin',
+  startFlashTimer:         'admin',
+  cancelFlashTimer:        'admin',
+  extendFlashTimer:        'admin',
+  setUserCap:              'admin',
+  setQueueReservation:     'admin',
+  moveQueuedViewer:        'admin',
+  promoteQueuedViewer:     'admin',
+  evictQueuedViewer:       'admin',
+  loadPlayback:            'admin',
+  playbackControl:         'admin',
+  triggerActivity:         'admin',
+  pushInterface:           'admin',
+  pushHaptic:              'admin',
+  clearPushedInterfaces:   'admin',
+  setColorCursorsByVote:   'admin',
+  setDefaultCursorColor:   'admin',
+  setOwnValenceDisplay:    'admin',
+  setValenceInputMode:     'admin',
+  setReactionStorage:      'admin',
+  setCursorMode:           'admin',
+  snapMoment:              'admin',
+  renameMoment:            'admin',
+  deleteMoment:            'admin',
+  clearMoments:            'admin',
+  setAgenda:               'admin',
+  advanceAgenda:           'admin',
+  setAgendaAutoAdvance:    'admin',
+};
+
+/**
+ * 'forbidden': admin-only event without the admin token. 'invalid': failed schema validation.
+ * 'rateLimited': over the per-connection rate for the event's category; the event was dropped.
+ * 'failed': the event was accepted but the server couldn't carry it out (e.g. a storage read failed).
+ */
+export type ServerErrorCode = 'forbidden' | 'invalid' | 'rateLimited' | 'failed';
+
+/** Sent only to the offending connection when the server refuses or fails one of its messages. */
+export interface ServerErrorMessage {
+  type: 'error';
+  code: ServerErrorCode;
+  /** The `type` of the rejected client message, when it could be read. */
+  eventType?: string;
+  message: string;
+}
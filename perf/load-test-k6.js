@@ -9,7 +9,10 @@
  *   k6 run --env WS_URL=wss://perf.whispering-gallery.patcon.partykit.dev/parties/perf/default perf/load-test-k6.js
  *   k6 run --vus 200 --duration 60s perf/load-test-k6.js
  *
- * Adaptive throttle (mirrors PerfCanvasApp logic):
+ * Server-recommended pacing (what TouchLayer does: obey cursorPacingChanged):
+ *   k6 run --env ADAPTIVE_THROTTLE=server perf/load-test-k6.js
+ *
+ * Client-side throttle curve (mirrors PerfCanvasApp's manual throttle sliders):
  *   k6 run --env ADAPTIVE_THROTTLE=true perf/load-test-k6.js
  *   k6 run --env ADAPTIVE_THROTTLE=true \
  *          --env THROTTLE_BASE=50 \
@@ -18,6 +21,10 @@
  *          --env THROTTLE_MAX=250 \
  *          perf/load-test-k6.js
  *
+ * Binary cursor frames (app/utils/cursorWire.ts) instead of JSON cursorBatch:
+ *   k6 run --env CURSOR_FORMAT=binary perf/load-test-k6.js
+ * Compare cursor_bytes_received between a JSON and a binary run to see the saving.
+ *
  * k6 produces structured metrics automatically:
  *   ws_connecting        — connection handshake time (p50/p95/p99)
  *   ws_msgs_sent         — total messages sent
@@ -41,13 +48,16 @@ const cursorsReceived   = new Counter("cursors_received");  // cursor events onl
 const connectLatency    = new Trend("connect_latency_ms", true);
 const deliveryLatency   = new Trend("cursor_delivery_ms", true);  // sender → server batch → back to sender
 const connectionSuccess = new Rate("connection_success");
+const cursorBytes       = new Counter("cursor_bytes_received");  // wire size of cursor messages, either format
 
 // --- Config ---
 const WS_URL = __ENV.WS_URL || "ws://localhost:1999/parties/perf/default";
+const CURSOR_FORMAT = __ENV.CURSOR_FORMAT || "json"; // "json" | "binary"
 
-// Adaptive throttle — mirrors PerfCanvasApp/TouchLayer logic.
-// Each VU tracks the server-broadcast presenceCount and scales its send
-// interval using the same quadratic ease-in curve as the real client.
+// Adaptive throttle. "server": each VU sends at the interval the server recommends,
+// like TouchLayer. "true": each VU tracks the server-broadcast presenceCount and scales
+// its send interval with the quadratic ease-in curve of PerfCanvasApp's sliders.
+const SERVER_PACING       = __ENV.ADAPTIVE_THROTTLE === "server";
 const ADAPTIVE_THROTTLE   = (__ENV.ADAPTIVE_THROTTLE || "false") === "true";
 const THROTTLE_BASE       = parseInt(__ENV.THROTTLE_BASE        || "50",  10); // ms at low counts
 const THROTTLE_SCALE_START= parseInt(__ENV.THROTTLE_SCALE_START || "300", 10); // connections
@@ -55,10 +65,12 @@ const THROTTLE_SCALE_END  = parseInt(__ENV.THROTTLE_SCALE_END   || "400", 10); /
 const THROTTLE_MAX        = parseInt(__ENV.THROTTLE_MAX         || "250", 10); // ms at high counts
 
 // Quadratic ease-in: cheap at low counts, accelerating near capacity.
-// Mirrors CURSOR_THROTTLE_MS in app/utils/cursor.ts — keep in sync.
+// Mirrors computeThrottleMs in app/utils/cursorThrottle.ts and CURSOR_THROTTLE_MS in
+// app/utils/cursor.ts — keep in sync.
 const CURSOR_THROTTLE_MS = 33;
 
-function computeThrottleMs(count) {
+function computeThrottleMs(count, serverThrottleMs) {
+  if (SERVER_PACING)                   return serverThrottleMs;
   if (!ADAPTIVE_THROTTLE)              return CURSOR_THROTTLE_MS;
   if (count <= THROTTLE_SCALE_START)   return THROTTLE_BASE;
   if (count >= THROTTLE_SCALE_END)     return THROTTLE_MAX;
@@ -103,6 +115,31 @@ function orbitPosition(orbit, tSec) {
   };
 }
 
+// Binary cursor frame reader — mirrors decodeCursorFrame in app/utils/cursorWire.ts, keep in sync.
+// Header: u8 version, f64 base timestamp. Cursor: u16 id, u8 type, u16 x, u16 y, i32 ms since base.
+const FRAME_HEADER_BYTES = 9;
+const FRAME_CURSOR_BYTES = 11;
+const FRAME_COORD_SCALE  = 0xffff / 100;
+
+function decodeCursorFrame(buffer, userIdsById) {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < FRAME_HEADER_BYTES || view.getUint8(0) !== 1) return [];
+  const base = view.getFloat64(1, true);
+  const cursors = [];
+  for (let at = FRAME_HEADER_BYTES; at + FRAME_CURSOR_BYTES <= buffer.byteLength; at += FRAME_CURSOR_BYTES) {
+    cursors.push({
+      type: ["move", "touch", "remove"][view.getUint8(at + 2)],
+      position: {
+        userId: userIdsById[view.getUint16(at, true)],
+        x: view.getUint16(at + 3, true) / FRAME_COORD_SCALE,
+        y: view.getUint16(at + 5, true) / FRAME_COORD_SCALE,
+        timestamp: base + view.getInt32(at + 7, true),
+      },
+    });
+  }
+  return cursors;
+}
+
 function generateUserId() {
   // Math.random fallback — matches generateUUID() in app/utils/userId.ts
   return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
@@ -123,11 +160,16 @@ export default function () {
   const closeAfterMs = 18000 + Math.random() * 4000;
 
   let presenceCount = 0;
+  let serverThrottleMs = CURSOR_THROTTLE_MS;
   let lastSent = 0;
+  const userIdsById = {}; // binary format: short cursor id → userId
 
   // ws.connect() blocks the VU until the socket closes — this is the correct
   // pattern for k6/ws and gives clean per-iteration lifecycle management.
-  const res = ws.connect(WS_URL, {}, function (socket) {
+  const url = CURSOR_FORMAT === "binary"
+    ? `${WS_URL}${WS_URL.includes("?") ? "&" : "?"}cursorFormat=binary`
+    : WS_URL;
+  const res = ws.connect(url, {}, function (socket) {
     connectLatency.add(Date.now() - t0);
     connectionSuccess.add(true);
 
@@ -136,7 +178,7 @@ export default function () {
       // When adaptive throttle is off, computeThrottleMs returns 33ms (~30 fps).
       socket.setInterval(() => {
         const now = Date.now();
-        if (now - lastSent < computeThrottleMs(presenceCount)) return;
+        if (now - lastSent < computeThrottleMs(presenceCount, serverThrottleMs)) return;
         lastSent = now;
 
         const tSec = (now - t0) / 1000;
@@ -163,25 +205,44 @@ export default function () {
       }, closeAfterMs);
     });
 
+    // Count only cursor events, not presenceCount broadcasts, and measure end-to-end
+    // delivery latency for our own cursor echoed back
+    function receiveCursors(cursors) {
+      cursorsReceived.add(cursors.length);
+      const now = Date.now();
+      for (const event of cursors) {
+        if (event.position?.userId === userId && event.position?.timestamp) {
+          deliveryLatency.add(now - event.position.timestamp);
+        }
+      }
+    }
+
     socket.on("message", (data) => {
       try {
         const msg = JSON.parse(data);
         if (msg.type === "presenceCount") {
           presenceCount = msg.count;
         } else if (msg.type === "cursorBatch" && Array.isArray(msg.cursors)) {
-          // Count only cursor events, not presenceCount broadcasts
-          cursorsReceived.add(msg.cursors.length);
-          // Measure end-to-end delivery latency for our own cursor echoed back
-          const now = Date.now();
-          for (const event of msg.cursors) {
-            if (event.position?.userId === userId && event.position?.timestamp) {
-              deliveryLatency.add(now - event.position.timestamp);
-            }
-          }
+          cursorBytes.add(data.length);
+          receiveCursors(msg.cursors);
+        } else if (msg.type === "cursorIds") {
+          // Id announcements are part of the binary format's cost
+          cursorBytes.add(data.length);
+          for (const [announcedId, id] of Object.entries(msg.ids)) userIdsById[id] = announcedId;
+        } else if (msg.type === "cursorPacingChanged") {
+          serverThrottleMs = msg.pacing.throttleMs;
+        } else if (msg.type === "connected") {
+          if (msg.cursorPacing) serverThrottleMs = msg.cursorPacing.throttleMs;
+          for (const [knownId, id] of Object.entries(msg.cursorIds || {})) userIdsById[id] = knownId;
         }
       } catch (_) {}
     });
 
+    socket.on("binaryMessage", (data) => {
+      cursorBytes.add(data.byteLength);
+      receiveCursors(decodeCursorFrame(data, userIdsById));
+    });
+
     socket.on("error", (e) => {
       console.error(`[${userId.slice(0, 8)}] WS error: ${e.error()}`);
     });
@@ -197,9 +258,13 @@ export function handleSummary(data) {
   const sent     = data.metrics.cursors_sent?.values?.count     || 0;
   const received = data.metrics.cursors_received?.values?.count || 0;
   const fanout   = sent > 0 ? (received / sent).toFixed(2) : "N/A";
+  const bytes    = data.metrics.cursor_bytes_received?.values?.count || 0;
+  const perCursor = received > 0 ? (bytes / received).toFixed(1) : "N/A";
 
   const summary = textSummary(data, { indent: " ", enableColors: true });
   return {
-    stdout: summary + `\n Cursor fanout ratio: ${fanout}x (cursors_received / cursors_sent — expected ≈ VU count)\n`,
+    stdout: summary
+      + `\n Cursor fanout ratio: ${fanout}x (cursors_received / cursors_sent — expected ≈ VU count)`
+      + `\n Cursor wire cost: ${perCursor} bytes/cursor received (${CURSOR_FORMAT})\n`,
   };
 }
@@ -2,6 +2,8 @@ import type { ServerPlugin, PluginConnection, PluginContext } from '../types';
 import type { ArrivalCanvasPluginState } from './types';
 
 export const ArrivalCanvasServerPlugin: ServerPlugin<ArrivalCanvasPluginState> = {
+  adminMessageTypes: ['setArrivalCapacity'],
+
   createState(): ArrivalCanvasPluginState {
     return { capacity: 50 };
   },
@@ -2,6 +2,8 @@ import type { ServerPlugin, PluginConnection, PluginContext } from '../types';
 import type { GreeterPluginState } from './types';
 
 export const GreeterServerPlugin: ServerPlugin<GreeterPluginState> = {
+  adminMessageTypes: ['setGreeterConfig'],
+
   createState(): GreeterPluginState {
     return { config: null };
   },
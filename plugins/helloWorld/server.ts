@@ -2,6 +2,8 @@ import type { ServerPlugin, PluginConnection, PluginContext } from '../types';
 import type { HelloWorldPluginState } from './types';
 
 export const HelloWorldServerPlugin: ServerPlugin<HelloWorldPluginState> = {
+  adminMessageTypes: ['setHelloWorldMessage'],
+
   createState(): HelloWorldPluginState {
     return { message: 'Hello, world!' };
   },
@@ -6,6 +6,8 @@ export interface LightState {
 }
 
 export const lightServer: ServerPlugin<LightState> = {
+  adminMessageTypes: ['setLightColor'],
+
   createState: () => ({ color: '#000000', brightness: 100 }),
 
   onConnect(conn: PluginConnection, _ctx: PluginContext, state: LightState) {
@@ -1,10 +1,9 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { usePanelContext } from '../../app/context/PanelContext';
-import { useRoomSocket } from '../../app/contexts/RoomSocketContext';
+import { useRoomSocket, useMessageSubscription } from '../../app/contexts/RoomSocketContext';
 import { useMapViewerConfig } from './useMapViewerConfig';
-import { idbGet } from "../../app/utils/idbStorage";
+import { useRoomMoments } from "../../app/hooks/useRoomMoments";
 import type { MapViewerConfig } from "../../app/types";
-import type { MomentSnapshot } from "../../app/components/panels/AdminPanelNoDB/types";
 import { VOTE_COLORS, USER_STATUS_COLORS, USER_STATUS_LABELS, MISSING_COLOR } from "../../app/constants/userStatus";
 
 export default function MapViewerConfigModal({ onClose }: { onClose: () => void }) {
@@ -12,15 +11,13 @@ export default function MapViewerConfigModal({ onClose }: { onClose: () => void
   const { send } = useRoomSocket();
   const { config, setConfig } = useMapViewerConfig();
 
-  const [colorMode, setColorMode] = useState<'none' | 'moment' | 'now'>(config?.colorMode ?? 'none');
+  const [colorMode, setColorMode] = useState<'none' | 'moment' | 'now' | 'group'>(config?.colorMode ?? 'none');
   const [momentId, setMomentId] = useState<string | null>(config?.momentId ?? null);
-  const [moments, setMoments] = useState<MomentSnapshot[]>([]);
+  const { moments, refresh: refreshMoments } = useRoomMoments(room);
 
-  useEffect(() => {
-    idbGet<MomentSnapshot[]>(`v4-moments-${room}`).then(stored => {
-      if (stored) setMoments(stored);
-    });
-  }, [room]);
+  useMessageSubscription((evt) => {
+    if (JSON.parse(evt.data).type === 'momentsChanged') refreshMoments();
+  });
 
   const handleSave = () => {
     const next: MapViewerConfig = { colorMode, momentId: colorMode === 'moment' ? momentId : null };
@@ -42,12 +39,13 @@ export default function MapViewerConfigModal({ onClose }: { onClose: () => void
             <select
               className="app-modal-input"
               value={colorMode}
-              onChange={e => setColorMode(e.target.value as 'none' | 'moment' | 'now')}
+              onChange={e => setColorMode(e.target.value as 'none' | 'moment' | 'now' | 'group')}
               style={{ cursor: 'pointer' }}
             >
               <option value="none">None (uniform color)</option>
               <option value="moment">Valence: Moments</option>
               <option value="now">Valence: Now</option>
+              <option value="group">Map groups</option>
             </select>
           </label>
 
@@ -72,6 +70,12 @@ export default function MapViewerConfigModal({ onClose }: { onClose: () => void
             </label>
           )}
 
+          {colorMode === 'group' && (
+            <p style={{ fontSize: 12, color: '#666', margin: 0 }}>
+              Dense areas of the map are outlined and labelled with their size; scattered dots stay grey.
+            </p>
+          )}
+
           {showVoteLegend && (
             <div style={{ display: 'flex', gap: 12, fontSize: 12, color: '#888', alignItems: 'center', flexWrap: 'wrap' }}>
               <span style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
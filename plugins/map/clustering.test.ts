@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { kmeans, meanSilhouette, clusterParticipants } from './clustering';
+
+// Three tight blobs of 4, 3 and 2 participants over four moments.
+const blobs = [
+  [1, 1, 1, 1], [1, 0.9, 1, 1], [0.9, 1, 1, 1], [1, 1, 0.9, 1],
+  [-1, -1, -1, -1], [-1, -0.9, -1, -1], [-0.9, -1, -1, -1],
+  [1, -1, 1, -1], [1, -1, 0.9, -1],
+];
+const ids = blobs.map((_, i) => `u${i}`);
+
+describe('kmeans', () => {
+  it('separates well-spaced groups and numbers them largest first', () => {
+    expect(kmeans(blobs, 3)).toEqual([0, 0, 0, 0, 1, 1, 1, 2, 2]);
+  });
+
+  it('is deterministic', () => {
+    expect(kmeans(blobs, 2)).toEqual(kmeans(blobs, 2));
+  });
+});
+
+describe('meanSilhouette', () => {
+  it('scores the true grouping above a scrambled one', () => {
+    const good = meanSilhouette(blobs, [0, 0, 0, 0, 1, 1, 1, 2, 2]);
+    const bad = meanSilhouette(blobs, [0, 1, 2, 0, 1, 2, 0, 1, 2]);
+    expect(good).toBeGreaterThan(0.8);
+    expect(bad).toBeLessThan(0);
+  });
+
+  it('is 0 for a single group', () => {
+    expect(meanSilhouette(blobs, blobs.map(() => 0))).toBe(0);
+  });
+});
+
+describe('clusterParticipants', () => {
+  it('picks k by silhouette', () => {
+    const clusters = clusterParticipants(blobs, ids)!;
+    expect(clusters.k).toBe(3);
+    expect(clusters.assignments).toContainEqual(['u7', 2]);
+  });
+
+  it('needs at least 3 participants', () => {
+    expect(clusterParticipants(blobs.slice(0, 2), ids.slice(0, 2))).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import type { MapClusters } from '../../app/types';
+
+// k-means over the participant × moment matrix Map Maker projects (rows already
+// imputed), with k chosen by mean silhouette. Everything here is deterministic — the
+// same matrix always gives the same groups and the same group numbering — so every
+// client that re-derives a report from the stored assignments agrees with the emcee.
+
+export const MAX_CLUSTERS = 6;
+const MAX_ITERATIONS = 100;
+
+function sqDist(a: number[], b: number[]): number {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += (a[i] - b[i]) ** 2;
+  return s;
+}
+
+function mean(rows: number[][], dims: number): number[] {
+  const m = new Array<number>(dims).fill(0);
+  for (const row of rows) for (let i = 0; i < dims; i++) m[i] += row[i] / rows.length;
+  return m;
+}
+
+/**
+ * Lloyd's k-means, seeded by farthest-point selection starting from the row nearest the
+ * overall mean. Returns a group index per row; groups are renumbered largest first.
+ */
+export function kmeans(matrix: number[][], k: number): number[] {
+  const dims = matrix[0]?.length ?? 0;
+  const overall = mean(matrix, dims);
+  const seeds = [matrix.reduce((best, row, i) => sqDist(row, overall) < sqDist(matrix[best], overall) ? i : best, 0)];
+  while (seeds.length < k) {
+    let far = -1;
+    let farDist = -1;
+    matrix.forEach((row, i) => {
+      const d = Math.min(...seeds.map(s => sqDist(row, matrix[s])));
+      if (d > farDist) { far = i; farDist = d; }
+    });
+    seeds.push(far);
+  }
+  let centroids = seeds.map(i => [...matrix[i]]);
+  let labels = new Array<number>(matrix.length).fill(-1);
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    let changed = false;
+    labels = matrix.map((row, i) => {
+      let best = 0;
+      for (let c = 1; c < k; c++) if (sqDist(row, centroids[c]) < sqDist(row, centroids[best])) best = c;
+      if (best !== labels[i]) changed = true;
+      return best;
+    });
+    if (!changed) break;
+    centroids = centroids.map((old, c) => {
+      const members = matrix.filter((_, i) => labels[i] === c);
+      return members.length > 0 ? mean(members, dims) : old;
+    });
+  }
+
+  const sizes = new Array<number>(k).fill(0);
+  for (const l of labels) sizes[l]++;
+  const firstSeen = (c: number) => labels.indexOf(c);
+  const order = [...sizes.keys()]
+    .filter(c => sizes[c] > 0)
+    .sort((a, b) => sizes[b] - sizes[a] || firstSeen(a) - firstSeen(b));
+  const renumber = new Map(order.map((c, i) => [c, i]));
+  return labels.map(l => renumber.get(l)!);
+}
+
+/** Mean silhouette coefficient of a labelling, in [-1, 1]; 0 when there is a single group. */
+export function meanSilhouette(matrix: number[][], labels: number[]): number {
+  const groups = new Set(labels);
+  if (groups.size < 2) return 0;
+  const dist = matrix.map(a => matrix.map(b => Math.sqrt(sqDist(a, b))));
+  let total = 0;
+  matrix.forEach((_, i) => {
+    const sums = new Map<number, { sum: number; n: number }>();
+    matrix.forEach((_, j) => {
+      if (i === j) return;
+      const s = sums.get(labels[j]) ?? { sum: 0, n: 0 };
+      s.sum += dist[i][j];
+      s.n++;
+      sums.set(labels[j], s);
+    });
+    const own = sums.get(labels[i]);
+    // A singleton's silhouette is 0 by convention.
+    if (!own) return;
+    const a = own.sum / own.n;
+    const b = Math.min(...[...sums].filter(([g]) => g !== labels[i]).map(([, s]) => s.sum / s.n));
+    total += (b - a) / Math.max(a, b) || 0;
+  });
+  return total / matrix.length;
+}
+
+/**
+ * Clusters participants for each k from 2 up to `maxK` (capped below the participant
+ * count) and keeps the k with the best mean silhouette. Null with fewer than 3 participants.
+ */
+export function clusterParticipants(matrix: number[][], participantIds: string[], maxK = MAX_CLUSTERS): MapClusters | null {
+  if (participantIds.length < 3) return null;
+  let best: { k: number; silhouette: number; labels: number[] } | null = null;
+  for (let k = 2; k <= Math.min(maxK, participantIds.length - 1); k++) {
+    const labels = kmeans(matrix, k);
+    const silhouette = meanSilhouette(matrix, labels);
+    if (!best || silhouette > best.silhouette) best = { k: new Set(labels).size, silhouette, labels };
+  }
+  if (!best) return null;
+  return {
+    k: best.k,
+    silhouette: best.silhouette,
+    assignments: participantIds.map((id, i) => [id, best!.labels[i]]),
+  };
+}
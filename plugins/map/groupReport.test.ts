@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { buildGroupReport } from './groupReport';
+import type { MapClusters, MomentSnapshot } from '../../app/types';
+
+const clusters: MapClusters = {
+  k: 2,
+  silhouette: 0.7,
+  assignments: [['a1', 0], ['a2', 0], ['a3', 0], ['b1', 1], ['b2', 1]],
+};
+
+const moments: MomentSnapshot[] = [
+  { id: 'split', label: 'Ban cars', timestamp: 1, regions: { a1: 'positive', a2: 'positive', a3: 'positive', b1: 'negative', b2: 'negative' } },
+  { id: 'shared', label: 'More parks', timestamp: 2, regions: { a1: 'positive', a2: 'positive', a3: 'positive', b1: 'positive', b2: 'positive' } },
+  { id: 'quiet', label: 'Nobody here', timestamp: 3, regions: { a1: null, b1: 'neutral' } },
+];
+
+describe('buildGroupReport', () => {
+  const report = buildGroupReport(moments, clusters, '2026-10-12T00:00:00.000Z');
+
+  it('lists the moments each group holds more than the rest of the room', () => {
+    expect(report.groups.map(g => g.size)).toEqual([3, 2]);
+    expect(report.groups[0].representative[0]).toMatchObject({ momentId: 'split', direction: 'agree', probability: 0.8 });
+    expect(report.groups[1].representative[0]).toMatchObject({ momentId: 'split', direction: 'disagree', probability: 0.75 });
+  });
+
+  it('does not call a shared moment representative', () => {
+    expect(report.groups.flatMap(g => g.representative).map(r => r.momentId)).not.toContain('shared');
+  });
+
+  it('reports moments every group agrees on as consensus', () => {
+    expect(report.consensus).toEqual([
+      { momentId: 'shared', label: 'More parks', direction: 'agree', probabilities: [0.8, 0.75] },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import type { MapClusters, MomentSnapshot } from '../../app/types';
+
+// Polis-style report over opinion groups: for each group, the moments on which it reacted
+// most differently from everyone else, plus the moments every group reacted to alike.
+// Probabilities use Polis' add-one smoothing, (count + 1) / (votes + 2), so small groups
+// don't produce 0 % / 100 % extremes. A pass (neutral) counts as a vote; no cursor doesn't.
+// As in Polis, a moment is only representative when the group's share differs from the
+// rest of the room's at 90 % confidence, so a handful of voters can't tip it.
+
+export type ReportDirection = 'agree' | 'disagree';
+
+export interface RepresentativeMoment {
+  momentId: string;
+  label: string;
+  direction: ReportDirection;
+  /** Smoothed share of the group's votes in `direction`. */
+  probability: number;
+  /** `probability` divided by the same share among everyone outside the group. */
+  repness: number;
+  votes: number;
+}
+
+export interface ConsensusMoment {
+  momentId: string;
+  label: string;
+  direction: ReportDirection;
+  /** Smoothed share in `direction` for each group, by group index. */
+  probabilities: number[];
+}
+
+export interface OpinionGroupReport {
+  computedAt: string;
+  k: number;
+  silhouette: number;
+  groups: { id: number; size: number; representative: RepresentativeMoment[] }[];
+  consensus: ConsensusMoment[];
+}
+
+export const REPORT_TOP_N = 5;
+
+/** Groups are lettered as in Polis reports: 0 → "Group A". */
+export const groupName = (id: number) => `Group ${String.fromCharCode(65 + id)}`;
+
+interface Tally { agree: number; disagree: number; votes: number }
+
+const smoothed = (count: number, votes: number) => (count + 1) / (votes + 2);
+
+const Z_90 = 1.2816;
+
+// One-sided two-proportion z-test: is count1/n1 significantly above count2/n2?
+function significantlyAbove(count1: number, n1: number, count2: number, n2: number): boolean {
+  if (n1 === 0 || n2 === 0) return false;
+  const pooled = (count1 + count2) / (n1 + n2);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  return se > 0 && (count1 / n1 - count2 / n2) / se > Z_90;
+}
+
+function tally(moment: MomentSnapshot, members: string[]): Tally {
+  const t = { agree: 0, disagree: 0, votes: 0 };
+  for (const userId of members) {
+    const region = moment.regions[userId];
+    if (region === undefined || region === null) continue;
+    t.votes++;
+    if (region === 'positive') t.agree++;
+    else if (region === 'negative') t.disagree++;
+  }
+  return t;
+}
+
+export function buildGroupReport(moments: MomentSnapshot[], clusters: MapClusters, computedAt: string): OpinionGroupReport {
+  const members: string[][] = Array.from({ length: clusters.k }, () => []);
+  for (const [userId, group] of clusters.assignments) members[group]?.push(userId);
+  const everyone = clusters.assignments.map(([userId]) => userId);
+
+  const groups = members.map((inGroup, id) => {
+    const outside = everyone.filter(u => !inGroup.includes(u));
+    const candidates: RepresentativeMoment[] = [];
+    for (const moment of moments) {
+      const tIn = tally(moment, inGroup);
+      if (tIn.votes === 0) continue;
+      const tOut = tally(moment, outside);
+      for (const direction of ['agree', 'disagree'] as const) {
+        const probability = smoothed(tIn[direction], tIn.votes);
+        const repness = probability / smoothed(tOut[direction], tOut.votes);
+        // Only moments the group mostly holds, and holds more than everyone else.
+        if (probability > 0.5 && significantlyAbove(tIn[direction], tIn.votes, tOut[direction], tOut.votes)) {
+          candidates.push({ momentId: moment.id, label: moment.label, direction, probability, repness, votes: tIn.votes });
+        }
+      }
+    }
+    candidates.sort((a, b) => b.repness * b.probability - a.repness * a.probability);
+    return { id, size: inGroup.length, representative: candidates.slice(0, REPORT_TOP_N) };
+  });
+
+  const consensus: ConsensusMoment[] = [];
+  for (const moment of moments) {
+    const tallies = members.map(inGroup => tally(moment, inGroup));
+    if (tallies.some(t => t.votes === 0)) continue;
+    for (const direction of ['agree', 'disagree'] as const) {
+      const probabilities = tallies.map(t => smoothed(t[direction], t.votes));
+      if (probabilities.every(p => p > 0.5)) {
+        consensus.push({ momentId: moment.id, label: moment.label, direction, probabilities });
+      }
+    }
+  }
+  const strength = (c: ConsensusMoment) => c.probabilities.reduce((a, p) => a * p, 1);
+  consensus.sort((a, b) => strength(b) - strength(a));
+
+  return {
+    computedAt,
+    k: clusters.k,
+    silhouette: clusters.silhouette,
+    groups,
+    consensus: consensus.slice(0, REPORT_TOP_N),
+  };
+}
@@ -3,6 +3,7 @@ import { mapServer } from './server';
 import MapMakerPanel from './mapMaker';
 import MapViewerPanel from './mapViewer';
 import MapViewerConfigModal from './MapViewerConfigModal';
+import OpinionGroupsPanel from './opinionGroups';
 
 const mapMakerPlugin: PanelPlugin = {
   id: 'map-maker',
@@ -26,4 +27,14 @@ const mapViewerPlugin: PanelPlugin = {
   configModal: MapViewerConfigModal,
 };
 
-export default [mapMakerPlugin, mapViewerPlugin] as PanelPlugin[];
+const opinionGroupsPlugin: PanelPlugin = {
+  id: 'opinion-groups',
+  label: 'Opinion Groups',
+  shortLabel: 'Groups',
+  description: 'Representative and consensus moments for the groups Map Maker found',
+  canStandalone: true,
+  canScreenMount: true,
+  component: OpinionGroupsPanel,
+};
+
+export default [mapMakerPlugin, mapViewerPlugin, opinionGroupsPlugin] as PanelPlugin[];
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { partitionMapCoords } from './mapGroups';
+import type { MapProjection } from '../../app/types';
+
+// Two dense clumps — five dots near the origin, three near (10, 10) — and one stray dot.
+const coords: MapProjection['coords'] = [
+  ['s1', [10, 10]], ['s2', [10.3, 10]], ['s3', [10, 10.3]],
+  ['b1', [0, 0]], ['b2', [0.2, 0]], ['b3', [0, 0.2]], ['b4', [0.2, 0.2]], ['b5', [0.1, 0.1]],
+  ['stray', [0, 10]],
+];
+
+describe('partitionMapCoords', () => {
+  it('finds dense clumps, numbered largest first', () => {
+    const groups = partitionMapCoords(coords);
+    expect(['b1', 'b2', 'b3', 'b4', 'b5'].map(id => groups.get(id))).toEqual([0, 0, 0, 0, 0]);
+    expect(['s1', 's2', 's3'].map(id => groups.get(id))).toEqual([1, 1, 1]);
+  });
+
+  it('leaves outliers ungrouped', () => {
+    expect(partitionMapCoords(coords).has('stray')).toBe(false);
+  });
+
+  it('does not depend on the projection scale', () => {
+    const scaled = coords.map(([id, [x, y]]) => [id, [x * 1000, y * 1000]] as [string, [number, number]]);
+    expect(partitionMapCoords(scaled)).toEqual(partitionMapCoords(coords));
+  });
+});
@@ -0,0 +1,57 @@
+import type { MapProjection } from '../../app/types';
+
+// Spatial groups on the projected map: DBSCAN over the 2-D coords, with the radius taken
+// as a fraction of the map's diagonal so it doesn't depend on the reducer's units. The
+// server re-derives the same groups from the stored projection to resolve `targetGroup`,
+// so this must stay deterministic: same coords in the same order, same groups.
+
+/** Neighbourhood radius as a fraction of the bounding-box diagonal. */
+export const MAP_GROUP_RADIUS = 0.1;
+/** Points (including itself) a dot needs within the radius to seed a group. */
+export const MAP_GROUP_MIN_POINTS = 3;
+
+/**
+ * userId → group index for every dot in a dense region; outliers are left out.
+ * Groups are numbered largest first, ties in coords order.
+ */
+export function partitionMapCoords(
+  coords: MapProjection['coords'],
+  radius = MAP_GROUP_RADIUS,
+  minPoints = MAP_GROUP_MIN_POINTS,
+): Map<string, number> {
+  const xs = coords.map(([, [x]]) => x);
+  const ys = coords.map(([, [, y]]) => y);
+  const diagonal = Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  const eps = radius * diagonal;
+  const neighbours = (i: number) => {
+    const [, [x, y]] = coords[i];
+    const out: number[] = [];
+    coords.forEach(([, [x2, y2]], j) => { if (Math.hypot(x - x2, y - y2) <= eps) out.push(j); });
+    return out;
+  };
+
+  const labels = new Array<number>(coords.length).fill(-1);
+  let next = 0;
+  for (let i = 0; i < coords.length; i++) {
+    if (labels[i] !== -1) continue;
+    const seed = neighbours(i);
+    if (seed.length < minPoints) continue;
+    const group = next++;
+    labels[i] = group;
+    const queue = [...seed];
+    while (queue.length > 0) {
+      const j = queue.shift()!;
+      if (labels[j] !== -1) continue;
+      labels[j] = group;
+      const around = neighbours(j);
+      if (around.length >= minPoints) queue.push(...around);
+    }
+  }
+
+  const sizes = new Array<number>(next).fill(0);
+  for (const l of labels) if (l !== -1) sizes[l]++;
+  const renumber = new Map([...sizes.keys()].sort((a, b) => sizes[b] - sizes[a] || a - b).map((g, i) => [g, i]));
+  const groups = new Map<string, number>();
+  coords.forEach(([userId], i) => { if (labels[i] !== -1) groups.set(userId, renumber.get(labels[i])!); });
+  return groups;
+}
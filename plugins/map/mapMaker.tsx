@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { useRoomSocket } from '../../app/contexts/RoomSocketContext';
+import { useRoomSocket, useMessageSubscription } from '../../app/contexts/RoomSocketContext';
 import {
   imputeColumnMeans,
   defaultParamsFor,
@@ -12,11 +12,13 @@ import {
   KNN_PARAM_DEFS,
 } from 'reddwarf-ts';
 import type { KnnBackend, ReducerAlgorithm } from 'reddwarf-ts';
-import { idbGet } from '../../app/utils/idbStorage';
+import { useRoomMoments } from '../../app/hooks/useRoomMoments';
 import type { MomentSnapshot } from '../../app/components/panels/AdminPanelNoDB/types';
-import type { MapProjection } from '../../app/types';
+import type { MapClusters, MapProjection } from '../../app/types';
 import type { DruidWorkerEvent } from '../../app/workers/druidWorker.types';
 import { usePanelContext } from '../../app/context/PanelContext';
+import { clusterParticipants } from './clustering';
+import { alignCoords, MIN_SHARED_FOR_ALIGNMENT } from './procrustes';
 
 type RunStatus = 'idle' | 'running' | 'done' | 'error';
 
@@ -51,10 +53,33 @@ function buildMatrix(moments: MomentSnapshot[]): { matrix: number[][]; participa
 
 const SETTINGS_KEY = 'map-maker-settings';
 
+/** Quiet time after the last snapped moment before an auto recompute starts. */
+const AUTO_RECOMPUTE_DEBOUNCE_MS = 2000;
+/** Minimum gap between in-progress layouts streamed to viewers. */
+const PROGRESS_BROADCAST_MS = 250;
+
 function loadSettings() {
   try { return JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null') ?? {}; } catch { return {}; }
 }
 
+/**
+ * Initial layout for a run, taken from the projection viewers already see: known participants
+ * start where they are, newcomers at the centroid, nudged apart so none coincide. Undefined
+ * when too few participants carry over for the old layout to be worth keeping.
+ */
+function warmStartCoords(participantIds: string[], previous: MapProjection | null): [number, number][] | undefined {
+  if (!previous) return undefined;
+  const known = new Map(previous.coords);
+  const kept = participantIds.filter(id => known.has(id)).map(id => known.get(id)!);
+  if (kept.length < MIN_SHARED_FOR_ALIGNMENT) return undefined;
+  const cx = kept.reduce((s, [x]) => s + x, 0) / kept.length;
+  const cy = kept.reduce((s, [, y]) => s + y, 0) / kept.length;
+  const xs = kept.map(([x]) => x);
+  const ys = kept.map(([, y]) => y);
+  const nudge = 0.01 * Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  return participantIds.map((id, i) => known.get(id) ?? [cx + nudge * Math.cos(i), cy + nudge * Math.sin(i)]);
+}
+
 export default function MapMakerPanel() {
   const { room, userId } = usePanelContext();
   const saved = loadSettings();
@@ -66,22 +91,36 @@ export default function MapMakerPanel() {
     annoy: defaultKnnParamsFor('annoy'),
     hnsw: defaultKnnParamsFor('hnsw'),
   });
-  const [moments, setMoments] = useState<MomentSnapshot[]>([]);
+  const [autoRecompute, setAutoRecompute] = useState<boolean>(() => saved.autoRecompute ?? false);
+  const { moments, refresh: refreshMoments } = useRoomMoments(room);
   const [status, setStatus] = useState<RunStatus>('idle');
   const [progress, setProgress] = useState<number | null>(null);
   const [errorMsg, setErrorMsg] = useState('');
+  const [clusters, setClusters] = useState<MapClusters | null>(null);
+  // One worker serves every run; each run gets a fresh id so late events from a
+  // superseded run are dropped.
   const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
   const participantIdsRef = useRef<string[]>([]);
+  const matrixRef = useRef<number[][]>([]);
+  // The projection viewers are showing, which each new run is aligned to.
+  const currentProjectionRef = useRef<MapProjection | null>(null);
+  // Set when moments change under auto mode, so an auto run follows the refreshed list.
+  const autoPendingRef = useRef(false);
+  const lastProgressSentRef = useRef(0);
+  const lastRunKeyRef = useRef('');
 
-  useEffect(() => {
-    idbGet<MomentSnapshot[]>(`v4-moments-${room}`).then(stored => {
-      if (stored) setMoments(stored);
-    });
-  }, [room]);
+  useMessageSubscription((evt) => {
+    const data = JSON.parse(evt.data);
+    if (data.type === 'momentsChanged') {
+      autoPendingRef.current = true;
+      refreshMoments();
+    } else if (data.type === 'mapProjectionChanged') currentProjectionRef.current = data.projection ?? null;
+  });
 
   useEffect(() => {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ algorithm, params, advancedParams, knnBackend, knnParamsByBackend }));
-  }, [algorithm, params, advancedParams, knnBackend, knnParamsByBackend]);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ algorithm, params, advancedParams, knnBackend, knnParamsByBackend, autoRecompute }));
+  }, [algorithm, params, advancedParams, knnBackend, knnParamsByBackend, autoRecompute]);
 
   const { send } = useRoomSocket();
 
@@ -90,39 +129,64 @@ export default function MapMakerPanel() {
   }, []);
 
   const { matrix, participantIds } = useMemo(() => buildMatrix(moments), [moments]);
+  const momentKey = moments.map(m => m.id).join(',');
 
-  const handleCompute = useCallback(() => {
-    if (status === 'running') return;
+  // Starts a run, superseding any run still in flight in the worker.
+  const startRun = useCallback(() => {
     if (participantIds.length < 3) return;
 
-    workerRef.current?.terminate();
-    const worker = new Worker('/druidWorker.js', { type: 'module' });
+    const worker = workerRef.current ?? new Worker('/druidWorker.js', { type: 'module' });
     workerRef.current = worker;
+    const runId = ++runIdRef.current;
     participantIdsRef.current = participantIds;
+    matrixRef.current = matrix;
+    lastRunKeyRef.current = momentKey;
+    lastProgressSentRef.current = 0;
 
     setStatus('running');
     setProgress(null);
     setErrorMsg('');
 
+    const toProjectionCoords = (raw: [number, number][]): MapProjection['coords'] => {
+      const coords: MapProjection['coords'] = participantIdsRef.current.map((id, i) => [id, raw[i]]);
+      const previous = currentProjectionRef.current;
+      return previous ? alignCoords(coords, previous.coords) : coords;
+    };
+
     worker.onmessage = (evt: MessageEvent<DruidWorkerEvent>) => {
       const event = evt.data;
+      if (event.runId !== runId) return;
       if (event.type === 'progress') {
         setProgress(event.iteration / event.total);
+        const now = Date.now();
+        if (now - lastProgressSentRef.current >= PROGRESS_BROADCAST_MS) {
+          lastProgressSentRef.current = now;
+          send(JSON.stringify({ type: 'mapProjectionProgress', userId, coords: toProjectionCoords(event.coords) }));
+        }
       } else if (event.type === 'done') {
         const ids = participantIdsRef.current;
+        // Groups come from the full matrix, not the 2-D coords, so they don't inherit
+        // the projection's distortions.
+        const found = clusterParticipants(matrixRef.current, ids);
         const projection: MapProjection = {
-          coords: ids.map((id, i) => [id, event.coords[i]]),
+          coords: toProjectionCoords(event.coords),
           algorithm,
           computedAt: new Date().toISOString(),
+          ...(found ? { clusters: found } : {}),
         };
+        setClusters(found);
+        currentProjectionRef.current = projection;
         send(JSON.stringify({ type: 'mapProjectionSet', userId, projection }));
         setProgress(1);
         setStatus('done');
-        worker.terminate();
+      } else if (event.type === 'cancelled') {
+        send(JSON.stringify({ type: 'mapProjectionProgress', userId, coords: null }));
+        setProgress(null);
+        setStatus('idle');
       } else if (event.type === 'error') {
+        send(JSON.stringify({ type: 'mapProjectionProgress', userId, coords: null }));
         setErrorMsg(event.message);
         setStatus('error');
-        worker.terminate();
       }
     };
 
@@ -135,17 +199,45 @@ export default function MapMakerPanel() {
     const allParams = { ...params, ...advancedParams };
     worker.postMessage({
       type: 'reduce',
+      runId,
       matrix,
       algorithm,
       params: allParams,
       knnBackend: hasKnn ? knnBackend : undefined,
       knnParams: hasKnn ? knnParamsByBackend[knnBackend] : undefined,
+      initCoords: warmStartCoords(participantIds, currentProjectionRef.current),
     });
-  }, [status, matrix, participantIds, algorithm, params, advancedParams, knnBackend, knnParamsByBackend, send, userId]);
+  }, [matrix, participantIds, momentKey, algorithm, params, advancedParams, knnBackend, knnParamsByBackend, send, userId]);
+
+  const handleCompute = () => {
+    if (status === 'running') return;
+    startRun();
+  };
+
+  // Auto mode: a snapped moment stops the run in flight (its map is already out of date)
+  // and, once moments stop arriving, recomputes with the new one included.
+  useEffect(() => {
+    if (!autoRecompute || !autoPendingRef.current) return;
+    if (momentKey === lastRunKeyRef.current) {
+      autoPendingRef.current = false;
+      return;
+    }
+    workerRef.current?.postMessage({ type: 'cancel' });
+    const timer = setTimeout(() => {
+      autoPendingRef.current = false;
+      startRun();
+    }, AUTO_RECOMPUTE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [autoRecompute, momentKey, startRun]);
+
+  const handleStop = () => {
+    workerRef.current?.postMessage({ type: 'cancel' });
+  };
 
   const handleClear = () => {
     workerRef.current?.terminate();
     workerRef.current = null;
+    runIdRef.current++;
     send(JSON.stringify({ type: 'mapProjectionClear', userId }));
     setStatus('idle');
     setProgress(null);
@@ -297,6 +389,16 @@ export default function MapMakerPanel() {
         </div>
       </details>
 
+      <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, color: '#888', marginBottom: 12, cursor: 'pointer' }}>
+        <input
+          type="checkbox"
+          checked={autoRecompute}
+          onChange={e => setAutoRecompute(e.target.checked)}
+          style={{ accentColor: '#4a8' }}
+        />
+        Recompute automatically when a moment is snapped
+      </label>
+
       <div style={{ display: 'flex', gap: 8, marginBottom: 16 }}>
         <button
           className="v3-admin-btn"
@@ -306,6 +408,11 @@ export default function MapMakerPanel() {
         >
           {status === 'running' ? 'Computing…' : 'Compute Map'}
         </button>
+        {status === 'running' && (
+          <button className="v3-admin-btn" onClick={handleStop}>
+            Stop
+          </button>
+        )}
         <button
           className="v3-admin-btn v3-admin-btn--destructive"
           onClick={handleClear}
@@ -332,7 +439,10 @@ export default function MapMakerPanel() {
       )}
 
       {status === 'done' && (
-        <div style={{ fontSize: 12, color: '#4a8' }}>Projection saved.</div>
+        <div style={{ fontSize: 12, color: '#4a8' }}>
+          Projection saved.
+          {clusters && ` ${clusters.k} opinion groups (silhouette ${clusters.silhouette.toFixed(2)}).`}
+        </div>
       )}
 
       {status === 'error' && (
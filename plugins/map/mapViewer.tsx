@@ -1,22 +1,36 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useMessageSubscription } from '../../app/contexts/RoomSocketContext';
 import * as d3 from 'd3';
 import { expandCursorEvents } from '../../app/utils/cursor';
 import { usePanelContext } from '../../app/context/PanelContext';
 import { useMapViewerConfig } from './useMapViewerConfig';
-import { idbGet } from '../../app/utils/idbStorage';
+import { useRoomMoments } from '../../app/hooks/useRoomMoments';
 import { computeReactionRegion, DEFAULT_ANCHORS } from '../../app/utils/voteRegion';
 import type { ReactionAnchors } from '../../app/utils/voteRegion';
 import type { MapProjection, MapViewerConfig } from '../../app/types';
-import type { MomentSnapshot } from '../../app/components/panels/AdminPanelNoDB/types';
 import { VOTE_COLORS, USER_STATUS_COLORS, USER_STATUS_LABELS, MISSING_COLOR } from '../../app/constants/userStatus';
+import { partitionMapCoords } from './mapGroups';
 
 const DEFAULT_COLOR = '#4a8';
+/** Map Maker streams an in-progress layout at about this interval (see mapMaker.tsx). */
+const LIVE_FRAME_MS = 250;
+const GROUP_COLORS = d3.schemeTableau10;
+
+const groupLetter = (group: number) => String.fromCharCode(65 + group);
+
+/** Outline drawn around one spatial group in 'group' colour mode. */
+interface GroupHull {
+  group: number;
+  color: string;
+  label: string;
+  userIds: string[];
+}
 
 
-function ScatterPlot({ data, selfId, colorById, flipX, flipY }: { data: [string, [number, number]][]; selfId: string; colorById?: Record<string, string>; flipX?: boolean; flipY?: boolean }) {
+function ScatterPlot({ data, selfId, colorById, hulls, flipX, flipY, live }: { data: [string, [number, number]][]; selfId: string; colorById?: Record<string, string>; hulls?: GroupHull[]; flipX?: boolean; flipY?: boolean; live?: boolean }) {
   const svgRef = useRef<SVGSVGElement>(null);
   const gRef = useRef<SVGGElement>(null);
+  const layoutRef = useRef<{ data: typeof data; flipX?: boolean; flipY?: boolean } | null>(null);
 
   useEffect(() => {
     const svg = d3.select(svgRef.current!);
@@ -31,6 +45,54 @@ function ScatterPlot({ data, selfId, colorById, flipX, flipY }: { data: [string,
     const yScale = d3.scaleLinear().domain([Math.min(...ys), Math.max(...ys)]).range(yRange);
 
     const TRANSITION_MS = 400;
+    const MORPH_MS = 1200;
+
+    // Positions only animate when the layout changes: a new projection morphs every dot from
+    // where it was to where it is now, and a flip swings it across. Colour-only re-renders
+    // (every cursor move in 'now' mode) must not interrupt a morph in flight. Live frames
+    // from a run in progress glide linearly, each one just long enough to meet the next.
+    const last = layoutRef.current;
+    const moved = last !== null && last.data !== data;
+    const newProjection = moved && !live;
+    const relayout = last === null || moved || last.flipX !== flipX || last.flipY !== flipY;
+    layoutRef.current = { data, flipX, flipY };
+    const moveMs = live ? LIVE_FRAME_MS : newProjection ? MORPH_MS : TRANSITION_MS;
+    const ease = live ? d3.easeLinear : newProjection ? d3.easeCubicInOut : d3.easeCubic;
+
+    // Hulls sit in their own layer underneath the dots.
+    const hullLayer = g.selectAll<SVGGElement, null>('g.hulls').data([null]).join('g').attr('class', 'hulls').lower();
+    const byId = new Map(data);
+    const hullShapes = (hulls ?? []).map(h => {
+      const points = h.userIds.flatMap(id => {
+        const c = byId.get(id);
+        return c ? [[xScale(c[0]), yScale(c[1])] as [number, number]] : [];
+      });
+      return { ...h, points, outline: d3.polygonHull(points) };
+    }).filter(h => h.points.length > 0);
+    hullLayer.selectAll<SVGPathElement, typeof hullShapes[number]>('path.hull')
+      .data(hullShapes.filter(h => h.outline), h => h.group)
+      .join('path')
+      .attr('class', 'hull')
+      .attr('fill', h => h.color)
+      .attr('fill-opacity', 0.12)
+      .attr('stroke', h => h.color)
+      .attr('stroke-opacity', 0.6)
+      .attr('stroke-linejoin', 'round')
+      .attr('stroke-width', 14)
+      .attr('d', h => `M${h.outline!.join('L')}Z`);
+    // Hulls are drawn at the new positions, so hold them back until the dots arrive.
+    if (newProjection) hullLayer.attr('opacity', 0).transition('layout').delay(moveMs).duration(TRANSITION_MS).attr('opacity', 1);
+    hullLayer.selectAll<SVGTextElement, typeof hullShapes[number]>('text.hull-label')
+      .data(hullShapes, h => h.group)
+      .join('text')
+      .attr('class', 'hull-label')
+      .attr('x', h => d3.mean(h.points, p => p[0])!)
+      .attr('y', h => d3.min(h.points, p => p[1])! - 14)
+      .attr('text-anchor', 'middle')
+      .attr('fill', h => h.color)
+      .attr('font-size', 11)
+      .attr('font-family', 'monospace')
+      .text(h => h.label);
 
     const others = data
       .filter(([id]) => id !== selfId)
@@ -55,24 +117,34 @@ function ScatterPlot({ data, selfId, colorById, flipX, flipY }: { data: [string,
     g.selectAll<SVGCircleElement, [string, [number, number]]>('circle.peer')
       .data(others, ([id]) => id)
       .join(
-        enter => enter.append('circle')
-          .attr('class', 'peer')
-          .attr('cx', ([, [x]]) => xScale(x))
-          .attr('cy', ([, [, y]]) => yScale(y))
-          .attr('r', 5)
-          .attr('fill', peerColor)
-          .attr('fill-opacity', 0.7)
-          .attr('stroke', peerStroke)
-          .attr('stroke-width', 0.5),
+        enter => {
+          const circles = enter.append('circle')
+            .attr('class', 'peer')
+            .attr('cx', ([, [x]]) => xScale(x))
+            .attr('cy', ([, [, y]]) => yScale(y))
+            .attr('r', 5)
+            .attr('fill', peerColor)
+            .attr('fill-opacity', 0.7)
+            .attr('stroke', peerStroke)
+            .attr('stroke-width', 0.5);
+          // Participants new to this projection fade in where they land.
+          if (newProjection) {
+            circles.attr('fill-opacity', 0).transition('layout').delay(moveMs * 0.5).duration(moveMs * 0.5).attr('fill-opacity', 0.7);
+          }
+          return circles;
+        },
         update => {
           update
             .attr('fill', peerColor)
             .attr('stroke', peerStroke);
-          update.transition().duration(TRANSITION_MS)
-            .attr('cx', ([, [x]]) => xScale(x))
-            .attr('cy', ([, [, y]]) => yScale(y));
+          if (relayout) {
+            update.transition('layout').duration(moveMs).ease(ease)
+              .attr('cx', ([, [x]]) => xScale(x))
+              .attr('cy', ([, [, y]]) => yScale(y));
+          }
           return update;
-        }
+        },
+        exit => exit.transition('layout').duration(TRANSITION_MS).attr('fill-opacity', 0).remove(),
       );
 
     // GPS dot: pulsing halo + solid blue dot
@@ -89,7 +161,7 @@ function ScatterPlot({ data, selfId, colorById, flipX, flipY }: { data: [string,
         .attr('fill', '#4a90e2')
         .attr('fill-opacity', 0.2)
         .attr('stroke', 'none');
-      halo.transition().duration(TRANSITION_MS).attr('cx', cx).attr('cy', cy);
+      if (relayout) halo.transition('layout').duration(moveMs).ease(ease).attr('cx', cx).attr('cy', cy);
 
       const ring = g.selectAll('circle.self-ring').data([null]);
       ring.enter().append('circle')
@@ -99,7 +171,7 @@ function ScatterPlot({ data, selfId, colorById, flipX, flipY }: { data: [string,
         .attr('fill', 'none')
         .attr('stroke', 'white')
         .attr('stroke-width', 2);
-      ring.transition().duration(TRANSITION_MS).attr('cx', cx).attr('cy', cy);
+      if (relayout) ring.transition('layout').duration(moveMs).ease(ease).attr('cx', cx).attr('cy', cy);
 
       const dot = g.selectAll('circle.self-dot').data([null]);
       dot.enter().append('circle')
@@ -108,7 +180,7 @@ function ScatterPlot({ data, selfId, colorById, flipX, flipY }: { data: [string,
         .attr('r', 6)
         .attr('fill', '#4a90e2')
         .attr('stroke', 'none');
-      dot.transition().duration(TRANSITION_MS).attr('cx', cx).attr('cy', cy);
+      if (relayout) dot.transition('layout').duration(moveMs).ease(ease).attr('cx', cx).attr('cy', cy);
     }
 
     const zoom = d3.zoom<SVGSVGElement, unknown>()
@@ -119,7 +191,7 @@ function ScatterPlot({ data, selfId, colorById, flipX, flipY }: { data: [string,
     svg.call(zoom);
 
     return () => { svg.on('.zoom', null); };
-  }, [data, selfId, colorById, flipX, flipY]);
+  }, [data, selfId, colorById, hulls, flipX, flipY, live]);
 
   return (
     <svg
@@ -164,11 +236,13 @@ export default function MapViewerPanel() {
   const { room, userId } = usePanelContext();
   const { config, setConfig } = useMapViewerConfig();
   const [projState, setProjState] = useState<ProjState>(loadProjState);
-  const [moments, setMoments] = useState<MomentSnapshot[]>([]);
+  const { moments, refresh: refreshMoments } = useRoomMoments(room);
   const [connectedUserIds, setConnectedUserIds] = useState<string[]>([]);
   const [liveCursors, setLiveCursors] = useState<Map<string, { x: number; y: number }>>(new Map());
   const [anchors, setAnchors] = useState<ReactionAnchors | null>(null);
   const [momentPageIdx, setMomentPageIdx] = useState<number | null>(null);
+  // Frames of a recompute in progress, drawn over the current projection until it lands.
+  const [liveCoords, setLiveCoords] = useState<MapProjection['coords'] | null>(null);
   const cursorTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
 
   const mapProjection = projState.history[projState.idx]?.projection ?? null;
@@ -218,12 +292,6 @@ export default function MapViewerPanel() {
     };
   }, []);
 
-  useEffect(() => {
-    idbGet<MomentSnapshot[]>(`v4-moments-${room}`).then(stored => {
-      if (stored) setMoments(stored);
-    });
-  }, [room, config?.momentId]);
-
   useEffect(() => {
     localStorage.setItem(PROJ_HISTORY_KEY, JSON.stringify(projState));
   }, [projState]);
@@ -232,6 +300,25 @@ export default function MapViewerPanel() {
     setMomentPageIdx(null);
   }, [config?.momentId, config?.colorMode]);
 
+  const mapGroups = useMemo(
+    () => (mapProjection ? partitionMapCoords(mapProjection.coords) : new Map<string, number>()),
+    [mapProjection],
+  );
+  const groupHulls: GroupHull[] | undefined = (() => {
+    if (config?.colorMode !== 'group') return undefined;
+    const members = new Map<number, string[]>();
+    for (const [id, group] of mapGroups) members.set(group, [...(members.get(group) ?? []), id]);
+    return [...members].sort(([a], [b]) => a - b).map(([group, userIds]) => {
+      const online = userIds.filter(id => connectedUserIds.includes(id)).length;
+      return {
+        group,
+        color: GROUP_COLORS[group % GROUP_COLORS.length],
+        label: `${groupLetter(group)} · ${userIds.length}${online < userIds.length ? ` (${online} online)` : ''}`,
+        userIds,
+      };
+    });
+  })();
+
   const activeMomentIdx = config?.colorMode === 'moment' && moments.length > 0
     ? (momentPageIdx !== null ? momentPageIdx : Math.max(0, moments.findIndex(m => m.id === config.momentId)))
     : -1;
@@ -247,6 +334,14 @@ export default function MapViewerPanel() {
       }
       return map;
     }
+    if (config.colorMode === 'group' && mapProjection) {
+      const map: Record<string, string> = {};
+      for (const [id] of mapProjection.coords) {
+        const group = mapGroups.get(id);
+        map[id] = group === undefined ? MISSING_COLOR : GROUP_COLORS[group % GROUP_COLORS.length];
+      }
+      return map;
+    }
     if (config.colorMode === 'now' && mapProjection) {
       const effectiveAnchors = anchors ?? DEFAULT_ANCHORS;
       const map: Record<string, string> = {};
@@ -278,10 +373,19 @@ export default function MapViewerPanel() {
       if (data.roomAnchors) setAnchors(data.roomAnchors);
       return;
     }
+    if (data.type === 'momentsChanged') {
+      refreshMoments();
+      return;
+    }
     if (data.type === 'mapProjectionChanged') {
+      setLiveCoords(null);
       if (data.projection) pushProjection(data.projection);
       return;
     }
+    if (data.type === 'mapProjectionProgress') {
+      setLiveCoords(data.coords ?? null);
+      return;
+    }
     if (data.type === 'roomAnchorsChanged') {
       setAnchors(data.anchors ?? null);
       return;
@@ -325,11 +429,15 @@ export default function MapViewerPanel() {
   }
 
   const showNowLegend = config?.colorMode === 'now';
+  const ungroupedCount = mapProjection.coords.length - mapGroups.size;
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', height: '100%', position: 'relative' }}>
       <div style={{ padding: '8px 16px', fontSize: 11, color: '#555', background: '#111', flexShrink: 0, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
-        <span>{mapProjection.algorithm.toUpperCase()} · {mapProjection.coords.length} participants · {new Date(mapProjection.computedAt).toLocaleString()}</span>
+        <span>
+          {mapProjection.algorithm.toUpperCase()} · {mapProjection.coords.length} participants · {new Date(mapProjection.computedAt).toLocaleString()}
+          {liveCoords && <span style={{ color: '#4a8' }}> · updating…</span>}
+        </span>
         {activeMoment && (
           <span style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
             <span style={{ color: '#777' }}>{activeMoment.label || 'moment'}</span>
@@ -349,6 +457,23 @@ export default function MapViewerPanel() {
             ))}
           </span>
         )}
+        {groupHulls && (
+          <span style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+            <span style={{ color: '#777' }}>groups</span>
+            {groupHulls.map(h => (
+              <span key={h.group} style={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+                <span style={{ width: 8, height: 8, borderRadius: '50%', background: h.color, display: 'inline-block' }} />
+                <span>{h.label}</span>
+              </span>
+            ))}
+            {ungroupedCount > 0 && (
+              <span style={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+                <span style={{ width: 8, height: 8, borderRadius: '50%', background: MISSING_COLOR, display: 'inline-block' }} />
+                <span>ungrouped · {ungroupedCount}</span>
+              </span>
+            )}
+          </span>
+        )}
         {showNowLegend && (
           <span style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
             <span style={{ color: '#777' }}>live</span>
@@ -368,7 +493,16 @@ export default function MapViewerPanel() {
         )}
       </div>
       <div style={{ flex: 1, overflow: 'hidden' }}>
-        <ScatterPlot data={mapProjection.coords} selfId={userId} colorById={colorById} flipX={flipX} flipY={flipY} />
+        {/* Groups belong to the settled projection, so hulls wait for the run to finish. */}
+        <ScatterPlot
+          data={liveCoords ?? mapProjection.coords}
+          selfId={userId}
+          colorById={colorById}
+          hulls={liveCoords ? undefined : groupHulls}
+          flipX={flipX}
+          flipY={flipY}
+          live={liveCoords !== null}
+        />
       </div>
       <div style={{ position: 'absolute', bottom: 10, left: 10, display: 'flex', gap: 4, alignItems: 'center' }}>
         <button onClick={deleteCurrent} disabled={projState.idx < 0} title="Delete this projection" style={btnStyle(false, projState.idx < 0)}>×</button>
@@ -0,0 +1,90 @@
+import { useState, useMemo } from 'react';
+import { useMessageSubscription } from '../../app/contexts/RoomSocketContext';
+import { usePanelContext } from '../../app/context/PanelContext';
+import { useRoomMoments } from '../../app/hooks/useRoomMoments';
+import type { MapProjection } from '../../app/types';
+import { buildGroupReport, groupName } from './groupReport';
+import type { ReportDirection } from './groupReport';
+
+const DIRECTION_COLORS: Record<ReportDirection, string> = { agree: '#4a4', disagree: '#c44' };
+
+const pct = (p: number) => `${Math.round(p * 100)}%`;
+
+export default function OpinionGroupsPanel() {
+  const { room } = usePanelContext();
+  const [projection, setProjection] = useState<MapProjection | null>(null);
+  const { moments, refresh: refreshMoments } = useRoomMoments(room);
+
+  useMessageSubscription((evt) => {
+    const data = JSON.parse(evt.data);
+    if (data.type === 'connected' && data.mapProjection) setProjection(data.mapProjection);
+    else if (data.type === 'mapProjectionChanged') setProjection(data.projection ?? null);
+    else if (data.type === 'momentsChanged') refreshMoments();
+  });
+
+  const clusters = projection?.clusters ?? null;
+  const report = useMemo(
+    () => (clusters && projection ? buildGroupReport(moments, clusters, projection.computedAt) : null),
+    [moments, clusters, projection],
+  );
+
+  const handleDownload = () => {
+    if (!report) return;
+    const url = URL.createObjectURL(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${room}-opinion-groups-${report.computedAt.slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!report) {
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%', padding: '0 24px' }}>
+        <p style={{ color: '#555', fontSize: 14, textAlign: 'center', margin: 0 }}>
+          No opinion groups yet. Compute a map in Map Maker to find them.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: 20, overflowY: 'auto', height: '100%', boxSizing: 'border-box', background: '#0f0f0e', color: '#ccc', fontFamily: 'monospace' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <h2 style={{ fontSize: 16, fontWeight: 700, margin: 0, color: '#ccc', flex: 1 }}>Opinion Groups</h2>
+        <button className="v3-admin-btn" onClick={handleDownload}>↓ Download JSON</button>
+      </div>
+      <div style={{ fontSize: 12, color: '#888', marginBottom: 20 }}>
+        {report.k} groups · silhouette {report.silhouette.toFixed(2)} · {moments.length} moments · {new Date(report.computedAt).toLocaleString()}
+      </div>
+
+      {report.groups.map(group => (
+        <div key={group.id} style={{ marginBottom: 20 }}>
+          <div style={{ fontSize: 13, fontWeight: 700, color: '#aaa', marginBottom: 6 }}>
+            {groupName(group.id)} <span style={{ color: '#666', fontWeight: 400 }}>({group.size} participants)</span>
+          </div>
+          {group.representative.length === 0 ? (
+            <div style={{ fontSize: 12, color: '#555', fontStyle: 'italic' }}>No distinctive moments</div>
+          ) : group.representative.map(r => (
+            <div key={`${r.momentId}-${r.direction}`} style={{ display: 'flex', gap: 10, fontSize: 12, padding: '3px 0' }}>
+              <span style={{ color: DIRECTION_COLORS[r.direction], width: 110, flexShrink: 0 }}>{pct(r.probability)} {r.direction}</span>
+              <span style={{ flex: 1, color: '#ccc' }}>{r.label}</span>
+              <span style={{ color: '#666', flexShrink: 0 }} title="Times as likely as the rest of the room">×{r.repness.toFixed(1)}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div style={{ fontSize: 13, fontWeight: 700, color: '#aaa', marginBottom: 6 }}>Consensus</div>
+      {report.consensus.length === 0 ? (
+        <div style={{ fontSize: 12, color: '#555', fontStyle: 'italic' }}>No moment every group shares</div>
+      ) : report.consensus.map(c => (
+        <div key={`${c.momentId}-${c.direction}`} style={{ display: 'flex', gap: 10, fontSize: 12, padding: '3px 0' }}>
+          <span style={{ color: DIRECTION_COLORS[c.direction], width: 110, flexShrink: 0 }}>all {c.direction}</span>
+          <span style={{ flex: 1, color: '#ccc' }}>{c.label}</span>
+          <span style={{ color: '#666', flexShrink: 0 }}>{c.probabilities.map(pct).join(' / ')}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
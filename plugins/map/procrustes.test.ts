@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { alignCoords } from './procrustes';
+import type { MapProjection } from '../../app/types';
+
+const previous: MapProjection['coords'] = [
+  ['a', [0, 0]], ['b', [4, 0]], ['c', [4, 2]], ['d', [1, 3]],
+];
+
+function transform(coords: MapProjection['coords'], f: (x: number, y: number) => [number, number]): MapProjection['coords'] {
+  return coords.map(([id, [x, y]]) => [id, f(x, y)]);
+}
+
+function expectClose(actual: MapProjection['coords'], expected: MapProjection['coords']) {
+  expect(actual.map(([id]) => id)).toEqual(expected.map(([id]) => id));
+  actual.forEach(([, [x, y]], i) => {
+    expect(x).toBeCloseTo(expected[i][1][0], 6);
+    expect(y).toBeCloseTo(expected[i][1][1], 6);
+  });
+}
+
+describe('alignCoords', () => {
+  it('undoes a rotation, scale and shift', () => {
+    const moved = transform(previous, (x, y) => [3 * (-y) + 10, 3 * x - 5]);
+    expectClose(alignCoords(moved, previous), previous);
+  });
+
+  it('undoes a mirror image', () => {
+    const mirrored = transform(previous, (x, y) => [-x, y]);
+    expectClose(alignCoords(mirrored, previous), previous);
+  });
+
+  it('carries newcomers along with the shared participants', () => {
+    const withNewcomer: MapProjection['coords'] = [...transform(previous, (x, y) => [-x, -y]), ['e', [-2, -2]]];
+    const aligned = alignCoords(withNewcomer, previous);
+    expect(aligned[4][1][0]).toBeCloseTo(2, 6);
+    expect(aligned[4][1][1]).toBeCloseTo(2, 6);
+  });
+
+  it('leaves the layout alone with too few shared participants', () => {
+    const next: MapProjection['coords'] = [['a', [5, 5]], ['x', [1, 1]], ['y', [2, 2]]];
+    expect(alignCoords(next, previous)).toBe(next);
+  });
+});
@@ -0,0 +1,52 @@
+import type { MapProjection } from '../../app/types';
+
+type Coords = MapProjection['coords'];
+
+// Reducers are free to rotate, mirror, scale and shift a layout from one run to the next.
+// Fitting the new layout onto the previous one (a 2-D Procrustes similarity fit over the
+// participants both runs share) keeps the map steady on screen between recomputes.
+
+/** Participants two projections must share before an alignment is attempted. */
+export const MIN_SHARED_FOR_ALIGNMENT = 3;
+
+/**
+ * Rotates (or mirrors), scales and translates `next` to best match `previous` in the least-
+ * squares sense, matching dots by userId. Participants new to `next` move along with the
+ * rest. Returns `next` unchanged when fewer than `MIN_SHARED_FOR_ALIGNMENT` ids are shared.
+ */
+export function alignCoords(next: Coords, previous: Coords): Coords {
+  const prevById = new Map(previous);
+  const pairs = next.flatMap(([id, p]) => {
+    const q = prevById.get(id);
+    return q ? [[p, q] as const] : [];
+  });
+  if (pairs.length < MIN_SHARED_FOR_ALIGNMENT) return next;
+
+  const n = pairs.length;
+  const [px, py] = [pairs.reduce((s, [p]) => s + p[0], 0) / n, pairs.reduce((s, [p]) => s + p[1], 0) / n];
+  const [qx, qy] = [pairs.reduce((s, [, q]) => s + q[0], 0) / n, pairs.reduce((s, [, q]) => s + q[1], 0) / n];
+
+  // For centred x (new) and y (old), a rotation by θ scores A·cosθ + B·sinθ; mirroring x's
+  // second axis first gives A', B'. Whichever scores higher is the better fit.
+  let a = 0, b = 0, aMirror = 0, bMirror = 0, norm = 0;
+  for (const [p, q] of pairs) {
+    const x1 = p[0] - px, x2 = p[1] - py;
+    const y1 = q[0] - qx, y2 = q[1] - qy;
+    a += x1 * y1 + x2 * y2;
+    b += x1 * y2 - x2 * y1;
+    aMirror += x1 * y1 - x2 * y2;
+    bMirror += x1 * y2 + x2 * y1;
+    norm += x1 * x1 + x2 * x2;
+  }
+  if (norm === 0) return next;
+  const mirror = Math.hypot(aMirror, bMirror) > Math.hypot(a, b);
+  const theta = mirror ? Math.atan2(bMirror, aMirror) : Math.atan2(b, a);
+  const scale = (mirror ? Math.hypot(aMirror, bMirror) : Math.hypot(a, b)) / norm;
+  const cos = Math.cos(theta), sin = Math.sin(theta);
+
+  return next.map(([id, [x, y]]) => {
+    const x1 = x - px;
+    const x2 = mirror ? -(y - py) : y - py;
+    return [id, [qx + scale * (cos * x1 - sin * x2), qy + scale * (sin * x1 + cos * x2)]];
+  });
+}
@@ -62,6 +62,21 @@ describe('mapServer', () => {
     });
   });
 
+  it('onMessage relays mapProjectionProgress without storing it', () => {
+    const state = mapServer.createState();
+    state.projection = sampleProjection;
+    const ctx = makeCtx();
+    const coords: MapProjection['coords'] = [['user-1', [0.3, 0.3]]];
+    const handled = mapServer.onMessage('mapProjectionProgress', { coords }, makeConn(), ctx, state, 'map-viewer');
+    expect(handled).toBe(true);
+    expect(state.projection).toEqual(sampleProjection);
+    expect(ctx.persistState).not.toHaveBeenCalled();
+    expect(JSON.parse((ctx.broadcast as ReturnType<typeof vi.fn>).mock.calls[0][0])).toEqual({
+      type: 'mapProjectionProgress',
+      coords,
+    });
+  });
+
   it('onMessage returns false for unknown message types', () => {
     const state = mapServer.createState();
     const handled = mapServer.onMessage('unknownEvent', {}, makeConn(), makeCtx(), state, 'map-viewer');
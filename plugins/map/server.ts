@@ -1,7 +1,10 @@
 import type { ServerPlugin, PluginConnection, PluginContext } from '../types';
 import type { MapPluginState } from './types';
+import { partitionMapCoords } from './mapGroups';
 
 export const mapServer: ServerPlugin<MapPluginState> = {
+  adminMessageTypes: ['mapProjectionSet', 'mapProjectionClear', 'mapProjectionProgress', 'mapViewerConfigSet'],
+
   createState: () => ({ projection: null, viewerConfig: null }),
 
   onConnect(conn: PluginConnection, _ctx: PluginContext, state: MapPluginState) {
@@ -25,6 +28,13 @@ export const mapServer: ServerPlugin<MapPluginState> = {
       ctx.broadcast(JSON.stringify({ type: 'mapProjectionChanged', projection: null }));
       return true;
     }
+    // Intermediate layouts of a run in progress are relayed, never stored: a late joiner
+    // just sees the last settled projection. `coords: null` ends the stream without one.
+    if (type === 'mapProjectionProgress') {
+      const { coords } = payload as { coords: NonNullable<MapPluginState['projection']>['coords'] | null };
+      ctx.broadcast(JSON.stringify({ type: 'mapProjectionProgress', coords }));
+      return true;
+    }
     if (type === 'mapViewerConfigSet') {
       const { config } = payload as { config: MapPluginState['viewerConfig'] };
       state.viewerConfig = config;
@@ -46,3 +56,10 @@ export const mapServer: ServerPlugin<MapPluginState> = {
     if (s?.viewerConfig !== undefined) state.viewerConfig = s.viewerConfig ?? null;
   },
 };
+
+/** Users in spatial group `group` of the current projection, as the Map Viewer draws them. */
+export function getMapGroupUserIds(state: MapPluginState | undefined, group: number): string[] {
+  const projection = state?.projection;
+  if (!projection) return [];
+  return [...partitionMapCoords(projection.coords)].filter(([, g]) => g === group).map(([userId]) => userId);
+}
@@ -11,6 +11,8 @@ function generateNeighborCode(codes: Map<string, string>): string {
 }
 
 export const NeighborServerPlugin: ServerPlugin<NeighborState> = {
+  adminMessageTypes: ['clearNeighborEdges'],
+
   createState: () => ({ codes: new Map(), edges: new Set(), connUsers: new Map() }),
 
   onConnect(conn: PluginConnection, _ctx: PluginContext, state: NeighborState) {
@@ -10,6 +10,8 @@ type SoccerState = {
 };
 
 export const SoccerServerPlugin: ServerPlugin<SoccerState> = {
+  adminMessageTypes: [SOCCER_RESET_SCORE],
+
   createState(): SoccerState {
     const ctx = { current: null as PluginContext | null };
     const engine = new SoccerPhysicsEngine(
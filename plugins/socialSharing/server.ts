@@ -3,6 +3,8 @@ import type { SocialConfig } from '../../app/types';
 import type { SocialSharingPluginState } from './types';
 
 export const SocialSharingServerPlugin: ServerPlugin<SocialSharingPluginState> = {
+  adminMessageTypes: ['setSocialConfig'],
+
   createState(): SocialSharingPluginState {
     return { config: null };
   },
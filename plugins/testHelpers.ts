@@ -10,8 +10,8 @@ export function makeCtx(): PluginContext {
   };
 }
 
-export function makeConn(id = 'conn-1', userId?: string): PluginConnection {
-  return { id, userId: userId ?? id, send: vi.fn() };
+export function makeConn(id = 'conn-1', userId?: string, isAdmin = false): PluginConnection {
+  return { id, userId: userId ?? id, isAdmin, send: vi.fn() };
 }
 
 export function lastSent(conn: PluginConnection): unknown {
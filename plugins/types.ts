@@ -6,6 +6,8 @@ export interface PluginConnection {
   id: string;
   /** Persistent user UUID (from ?userId= query param, falls back to conn.id). */
   userId: string;
+  /** True when the connection presented the room's admin token (emcee). */
+  isAdmin: boolean;
   send(msg: string): void;
 }
 
@@ -24,6 +26,11 @@ export interface PluginContext {
 
 /** Server-side lifecycle handlers. S = plugin-owned state. */
 export interface ServerPlugin<S> {
+  /**
+   * Message types only the emcee may send. The server rejects these from non-admin
+   * connections with an `error` reply before `onMessage` is called.
+   */
+  adminMessageTypes?: readonly string[];
   /** Return initial server-side state for this plugin. Called once on room start. */
   createState(): S;
   /** Called when a client connects. Use conn.send() to push current state to the new client. */
@@ -2,6 +2,8 @@ import type { ServerPlugin } from '../types';
 import type { VoiceCallPluginState, WebRTCOfferEvent, WebRTCAnswerEvent, WebRTCIceEvent, HangUpCallEvent } from './types';
 
 export const VoiceCallServerPlugin: ServerPlugin<VoiceCallPluginState> = {
+  adminMessageTypes: ['setCallAlgorithm'],
+
   createState(): VoiceCallPluginState {
     return {
       callQueue: [],
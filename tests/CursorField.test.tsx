@@ -71,4 +71,42 @@ describe('CursorField socket behaviour', () => {
     act(() => emitMessage({ type: 'flashTimerStarted', endTimestamp: Date.now() + 5000, label: 'Round 1' }))
     expect(container.querySelector('.flash-countdown-overlay')).not.toBeNull()
   })
+
+  it('hides the countdown overlay when the flash timer is cancelled', () => {
+    const { container } = renderWithProvider(<CursorField userId="user1" />)
+    act(() => emitMessage({ type: 'flashTimerStarted', endTimestamp: Date.now() + 5000, label: 'Round 1' }))
+    act(() => emitMessage({ type: 'flashTimerCancelled' }))
+    expect(container.querySelector('.flash-countdown-overlay')).toBeNull()
+  })
+
+  it('replaces remote cursors with a heatmap while the room is in density mode', () => {
+    const onCursorModeChange = vi.fn()
+    const { container } = renderWithProvider(<CursorField userId="user1" onCursorModeChange={onCursorModeChange} />)
+    act(() => emitMessage({ type: 'cursorBatch', cursors: [{ type: 'move', position: { userId: 'user2', x: 10, y: 10, timestamp: 1 } }] }))
+    expect(container.querySelectorAll('.cursor-group')).toHaveLength(1)
+
+    const config = { mode: 'density', threshold: 300, active: true }
+    act(() => emitMessage({ type: 'cursorModeChanged', config }))
+    expect(onCursorModeChange).toHaveBeenCalledWith(config)
+    expect(container.querySelectorAll('.cursor-group')).toHaveLength(0)
+
+    const cells = new Array(4).fill(0)
+    cells[0] = 3
+    cells[3] = 1
+    act(() => emitMessage({ type: 'cursorDensity', density: { cols: 2, rows: 2, cells, regions: { positive: 1, negative: 3, neutral: 0 }, total: 4 } }))
+    expect(container.querySelectorAll('.density-cell')).toHaveLength(2)
+
+    act(() => emitMessage({ type: 'cursorModeChanged', config: { ...config, active: false } }))
+    expect(container.querySelectorAll('.density-cell')).toHaveLength(0)
+  })
+
+  it('reports the waiting-queue position and an expired reservation', () => {
+    const onQueuePosition = vi.fn()
+    const onReservationExpired = vi.fn()
+    renderWithProvider(<CursorField userId="user1" onQueuePosition={onQueuePosition} onReservationExpired={onReservationExpired} />)
+    act(() => emitMessage({ type: 'queuePosition', position: 2, length: 3 }))
+    expect(onQueuePosition).toHaveBeenCalledWith(2)
+    act(() => emitMessage({ type: 'reservationExpired' }))
+    expect(onReservationExpired).toHaveBeenCalledOnce()
+  })
 })
@@ -6,7 +6,9 @@ import { DEFAULT_ANCHORS } from '../app/utils/voteRegion'
 function renderTab(overrides: Record<string, unknown> = {}) {
   const props = {
     moments: [],
-    setMoments: vi.fn(),
+    renameMoment: vi.fn(),
+    deleteMoment: vi.fn(),
+    clearMoments: vi.fn(),
     seenUsers: new Set<string>(),
     connectedUsers: new Set<string>(),
     liveCursors: new Map<string, { x: number; y: number }>(),
@@ -20,7 +22,11 @@ function renderTab(overrides: Record<string, unknown> = {}) {
     setEditingMomentLabel: vi.fn(),
     snapMoment: vi.fn(),
     startFlashTimer: vi.fn(),
+    flashEndTimestamp: null,
+    cancelFlashTimer: vi.fn(),
+    extendFlashTimer: vi.fn(),
     importPolisCSV: vi.fn(),
+    exportPolisCSV: vi.fn(),
     activeLabels: { positive: 'Agree', negative: 'Disagree', neutral: 'Pass' },
     activeAnchors: DEFAULT_ANCHORS,
     room: 'test',
@@ -72,4 +78,26 @@ describe('MomentsTab flash-timer button', () => {
     expect(btn.disabled).toBe(false)
     expect(btn.textContent).toContain('Snap in 3s')
   })
+
+  it('offers extend and cancel while counting down', () => {
+    localStorage.setItem('v4-flash-enabled', 'true')
+    const { container, props } = renderTab()
+    act(() => { fireEvent.click(snapButton(container)) })
+
+    const button = (text: string) => [...container.querySelectorAll('button')].find(b => b.textContent === text)!
+    fireEvent.click(button('+5s'))
+    expect(props.extendFlashTimer).toHaveBeenCalledWith(5)
+    fireEvent.click(button('Cancel'))
+    expect(props.cancelFlashTimer).toHaveBeenCalled()
+  })
+
+  it('follows the server when the timer fires or is cancelled', () => {
+    localStorage.setItem('v4-flash-enabled', 'true')
+    const { container, rerender, props } = renderTab({ flashEndTimestamp: Date.now() + 10_000 })
+    expect(snapButton(container).disabled).toBe(true)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    rerender(<MomentsTab {...(props as any)} flashEndTimestamp={null} />)
+    expect(snapButton(container).disabled).toBe(false)
+  })
 })
@@ -4,9 +4,11 @@ import TouchLayer from '../app/components/shared/TouchLayer'
 import { RoomSocketProvider } from '../app/contexts/RoomSocketContext'
 
 const mockSend = vi.hoisted(() => vi.fn())
+const socketConfig = vi.hoisted(() => ({ current: null as any }))
 
 vi.mock('partysocket/react', () => ({
   default: vi.fn((config: any) => {
+    socketConfig.current = config
     config.onOpen?.()
     return { send: mockSend, readyState: 1, close: vi.fn(), reconnect: vi.fn() }
   })
@@ -95,4 +97,27 @@ describe('TouchLayer socket behaviour', () => {
     expect(timecodeCall).toBeDefined()
     expect(timecodeCall.timecode).toBe(42000)
   })
+
+  it('follows the server-recommended send interval when no throttleMs is given', () => {
+    const { throttleMs: _, ...props } = defaultProps
+    const { container } = renderWithProvider(<TouchLayer {...props} />)
+    const layer = container.firstChild as HTMLElement
+    const now = vi.spyOn(Date, 'now')
+    const moveAt = (t: number, x: number) => { now.mockReturnValue(t); fireEvent.mouseMove(layer, { clientX: x, clientY: 400 }) }
+
+    moveAt(10_000, 100)
+    moveAt(10_100, 200)
+    expect(mockSend).toHaveBeenCalledTimes(2) // default ~30fps pace
+
+    act(() => {
+      socketConfig.current.onMessage(new MessageEvent('message', {
+        data: JSON.stringify({ type: 'cursorPacingChanged', pacing: { throttleMs: 250, batchMs: 150 } }),
+      }))
+    })
+    moveAt(10_200, 300)
+    expect(mockSend).toHaveBeenCalledTimes(2)
+    moveAt(10_400, 400)
+    expect(mockSend).toHaveBeenCalledTimes(3)
+    now.mockRestore()
+  })
 })
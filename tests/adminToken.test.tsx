@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getStoredAdminToken,
+  storeAdminToken,
+  consumeAdminTokenParam,
+  consumeClaimKeyParam,
+  getStoredClaimKey,
+  storeClaimKey,
+  claimAdminToken,
+  buildEmceeLink,
+} from '../app/utils/adminToken';
+
+beforeEach(() => {
+  localStorage.clear();
+  window.history.replaceState(null, '', '/');
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('consumeAdminTokenParam', () => {
+  it('stores the token for the room and strips it from the URL', () => {
+    window.history.replaceState(null, '', '/room-a?interface=emcee&adminToken=abc#v4');
+    consumeAdminTokenParam('room-a');
+    expect(getStoredAdminToken('room-a')).toBe('abc');
+    expect(window.location.search).toBe('?interface=emcee');
+    expect(window.location.hash).toBe('#v4');
+  });
+
+  it('is a no-op without the param', () => {
+    window.history.replaceState(null, '', '/room-a?interface=emcee');
+    consumeAdminTokenParam('room-a');
+    expect(getStoredAdminToken('room-a')).toBeNull();
+  });
+});
+
+describe('consumeClaimKeyParam', () => {
+  it('stores the key for every room and strips it from the URL', () => {
+    window.history.replaceState(null, '', '/room-a?interface=emcee&claimKey=k');
+    consumeClaimKeyParam();
+    expect(getStoredClaimKey()).toBe('k');
+    expect(window.location.search).toBe('?interface=emcee');
+  });
+});
+
+describe('claimAdminToken', () => {
+  beforeEach(() => {
+    storeClaimKey('claim-key');
+  });
+
+  it('presents the claim key and stores the token returned by the server', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ token: 'minted' }) });
+    vi.stubGlobal('fetch', fetchMock);
+    expect(await claimAdminToken('room-b')).toBe('minted');
+    expect(getStoredAdminToken('room-b')).toBe('minted');
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ method: 'POST', headers: { Authorization: 'Bearer claim-key' } });
+  });
+
+  it('does not try to claim without a claim key', async () => {
+    localStorage.clear();
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    expect(await claimAdminToken('room-f')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('resolves null when the room is already claimed', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, json: async () => ({}) }));
+    expect(await claimAdminToken('room-c')).toBeNull();
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ token: 'once' }) });
+    vi.stubGlobal('fetch', fetchMock);
+    const [a, b] = await Promise.all([claimAdminToken('room-d'), claimAdminToken('room-d')]);
+    expect(a).toBe('once');
+    expect(b).toBe('once');
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it('skips the request when a token is already stored', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    storeAdminToken('room-e', 'kept');
+    expect(await claimAdminToken('room-e')).toBe('kept');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('buildEmceeLink', () => {
+  it('opens the emcee interface with the token attached', () => {
+    const link = new URL(buildEmceeLink('my room', 'tok'));
+    expect(link.pathname).toBe('/my%20room');
+    expect(link.searchParams.get('interface')).toBe('emcee');
+    expect(link.searchParams.get('adminToken')).toBe('tok');
+  });
+});
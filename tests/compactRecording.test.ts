@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeCompactRecording,
+  decodeCompactRecording,
+  compactRecordingStream,
+  readRecordingFile,
+  compactLinesOf,
+  playbackJsonStream,
+  compactRecordingBlob,
+  COMPACT_RECORDING_FORMAT,
+} from '../app/utils/compactRecording';
+import type { PlaybackFile } from '../app/types';
+
+const positions: PlaybackFile = {
+  recordingStart: 1_700_000_000_000,
+  recordingEnd: 1_700_000_005_000,
+  room: 'demo',
+  mode: 'positions',
+  events: [
+    { connectionId: 'alice', type: 'arrival', timestamp: 1_700_000_000_010 },
+    { connectionId: 'alice', type: 'move', x: 12.34, y: 56.78, timestamp: 1_700_000_000_050 },
+    { connectionId: 'bob', type: 'touch', x: 0, y: 100, timestamp: 1_700_000_000_050 },
+    { connectionId: 'alice', type: 'remove', x: 0, y: 0, timestamp: 1_700_000_001_000 },
+    { connectionId: 'bob', type: 'departure', timestamp: 1_700_000_004_000 },
+  ],
+};
+
+const transitions: PlaybackFile = {
+  ...positions,
+  mode: 'transitions',
+  events: [
+    { connectionId: 'alice', from: null, to: 'positive', timestamp: 1_700_000_000_100 },
+    { connectionId: 'alice', from: 'positive', to: 'neutral', timestamp: 1_700_000_000_900 },
+    { connectionId: 'bob', from: null, to: 'negative', timestamp: 1_700_000_001_200 },
+    { connectionId: 'alice', from: 'neutral', to: null, timestamp: 1_700_000_002_000 },
+  ],
+};
+
+const blobOf = async (stream: ReadableStream<Uint8Array>) => new Response(stream).blob();
+
+describe('compact recordings', () => {
+  it('round-trips positions, quantising coordinates to 1/100', async () => {
+    expect(await decodeCompactRecording(encodeCompactRecording(positions))).toEqual(positions);
+    const fine = { ...positions, events: [{ connectionId: 'alice', type: 'move', x: 12.3456, y: 7.891, timestamp: 1_700_000_000_050 }] };
+    const [event] = (await decodeCompactRecording(encodeCompactRecording(fine))).events as { x: number; y: number }[];
+    expect(event.x).toBe(12.35);
+    expect(event.y).toBe(7.89);
+  });
+
+  it('round-trips region transitions', async () => {
+    expect(await decodeCompactRecording(encodeCompactRecording(transitions))).toEqual(transitions);
+  });
+
+  it('declares each userId once and delta-encodes timestamps', () => {
+    const lines = encodeCompactRecording(positions).trim().split('\n');
+    expect(JSON.parse(lines[0]).format).toBe(COMPACT_RECORDING_FORMAT);
+    expect(lines.filter(l => l.startsWith('["u"'))).toEqual(['["u","alice"]', '["u","bob"]']);
+    expect(lines).toContain('[40,0,0,1234,5678]');
+    expect(lines).toContain('[0,1,1,0,10000]');
+  });
+
+  it('keeps events it does not recognise verbatim', async () => {
+    const odd = { ...positions, events: [{ note: 'marker', timestamp: 1 }, ...positions.events] };
+    expect(await decodeCompactRecording(encodeCompactRecording(odd))).toEqual(odd);
+  });
+
+  it('rejects unknown versions', async () => {
+    const text = encodeCompactRecording(positions).replace('"version":1', '"version":99');
+    await expect(decodeCompactRecording(text)).rejects.toThrow('Unsupported compact recording version 99');
+  });
+
+  it('is much smaller than the pretty-printed JSON once gzipped', async () => {
+    const events = Array.from({ length: 5000 }, (_, i) => ({
+      connectionId: `user-${i % 200}`, type: 'move', x: (i * 7) % 100, y: (i * 13) % 100, timestamp: 1_700_000_000_000 + i * 20,
+    }));
+    const big = { ...positions, events };
+    const gz = await blobOf(compactRecordingStream(big));
+    expect(gz.size * 10).toBeLessThan(JSON.stringify(big, null, 2).length);
+  });
+});
+
+describe('readRecordingFile', () => {
+  it('reads gzipped and plain compact files', async () => {
+    expect(await readRecordingFile(await blobOf(compactRecordingStream(positions)))).toEqual(positions);
+    expect(await readRecordingFile(await blobOf(compactRecordingStream(transitions, { gzip: false })))).toEqual(transitions);
+  });
+
+  it('reads the legacy JSON, plain or gzipped', async () => {
+    const json = new Blob([JSON.stringify(positions, null, 2)]);
+    expect(await readRecordingFile(json)).toEqual(positions);
+    const gz = await blobOf(json.stream().pipeThrough(new CompressionStream('gzip')));
+    expect(await readRecordingFile(gz)).toEqual(positions);
+  });
+});
+
+describe('streamed compact recordings', () => {
+  it('reads the lines of a gzipped or plain stream', async () => {
+    for (const gzip of [true, false]) {
+      const lines: string[] = [];
+      for await (const line of compactLinesOf(compactRecordingStream(positions, { gzip }))) lines.push(line);
+      expect(lines.join('\n') + '\n').toBe(encodeCompactRecording(positions));
+    }
+  });
+
+  it('refuses a stream that is not compact', async () => {
+    const lines = compactLinesOf(new Blob([JSON.stringify(positions)]).stream());
+    await expect(lines.next()).rejects.toThrow('Not a compact recording');
+  });
+
+  it('rewrites a compact stream as the legacy JSON', async () => {
+    const json = await new Response(playbackJsonStream(compactRecordingStream(transitions))).text();
+    expect(JSON.parse(json)).toEqual(transitions);
+    const empty = await new Response(playbackJsonStream(compactRecordingStream({ ...positions, events: [] }))).text();
+    expect(JSON.parse(empty)).toEqual({ ...positions, events: [] });
+  });
+
+  it('passes compact files through for upload and converts legacy JSON', async () => {
+    const compact = await blobOf(compactRecordingStream(positions));
+    expect(await compactRecordingBlob(compact)).toBe(compact);
+    const converted = await compactRecordingBlob(new Blob([JSON.stringify(positions, null, 2)]));
+    expect(await readRecordingFile(converted)).toEqual(positions);
+    expect(await converted.slice(0, 2).arrayBuffer()).toEqual(new Uint8Array([0x1f, 0x8b]).buffer);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { computeThrottleMs, recommendCursorPacing, CURSOR_PACING_CONFIG } from '../app/utils/cursorThrottle';
+import { CURSOR_THROTTLE_MS } from '../app/utils/cursor';
+
+const base = { throttleMs: CURSOR_THROTTLE_MS, batchMs: 50 };
+
+describe('computeThrottleMs', () => {
+  it('eases in quadratically between the scale bounds', () => {
+    expect(computeThrottleMs(100, 33, 300, 400, 250)).toBe(33);
+    expect(computeThrottleMs(350, 33, 300, 400, 250)).toBe(87);
+    expect(computeThrottleMs(500, 33, 300, 400, 250)).toBe(250);
+  });
+});
+
+describe('recommendCursorPacing', () => {
+  it('keeps small, quiet rooms at the default pace', () => {
+    expect(recommendCursorPacing(20, 600, base, 50)).toBe(base);
+  });
+
+  it('slows down big rooms and widens the batch window with the interval', () => {
+    expect(recommendCursorPacing(450, 0, base, 50)).toEqual({ throttleMs: 250, batchMs: CURSOR_PACING_CONFIG.maxBatchMs });
+    expect(recommendCursorPacing(350, 0, base, 50)).toEqual({ throttleMs: 87, batchMs: 87 });
+  });
+
+  it('fits measured traffic into the inbound budget and settles there', () => {
+    // 200 people moving at ~30fps is 6000 msgs/s against a budget of 4000
+    const slowed = recommendCursorPacing(200, 6000, base, 50);
+    expect(slowed.throttleMs).toBe(50);
+    // Once they obey, traffic matches the budget and the recommendation holds
+    expect(recommendCursorPacing(200, 4000, slowed, 50)).toBe(slowed);
+  });
+
+  it('ignores small wobbles but returns to the default once traffic drops', () => {
+    const slowed = { throttleMs: 50, batchMs: 50 };
+    expect(recommendCursorPacing(200, 4300, slowed, 50)).toBe(slowed);
+    expect(recommendCursorPacing(200, 500, slowed, 50)).toEqual(base);
+  });
+
+  it('leaves batching off when the server has it off', () => {
+    expect(recommendCursorPacing(450, 0, { throttleMs: CURSOR_THROTTLE_MS, batchMs: 0 }, 0).batchMs).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { CursorIdRegistry, CursorIdDirectory, encodeCursorFrame, decodeCursorFrame } from '../app/utils/cursorWire';
+import { expandCursorEvents } from '../app/utils/cursor';
+
+const alice = '6f1c2d3e-aaaa-4bbb-8ccc-000000000001';
+const bob = '6f1c2d3e-aaaa-4bbb-8ccc-000000000002';
+
+const cursors = [
+  { type: 'move', position: { userId: alice, x: 12.5, y: 87.25, timestamp: 1_700_000_000_000 } },
+  { type: 'touch', position: { userId: bob, x: 100, y: 0, timestamp: 1_700_000_000_040 } },
+  { type: 'remove', position: { userId: alice, x: 0, y: 0, timestamp: 1_699_999_999_990 } },
+];
+
+function roundTrip(registry: CursorIdRegistry, directory: CursorIdDirectory) {
+  const announcement = registry.assign(cursors.map(c => c.position.userId));
+  if (announcement) directory.apply(announcement.ids);
+  return encodeCursorFrame(cursors, id => registry.get(id));
+}
+
+describe('binary cursor frames', () => {
+  it('round-trips cursors to within the coordinate quantum, keeping exact timestamps', () => {
+    const directory = new CursorIdDirectory();
+    const frame = roundTrip(new CursorIdRegistry(), directory);
+    const decoded = decodeCursorFrame(frame, directory);
+    expect(decoded.map(e => [e.type, e.position.userId, e.position.timestamp])).toEqual(
+      cursors.map(c => [c.type, c.position.userId, c.position.timestamp]),
+    );
+    decoded.forEach((e, i) => {
+      expect(e.position.x).toBeCloseTo(cursors[i].position.x, 2);
+      expect(e.position.y).toBeCloseTo(cursors[i].position.y, 2);
+    });
+  });
+
+  it('is a fraction of the JSON cursorBatch', () => {
+    const frame = roundTrip(new CursorIdRegistry(), new CursorIdDirectory());
+    expect(frame.byteLength).toBe(9 + 3 * 11);
+    expect(frame.byteLength * 5).toBeLessThan(JSON.stringify({ type: 'cursorBatch', cursors }).length);
+  });
+
+  it('skips cursors whose id the client was never told about', () => {
+    const registry = new CursorIdRegistry();
+    const frame = roundTrip(registry, new CursorIdDirectory());
+    const partial = new CursorIdDirectory();
+    partial.apply({ [bob]: registry.get(bob)! });
+    expect(decodeCursorFrame(frame, partial).map(e => e.position.userId)).toEqual([bob]);
+  });
+
+  it('expandCursorEvents decodes frames given a directory', () => {
+    const directory = new CursorIdDirectory();
+    const frame = roundTrip(new CursorIdRegistry(), directory);
+    expect(expandCursorEvents(frame, directory)).toHaveLength(3);
+    expect(expandCursorEvents(frame)).toEqual([]);
+  });
+});
+
+describe('CursorIdRegistry', () => {
+  it('announces each user once and reuses released ids', () => {
+    const registry = new CursorIdRegistry();
+    expect(registry.assign([alice, bob])).toEqual({ type: 'cursorIds', ids: { [alice]: 0, [bob]: 1 } });
+    expect(registry.assign([alice, bob])).toBeNull();
+
+    registry.release(alice);
+    expect(registry.assign(['carol'])).toEqual({ type: 'cursorIds', ids: { carol: 0 } });
+    expect(registry.entries()).toEqual({ [bob]: 1, carol: 0 });
+  });
+
+  it('a directory keeps the latest owner of a reused id and resets on a snapshot', () => {
+    const directory = new CursorIdDirectory();
+    directory.apply({ [alice]: 0 });
+    directory.apply({ carol: 0 });
+    expect(directory.userIdOf(0)).toBe('carol');
+    directory.apply({ [bob]: 1 }, true);
+    expect(directory.userIdOf(0)).toBeUndefined();
+    expect(directory.userIdOf(1)).toBe(bob);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { MessageSequence, sequenceOf } from '../app/utils/messageSequence';
+
+describe('sequenceOf', () => {
+  it('reads the leading seq of a sequenced message', () => {
+    expect(sequenceOf('{"seq":12,"type":"hapticPushed"}')).toBe(12);
+    expect(sequenceOf('{"type":"cursorBatch","cursors":[]}')).toBeNull();
+  });
+
+  it('ignores a seq anywhere but first, wherever a client could have put it', () => {
+    expect(sequenceOf('{"type":"interfacePushed","payload":{"seq":3}}')).toBeNull();
+    expect(sequenceOf('{"type":"interfacePushed","payload":{"label":"x"},"seq":3}')).toBeNull();
+    expect(sequenceOf('{"type":"move","position":{"x":1,"y":2},"seq":99}')).toBeNull();
+  });
+});
+
+describe('MessageSequence', () => {
+  it('has nothing to resume before the first snapshot', () => {
+    expect(new MessageSequence().resumeRequest()).toBeNull();
+  });
+
+  it('resumes from the newest seq seen and drops repeats', () => {
+    const sequence = new MessageSequence();
+    sequence.sync({ epoch: 'e1', seq: 4 });
+    expect(sequence.accept(5)).toBe(true);
+    expect(sequence.accept(5)).toBe(false);
+    expect(sequence.resumeRequest()).toEqual({ type: 'resume', epoch: 'e1', lastSeq: 5 });
+
+    // A reconnect snapshot from the same room doesn't move the resume point back
+    sequence.sync({ epoch: 'e1', seq: 9 });
+    expect(sequence.resumeRequest()).toEqual({ type: 'resume', epoch: 'e1', lastSeq: 9 });
+  });
+
+  it('starts over when the room restarts', () => {
+    const sequence = new MessageSequence();
+    sequence.sync({ epoch: 'e1', seq: 4 });
+    sequence.accept(5);
+    sequence.sync({ epoch: 'e2', seq: 1 });
+    expect(sequence.accept(5)).toBe(true);
+    expect(sequence.resumeRequest()).toEqual({ type: 'resume', epoch: 'e2', lastSeq: 5 });
+  });
+});
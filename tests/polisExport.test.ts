@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { csvParse, csvParseRows } from 'd3';
+import { exportPolisCSVs, stablePolisIds, polisVoterUserIds } from '../app/utils/polisExport';
+import { parsePolisComments, parsePolisVotes, assemblePolisImport } from '../app/utils/polisImport';
+import type { MomentSnapshot } from '../app/types';
+
+const moments: MomentSnapshot[] = [
+  { id: 'm2', label: 'Second, with "quotes"', timestamp: 1_700_000_060_250, regions: { alice: 'neutral', bob: 'positive', carol: null } },
+  { id: 'm1', label: 'First', timestamp: 1_700_000_000_123, regions: { alice: 'positive', bob: 'negative', carol: 'negative' } },
+];
+
+describe('stablePolisIds', () => {
+  it('gives the same ids regardless of input order', () => {
+    expect(stablePolisIds(['b', 'a', 'c'])).toEqual(stablePolisIds(['c', 'b', 'a']));
+  });
+
+  it('keeps ids distinct and clear of real Polis ids', () => {
+    const ids = [...stablePolisIds(Array.from({ length: 500 }, (_, i) => `user-${i}`)).values()];
+    expect(new Set(ids).size).toBe(500);
+    expect(Math.min(...ids)).toBeGreaterThanOrEqual(1_000_000_000);
+  });
+});
+
+describe('exportPolisCSVs', () => {
+  const files = exportPolisCSVs(moments, 'Town hall');
+  const voterIds = stablePolisIds(['alice', 'bob', 'carol']);
+
+  it('writes one comment per moment, oldest first, with vote tallies', () => {
+    const rows = csvParse(files.comments);
+    expect(rows.columns).toEqual(['timestamp', 'datetime', 'comment-id', 'author-id', 'agrees', 'disagrees', 'moderated', 'comment-body']);
+    expect(rows.map(r => [r['comment-body'], r.agrees, r.disagrees])).toEqual([
+      ['First', '1', '2'],
+      ['Second, with "quotes"', '1', '0'],
+    ]);
+  });
+
+  it('writes a vote per non-null region', () => {
+    const votes = parsePolisVotes(files.votes);
+    expect(votes).toHaveLength(5);
+    expect(votes).toContainEqual({ commentId: expect.any(Number), voterId: voterIds.get('carol'), vote: -1 });
+  });
+
+  it('writes the participants-votes matrix and summary', () => {
+    const [header, ...rows] = csvParseRows(files.participantsVotes);
+    expect(header.slice(0, 6)).toEqual(['participant', 'group-id', 'n-comments', 'n-votes', 'n-agree', 'n-disagree']);
+    const carol = rows.find(r => r[0] === String(voterIds.get('carol')))!;
+    expect(carol.slice(3)).toEqual(['1', '0', '1', '-1', '']);
+    expect(csvParseRows(files.summary)).toContainEqual(['voters', '3']);
+    expect(csvParseRows(files.summary)).toContainEqual(['topic', 'Town hall']);
+  });
+
+  it('round-trips through assemblePolisImport', () => {
+    const seenUsers = ['alice', 'bob', 'carol'];
+    const { moments: imported, syntheticUserIds } = assemblePolisImport(
+      parsePolisComments(files.comments), parsePolisVotes(files.votes), seenUsers, { knownVoters: polisVoterUserIds(seenUsers) },
+    );
+    expect(syntheticUserIds).toEqual([]);
+    expect(imported.map(({ label, timestamp, regions }) => ({ label, timestamp, regions })))
+      .toEqual(moments.map(({ label, timestamp, regions }) => ({ label, timestamp, regions })));
+  });
+});
@@ -2,6 +2,9 @@ import { describe, it, expect } from 'vitest';
 import {
   parsePolisVotes,
   parsePolisComments,
+  parsePolisParticipantsVotes,
+  parsePolisSummary,
+  detectPolisFile,
   assemblePolisImport,
 } from '../app/utils/polisImport';
 
@@ -16,6 +19,44 @@ describe('parsePolisVotes', () => {
   });
 });
 
+describe('parsePolisParticipantsVotes', () => {
+  const csv = [
+    'participant,group-id,n-comments,n-votes,n-agree,n-disagree,0,1,2',
+    '5,0,0,2,1,1,1,-1,',
+    '7,,1,1,0,0,,,0',
+  ].join('\n');
+
+  it('unrolls the matrix into long-format votes, skipping blank cells', () => {
+    expect(parsePolisParticipantsVotes(csv).votes).toEqual([
+      { commentId: 0, voterId: 5, vote: 1 },
+      { commentId: 1, voterId: 5, vote: -1 },
+      { commentId: 2, voterId: 7, vote: 0 },
+    ]);
+  });
+
+  it('keeps group ids only for grouped voters', () => {
+    expect(parsePolisParticipantsVotes(csv).groups).toEqual(new Map([[5, 0]]));
+  });
+});
+
+describe('parsePolisSummary', () => {
+  it('reads key/value rows', () => {
+    expect(parsePolisSummary('topic,"Cars, or not"\nvoters,12\ngroups,2')).toEqual({
+      topic: 'Cars, or not', voters: '12', groups: '2',
+    });
+  });
+});
+
+describe('detectPolisFile', () => {
+  it('tells the export files apart by their header', () => {
+    expect(detectPolisFile('timestamp,datetime,comment-id,author-id,agrees,disagrees,moderated,comment-body\n')).toBe('comments');
+    expect(detectPolisFile('\uFEFFtimestamp,datetime,comment-id,voter-id,vote')).toBe('votes');
+    expect(detectPolisFile('participant,group-id,n-comments,n-votes,n-agree,n-disagree,0\r\n1,0,0,1,1,0,1')).toBe('participants-votes');
+    expect(detectPolisFile('topic,Transit\nurl,')).toBe('summary');
+    expect(detectPolisFile('name,age\nann,3')).toBeNull();
+  });
+});
+
 describe('parsePolisComments', () => {
   it('parses comment-id, timestamp and body', () => {
     const csv = [
@@ -91,4 +132,30 @@ describe('assemblePolisImport', () => {
     const ids = moments.map((m) => m.id);
     expect(new Set(ids).size).toBe(ids.length);
   });
+
+  it('maps voters onto the same seen users for the same seed', () => {
+    const many = ['u4', 'u1', 'u3', 'u2'];
+    const mapping = (users: string[], seed: string) => {
+      const { moments } = assemblePolisImport(comments, votes, users, { seed });
+      return moments.find((m) => m.label === 'first')!.regions;
+    };
+    expect(mapping(many, 'town-hall')).toEqual(mapping([...many].reverse(), 'town-hall'));
+    const seeds = ['a', 'b', 'c', 'd', 'e', 'f'].map((seed) => JSON.stringify(mapping(many, seed)));
+    expect(new Set(seeds).size).toBeGreaterThan(1);
+  });
+
+  it('derives synthetic ids from the seed', () => {
+    const first = assemblePolisImport(comments, votes, [], { seed: 's' }).syntheticUserIds;
+    expect(first).toHaveLength(2);
+    expect(assemblePolisImport(comments, votes, [], { seed: 's' }).syntheticUserIds).toEqual(first);
+  });
+
+  it('carries voter group ids over to the mapped users', () => {
+    const { moments, participantGroups } = assemblePolisImport(comments, votes, ['u1', 'u2'], {
+      knownVoters: new Map([[20, 'u2']]),
+      voterGroups: new Map([[10, 1], [20, 0]]),
+    });
+    expect(participantGroups).toEqual({ u1: 1, u2: 0 });
+    expect(moments.find((m) => m.label === 'first')!.regions).toEqual({ u2: 'negative', u1: 'positive' });
+  });
 });
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { reactionEventsToPlaybackFile, playbackFileToReactionEvents } from '../app/utils/reactionEventAdapters';
+import { DEFAULT_ANCHORS } from '../app/utils/voteRegion';
+import type { ReactionEvent } from '../app/lib/supabase';
+import type { PlaybackFile } from '../app/types';
+
+const v5Events: ReactionEvent[] = [
+  { id: 3, room: 'vid', session_id: 's1', type: 'lift', x: null, y: null, timecode: 2.5, recorded_at: '2026-10-01T10:00:09.000Z' },
+  { id: 1, room: 'vid', session_id: 's1', type: 'touch', x: 10, y: 20, timecode: 1, recorded_at: '2026-10-01T10:00:05.000Z' },
+  { id: 2, room: 'vid', session_id: 's2', type: 'move', x: 30, y: 40, timecode: 1, recorded_at: '2026-10-01T10:00:00.000Z' },
+];
+
+describe('reactionEventsToPlaybackFile', () => {
+  it('orders by timecode and maps sessions, lifts and timecodes', () => {
+    const file = reactionEventsToPlaybackFile(v5Events, 'vid', 1_000_000);
+    expect(file).toEqual({
+      recordingStart: 1_000_000,
+      recordingEnd: 1_002_500,
+      room: 'vid',
+      mode: 'positions',
+      events: [
+        { connectionId: 's1', type: 'touch', x: 10, y: 20, timestamp: 1_001_000 },
+        { connectionId: 's2', type: 'move', x: 30, y: 40, timestamp: 1_001_000 },
+        { connectionId: 's1', type: 'remove', x: 0, y: 0, timestamp: 1_002_500 },
+      ],
+    });
+  });
+
+  it('anchors timecode 0 at the earliest insert by default', () => {
+    expect(reactionEventsToPlaybackFile(v5Events, 'vid').recordingStart).toBe(Date.parse('2026-10-01T10:00:00.000Z'));
+    expect(reactionEventsToPlaybackFile([], 'vid')).toMatchObject({ recordingStart: 0, recordingEnd: 0, events: [] });
+  });
+
+  it('loads an hour-long session', () => {
+    const start = Date.parse('2026-10-01T10:00:00.000Z');
+    const events: ReactionEvent[] = Array.from({ length: 200_000 }, (_, i) => (
+      { id: i, room: 'vid', session_id: `s${i % 50}`, type: 'move', x: 1, y: 1, timecode: i / 50, recorded_at: new Date(start + i * 20).toISOString() }
+    ));
+    const file = reactionEventsToPlaybackFile(events, 'vid');
+    expect(file.recordingStart).toBe(start);
+    expect(file.events).toHaveLength(200_000);
+  });
+});
+
+describe('playbackFileToReactionEvents', () => {
+  it('round-trips a V5 session', () => {
+    const rows = playbackFileToReactionEvents(reactionEventsToPlaybackFile(v5Events, 'vid'), 'vid');
+    expect(rows).toEqual([
+      { room: 'vid', session_id: 's1', type: 'touch', x: 10, y: 20, timecode: 1 },
+      { room: 'vid', session_id: 's2', type: 'move', x: 30, y: 40, timecode: 1 },
+      { room: 'vid', session_id: 's1', type: 'lift', x: null, y: null, timecode: 2.5 },
+    ]);
+  });
+
+  it('drops presence events and places transitions on the anchors', () => {
+    const file: PlaybackFile = {
+      recordingStart: 5000,
+      recordingEnd: 9000,
+      room: 'v4',
+      mode: 'transitions',
+      events: [
+        { connectionId: 'alice', type: 'arrival', timestamp: 5000 },
+        { connectionId: 'alice', from: null, to: 'positive', timestamp: 6000 },
+        { connectionId: 'alice', from: 'positive', to: 'negative', timestamp: 7000 },
+        { connectionId: 'alice', from: 'negative', to: null, timestamp: 8000 },
+      ],
+    };
+    expect(playbackFileToReactionEvents(file, 'vid')).toEqual([
+      { room: 'vid', session_id: 'alice', type: 'touch', ...DEFAULT_ANCHORS.positive, timecode: 1 },
+      { room: 'vid', session_id: 'alice', type: 'move', ...DEFAULT_ANCHORS.negative, timecode: 2 },
+      { room: 'vid', session_id: 'alice', type: 'lift', x: null, y: null, timecode: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { seedLayout, runSeededReducer, DEFAULT_WARM_ITERATIONS, WARM_PROGRESS_INTERVAL } from '../app/workers/warmStart';
+import type { DruidReducer } from '../app/workers/warmStart';
+
+// Stands in for a druidjs reducer: `init()` lays points out on a fixed "random" ring, and
+// each step pulls every point a little towards its neighbours' mean, so where a run ends
+// up depends on where it started.
+class FakeReducer implements DruidReducer {
+  _is_initialized = false;
+  Y: number[][] = [];
+  initCalls = 0;
+
+  constructor(private readonly n: number, private readonly numIters?: number[]) {}
+
+  init() {
+    this.initCalls++;
+    this.Y = Array.from({ length: this.n }, (_, i) => [Math.cos(i * 2.4) * 10, Math.sin(i * 2.4) * 10]);
+  }
+
+  parameter(name: string) {
+    if (name === 'num_iters' && this.numIters) return this.numIters;
+    throw new Error(`unknown parameter ${name}`);
+  }
+
+  *generator(iterations = 350) {
+    if (!this._is_initialized) {
+      this.init();
+      this._is_initialized = true;
+    }
+    for (let step = 0; step < iterations; step++) {
+      this.Y = this.Y.map((p, i) => {
+        const q = this.Y[(i + 1) % this.n];
+        return [p[0] + 0.001 * (q[0] - p[0]), p[1] + 0.001 * (q[1] - p[1])];
+      });
+      yield this.Y;
+    }
+  }
+
+  get projection() {
+    return this.Y;
+  }
+}
+
+const previous: [number, number][] = [[0, 0], [1, 0], [0, 1], [1, 1], [0.5, 0.5]];
+
+function finalCoords(reducer: DruidReducer): [number, number][] {
+  const events = [...runSeededReducer(reducer)];
+  const last = events[events.length - 1];
+  if (last.type !== 'done') throw new Error('run did not finish');
+  return last.coords;
+}
+
+describe('warm-started reducer runs', () => {
+  it('start from the given coords instead of the random layout', () => {
+    const cold = new FakeReducer(previous.length);
+    const warm = new FakeReducer(previous.length);
+    seedLayout(warm, previous, rows => rows);
+
+    const coldCoords = finalCoords(cold);
+    const warmCoords = finalCoords(warm);
+    expect(warm.initCalls).toBe(1);
+    expect(warmCoords).not.toEqual(coldCoords);
+    // Still close to the previous layout, which the cold run never saw.
+    warmCoords.forEach(([x, y], i) => {
+      expect(Math.hypot(x - previous[i][0], y - previous[i][1])).toBeLessThan(0.5);
+    });
+  });
+
+  it('streams progress the way runReducer does, then the final layout', () => {
+    const reducer = new FakeReducer(previous.length);
+    seedLayout(reducer, previous, rows => rows);
+    const events = [...runSeededReducer(reducer)];
+    const progress = events.filter(e => e.type === 'progress');
+    expect(progress).toHaveLength(DEFAULT_WARM_ITERATIONS / WARM_PROGRESS_INTERVAL);
+    expect(progress[0]).toMatchObject({ iteration: WARM_PROGRESS_INTERVAL, total: DEFAULT_WARM_ITERATIONS });
+    expect(events[events.length - 1].type).toBe('done');
+  });
+
+  it('runs the whole num_iters schedule for phased algorithms', () => {
+    const reducer = new FakeReducer(previous.length, [100, 100, 250]);
+    seedLayout(reducer, previous, rows => rows);
+    const progress = [...runSeededReducer(reducer)].filter(e => e.type === 'progress');
+    expect(progress[progress.length - 1]).toMatchObject({ iteration: 450, total: 450 });
+  });
+});